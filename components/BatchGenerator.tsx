@@ -0,0 +1,246 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Upload, FileArchive, Printer, AlertTriangle } from 'lucide-react';
+import { QRType, QrStyle, SymbolOptions } from '../types';
+import { CsvTable, parseCsv } from '../utils/csv';
+import { BATCH_FIELDS, BatchType, ColumnMapping, LABEL_LAYOUTS, autoMapColumns, buildBatchRows, exportBatchZip, labelSheetToPdf } from '../utils/batch';
+import { downloadFile, QR_TYPE_LABELS } from '../utils/qrUtils';
+
+interface BatchGeneratorProps {
+  style: QrStyle;
+  symbolOptions: SymbolOptions;
+  onClose: () => void;
+}
+
+type BatchOutput = 'png' | 'svg' | 'labels';
+
+const BATCH_TYPES = Object.keys(BATCH_FIELDS) as BatchType[];
+const PREVIEW_ROWS = 50;
+
+const selectClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const BatchGenerator: React.FC<BatchGeneratorProps> = ({ style, symbolOptions, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [type, setType] = useState<BatchType>(QRType.URL);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [captionColumn, setCaptionColumn] = useState('');
+  const [output, setOutput] = useState<BatchOutput>('png');
+  const [pixelSize, setPixelSize] = useState('1024');
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyMapping = (nextType: BatchType, headers: string[]) => {
+    const next = autoMapColumns(nextType, headers);
+    setMapping(next);
+    // The first mapped field usually names the row (SSID, URL, name...)
+    setCaptionColumn(Object.values(next).find(Boolean) || '');
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (!parsed.rows.length) throw new Error('CSV dosyasında veri satırı yok');
+      setFileName(file.name);
+      setTable(parsed);
+      applyMapping(type, parsed.headers);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const changeType = (next: BatchType) => {
+    setType(next);
+    if (table) applyMapping(next, table.headers);
+  };
+
+  const rows = useMemo(
+    () => (table ? buildBatchRows(table, type, mapping, captionColumn, symbolOptions) : []),
+    [table, type, mapping, captionColumn, symbolOptions]
+  );
+  const validCount = rows.filter(r => r.symbol).length;
+  const missingRequired = BATCH_FIELDS[type].filter(f => f.required && !mapping[f.key]);
+
+  const handleExport = async () => {
+    setError(null);
+    const options = { quietZone: symbolOptions.quietZone, transparent: false, style };
+    const base = fileName.replace(/\.[^.]+$/, '') || 'qr-toplu';
+    try {
+      if (output === 'labels') {
+        const layout = LABEL_LAYOUTS.find(l => l.id === layoutId) || LABEL_LAYOUTS[0];
+        setProgress('Etiket sayfası hazırlanıyor');
+        const bytes = await labelSheetToPdf(rows, layout, options);
+        downloadFile(`${base}-etiketler.pdf`, new Blob([bytes], { type: 'application/pdf' }));
+      } else {
+        const size = parseInt(pixelSize, 10);
+        if (output === 'png' && !(size >= 64 && size <= 4096)) throw new Error('Boyut 64 ile 4096 piksel arasında olmalı');
+        const bytes = await exportBatchZip(rows, type, output, options, size, (done, total) => setProgress(`${done} / ${total} kod hazırlandı`));
+        downloadFile(`${base}.zip`, new Blob([bytes], { type: 'application/zip' }));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Toplu Üretim</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 py-4 rounded-xl border border-dashed border-neutral-700 text-neutral-300 hover:bg-neutral-800 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          <span className="text-sm">{table ? `${fileName} · ${table.rows.length} satır` : 'CSV dosyası seç'}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+
+        {table && (
+          <>
+            <div className="space-y-2">
+              <label className="text-xs text-neutral-500 ml-1">Kod türü</label>
+              <select className={selectClass} value={type} onChange={(e) => changeType(e.target.value as BatchType)}>
+                {BATCH_TYPES.map(t => (
+                  <option key={t} value={t}>{QR_TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {BATCH_FIELDS[type].map(field => (
+                <div key={field.key} className="space-y-1">
+                  <label className="text-xs text-neutral-500 ml-1">
+                    {field.label}
+                    {field.required && <span className="text-red-400"> *</span>}
+                  </label>
+                  <select className={selectClass} value={mapping[field.key] || ''} onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}>
+                    <option value="">—</option>
+                    {table.headers.map(h => (
+                      <option key={h} value={h}>{h}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <label className="text-xs text-neutral-500 ml-1">Etiket altı yazısı</label>
+                <select className={selectClass} value={captionColumn} onChange={(e) => setCaptionColumn(e.target.value)}>
+                  <option value="">Yok</option>
+                  {table.headers.map(h => (
+                    <option key={h} value={h}>{h}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="flex items-center gap-2 text-xs text-amber-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                Eşlenmemiş zorunlu alan: {missingRequired.map(f => f.label).join(', ')}
+              </p>
+            )}
+
+            <div className="rounded-xl border border-neutral-800 overflow-hidden">
+              <div className="max-h-64 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-neutral-950 text-neutral-500 sticky top-0">
+                    <tr>
+                      <th className="text-left font-medium px-3 py-2 w-12">Satır</th>
+                      <th className="text-left font-medium px-3 py-2">Yazı</th>
+                      <th className="text-left font-medium px-3 py-2">İçerik</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.slice(0, PREVIEW_ROWS).map(row => (
+                      <tr key={row.line} className="border-t border-neutral-800">
+                        <td className="px-3 py-2 text-neutral-500">{row.line}</td>
+                        <td className="px-3 py-2 text-neutral-300 truncate max-w-[8rem]">{row.caption}</td>
+                        <td className={`px-3 py-2 font-mono truncate max-w-[16rem] ${row.error ? 'text-red-400' : 'text-neutral-400'}`}>
+                          {row.error || row.data}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="px-3 py-2 text-xs text-neutral-500 border-t border-neutral-800 bg-neutral-950">
+                {validCount} / {rows.length} satır üretilecek
+                {rows.length > PREVIEW_ROWS && ` · ilk ${PREVIEW_ROWS} satır gösteriliyor`}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                { id: 'png', label: 'ZIP · PNG', icon: FileArchive },
+                { id: 'svg', label: 'ZIP · SVG', icon: FileArchive },
+                { id: 'labels', label: 'Etiket PDF', icon: Printer }
+              ] as Array<{ id: BatchOutput; label: string; icon: typeof Printer }>).map(o => (
+                <button
+                  key={o.id}
+                  onClick={() => setOutput(o.id)}
+                  className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm border transition-colors ${
+                    output === o.id ? 'bg-white text-black border-white' : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+                  }`}
+                >
+                  <o.icon className="w-4 h-4" />
+                  {o.label}
+                </button>
+              ))}
+            </div>
+
+            {output === 'png' && (
+              <div className="space-y-1">
+                <label className="text-xs text-neutral-500 ml-1">Boyut (piksel)</label>
+                <input type="number" className={selectClass} value={pixelSize} onChange={(e) => setPixelSize(e.target.value)} />
+              </div>
+            )}
+
+            {output === 'labels' && (
+              <div className="space-y-1">
+                <label className="text-xs text-neutral-500 ml-1">Etiket düzeni</label>
+                <select className={selectClass} value={layoutId} onChange={(e) => setLayoutId(e.target.value)}>
+                  {LABEL_LAYOUTS.map(l => (
+                    <option key={l.id} value={l.id}>{l.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+
+        {table && (
+          <button
+            onClick={handleExport}
+            disabled={!validCount || !!progress}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+          >
+            {progress || `${validCount} kodu dışa aktar`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchGenerator;
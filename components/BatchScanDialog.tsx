@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, FilePlus, FolderPlus, FileText, FileJson, Loader2, AlertTriangle } from 'lucide-react';
+import { Symbology } from '../types';
+import { actionRegistry } from '../utils/actionRegistry';
+import { DecodedBarcode } from '../utils/symbology';
+import { BatchScanRow, batchRowsToCsv, batchRowsToJson, isScannableFile, scanBatchFile } from '../utils/batchScan';
+import { downloadFile, QR_TYPE_LABELS } from '../utils/qrUtils';
+
+interface BatchScanDialogProps {
+  files: File[];
+  symbologies: Symbology[];
+  detect?: (source: ImageBitmapSource) => Promise<DecodedBarcode[]>;
+  onClose: () => void;
+}
+
+interface FileEntry {
+  file: File;
+  // Folder picks report the path inside the folder
+  name: string;
+  status: 'pending' | 'scanning' | 'done' | 'error';
+  page?: number;
+  pageCount?: number;
+  count: number;
+  warnings: string[];
+  error?: string;
+}
+
+const PREVIEW_ROWS = 50;
+
+const toEntry = (file: File): FileEntry => ({
+  file,
+  name: file.webkitRelativePath || file.name || 'Yapıştırılan görsel',
+  status: 'pending',
+  count: 0,
+  warnings: []
+});
+
+const describeEntry = (entry: FileEntry) => {
+  switch (entry.status) {
+    case 'pending':
+      return 'Sırada';
+    case 'scanning':
+      return entry.pageCount && entry.pageCount > 1 ? `Taranıyor · sayfa ${entry.page} / ${entry.pageCount}` : 'Taranıyor';
+    case 'done':
+      return entry.count ? `${entry.count} kod` : 'Kod yok';
+    case 'error':
+      return entry.error;
+  }
+};
+
+const BatchScanDialog: React.FC<BatchScanDialogProps> = ({ files, symbologies, detect, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [entries, setEntries] = useState<FileEntry[]>(() => files.map(toEntry));
+  const [rows, setRows] = useState<BatchScanRow[]>([]);
+  // Index of the file being read; files are read one at a time in the order they were added
+  const [cursor, setCursor] = useState(0);
+  const [skipped, setSkipped] = useState(0);
+  const busy = cursor < entries.length;
+
+  const updateEntry = (index: number, patch: Partial<FileEntry>) =>
+    setEntries(prev => prev.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+
+  // Adding files while one is being read leaves busy unchanged, so the running scan is not restarted
+  useEffect(() => {
+    if (!busy) return;
+    const index = cursor;
+    const entry = entries[index];
+    const controller = new AbortController();
+    const { signal } = controller;
+    updateEntry(index, { status: 'scanning' });
+    scanBatchFile(entry.file, symbologies, {
+      detect,
+      signal,
+      onPage: (page, pageCount) => {
+        if (!signal.aborted) updateEntry(index, { page, pageCount });
+      }
+    })
+      .then(({ codes, warnings }) => {
+        if (signal.aborted) return;
+        setRows(prev => [
+          ...prev,
+          ...codes.map(({ page, code }) => ({
+            file: entry.name,
+            page,
+            type: actionRegistry.classify(code.text).type,
+            symbology: code.symbology,
+            payload: code.text
+          }))
+        ]);
+        updateEntry(index, { status: 'done', count: codes.length, warnings });
+        setCursor(index + 1);
+      })
+      .catch(e => {
+        if (signal.aborted) return;
+        updateEntry(index, { status: 'error', error: e instanceof Error ? e.message : String(e) });
+        setCursor(index + 1);
+      });
+    return () => controller.abort();
+  }, [cursor, busy]);
+
+  const addFiles = (list: FileList | null) => {
+    const picked = Array.from(list || []);
+    const scannable = picked.filter(isScannableFile);
+    setSkipped(picked.length - scannable.length);
+    if (scannable.length) setEntries(prev => [...prev, ...scannable.map(toEntry)]);
+  };
+
+  const finished = entries.filter(e => e.status === 'done' || e.status === 'error').length;
+  const base = `tarama-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div id="batch-scan-modal" className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Toplu Tarama</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-neutral-700 text-neutral-300 hover:bg-neutral-800 transition-colors"
+          >
+            <FilePlus className="w-4 h-4" />
+            <span className="text-sm">Dosya Ekle</span>
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-neutral-700 text-neutral-300 hover:bg-neutral-800 transition-colors"
+          >
+            <FolderPlus className="w-4 h-4" />
+            <span className="text-sm">Klasör Ekle</span>
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept="image/*,application/pdf"
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          // Not in React's input typings
+          {...{ webkitdirectory: '' }}
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        {skipped > 0 && <p className="text-xs text-neutral-500 ml-1">Görsel veya PDF olmayan {skipped} dosya atlandı.</p>}
+
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-neutral-500 ml-1">
+              <span>{finished} / {entries.length} dosya tarandı</span>
+              <span>{rows.length} kod</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-neutral-800 overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(finished / entries.length) * 100}%` }} />
+            </div>
+            <div className="max-h-48 overflow-y-auto rounded-xl border border-neutral-800 divide-y divide-neutral-800">
+              {entries.map((entry, i) => (
+                <div key={i} className="px-3 py-2 space-y-1">
+                  <div className="flex items-center gap-2 text-xs">
+                    {entry.status === 'scanning' ? (
+                      <Loader2 className="w-3.5 h-3.5 shrink-0 text-indigo-400 animate-spin" />
+                    ) : (
+                      <FileText className="w-3.5 h-3.5 shrink-0 text-neutral-500" />
+                    )}
+                    <span className="flex-1 truncate text-neutral-300">{entry.name}</span>
+                    <span className={`shrink-0 ${entry.status === 'error' ? 'text-red-400' : 'text-neutral-500'}`}>{describeEntry(entry)}</span>
+                  </div>
+                  {entry.warnings.map((w, j) => (
+                    <p key={j} className="flex items-center gap-1.5 text-[11px] text-amber-400 ml-5">
+                      <AlertTriangle className="w-3 h-3 shrink-0" />
+                      {w}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <div className="rounded-xl border border-neutral-800 overflow-hidden">
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-neutral-950 text-neutral-500 sticky top-0">
+                  <tr>
+                    <th className="text-left font-medium px-3 py-2">Dosya</th>
+                    <th className="text-left font-medium px-3 py-2 w-12">Sayfa</th>
+                    <th className="text-left font-medium px-3 py-2">Tür</th>
+                    <th className="text-left font-medium px-3 py-2">İçerik</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="border-t border-neutral-800">
+                      <td className="px-3 py-2 text-neutral-300 truncate max-w-[8rem]">{row.file}</td>
+                      <td className="px-3 py-2 text-neutral-500">{row.page ?? '—'}</td>
+                      <td className="px-3 py-2 text-neutral-400 whitespace-nowrap">{QR_TYPE_LABELS[row.type]}</td>
+                      <td className="px-3 py-2 font-mono text-neutral-400 truncate max-w-[16rem]">{row.payload}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > PREVIEW_ROWS && (
+              <p className="px-3 py-2 text-xs text-neutral-500 border-t border-neutral-800 bg-neutral-950">
+                ilk {PREVIEW_ROWS} satır gösteriliyor
+              </p>
+            )}
+          </div>
+        )}
+
+        {entries.length > 0 && finished === entries.length && rows.length === 0 && (
+          <p className="text-sm text-neutral-400">Dosyalarda okunabilir kod bulunamadı.</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            // The BOM makes Excel read the file as UTF-8
+            onClick={() => downloadFile(`${base}.csv`, new Blob(['\ufeff' + batchRowsToCsv(rows)], { type: 'text/csv' }))}
+            disabled={!rows.length || busy}
+            className="flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+          >
+            <FileText className="w-4 h-4" />
+            CSV indir
+          </button>
+          <button
+            onClick={() => downloadFile(`${base}.json`, batchRowsToJson(rows), 'application/json')}
+            disabled={!rows.length || busy}
+            className="flex items-center justify-center gap-2 py-3 rounded-xl bg-neutral-800 text-white text-sm font-medium hover:bg-neutral-700 transition-colors disabled:opacity-40"
+          >
+            <FileJson className="w-4 h-4" />
+            JSON indir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchScanDialog;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ContactConfig, ContactFormat } from '../types';
+
+interface ContactFormProps {
+  value: ContactConfig;
+  format: ContactFormat;
+  onChange: (value: ContactConfig) => void;
+  onFormatChange: (format: ContactFormat) => void;
+}
+
+const inputClass = "w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const ContactForm: React.FC<ContactFormProps> = ({ value, format, onChange, onFormatChange }) => {
+  const set = <K extends keyof ContactConfig>(key: K, v: ContactConfig[K]) => onChange({ ...value, [key]: v });
+
+  const renderList = (key: 'phones' | 'emails', label: string, type: string, placeholder: string) => (
+    <div className="space-y-2">
+      <label className="text-sm text-neutral-400 ml-1">{label}</label>
+      {value[key].map((item, i) => (
+        <div key={i} className="flex gap-2">
+          <input
+            type={type}
+            placeholder={placeholder}
+            className={inputClass}
+            value={item}
+            onChange={(e) => set(key, value[key].map((v, j) => (j === i ? e.target.value : v)))}
+          />
+          {value[key].length > 1 && (
+            <button
+              onClick={() => set(key, value[key].filter((_, j) => j !== i))}
+              className="px-4 bg-neutral-900 border border-neutral-800 rounded-xl text-neutral-500 hover:text-red-400 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => set(key, [...value[key], ''])}
+        className="flex items-center gap-2 ml-1 text-sm text-indigo-400 hover:text-indigo-300"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Ekle</span>
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Format</label>
+        <select
+          className={`${inputClass} appearance-none`}
+          value={format}
+          onChange={(e) => onFormatChange(e.target.value as ContactFormat)}
+        >
+          <option value="vcard3">vCard 3.0</option>
+          <option value="vcard4">vCard 4.0</option>
+          <option value="mecard">MECARD (kısa)</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Ad</label>
+          <input type="text" placeholder="Ayşe" className={inputClass} value={value.firstName} onChange={(e) => set('firstName', e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Soyad</label>
+          <input type="text" placeholder="Yılmaz" className={inputClass} value={value.lastName} onChange={(e) => set('lastName', e.target.value)} />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Kurum</label>
+        <input type="text" placeholder="Şirket Adı" className={inputClass} value={value.org} onChange={(e) => set('org', e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Unvan</label>
+        <input
+          type="text"
+          placeholder={format === 'mecard' ? 'MECARD unvan alanını desteklemez' : 'Satış Müdürü'}
+          disabled={format === 'mecard'}
+          className={`${inputClass} disabled:opacity-40`}
+          value={value.title}
+          onChange={(e) => set('title', e.target.value)}
+        />
+      </div>
+      {renderList('phones', 'Telefon', 'tel', '+90 555 123 45 67')}
+      {renderList('emails', 'E-posta', 'email', 'ornek@site.com')}
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Adres</label>
+        <textarea
+          rows={2}
+          placeholder="Cadde, No, İlçe, Şehir"
+          className={`${inputClass} resize-none`}
+          value={value.address}
+          onChange={(e) => set('address', e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Web Sitesi</label>
+        <input type="url" placeholder="https://example.com" className={inputClass} value={value.url} onChange={(e) => set('url', e.target.value)} />
+      </div>
+    </div>
+  );
+};
+
+export default ContactForm;
@@ -0,0 +1,93 @@
+import React, { useMemo } from 'react';
+import { EventConfig } from '../types';
+import { localTimeZone } from '../utils/calendar';
+
+interface EventFormProps {
+  value: EventConfig;
+  onChange: (value: EventConfig) => void;
+}
+
+const inputClass = "w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const EventForm: React.FC<EventFormProps> = ({ value, onChange }) => {
+  const set = <K extends keyof EventConfig>(key: K, v: EventConfig[K]) => onChange({ ...value, [key]: v });
+
+  const timeZones = useMemo(() => {
+    const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    return Array.from(new Set([localTimeZone(), 'UTC', ...zones]));
+  }, []);
+
+  const toggleAllDay = (allDay: boolean) => {
+    // Date inputs want "YYYY-MM-DD", datetime inputs want "YYYY-MM-DDTHH:mm"
+    const convert = (wall: string) => (allDay ? wall.slice(0, 10) : wall.length === 10 ? `${wall}T09:00` : wall);
+    onChange({ ...value, allDay, start: convert(value.start), end: convert(value.end) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Başlık</label>
+        <input type="text" placeholder="Haftalık Toplantı" className={inputClass} value={value.title} onChange={(e) => set('title', e.target.value)} />
+      </div>
+      <label className="flex items-center gap-3 ml-1 text-sm text-neutral-400 cursor-pointer">
+        <input
+          type="checkbox"
+          className="w-4 h-4 accent-indigo-500"
+          checked={value.allDay}
+          onChange={(e) => toggleAllDay(e.target.checked)}
+        />
+        Tüm Gün
+      </label>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Başlangıç</label>
+          <input
+            type={value.allDay ? 'date' : 'datetime-local'}
+            className={`${inputClass} [color-scheme:dark]`}
+            value={value.start}
+            onChange={(e) => set('start', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Bitiş</label>
+          <input
+            type={value.allDay ? 'date' : 'datetime-local'}
+            className={`${inputClass} [color-scheme:dark]`}
+            value={value.end}
+            min={value.start}
+            onChange={(e) => set('end', e.target.value)}
+          />
+        </div>
+      </div>
+      {!value.allDay && (
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Saat Dilimi</label>
+          <select
+            className={`${inputClass} appearance-none`}
+            value={value.timezone}
+            onChange={(e) => set('timezone', e.target.value)}
+          >
+            <option value="">Yerel saat (dilimsiz)</option>
+            {timeZones.map(tz => <option key={tz} value={tz}>{tz}</option>)}
+          </select>
+        </div>
+      )}
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Konum</label>
+        <input type="text" placeholder="Toplantı Odası 3" className={inputClass} value={value.location} onChange={(e) => set('location', e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Açıklama</label>
+        <textarea
+          rows={3}
+          placeholder="Gündem..."
+          className={`${inputClass} resize-none`}
+          value={value.description}
+          onChange={(e) => set('description', e.target.value)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EventForm;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { QRType, QrStyle } from '../types';
+import { QrSymbol } from '../utils/qrEncoder';
+import { ExportFormat, ExportOptions, exportFileName, mmToPixels, symbolToPdf, symbolToPng, symbolToSvg } from '../utils/qrExport';
+import { downloadFile } from '../utils/qrUtils';
+
+interface ExportDialogProps {
+  data: string;
+  type: QRType;
+  symbol: QrSymbol;
+  quietZone: number;
+  style: QrStyle;
+  onClose: () => void;
+}
+
+type PngSizeMode = 'px' | 'dpi';
+
+const FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: 'png', label: 'PNG' },
+  { id: 'svg', label: 'SVG' },
+  { id: 'pdf', label: 'PDF' }
+];
+
+const inputClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ data, type, symbol, quietZone, style, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('png');
+  const [sizeMode, setSizeMode] = useState<PngSizeMode>('px');
+  const [pixelSize, setPixelSize] = useState('1024');
+  const [dpi, setDpi] = useState('300');
+  const [widthMm, setWidthMm] = useState('50');
+  const [transparent, setTransparent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options: ExportOptions = { quietZone, transparent, style };
+  const fileName = exportFileName(data, type, format);
+  const dim = symbol.size + quietZone * 2;
+
+  const parsedPixels = sizeMode === 'px' ? parseInt(pixelSize, 10) : mmToPixels(parseFloat(widthMm), parseInt(dpi, 10));
+  const parsedWidthMm = parseFloat(widthMm);
+
+  const validate = () => {
+    if (format === 'png' && !(parsedPixels >= dim && parsedPixels <= 16384)) return `Boyut ${dim} ile 16384 piksel arasında olmalı`;
+    if ((format === 'pdf' || (format === 'png' && sizeMode === 'dpi')) && !(parsedWidthMm >= 5 && parsedWidthMm <= 200)) {
+      return 'Baskı genişliği 5 ile 200 mm arasında olmalı';
+    }
+    return null;
+  };
+  const validationError = validate();
+
+  const handleExport = async () => {
+    if (validationError) return;
+    try {
+      if (format === 'svg') {
+        downloadFile(fileName, await symbolToSvg(symbol, options), 'image/svg+xml');
+      } else if (format === 'pdf') {
+        const bytes = await symbolToPdf(symbol, parsedWidthMm, options);
+        downloadFile(fileName, new Blob([bytes], { type: 'application/pdf' }));
+      } else {
+        const blob = await symbolToPng(symbol, parsedPixels, options, sizeMode === 'dpi' ? parseInt(dpi, 10) : undefined);
+        downloadFile(fileName, blob);
+      }
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-sm bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Dışa Aktar</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              className={`px-3 py-2 rounded-lg text-sm border transition-colors ${
+                format === f.id
+                  ? 'bg-white text-black border-white'
+                  : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        {format === 'png' && (
+          <div className="space-y-3">
+            <div className="flex gap-2 text-sm">
+              {(['px', 'dpi'] as PngSizeMode[]).map(mode => (
+                <label key={mode} className="flex items-center gap-2 text-neutral-300">
+                  <input type="radio" checked={sizeMode === mode} onChange={() => setSizeMode(mode)} className="accent-indigo-500" />
+                  {mode === 'px' ? 'Piksel' : 'Baskı (DPI)'}
+                </label>
+              ))}
+            </div>
+            {sizeMode === 'px' ? (
+              <input type="number" className={inputClass} value={pixelSize} onChange={(e) => setPixelSize(e.target.value)} />
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <input type="number" className={inputClass} value={widthMm} onChange={(e) => setWidthMm(e.target.value)} title="Genişlik (mm)" />
+                <input type="number" className={inputClass} value={dpi} onChange={(e) => setDpi(e.target.value)} title="DPI" />
+              </div>
+            )}
+            {!validationError && (
+              <p className="text-xs text-neutral-500 ml-1">{parsedPixels}×{parsedPixels} piksel, modül başına ~{(parsedPixels / dim).toFixed(1)} piksel</p>
+            )}
+          </div>
+        )}
+
+        {format === 'pdf' && (
+          <div className="space-y-1">
+            <label className="text-xs text-neutral-500 ml-1">Baskı genişliği (mm), A4 sayfa ortasında</label>
+            <input type="number" className={inputClass} value={widthMm} onChange={(e) => setWidthMm(e.target.value)} />
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-neutral-300">
+          <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} className="accent-indigo-500" />
+          Şeffaf arka plan
+        </label>
+
+        {(validationError || error) && <p className="text-xs text-red-400 ml-1">{validationError || error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={!!validationError}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" />
+          <span className="truncate">{fileName}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Upload, Play, Pause } from 'lucide-react';
+import { MAX_TRANSFER_SIZE, TransferSender, createTransferSender, formatFileSize } from '../utils/fileTransfer';
+import { encodeText } from '../utils/qrEncoder';
+import { DEFAULT_QR_STYLE } from '../utils/qrStyle';
+import StyledQrCode from './StyledQrCode';
+
+interface FileTransferDialogProps {
+  onClose: () => void;
+}
+
+// Bytes of file data per frame; larger frames need fewer of them but a steadier camera
+const BLOCK_SIZES = [
+  { size: 150, label: 'Küçük' },
+  { size: 300, label: 'Orta' },
+  { size: 500, label: 'Büyük' }
+];
+
+const FRAME_RATES = [3, 5, 8, 10];
+
+const selectClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const FileTransferDialog: React.FC<FileTransferDialogProps> = ({ onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [blockSize, setBlockSize] = useState(300);
+  const [fps, setFps] = useState(5);
+  const [sender, setSender] = useState<TransferSender | null>(null);
+  const [frameId, setFrameId] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setSender(null);
+    setRunning(false);
+    setFrameId(0);
+    createTransferSender(file, blockSize)
+      .then(next => {
+        if (!cancelled) setSender(next);
+      })
+      .catch(e => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, blockSize]);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setFrameId(id => id + 1), 1000 / fps);
+    return () => clearInterval(timer);
+  }, [running, fps]);
+
+  // M level: the fountain code already covers lost frames, so error correction only has to cope with glare
+  const symbol = useMemo(() => (sender ? encodeText(sender.frame(frameId), 'M') : null), [sender, frameId]);
+
+  const handleFile = (next: File) => {
+    setError(null);
+    if (next.size > MAX_TRANSFER_SIZE) {
+      setError(`Dosya en fazla ${MAX_TRANSFER_SIZE / 1024} KB olabilir`);
+      return;
+    }
+    setFile(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Dosya Gönder</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full flex items-center justify-center gap-2 py-4 rounded-xl border border-dashed border-neutral-700 text-neutral-300 hover:bg-neutral-800 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          <span className="text-sm truncate">{file ? `${file.name} · ${formatFileSize(file.size)}` : `Dosya seç (en fazla ${MAX_TRANSFER_SIZE / 1024} KB)`}</span>
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const next = e.target.files?.[0];
+            if (next) handleFile(next);
+            e.target.value = '';
+          }}
+        />
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <label className="text-xs text-neutral-500 ml-1">Kare boyutu</label>
+            <select className={selectClass} value={blockSize} onChange={(e) => setBlockSize(parseInt(e.target.value, 10))}>
+              {BLOCK_SIZES.map(b => (
+                <option key={b.size} value={b.size}>{b.label} ({b.size} B)</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-neutral-500 ml-1">Hız</label>
+            <select className={selectClass} value={fps} onChange={(e) => setFps(parseInt(e.target.value, 10))}>
+              {FRAME_RATES.map(r => (
+                <option key={r} value={r}>{r} kare/sn</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+
+        {sender && symbol && (
+          <div className="flex flex-col items-center gap-3">
+            <div className="rounded-xl overflow-hidden">
+              <StyledQrCode symbol={symbol} style={DEFAULT_QR_STYLE} quietZone={4} size={300} />
+            </div>
+            <p className="text-xs text-neutral-400 text-center">
+              Kare {frameId + 1} · {sender.blockCount} blok · en az ~{Math.ceil((sender.blockCount * 1.2) / fps)} sn
+            </p>
+            <p className="text-[11px] text-neutral-500 text-center">
+              Alıcı telefonda Okut sekmesini açıp kameraya tutun; kaçan kareler sorun değil, akış kendini tamamlar.
+            </p>
+          </div>
+        )}
+
+        <button
+          onClick={() => setRunning(!running)}
+          disabled={!sender}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+        >
+          {running ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          {running ? 'Durdur' : 'Gönderimi Başlat'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FileTransferDialog;
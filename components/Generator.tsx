@@ -1,57 +1,253 @@
-import React, { useState, useRef } from 'react';
-import { QRCodeCanvas } from 'qrcode.react';
-import { Download, Link, Type, Mail, Wifi, MapPin, Phone, Copy } from 'lucide-react';
-import { QRType, WifiConfig, GeoConfig, EmailConfig } from '../types';
-import { generateWifiString, generateGeoString, generateEmailString } from '../utils/qrUtils';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Download, Link, Type, Mail, Wifi, MapPin, Phone, Copy, IdCard, CalendarDays, MessageSquare, CreditCard, AlertTriangle, Layers, BookmarkPlus, Library, LayoutGrid, Send, Lock } from 'lucide-react';
+import { QRType, WifiConfig, GeoConfig, EmailConfig, ContactConfig, ContactFormat, EventConfig, SmsConfig, PaymentConfig, SymbolOptions, QrStyle, GeneratorInputs, SavedCode, SigningKey } from '../types';
+import { QR_TYPE_LABELS, hasErrors, validateInputs } from '../utils/qrUtils';
+import { emptyContact } from '../utils/contact';
+import { defaultEvent } from '../utils/calendar';
+import { defaultPayment } from '../utils/emvco';
+import { buildPayload, createSavedCode, saveCode } from '../utils/library';
+import { analyzeCapacity, loadSymbolOptions, saveSymbolOptions } from '../utils/qrEncoder';
+import { sealPayload } from '../utils/protectedPayload';
+import { loadSigningKey, signPayload } from '../utils/signing';
+import { ScanCheck, checkStyleContrast, effectiveSymbolOptions, loadQrStyle, saveQrStyle, verifyStyledSymbol } from '../utils/qrStyle';
+import ContactForm from './ContactForm';
+import EventForm from './EventForm';
+import GeoForm from './GeoForm';
+import PaymentForm from './PaymentForm';
+import SymbolOptionsPanel from './SymbolOptionsPanel';
+import ExportDialog from './ExportDialog';
+import StyleOptionsPanel from './StyleOptionsPanel';
+import StyledQrCode from './StyledQrCode';
+import BatchGenerator from './BatchGenerator';
+import SaveCodeDialog from './SaveCodeDialog';
+import LibraryPanel from './LibraryPanel';
+import StructuredAppendDialog from './StructuredAppendDialog';
+import FileTransferDialog from './FileTransferDialog';
+import SigningKeyPanel from './SigningKeyPanel';
+
+const fieldClass = (error?: string) =>
+  `w-full bg-neutral-900 border rounded-xl p-4 text-white focus:outline-none transition-all ${
+    error ? 'border-red-500/60 focus:border-red-500' : 'border-neutral-800 focus:border-indigo-500'
+  }`;
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-xs text-red-400 ml-1">{message}</p> : null;
 
 const Generator: React.FC = () => {
   const [selectedType, setSelectedType] = useState<QRType>(QRType.URL);
-  const [qrValue, setQrValue] = useState<string>('https://google.com');
+  // null while the form cannot be encoded, e.g. payment fields beyond EMV limits
+  const [qrValue, setQrValue] = useState<string | null>('https://google.com');
   
   // Specific inputs state
   const [urlInput, setUrlInput] = useState('');
   const [textInput, setTextInput] = useState('');
   const [phoneInput, setPhoneInput] = useState('');
-  const [wifiInput, setWifiInput] = useState<WifiConfig>({ ssid: '', password: '', encryption: 'WPA' });
+  const [smsInput, setSmsInput] = useState<SmsConfig>({ number: '', body: '' });
+  const [wifiInput, setWifiInput] = useState<WifiConfig>({ ssid: '', password: '', encryption: 'WPA', hidden: false });
   const [geoInput, setGeoInput] = useState<GeoConfig>({ lat: '', lng: '' });
   const [emailInput, setEmailInput] = useState<EmailConfig>({ to: '', subject: '', body: '' });
+  const [contactInput, setContactInput] = useState<ContactConfig>(emptyContact);
+  const [contactFormat, setContactFormat] = useState<ContactFormat>('vcard3');
+  const [eventInput, setEventInput] = useState<EventConfig>(defaultEvent);
+  const [paymentInput, setPaymentInput] = useState<PaymentConfig>(defaultPayment);
+
+  // Signing and passphrase protection: the symbol carries the signed and/or sealed payload
+  const [sign, setSign] = useState(false);
+  const [signingKey, setSigningKey] = useState<SigningKey | null>(null);
+  const [protect, setProtect] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [secured, setSecured] = useState<string | null>(null);
+  const [secureError, setSecureError] = useState<string | null>(null);
+  // null until the secured payload is ready, so the plain payload never shows in its place
+  const payload = qrValue === null ? null : sign || protect ? secured : qrValue;
+
+  const [symbolOptions, setSymbolOptions] = useState<SymbolOptions>(loadSymbolOptions);
 
-  const qrRef = useRef<HTMLDivElement>(null);
+  const [style, setStyle] = useState<QrStyle>(loadQrStyle);
+  const [scanCheck, setScanCheck] = useState<ScanCheck | null>(null);
+
+  // A logo hides part of the symbol, so it may need more error correction than the level chosen
+  const effectiveOptions = useMemo(() => effectiveSymbolOptions(symbolOptions, style), [symbolOptions, style]);
+  const forcedEcLevel = effectiveOptions.ecLevel !== symbolOptions.ecLevel ? effectiveOptions.ecLevel : null;
+
+  const capacity = useMemo(() => analyzeCapacity(payload ?? '', effectiveOptions), [payload, effectiveOptions]);
+  const styleWarnings = useMemo(() => checkStyleContrast(style), [style]);
+
+  const updateSymbolOptions = (next: SymbolOptions) => {
+    setSymbolOptions(next);
+    saveSymbolOptions(next);
+  };
+
+  const updateStyle = (next: QrStyle) => {
+    setStyle(next);
+    saveQrStyle(next);
+  };
+
+  useEffect(() => {
+    loadSigningKey()
+      .then(key => setSigningKey(key ?? null))
+      .catch(() => setSigningKey(null));
+  }, []);
+
+  // The signature goes inside the envelope, so only those who know the passphrase see who signed.
+  // Key derivation is deliberately slow, so sealing waits until typing pauses.
+  useEffect(() => {
+    setSecured(null);
+    setSecureError(null);
+    if (qrValue === null || !(sign || protect) || (sign && !signingKey) || (protect && !passphrase)) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        let value = qrValue;
+        if (sign && signingKey) value = await signPayload(value, signingKey);
+        if (protect) value = await sealPayload(value, passphrase);
+        if (!cancelled) setSecured(value);
+      } catch (e) {
+        // No code rather than the previous one, which no longer matches the form
+        if (!cancelled) setSecureError(e instanceof Error ? e.message : String(e));
+      }
+    }, protect ? 500 : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sign, signingKey, protect, passphrase, qrValue]);
+
+  // Decode the styled render with jsQR; debounced so dragging a slider does not queue a check per step
+  useEffect(() => {
+    const symbol = capacity.symbol;
+    if (!symbol || payload === null) return;
+    let cancelled = false;
+    setScanCheck(null);
+    const timer = setTimeout(async () => {
+      const result = await verifyStyledSymbol(symbol, style, symbolOptions.quietZone, payload).catch(() => ({ decoded: false, matches: false }));
+      if (!cancelled) setScanCheck(result);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [capacity.symbol, style, symbolOptions.quietZone, payload]);
+
+  const [showExport, setShowExport] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [showSave, setShowSave] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  // The library entry currently loaded in the editor, so saving can update it in place
+  const [editingCode, setEditingCode] = useState<SavedCode | null>(null);
+
+  // Form state of the selected type, as stored in the library
+  const currentInputs = useMemo((): GeneratorInputs => {
+    switch (selectedType) {
+      case QRType.TEXT:
+        return { type: QRType.TEXT, text: textInput };
+      case QRType.PHONE:
+        return { type: QRType.PHONE, phone: phoneInput };
+      case QRType.SMS:
+        return { type: QRType.SMS, sms: smsInput };
+      case QRType.WIFI:
+        return { type: QRType.WIFI, wifi: wifiInput };
+      case QRType.GEO:
+        return { type: QRType.GEO, geo: geoInput };
+      case QRType.EMAIL:
+        return { type: QRType.EMAIL, email: emailInput };
+      case QRType.CONTACT:
+        return { type: QRType.CONTACT, contact: contactInput, format: contactFormat };
+      case QRType.EVENT:
+        return { type: QRType.EVENT, event: eventInput };
+      case QRType.PAYMENT:
+        return { type: QRType.PAYMENT, payment: paymentInput };
+      default:
+        return { type: QRType.URL, url: urlInput };
+    }
+  }, [selectedType, urlInput, textInput, phoneInput, smsInput, wifiInput, geoInput, emailInput, contactInput, contactFormat, eventInput, paymentInput]);
+
+  const inputErrors = useMemo(() => validateInputs(currentInputs), [currentInputs]);
+  const invalid = hasErrors(inputErrors);
+  // Empty fields are only flagged once a download was attempted, so a fresh form is not all red
+  const [showAllErrors, setShowAllErrors] = useState(false);
+  const [confirmInvalid, setConfirmInvalid] = useState(false);
+  const fieldError = (key: string, value: string) => (showAllErrors || value.trim() ? inputErrors[key] : undefined);
+
+  useEffect(() => {
+    setShowAllErrors(false);
+    setConfirmInvalid(false);
+  }, [selectedType]);
 
   const handleDownload = () => {
-    const canvas = qrRef.current?.querySelector('canvas');
-    if (canvas) {
-      const url = canvas.toDataURL('image/png');
-      const link = document.createElement('a');
-      link.download = `qrcode-${Date.now()}.png`;
-      link.href = url;
-      link.click();
+    if (invalid) {
+      setShowAllErrors(true);
+      setConfirmInvalid(true);
+    } else {
+      setShowExport(true);
     }
   };
 
   // Update Main QR Value based on type and inputs
   React.useEffect(() => {
-    switch (selectedType) {
+    try {
+      setQrValue(buildPayload(currentInputs));
+    } catch {
+      // Over-long payment fields are reported inline by PaymentForm; an older code would not match
+      // the amount or merchant on screen, so there is none to export until they are fixed
+      setQrValue(null);
+    }
+  }, [currentInputs]);
+
+  const applyInputs = (inputs: GeneratorInputs) => {
+    setSelectedType(inputs.type);
+    switch (inputs.type) {
       case QRType.URL:
-        setQrValue(urlInput || 'https://');
+        setUrlInput(inputs.url);
         break;
       case QRType.TEXT:
-        setQrValue(textInput || ' ');
+        setTextInput(inputs.text);
         break;
       case QRType.PHONE:
-        setQrValue(phoneInput ? `tel:${phoneInput}` : 'tel:');
+        setPhoneInput(inputs.phone);
+        break;
+      case QRType.SMS:
+        setSmsInput(inputs.sms);
         break;
       case QRType.WIFI:
-        setQrValue(generateWifiString(wifiInput.ssid, wifiInput.password, wifiInput.encryption));
+        setWifiInput(inputs.wifi);
         break;
       case QRType.GEO:
-        setQrValue(generateGeoString(geoInput.lat, geoInput.lng));
+        setGeoInput(inputs.geo);
         break;
       case QRType.EMAIL:
-        setQrValue(generateEmailString(emailInput.to, emailInput.subject, emailInput.body));
+        setEmailInput(inputs.email);
+        break;
+      case QRType.CONTACT:
+        setContactInput(inputs.contact);
+        setContactFormat(inputs.format);
+        break;
+      case QRType.EVENT:
+        setEventInput(inputs.event);
+        break;
+      case QRType.PAYMENT:
+        setPaymentInput(inputs.payment);
         break;
     }
-  }, [selectedType, urlInput, textInput, phoneInput, wifiInput, geoInput, emailInput]);
+  };
+
+  const openSavedCode = (code: SavedCode) => {
+    applyInputs(code.inputs);
+    updateStyle(code.style);
+    updateSymbolOptions(code.symbolOptions);
+    setEditingCode(code);
+    setShowLibrary(false);
+  };
+
+  const handleSave = async (name: string, tags: string[], asNew: boolean) => {
+    if (qrValue === null) throw new Error('Form hataları düzeltilmeden kod kaydedilemez');
+    const fields = { name, tags, inputs: currentInputs, data: payload ?? qrValue, style, symbolOptions };
+    const code = editingCode && !asNew ? { ...editingCode, ...fields, updatedAt: Date.now() } : createSavedCode(fields);
+    await saveCode(code);
+    setEditingCode(code);
+  };
 
   const tabs = [
     { id: QRType.URL, icon: Link, label: 'Link' },
@@ -60,31 +256,122 @@ const Generator: React.FC = () => {
     { id: QRType.EMAIL, icon: Mail, label: 'Email' },
     { id: QRType.GEO, icon: MapPin, label: 'Konum' },
     { id: QRType.PHONE, icon: Phone, label: 'Tel' },
+    { id: QRType.SMS, icon: MessageSquare, label: 'SMS' },
+    { id: QRType.CONTACT, icon: IdCard, label: 'Kişi' },
+    { id: QRType.EVENT, icon: CalendarDays, label: 'Etkinlik' },
+    { id: QRType.PAYMENT, icon: CreditCard, label: 'Ödeme' },
   ];
 
   return (
     <div className="flex flex-col h-full bg-neutral-950 text-white overflow-y-auto pb-24">
       {/* Top Preview Section */}
       <div className="sticky top-0 z-20 bg-neutral-900/80 backdrop-blur-lg border-b border-white/10 p-6 flex flex-col items-center justify-center shadow-lg">
-        <div className="p-3 bg-white rounded-xl shadow-2xl" ref={qrRef}>
-          <QRCodeCanvas 
-            value={qrValue} 
-            size={180} 
-            level={"H"}
-            bgColor={"#ffffff"}
-            fgColor={"#000000"}
-            includeMargin={true}
-          />
+        <div className="rounded-xl overflow-hidden shadow-2xl">
+          {payload === null ? (
+            <div className="w-[180px] h-[180px] bg-neutral-800 flex flex-col items-center justify-center gap-2 text-neutral-400 p-3 text-center">
+              {qrValue === null || secureError ? <AlertTriangle className="w-10 h-10 text-red-400" /> : <Lock className="w-10 h-10" />}
+              <span className={`text-xs ${qrValue === null || secureError ? 'text-red-300' : ''}`}>
+                {qrValue === null
+                  ? 'Hatalı alanları düzeltin'
+                  : secureError
+                  ? `Kod hazırlanamadı: ${secureError}`
+                  : sign && !signingKey ? 'İmza anahtarı oluşturun' : protect && !passphrase ? 'Parola girin' : 'Hazırlanıyor...'}
+              </span>
+            </div>
+          ) : capacity.symbol ? (
+            <StyledQrCode symbol={capacity.symbol} style={style} quietZone={symbolOptions.quietZone} size={180} />
+          ) : (
+            <div className="w-[180px] h-[180px] bg-white flex items-center justify-center">
+              <AlertTriangle className="w-10 h-10 text-red-400" />
+            </div>
+          )}
+        </div>
+        <SymbolOptionsPanel value={symbolOptions} onChange={updateSymbolOptions} report={capacity} />
+        {!capacity.symbol && (
+          <button onClick={() => setShowSplit(true)} className="mt-2 text-xs text-indigo-400 hover:text-indigo-300">
+            Birden fazla koda bölün
+          </button>
+        )}
+        <div className="mt-4 flex gap-2">
+          <button 
+            onClick={handleDownload}
+            disabled={!capacity.symbol || payload === null}
+            className="flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full font-medium transition-all active:scale-95 shadow-lg shadow-indigo-500/25 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Download className="w-4 h-4" />
+            <span>İndir</span>
+          </button>
+          {[
+            { icon: BookmarkPlus, label: 'Kaydet', onClick: () => setShowSave(true) },
+            { icon: Library, label: 'Kitaplık', onClick: () => setShowLibrary(true) },
+            { icon: Layers, label: 'Toplu Üretim', onClick: () => setShowBatch(true) },
+            { icon: LayoutGrid, label: 'Parçalı Set', onClick: () => setShowSplit(true) },
+            { icon: Send, label: 'Dosya Gönder', onClick: () => setShowTransfer(true) }
+          ].map(b => (
+            <button
+              key={b.label}
+              onClick={b.onClick}
+              title={b.label}
+              className="p-2.5 bg-neutral-800 hover:bg-neutral-700 rounded-full transition-all active:scale-95"
+            >
+              <b.icon className="w-4 h-4" />
+            </button>
+          ))}
         </div>
-        <button 
-          onClick={handleDownload}
-          className="mt-4 flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-full font-medium transition-all active:scale-95 shadow-lg shadow-indigo-500/25"
-        >
-          <Download className="w-4 h-4" />
-          <span>İndir (PNG)</span>
-        </button>
+        {confirmInvalid && invalid && (
+          <div className="mt-3 w-full max-w-xs rounded-xl border border-red-500/30 bg-red-500/10 p-3 space-y-2">
+            <p className="text-xs font-semibold text-red-300">İçerik hatalı; kod okutulduğunda çalışmayabilir</p>
+            <ul className="text-xs text-neutral-300 list-disc ml-4">
+              {Object.values(inputErrors).filter(Boolean).map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <button onClick={() => setConfirmInvalid(false)} className="flex-1 py-1.5 rounded-lg bg-neutral-800 text-neutral-300 text-xs hover:bg-neutral-700">
+                Düzelt
+              </button>
+              <button
+                onClick={() => {
+                  setConfirmInvalid(false);
+                  setShowExport(true);
+                }}
+                className="flex-1 py-1.5 rounded-lg bg-red-500/20 text-red-300 text-xs hover:bg-red-500/30"
+              >
+                Yine de indir
+              </button>
+            </div>
+          </div>
+        )}
+        {editingCode && <p className="mt-2 text-xs text-neutral-500">Düzenleniyor: {editingCode.name}</p>}
       </div>
 
+      {showExport && capacity.symbol && payload !== null && (
+        <ExportDialog
+          data={payload}
+          type={selectedType}
+          symbol={capacity.symbol}
+          quietZone={symbolOptions.quietZone}
+          style={style}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showSave && (
+        <SaveCodeDialog
+          defaultName={`${QR_TYPE_LABELS[selectedType]} ${new Date().toLocaleDateString('tr-TR')}`}
+          editing={editingCode}
+          onSave={handleSave}
+          onClose={() => setShowSave(false)}
+        />
+      )}
+
+      {showLibrary && <LibraryPanel onOpen={openSavedCode} onClose={() => setShowLibrary(false)} />}
+
+      {showBatch && <BatchGenerator style={style} symbolOptions={effectiveOptions} onClose={() => setShowBatch(false)} />}
+
+      {showSplit && payload !== null && <StructuredAppendDialog data={payload} style={style} symbolOptions={effectiveOptions} onClose={() => setShowSplit(false)} />}
+      {showTransfer && <FileTransferDialog onClose={() => setShowTransfer(false)} />}
+
       {/* Type Selector */}
       <div className="px-4 py-6">
         <div className="flex gap-2 overflow-x-auto pb-4 no-scrollbar">
@@ -113,10 +400,11 @@ const Generator: React.FC = () => {
               <input
                 type="url"
                 placeholder="https://example.com"
-                className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all"
+                className={fieldClass(fieldError('url', urlInput))}
                 value={urlInput}
                 onChange={(e) => setUrlInput(e.target.value)}
               />
+              <FieldError message={fieldError('url', urlInput)} />
             </div>
           )}
 
@@ -139,10 +427,36 @@ const Generator: React.FC = () => {
               <input
                 type="tel"
                 placeholder="+90 555 123 45 67"
-                className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
+                className={fieldClass(fieldError('phone', phoneInput))}
                 value={phoneInput}
                 onChange={(e) => setPhoneInput(e.target.value)}
               />
+              <FieldError message={fieldError('phone', phoneInput)} />
+            </div>
+          )}
+
+          {selectedType === QRType.SMS && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm text-neutral-400 ml-1">Alıcı Numara</label>
+                <input
+                  type="tel"
+                  placeholder="+90 555 123 45 67"
+                  className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
+                  value={smsInput.number}
+                  onChange={(e) => setSmsInput({ ...smsInput, number: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm text-neutral-400 ml-1">Mesaj</label>
+                <textarea
+                  rows={4}
+                  placeholder="Mesaj içeriği..."
+                  className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all resize-none"
+                  value={smsInput.body}
+                  onChange={(e) => setSmsInput({ ...smsInput, body: e.target.value })}
+                />
+              </div>
             </div>
           )}
 
@@ -153,20 +467,22 @@ const Generator: React.FC = () => {
                 <input
                   type="text"
                   placeholder="WiFi Adı"
-                  className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
+                  className={fieldClass(fieldError('ssid', wifiInput.ssid))}
                   value={wifiInput.ssid}
                   onChange={(e) => setWifiInput({ ...wifiInput, ssid: e.target.value })}
                 />
+                <FieldError message={fieldError('ssid', wifiInput.ssid)} />
               </div>
               <div className="space-y-2">
                 <label className="text-sm text-neutral-400 ml-1">Şifre</label>
                 <input
                   type="text" // Visible for QR creation convenience usually
                   placeholder="WiFi Şifresi"
-                  className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
+                  className={fieldClass(wifiInput.encryption !== 'nopass' ? fieldError('password', wifiInput.password) : undefined)}
                   value={wifiInput.password}
                   onChange={(e) => setWifiInput({ ...wifiInput, password: e.target.value })}
                 />
+                {wifiInput.encryption !== 'nopass' && <FieldError message={fieldError('password', wifiInput.password)} />}
               </div>
               <div className="space-y-2">
                  <label className="text-sm text-neutral-400 ml-1">Güvenlik Tipi</label>
@@ -180,47 +496,29 @@ const Generator: React.FC = () => {
                    <option value="nopass">Şifresiz</option>
                  </select>
               </div>
+              <label className="flex items-center gap-3 ml-1 text-sm text-neutral-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 accent-indigo-500"
+                  checked={!!wifiInput.hidden}
+                  onChange={(e) => setWifiInput({ ...wifiInput, hidden: e.target.checked })}
+                />
+                Gizli Ağ
+              </label>
             </div>
           )}
 
           {selectedType === QRType.GEO && (
-            <div className="space-y-4">
-              <div className="space-y-2">
-                 <label className="text-sm text-neutral-400 ml-1">Enlem (Latitude)</label>
-                <input
-                  type="text"
-                  placeholder="41.0082"
-                  className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
-                  value={geoInput.lat}
-                  onChange={(e) => setGeoInput({ ...geoInput, lat: e.target.value })}
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-sm text-neutral-400 ml-1">Boylam (Longitude)</label>
-                <input
-                  type="text"
-                  placeholder="28.9784"
-                  className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
-                  value={geoInput.lng}
-                  onChange={(e) => setGeoInput({ ...geoInput, lng: e.target.value })}
-                />
-              </div>
-              <button 
-                onClick={() => {
-                   if (navigator.geolocation) {
-                     navigator.geolocation.getCurrentPosition((pos) => {
-                       setGeoInput({
-                         lat: pos.coords.latitude.toString(),
-                         lng: pos.coords.longitude.toString()
-                       })
-                     })
-                   }
-                }}
-                className="w-full py-3 bg-neutral-800 hover:bg-neutral-700 text-indigo-400 rounded-xl text-sm font-medium transition-colors"
-              >
-                Mevcut Konumumu Kullan
-              </button>
-            </div>
+            <GeoForm
+              value={geoInput}
+              onChange={setGeoInput}
+              errors={{
+                lat: fieldError('lat', geoInput.lat),
+                lng: fieldError('lng', geoInput.lng),
+                alt: fieldError('alt', geoInput.alt || ''),
+                uncertainty: fieldError('uncertainty', geoInput.uncertainty || '')
+              }}
+            />
           )}
 
           {selectedType === QRType.EMAIL && (
@@ -230,10 +528,11 @@ const Generator: React.FC = () => {
                 <input
                   type="email"
                   placeholder="ornek@site.com"
-                  className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
+                  className={fieldClass(fieldError('to', emailInput.to))}
                   value={emailInput.to}
                   onChange={(e) => setEmailInput({ ...emailInput, to: e.target.value })}
                 />
+                <FieldError message={fieldError('to', emailInput.to)} />
               </div>
               <div className="space-y-2">
                 <label className="text-sm text-neutral-400 ml-1">Konu</label>
@@ -258,6 +557,72 @@ const Generator: React.FC = () => {
             </div>
           )}
 
+          {selectedType === QRType.CONTACT && (
+            <ContactForm
+              value={contactInput}
+              format={contactFormat}
+              onChange={setContactInput}
+              onFormatChange={setContactFormat}
+            />
+          )}
+
+          {selectedType === QRType.EVENT && (
+            <EventForm value={eventInput} onChange={setEventInput} />
+          )}
+
+          {selectedType === QRType.PAYMENT && (
+            <PaymentForm value={paymentInput} onChange={setPaymentInput} />
+          )}
+
+        </div>
+
+        <div className="mt-8 space-y-3">
+          <h3 className="text-sm text-neutral-400 ml-1">Koruma</h3>
+          <label className="flex items-center gap-3 ml-1 text-sm text-neutral-400 cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-indigo-500"
+              checked={sign}
+              onChange={(e) => setSign(e.target.checked)}
+            />
+            Dijital olarak imzala
+          </label>
+          {sign && <SigningKeyPanel value={signingKey} onChange={setSigningKey} />}
+          <label className="flex items-center gap-3 ml-1 text-sm text-neutral-400 cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-indigo-500"
+              checked={protect}
+              onChange={(e) => setProtect(e.target.checked)}
+            />
+            Parolayla koru
+          </label>
+          {protect && (
+            <div className="space-y-2">
+              <input
+                type="password"
+                placeholder="Parola"
+                autoComplete="new-password"
+                className="w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+              <p className="text-xs text-neutral-500 ml-1">
+                İçerik AES-GCM ile şifrelenir; kodu okutan kişi bu uygulamada parolayı girerek açar. Diğer okuyucular yalnızca anlamsız metin görür.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-8 space-y-3">
+          <h3 className="text-sm text-neutral-400 ml-1">Tasarım</h3>
+          <StyleOptionsPanel
+            value={style}
+            onChange={updateStyle}
+            forcedEcLevel={forcedEcLevel}
+            warnings={styleWarnings}
+            scanCheck={capacity.symbol ? scanCheck : undefined}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,126 @@
+import React from 'react';
+import { GeoConfig } from '../types';
+import { normalizeGeoInput, formatCoordinate } from '../utils/geo';
+import { FieldErrors } from '../utils/qrUtils';
+
+interface GeoFormProps {
+  value: GeoConfig;
+  onChange: (value: GeoConfig) => void;
+  // Overrides the format checks, e.g. to also flag empty required fields
+  errors?: FieldErrors<GeoConfig>;
+}
+
+const inputClass = "w-full bg-neutral-900 border rounded-xl p-4 text-white focus:outline-none transition-all";
+
+const fieldClass = (error?: string) =>
+  `${inputClass} ${error ? 'border-red-500/60 focus:border-red-500' : 'border-neutral-800 focus:border-indigo-500'}`;
+
+const GeoForm: React.FC<GeoFormProps> = ({ value, onChange, errors: errorsOverride }) => {
+  const set = <K extends keyof GeoConfig>(key: K, v: GeoConfig[K]) => onChange({ ...value, [key]: v });
+  const normalized = normalizeGeoInput(value);
+  const { lat, lng } = normalized;
+  const errors = errorsOverride ?? normalized.errors;
+
+  // Show the decimal value we will encode when the user typed DMS
+  const hint = (raw: string, parsed: number | null) =>
+    parsed !== null && raw.trim() !== formatCoordinate(parsed) ? `= ${formatCoordinate(parsed)}°` : null;
+
+  const renderMessage = (error?: string, info?: string | null) => {
+    if (error) return <p className="text-xs text-red-400 ml-1">{error}</p>;
+    if (info) return <p className="text-xs text-neutral-500 ml-1">{info}</p>;
+    return null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Enlem (Latitude)</label>
+        <input
+          type="text"
+          placeholder={`41.0082 veya 41°00'29.5"K`}
+          className={fieldClass(errors.lat)}
+          value={value.lat}
+          onChange={(e) => set('lat', e.target.value)}
+        />
+        {renderMessage(errors.lat, hint(value.lat, lat))}
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Boylam (Longitude)</label>
+        <input
+          type="text"
+          placeholder={`28.9784 veya 28°58'42.2"D`}
+          className={fieldClass(errors.lng)}
+          value={value.lng}
+          onChange={(e) => set('lng', e.target.value)}
+        />
+        {renderMessage(errors.lng, hint(value.lng, lng))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Rakım (m)</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Opsiyonel"
+            className={fieldClass(errors.alt)}
+            value={value.alt || ''}
+            onChange={(e) => set('alt', e.target.value)}
+          />
+          {renderMessage(errors.alt)}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Hassasiyet (m)</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Opsiyonel"
+            className={fieldClass(errors.uncertainty)}
+            value={value.uncertainty || ''}
+            onChange={(e) => set('uncertainty', e.target.value)}
+          />
+          {renderMessage(errors.uncertainty)}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Etiket</label>
+        <input
+          type="text"
+          placeholder="Ofis Girişi"
+          className={fieldClass()}
+          value={value.label || ''}
+          onChange={(e) => set('label', e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Koordinat Sistemi</label>
+        <select
+          className={`${fieldClass()} appearance-none`}
+          value={value.crs || 'wgs84'}
+          onChange={(e) => set('crs', e.target.value)}
+        >
+          <option value="wgs84">WGS 84 (GPS)</option>
+        </select>
+      </div>
+      <button
+        onClick={() => {
+           if (navigator.geolocation) {
+             navigator.geolocation.getCurrentPosition((pos) => {
+               onChange({
+                 ...value,
+                 lat: pos.coords.latitude.toString(),
+                 lng: pos.coords.longitude.toString(),
+                 alt: pos.coords.altitude !== null ? Math.round(pos.coords.altitude).toString() : value.alt,
+                 uncertainty: Math.round(pos.coords.accuracy).toString()
+               });
+             });
+           }
+        }}
+        className="w-full py-3 bg-neutral-800 hover:bg-neutral-700 text-indigo-400 rounded-xl text-sm font-medium transition-colors"
+      >
+        Mevcut Konumumu Kullan
+      </button>
+    </div>
+  );
+};
+
+export default GeoForm;
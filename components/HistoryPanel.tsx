@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Search, Star, Play, Trash2, FileText, FileJson, MapPin, Lock } from 'lucide-react';
+import { HistoryEntry, QRType } from '../types';
+import { HistoryFilter, clearHistory, deleteHistoryEntry, filterHistory, historyToCsv, historyToJson, listHistory, loadHistorySettings, setFavorite } from '../utils/history';
+import { isProtectedPayload } from '../utils/protectedPayload';
+import { SYMBOLOGY_LABELS } from '../utils/symbology';
+import { buildMapUrl } from '../utils/geo';
+import { QR_TYPE_LABELS, downloadFile } from '../utils/qrUtils';
+
+interface HistoryPanelProps {
+  onRerun: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+const iconButton = "p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors";
+
+const HistoryItem: React.FC<{
+  entry: HistoryEntry;
+  onFavorite: () => void;
+  onRerun: () => void;
+  onDelete: () => void;
+}> = ({ entry, onFavorite, onRerun, onDelete }) => {
+  const locked = isProtectedPayload(entry.data);
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-xl bg-neutral-950 border border-neutral-800">
+      <div className="flex-1 min-w-0">
+        {locked ? (
+          <p className="flex items-center gap-1.5 text-sm text-neutral-300">
+            <Lock className="w-3.5 h-3.5 shrink-0" />
+            Parola korumalı kod
+          </p>
+        ) : (
+          <p className="text-sm text-white truncate font-mono">{entry.data}</p>
+        )}
+        <p className="flex items-center gap-1 text-xs text-neutral-500 truncate">
+          {QR_TYPE_LABELS[entry.type] ?? entry.type} · {SYMBOLOGY_LABELS[entry.symbology] ?? entry.symbology} · {new Date(entry.scannedAt).toLocaleString('tr-TR')}
+          {entry.location && (
+            <a
+              href={buildMapUrl({ lat: String(entry.location.lat), lng: String(entry.location.lng) })}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="ml-1 text-neutral-400 hover:text-white"
+              title={`${entry.location.lat.toFixed(5)}, ${entry.location.lng.toFixed(5)} (±${Math.round(entry.location.accuracy)} m)`}
+            >
+              <MapPin className="w-3.5 h-3.5" />
+            </a>
+          )}
+        </p>
+      </div>
+      <div className="flex shrink-0">
+        <button onClick={onFavorite} className={`${iconButton} ${entry.favorite ? 'text-amber-400' : ''}`} title={entry.favorite ? 'Favorilerden Çıkar' : 'Favorilere Ekle'}>
+          <Star className={`w-4 h-4 ${entry.favorite ? 'fill-current' : ''}`} />
+        </button>
+        <button onClick={onRerun} className={iconButton} title="Tekrar Aç"><Play className="w-4 h-4" /></button>
+        <button onClick={onDelete} className={`${iconButton} hover:text-red-400`} title="Sil"><Trash2 className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onRerun, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>({ query: '', type: '', favorites: false });
+  const [error, setError] = useState<string | null>(null);
+  const enabled = useMemo(() => loadHistorySettings().enabled, []);
+
+  const refresh = () =>
+    listHistory()
+      .then(setEntries)
+      .catch(e => {
+        setEntries([]);
+        setError(e instanceof Error ? e.message : String(e));
+      });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const visible = useMemo(() => filterHistory(entries || [], filter), [entries, filter]);
+  const base = `tarama-gecmisi-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div id="history-modal" className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 gap-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Tarama Geçmişi</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => downloadFile(`${base}.csv`, new Blob(['\ufeff' + historyToCsv(visible)], { type: 'text/csv' }))}
+              disabled={!visible.length}
+              className="p-2 text-neutral-400 hover:text-white disabled:opacity-30"
+              title="Dışa Aktar (CSV)"
+            >
+              <FileText className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => downloadFile(`${base}.json`, historyToJson(visible), 'application/json')}
+              disabled={!visible.length}
+              className="p-2 text-neutral-400 hover:text-white disabled:opacity-30"
+              title="Dışa Aktar (JSON)"
+            >
+              <FileJson className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => {
+                if (confirm('Tüm tarama geçmişi silinsin mi? Favoriler de silinir.')) run(clearHistory);
+              }}
+              disabled={!entries?.length}
+              className="p-2 text-neutral-400 hover:text-red-400 disabled:opacity-30"
+              title="Geçmişi Temizle"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="p-2 text-neutral-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {!enabled && (
+          <p className="text-xs text-amber-400 ml-1">Geçmiş kaydı kapalı; yeni taramalar eklenmiyor. Tarayıcı ayarlarından açabilirsiniz.</p>
+        )}
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              className={`${inputClass} pl-9`}
+              placeholder="İçerik ara"
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            />
+          </div>
+          <select className={`${inputClass} w-32`} value={filter.type} onChange={(e) => setFilter({ ...filter, type: e.target.value as QRType | '' })}>
+            <option value="">Tüm türler</option>
+            {Object.values(QRType).map(t => (
+              <option key={t} value={t}>{QR_TYPE_LABELS[t] ?? t}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setFilter({ ...filter, favorites: !filter.favorites })}
+            className={`px-3 rounded-lg border transition-colors ${
+              filter.favorites ? 'bg-white text-black border-white' : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+            }`}
+            title="Yalnızca favoriler"
+          >
+            <Star className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-[8rem]">
+          {entries === null ? (
+            <p className="text-sm text-neutral-500 text-center py-8">Yükleniyor...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-neutral-500 text-center py-8">{entries.length ? 'Eşleşen tarama yok' : 'Henüz kaydedilmiş tarama yok.'}</p>
+          ) : (
+            visible.map(entry => (
+              <HistoryItem
+                key={entry.id}
+                entry={entry}
+                onFavorite={() => run(() => setFavorite(entry, !entry.favorite))}
+                onRerun={() => onRerun(entry)}
+                onDelete={() => run(() => deleteHistoryEntry(entry.id))}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { X, ChevronRight, Loader2 } from 'lucide-react';
+import { Symbology } from '../types';
+import { actionRegistry } from '../utils/actionRegistry';
+import { SYMBOLOGY_LABELS, DecodedBarcode } from '../utils/symbology';
+import { loadImageFile, nativeDetect, scanImage } from '../utils/imageScan';
+
+interface ImageImportDialogProps {
+  file: File;
+  symbologies: Symbology[];
+  // Native detector, corners in the coordinates of the original image
+  detect?: (source: ImageBitmapSource) => Promise<DecodedBarcode[]>;
+  onSelect: (code: DecodedBarcode) => void;
+  onClose: () => void;
+}
+
+// Same corner colours as the camera overlay, one per code
+const BOX_COLORS = ['#EA4335', '#4285F4', '#34A853', '#FBBC04'];
+
+const ImageImportDialog: React.FC<ImageImportDialogProps> = ({ file, symbologies, detect, onSelect, onClose }) => {
+  const [preview, setPreview] = useState<{ url: string, width: number, height: number } | null>(null);
+  const [codes, setCodes] = useState<DecodedBarcode[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const url = URL.createObjectURL(file);
+    setPreview(null);
+    setCodes(null);
+    setError(null);
+    const run = async () => {
+      const loaded = await loadImageFile(file);
+      const { image } = loaded;
+      try {
+        if (controller.signal.aborted) return;
+        setPreview({ url, width: image.width, height: image.height });
+        const found = await scanImage(image, symbologies, { detect: detect && nativeDetect(loaded, detect), signal: controller.signal });
+        if (!controller.signal.aborted) setCodes(found);
+      } finally {
+        if (loaded.source instanceof ImageBitmap) loaded.source.close();
+      }
+    };
+    run().catch(e => {
+      if (!controller.signal.aborted) setError(e instanceof Error ? e.message : String(e));
+    });
+    return () => {
+      controller.abort();
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  return (
+    <div id="image-import-modal" className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold truncate">{file.name || 'Yapıştırılan görsel'}</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {preview && (
+          <div className="relative rounded-xl overflow-hidden bg-white">
+            <img src={preview.url} alt="" className="w-full h-auto block" />
+            {codes && (
+              <svg viewBox={`0 0 ${preview.width} ${preview.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+                {codes.map((code, i) => {
+                  const color = BOX_COLORS[i % BOX_COLORS.length];
+                  const stroke = Math.max(2, preview.width / 250);
+                  return (
+                    <g key={i}>
+                      <polygon
+                        points={code.corners.map(p => `${p.x},${p.y}`).join(' ')}
+                        fill={`${color}22`}
+                        stroke={color}
+                        strokeWidth={stroke}
+                        strokeLinejoin="round"
+                      />
+                      <circle cx={code.corners[0].x} cy={code.corners[0].y} r={stroke * 5} fill={color} />
+                      <text
+                        x={code.corners[0].x}
+                        y={code.corners[0].y}
+                        fill="white"
+                        fontSize={stroke * 6}
+                        fontWeight="bold"
+                        textAnchor="middle"
+                        dominantBaseline="central"
+                      >
+                        {i + 1}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            )}
+          </div>
+        )}
+
+        {error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : !codes ? (
+          <p className="flex items-center gap-2 text-sm text-neutral-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Görsel taranıyor...
+          </p>
+        ) : codes.length === 0 ? (
+          <p className="text-sm text-neutral-400">Görselde okunabilir kod bulunamadı.</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-neutral-500">{codes.length} kod bulundu. Açmak istediğinizi seçin.</p>
+            {codes.map((code, i) => (
+              <button
+                key={i}
+                onClick={() => onSelect(code)}
+                className="w-full flex items-center gap-3 p-3 rounded-xl bg-neutral-950 border border-neutral-800 hover:border-indigo-500 transition-colors text-left"
+              >
+                <span
+                  className="w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-xs font-bold text-white"
+                  style={{ backgroundColor: BOX_COLORS[i % BOX_COLORS.length] }}
+                >
+                  {i + 1}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-white truncate">{code.text}</p>
+                  <p className="text-xs text-neutral-500">
+                    {SYMBOLOGY_LABELS[code.symbology] ?? code.symbology} · {actionRegistry.classify(code.text).type}
+                  </p>
+                </div>
+                <ChevronRight className="w-4 h-4 text-neutral-500 shrink-0" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageImportDialog;
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X, Search, PencilLine, CopyPlus, Download, Trash2, FileDown, FileUp } from 'lucide-react';
+import { QRType, SavedCode } from '../types';
+import { LibraryFilter, collectTags, deleteCode, duplicateCode, exportLibrary, filterCodes, importCodes, listCodes, parseLibraryJson, saveCode } from '../utils/library';
+import { analyzeCapacity } from '../utils/qrEncoder';
+import { effectiveSymbolOptions } from '../utils/qrStyle';
+import { QR_TYPE_LABELS, downloadFile } from '../utils/qrUtils';
+import StyledQrCode from './StyledQrCode';
+import ExportDialog from './ExportDialog';
+
+interface LibraryPanelProps {
+  onOpen: (code: SavedCode) => void;
+  onClose: () => void;
+}
+
+const GENERATOR_TYPES = Object.values(QRType).filter(t => t !== QRType.CUSTOM);
+
+const inputClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const symbolFor = (code: SavedCode) => analyzeCapacity(code.data, effectiveSymbolOptions(code.symbolOptions, code.style)).symbol;
+
+const LibraryItem: React.FC<{
+  code: SavedCode;
+  onOpen: () => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}> = ({ code, onOpen, onDuplicate, onExport, onDelete }) => {
+  const symbol = useMemo(() => symbolFor(code), [code]);
+  const iconButton = "p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors";
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-xl bg-neutral-950 border border-neutral-800">
+      <div className="shrink-0 rounded-md overflow-hidden">
+        {symbol ? <StyledQrCode symbol={symbol} style={code.style} quietZone={1} size={56} /> : <div className="w-14 h-14 bg-neutral-800" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-white truncate">{code.name}</p>
+        <p className="text-xs text-neutral-500 truncate">
+          {QR_TYPE_LABELS[code.inputs.type]} · {new Date(code.updatedAt).toLocaleDateString('tr-TR')}
+        </p>
+        {code.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {code.tags.map(tag => (
+              <span key={tag} className="px-1.5 py-0.5 rounded bg-neutral-800 text-[10px] text-neutral-300">{tag}</span>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex shrink-0">
+        <button onClick={onOpen} className={iconButton} title="Düzenle"><PencilLine className="w-4 h-4" /></button>
+        <button onClick={onDuplicate} className={iconButton} title="Çoğalt"><CopyPlus className="w-4 h-4" /></button>
+        <button onClick={onExport} disabled={!symbol} className={`${iconButton} disabled:opacity-30`} title="Dışa Aktar"><Download className="w-4 h-4" /></button>
+        <button onClick={onDelete} className={`${iconButton} hover:text-red-400`} title="Sil"><Trash2 className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ onOpen, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [codes, setCodes] = useState<SavedCode[] | null>(null);
+  const [filter, setFilter] = useState<LibraryFilter>({ query: '', type: '', tag: '' });
+  const [exporting, setExporting] = useState<SavedCode | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const refresh = () =>
+    listCodes()
+      .then(setCodes)
+      .catch(e => {
+        setCodes([]);
+        setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+      });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      if (success) setMessage({ text: success, error: false });
+      await refresh();
+    } catch (e) {
+      setMessage({ text: e instanceof Error ? e.message : String(e), error: true });
+    }
+  };
+
+  const handleImport = (file: File) =>
+    run(async () => {
+      const incoming = parseLibraryJson(await file.text());
+      await importCodes(incoming);
+      setMessage({ text: `${incoming.length} kod içe aktarıldı`, error: false });
+    });
+
+  const tags = useMemo(() => collectTags(codes || []), [codes]);
+  const visible = useMemo(() => filterCodes(codes || [], filter), [codes, filter]);
+  const exportSymbol = useMemo(() => (exporting ? symbolFor(exporting) : null), [exporting]);
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-lg max-h-[90vh] flex flex-col bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 gap-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Kitaplık</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => downloadFile('qr-kitaplik.json', exportLibrary(codes || []), 'application/json')}
+              disabled={!codes?.length}
+              className="p-2 text-neutral-400 hover:text-white disabled:opacity-30"
+              title="Yedekle (JSON)"
+            >
+              <FileDown className="w-5 h-5" />
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="p-2 text-neutral-400 hover:text-white" title="Yedekten Yükle">
+              <FileUp className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="p-2 text-neutral-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              className={`${inputClass} pl-9`}
+              placeholder="Ad, etiket veya içerik ara"
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            />
+          </div>
+          <select className={`${inputClass} w-32`} value={filter.type} onChange={(e) => setFilter({ ...filter, type: e.target.value as QRType | '' })}>
+            <option value="">Tüm türler</option>
+            {GENERATOR_TYPES.map(t => (
+              <option key={t} value={t}>{QR_TYPE_LABELS[t]}</option>
+            ))}
+          </select>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => setFilter({ ...filter, tag: filter.tag === tag ? '' : tag })}
+                className={`px-2 py-1 rounded-full text-xs border transition-colors ${
+                  filter.tag === tag ? 'bg-white text-black border-white' : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+                }`}
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {message && <p className={`text-xs ml-1 ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>}
+
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-[8rem]">
+          {codes === null ? (
+            <p className="text-sm text-neutral-500 text-center py-8">Yükleniyor...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-neutral-500 text-center py-8">
+              {codes.length ? 'Eşleşen kod yok' : 'Henüz kaydedilmiş kod yok. Oluşturucuda "Kaydet" ile ekleyin.'}
+            </p>
+          ) : (
+            visible.map(code => (
+              <LibraryItem
+                key={code.id}
+                code={code}
+                onOpen={() => onOpen(code)}
+                onDuplicate={() => run(() => saveCode(duplicateCode(code)), 'Kopya oluşturuldu')}
+                onExport={() => setExporting(code)}
+                onDelete={() => {
+                  if (confirm(`"${code.name}" silinsin mi?`)) run(() => deleteCode(code.id));
+                }}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      {exporting && exportSymbol && (
+        <ExportDialog
+          data={exporting.data}
+          type={exporting.inputs.type}
+          symbol={exportSymbol}
+          quietZone={exporting.symbolOptions.quietZone}
+          style={exporting.style}
+          onClose={() => setExporting(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LibraryPanel;
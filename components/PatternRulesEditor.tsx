@@ -0,0 +1,167 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown, Upload, Download } from 'lucide-react';
+import { PatternRule, PatternRuleAction } from '../types';
+import { createRule, validateRule, matchRule, parseRulesJson, exportRules, mergeRules, loadRules, saveRules } from '../utils/patternRules';
+import { downloadFile } from '../utils/qrUtils';
+
+const inputClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const PatternRulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<PatternRule[]>(loadRules);
+  const [sample, setSample] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (next: PatternRule[]) => {
+    setRules(next);
+    saveRules(next);
+  };
+
+  const setRule = (index: number, patch: Partial<PatternRule>) =>
+    update(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      update(mergeRules(rules, parseRulesJson(await file.text())));
+      setImportError(null);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const sampleMatch = sample.trim() ? matchRule(sample, rules) : null;
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, index) => {
+        const errors = validateRule(rule);
+        return (
+          <div key={rule.id} className="rounded-xl border border-neutral-800 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => setRule(index, { enabled: e.target.checked })}
+                className="accent-indigo-500"
+              />
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="Kural adı"
+                value={rule.name}
+                onChange={(e) => setRule(index, { name: e.target.value })}
+              />
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="text-neutral-500 hover:text-white disabled:opacity-30">
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} className="text-neutral-500 hover:text-white disabled:opacity-30">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button onClick={() => update(rules.filter((_, i) => i !== index))} className="text-neutral-500 hover:text-red-400">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className={`${inputClass} font-mono`}
+                placeholder="ASSET-(\d+)"
+                value={rule.pattern}
+                onChange={(e) => setRule(index, { pattern: e.target.value })}
+              />
+              <input
+                type="text"
+                className={`${inputClass} font-mono w-16`}
+                title="Bayraklar"
+                value={rule.flags}
+                onChange={(e) => setRule(index, { flags: e.target.value })}
+              />
+            </div>
+            {(errors.pattern || errors.flags) && <p className="text-xs text-red-400 ml-1">{errors.pattern || errors.flags}</p>}
+            <div className="flex gap-2">
+              <select
+                className="bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                value={rule.action}
+                onChange={(e) => setRule(index, { action: e.target.value as PatternRuleAction })}
+              >
+                <option value="open">Aç</option>
+                <option value="copy">Kopyala</option>
+              </select>
+              <input
+                type="text"
+                className={`${inputClass} font-mono`}
+                placeholder={rule.action === 'open' ? 'https://inventory.local/item/$1' : '$1'}
+                value={rule.template}
+                onChange={(e) => setRule(index, { template: e.target.value })}
+              />
+            </div>
+            {errors.template && <p className="text-xs text-red-400 ml-1">{errors.template}</p>}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => update([...rules, createRule()])}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-neutral-800 text-neutral-300 text-sm hover:bg-neutral-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> Kural Ekle
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neutral-800 text-neutral-300 text-sm hover:bg-neutral-700 transition-colors"
+        >
+          <Upload className="w-4 h-4" /> İçe Aktar
+        </button>
+        <button
+          onClick={() => downloadFile('qr-kurallar.json', exportRules(rules), 'application/json')}
+          disabled={!rules.length}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neutral-800 text-neutral-300 text-sm hover:bg-neutral-700 transition-colors disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" /> Dışa Aktar
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {importError && <p className="text-xs text-red-400 ml-1">{importError}</p>}
+
+      {rules.length > 0 && (
+        <div className="space-y-1">
+          <input
+            type="text"
+            className={`${inputClass} font-mono`}
+            placeholder="Denemek için örnek metin"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+          />
+          {sample.trim() && (
+            <p className="text-xs ml-1 break-all">
+              {sampleMatch
+                ? <span className="text-emerald-400">{sampleMatch.rule.name || 'Adsız kural'} → {sampleMatch.value}</span>
+                : <span className="text-neutral-500">Eşleşen kural yok</span>}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatternRulesEditor;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { PaymentConfig } from '../types';
+import { CURRENCIES, validatePayment } from '../utils/emvco';
+
+interface PaymentFormProps {
+  value: PaymentConfig;
+  onChange: (value: PaymentConfig) => void;
+}
+
+const inputClass = "w-full bg-neutral-900 border rounded-xl p-4 text-white focus:outline-none transition-all";
+
+const fieldClass = (error?: string) =>
+  `${inputClass} ${error ? 'border-red-500/60 focus:border-red-500' : 'border-neutral-800 focus:border-indigo-500'}`;
+
+const PaymentForm: React.FC<PaymentFormProps> = ({ value, onChange }) => {
+  const set = <K extends keyof PaymentConfig>(key: K, v: PaymentConfig[K]) => onChange({ ...value, [key]: v });
+  const errors = validatePayment(value);
+
+  const renderField = (key: keyof PaymentConfig, label: string, placeholder: string, extra: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div className="space-y-2">
+      <label className="text-sm text-neutral-400 ml-1">{label}</label>
+      <input
+        type="text"
+        placeholder={placeholder}
+        className={fieldClass(errors[key])}
+        value={value[key]}
+        onChange={(e) => set(key, e.target.value)}
+        {...extra}
+      />
+      {errors[key] && <p className="text-xs text-red-400 ml-1">{errors[key]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {renderField('merchantName', 'İşyeri Adı', 'Örnek Kafe', { maxLength: 25 })}
+      <div className="grid grid-cols-2 gap-3">
+        {renderField('merchantCity', 'Şehir', 'Istanbul', { maxLength: 15 })}
+        {renderField('postalCode', 'Posta Kodu', '34000', { maxLength: 10 })}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {renderField('amount', 'Tutar', 'Boş = müşteri girer', { inputMode: 'decimal' })}
+        <div className="space-y-2">
+          <label className="text-sm text-neutral-400 ml-1">Para Birimi</label>
+          <select
+            className={`${fieldClass()} appearance-none`}
+            value={value.currency}
+            onChange={(e) => set('currency', e.target.value)}
+          >
+            {Object.entries(CURRENCIES).map(([num, code]) => (
+              <option key={num} value={num}>{code}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {renderField('countryCode', 'Ülke', 'TR', { maxLength: 2 })}
+        {renderField('mcc', 'MCC', '5812', { inputMode: 'numeric', maxLength: 4 })}
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm text-neutral-400 ml-1">Hesap Şablonu (Etiket)</label>
+        <select
+          className={`${fieldClass()} appearance-none`}
+          value={value.accountTemplateId}
+          onChange={(e) => set('accountTemplateId', e.target.value)}
+        >
+          {Array.from({ length: 26 }, (_, i) => (26 + i).toString()).map(id => (
+            <option key={id} value={id}>{id}</option>
+          ))}
+        </select>
+      </div>
+      {renderField('accountGuid', 'Ödeme Ağı Kimliği (GUID)', 'tr.gov.tcmb.karekod')}
+      {renderField('accountId', 'Hesap / IBAN', 'TR00 0000 0000 0000 0000 0000 00')}
+      <div className="grid grid-cols-2 gap-3">
+        {renderField('billNumber', 'Fatura No', 'Opsiyonel')}
+        {renderField('referenceLabel', 'Referans', 'Opsiyonel')}
+      </div>
+      {renderField('terminalLabel', 'Terminal', 'Opsiyonel')}
+    </div>
+  );
+};
+
+export default PaymentForm;
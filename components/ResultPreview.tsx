@@ -0,0 +1,210 @@
+import React from 'react';
+import { User, Building2, Phone, Mail, MapPin, Globe, CalendarDays, Clock, AlignLeft, Store, Banknote, ShieldCheck, ShieldAlert, Wand2, ArrowRight, Package, CalendarCheck, CalendarX } from 'lucide-react';
+import { QRType, ContactConfig, EventConfig, EmvField, PaymentPayload, PatternRule, Gs1Payload } from '../types';
+import { parseQRPayload } from '../utils/qrUtils';
+import { actionRegistry } from '../utils/actionRegistry';
+import { formatContactName } from '../utils/contact';
+import { formatEventRange } from '../utils/calendar';
+import { formatPaymentAmount, CURRENCIES } from '../utils/emvco';
+
+interface ResultPreviewProps {
+  data: string;
+  type: QRType;
+}
+
+const PreviewRow: React.FC<{ icon: React.ElementType; children: React.ReactNode }> = ({ icon: Icon, children }) => (
+  <div className="flex items-start gap-3 text-sm text-neutral-300">
+    <Icon className="w-4 h-4 mt-0.5 text-neutral-500 shrink-0" />
+    <span className="break-all">{children}</span>
+  </div>
+);
+
+const ContactPreview: React.FC<{ contact: ContactConfig }> = ({ contact }) => {
+  const name = formatContactName(contact);
+  const phones = contact.phones.filter(Boolean);
+  const emails = contact.emails.filter(Boolean);
+
+  return (
+    <div className="space-y-3 mb-2">
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 rounded-full bg-indigo-500/20 flex items-center justify-center">
+          <User className="w-6 h-6 text-indigo-300" />
+        </div>
+        <div>
+          <p className="text-white text-lg font-medium">{name || contact.org || 'İsimsiz Kişi'}</p>
+          {contact.title && <p className="text-sm text-neutral-400">{contact.title}</p>}
+        </div>
+      </div>
+      {contact.org && name && <PreviewRow icon={Building2}>{contact.org}</PreviewRow>}
+      {phones.map((p, i) => <PreviewRow key={`tel-${i}`} icon={Phone}>{p}</PreviewRow>)}
+      {emails.map((e, i) => <PreviewRow key={`mail-${i}`} icon={Mail}>{e}</PreviewRow>)}
+      {contact.address && <PreviewRow icon={MapPin}>{contact.address}</PreviewRow>}
+      {contact.url && <PreviewRow icon={Globe}>{contact.url}</PreviewRow>}
+    </div>
+  );
+};
+
+const EventPreview: React.FC<{ event: EventConfig }> = ({ event }) => (
+  <div className="space-y-3 mb-2">
+    <div className="flex items-center gap-3">
+      <div className="w-12 h-12 rounded-full bg-indigo-500/20 flex items-center justify-center">
+        <CalendarDays className="w-6 h-6 text-indigo-300" />
+      </div>
+      <p className="text-white text-lg font-medium">{event.title || 'İsimsiz Etkinlik'}</p>
+    </div>
+    {event.start && <PreviewRow icon={Clock}>{formatEventRange(event)}</PreviewRow>}
+    {event.location && <PreviewRow icon={MapPin}>{event.location}</PreviewRow>}
+    {event.description && (
+      <PreviewRow icon={AlignLeft}>
+        <span className="whitespace-pre-line line-clamp-4">{event.description}</span>
+      </PreviewRow>
+    )}
+  </div>
+);
+
+const EmvFieldTree: React.FC<{ fields: EmvField[] }> = ({ fields }) => (
+  <ul className="pl-3 border-l border-neutral-800 space-y-1">
+    {fields.map((f, i) => (
+      <li key={`${f.id}-${i}`} className="font-mono text-xs text-neutral-400 break-all">
+        <span className="text-indigo-300">{f.id}</span>
+        <span className="text-neutral-600"> [{f.length}] </span>
+        {f.children ? <EmvFieldTree fields={f.children} /> : f.value}
+      </li>
+    ))}
+  </ul>
+);
+
+const PaymentPreview: React.FC<{ payment: PaymentPayload }> = ({ payment }) => {
+  const { config } = payment;
+  const amount = formatPaymentAmount(config.amount, config.currency);
+
+  return (
+    <div className="space-y-3 mb-2">
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 rounded-full bg-indigo-500/20 flex items-center justify-center">
+          <Store className="w-6 h-6 text-indigo-300" />
+        </div>
+        <div>
+          <p className="text-white text-lg font-medium">{config.merchantName || 'Bilinmeyen İşyeri'}</p>
+          {config.merchantCity && <p className="text-sm text-neutral-400">{config.merchantCity}</p>}
+        </div>
+      </div>
+      <PreviewRow icon={Banknote}>
+        {amount || `Tutar ödeme sırasında girilir (${CURRENCIES[config.currency] || config.currency})`}
+      </PreviewRow>
+      {payment.crcValid ? (
+        <PreviewRow icon={ShieldCheck}><span className="text-emerald-400">CRC doğrulandı</span></PreviewRow>
+      ) : (
+        <PreviewRow icon={ShieldAlert}>
+          <span className="text-red-400">
+            {payment.error || `CRC hatalı (beklenen ${payment.crcExpected}, okunan ${payment.crcActual})`}
+          </span>
+        </PreviewRow>
+      )}
+      <details className="text-sm text-neutral-500">
+        <summary className="cursor-pointer select-none">Tüm alanlar</summary>
+        <div className="mt-2 max-h-40 overflow-y-auto">
+          <EmvFieldTree fields={payment.fields} />
+        </div>
+      </details>
+    </div>
+  );
+};
+
+// AIs that identify what the code is about, in order of preference for the heading
+const GS1_KEY_AIS = ['01', '02', '00', '414', '8004', '8003'];
+
+const Gs1Preview: React.FC<{ gs1: Gs1Payload }> = ({ gs1 }) => {
+  const key = GS1_KEY_AIS.map(ai => gs1.elements.find(e => e.ai === ai)).find(Boolean);
+  const expiry = gs1.elements.find(e => (e.ai === '17' || e.ai === '7003') && !e.error);
+  let host = '';
+  try {
+    host = gs1.digitalLink ? new URL(gs1.digitalLink).hostname : '';
+  } catch {
+    // Only parsed links become Digital Links, so this does not happen
+  }
+
+  return (
+    <div className="space-y-3 mb-2">
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 rounded-full bg-indigo-500/20 flex items-center justify-center">
+          <Package className="w-6 h-6 text-indigo-300" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-white text-lg font-medium font-mono break-all">{key?.value || 'GS1 verisi'}</p>
+          <p className="text-sm text-neutral-400">{[key?.label, host].filter(Boolean).join(' · ')}</p>
+        </div>
+      </div>
+      {expiry && (
+        gs1.expired ? (
+          <PreviewRow icon={CalendarX}><span className="text-red-400">Son kullanma tarihi geçmiş ({expiry.display})</span></PreviewRow>
+        ) : (
+          <PreviewRow icon={CalendarCheck}><span className="text-emerald-400">Son kullanma: {expiry.display}</span></PreviewRow>
+        )
+      )}
+      {gs1.error && <PreviewRow icon={ShieldAlert}><span className="text-red-400">{gs1.error}</span></PreviewRow>}
+      {gs1.elements.length > 0 && (
+        <table className="w-full text-xs">
+          <tbody>
+            {gs1.elements.map((e, i) => (
+              <tr key={`${e.ai}-${i}`} className="border-t border-neutral-800 align-top">
+                <td className="py-1.5 pr-2 font-mono text-indigo-300">({e.ai})</td>
+                <td className="py-1.5 pr-2 text-neutral-500">{e.label}</td>
+                <td className="py-1.5 text-neutral-200 break-all">
+                  {e.display}
+                  {e.error && <span className="block text-red-400">{e.error}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const RulePreview: React.FC<{ data: string; rule: PatternRule; value: string }> = ({ data, rule, value }) => (
+  <div className="space-y-3 mb-2">
+    <div className="flex items-center gap-3">
+      <div className="w-12 h-12 rounded-full bg-indigo-500/20 flex items-center justify-center">
+        <Wand2 className="w-6 h-6 text-indigo-300" />
+      </div>
+      <div>
+        <p className="text-white text-lg font-medium break-all">{data.trim()}</p>
+        <p className="text-sm text-neutral-400">{rule.name || 'Adsız kural'}</p>
+      </div>
+    </div>
+    <PreviewRow icon={ArrowRight}>
+      <span className="font-mono text-indigo-200">{value}</span>
+    </PreviewRow>
+  </div>
+);
+
+actionRegistry.setPreview(QRType.CONTACT, ({ payload }) =>
+  payload.type === QRType.CONTACT ? <ContactPreview contact={payload.contact} /> : null
+);
+actionRegistry.setPreview(QRType.EVENT, ({ payload }) =>
+  payload.type === QRType.EVENT ? <EventPreview event={payload.event} /> : null
+);
+actionRegistry.setPreview(QRType.PAYMENT, ({ payload }) =>
+  payload.type === QRType.PAYMENT ? <PaymentPreview payment={payload.payment} /> : null
+);
+actionRegistry.setPreview(QRType.GS1, ({ payload }) =>
+  payload.type === QRType.GS1 ? <Gs1Preview gs1={payload.gs1} /> : null
+);
+actionRegistry.setPreview(QRType.CUSTOM, ({ data, payload }) =>
+  payload.type === QRType.CUSTOM ? <RulePreview data={data} rule={payload.rule} value={payload.value} /> : null
+);
+
+const ResultPreview: React.FC<ResultPreviewProps> = ({ data, type }) => {
+  const Preview = actionRegistry.getHandler(type)?.preview;
+  if (Preview) return <Preview data={data} payload={parseQRPayload(data, type)} />;
+
+  return (
+    <p className="text-white text-lg font-medium mb-2 break-all line-clamp-4">
+      {data}
+    </p>
+  );
+};
+
+export default ResultPreview;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { X, Save, CopyPlus } from 'lucide-react';
+import { SavedCode } from '../types';
+import { parseTags } from '../utils/library';
+
+interface SaveCodeDialogProps {
+  defaultName: string;
+  // Set when the editor holds a code opened from the library
+  editing: SavedCode | null;
+  onSave: (name: string, tags: string[], asNew: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const SaveCodeDialog: React.FC<SaveCodeDialogProps> = ({ defaultName, editing, onSave, onClose }) => {
+  const [name, setName] = useState(editing?.name || defaultName);
+  const [tags, setTags] = useState(editing?.tags.join(', ') || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (asNew: boolean) => {
+    if (!name.trim()) {
+      setError('Ad zorunlu');
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(name.trim(), parseTags(tags), asNew);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-sm bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Kitaplığa Kaydet</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs text-neutral-500 ml-1">Ad</label>
+          <input className={inputClass} value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs text-neutral-500 ml-1">Etiketler (virgülle ayırın)</label>
+          <input className={inputClass} value={tags} onChange={(e) => setTags(e.target.value)} placeholder="otel, wifi" />
+        </div>
+
+        {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+
+        <div className="flex gap-2">
+          {editing && (
+            <button
+              onClick={() => submit(true)}
+              disabled={saving}
+              className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-neutral-800 text-white font-medium hover:bg-neutral-700 transition-colors disabled:opacity-40"
+            >
+              <CopyPlus className="w-4 h-4" /> Yeni Kayıt
+            </button>
+          )}
+          <button
+            onClick={() => submit(false)}
+            disabled={saving}
+            className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+          >
+            <Save className="w-4 h-4" /> {editing ? 'Güncelle' : 'Kaydet'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveCodeDialog;
@@ -1,8 +1,27 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import jsQR from 'jsqr';
-import { AlertCircle, RefreshCcw, Zap, ZapOff, Volume2, VolumeX, Smartphone, Rocket, MousePointerClick, X, ArrowRight } from 'lucide-react';
-import { detectQRType, performAction } from '../utils/qrUtils';
-import { QRType } from '../types';
+import { AlertCircle, RefreshCcw, Zap, ZapOff, Volume2, VolumeX, Smartphone, Rocket, MousePointerClick, X, ArrowRight, Settings2, Download, ShieldCheck, Lock, ImagePlus, HistoryIcon } from 'lucide-react';
+import { actionRegistry } from '../utils/actionRegistry';
+import { HistoryEntry, ScannedResult, SignatureCheck, Symbology } from '../types';
+import { inspectUrl, shouldInspect } from '../utils/urlSafety';
+import { CONFIDENT_DETECTION } from '../utils/detection';
+import { DecodedQr, decodeQr } from '../utils/qrDecoder';
+import { AppendSet, assembleAppendSet, collectAppendPart, missingAppendParts } from '../utils/structuredAppend';
+import { TransferMeta, TransferProgress, TransferReceiver, createTransferReceiver, formatFileSize, isTransferFrame, parseTransferFrame } from '../utils/fileTransfer';
+import { downloadFile } from '../utils/qrUtils';
+import { isProtectedPayload, openPayload } from '../utils/protectedPayload';
+import { isSignedPayload, verifySignedPayload } from '../utils/signing';
+import { DecodedBarcode, FALLBACK_SYMBOLOGIES, SYMBOLOGY_LABELS, decodeBarcode, loadEnabledSymbologies } from '../utils/symbology';
+import { findImageFile } from '../utils/imageScan';
+import { isPdfFile, isScannableFile } from '../utils/batchScan';
+import { recordScan } from '../utils/history';
+import ResultPreview from './ResultPreview';
+import ScannerSettings from './ScannerSettings';
+import UrlSafetyNotice from './UrlSafetyNotice';
+import SignatureBadge from './SignatureBadge';
+import ImageImportDialog from './ImageImportDialog';
+import BatchScanDialog from './BatchScanDialog';
+import HistoryPanel from './HistoryPanel';
 
 interface ScannerProps {
   active: boolean;
@@ -14,9 +33,15 @@ enum FeedbackMode {
   SOUND = 2
 }
 
+// How often frames without a readable code are also run through our own decoder, in ms
+const DECODE_INTERVAL = 250;
+// While a Structured Append set is being collected, how long a QR code read by another reader waits
+// for our decoder to confirm it has no set header; after that it is treated as a single code
+const APPEND_CHECK_TIMEOUT = 1500;
+
 // Interface for the native BarcodeDetector API
 interface BarcodeDetector {
-  detect: (image: ImageBitmapSource) => Promise<Array<{ rawValue: string, cornerPoints: {x: number, y: number}[] }>>;
+  detect: (image: ImageBitmapSource) => Promise<Array<{ rawValue: string, format: string, cornerPoints: {x: number, y: number}[] }>>;
 }
 
 declare global {
@@ -48,23 +73,56 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
     return saved !== 'false'; // Default true
   });
 
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [symbologies, setSymbologies] = useState<Symbology[]>(loadEnabledSymbologies);
+
   // Manual Result State
-  const [manualResult, setManualResult] = useState<{data: string, type: QRType} | null>(null);
+  const [manualResult, setManualResult] = useState<ScannedResult | null>(null);
+  // Why the last action on the result failed, shown in the result modal
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Passphrase-protected code waiting to be opened
+  // recorded is what goes into the history once opened; signature is the verdict of a signed code around the envelope
+  const [locked, setLocked] = useState<{ envelope: string, symbology: Symbology, recorded: string | null, signature?: SignatureCheck, error: string | null } | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
   
   // Refs for loop access
   const feedbackModeRef = useRef(feedbackMode);
   const autoActionRef = useRef(autoAction);
   const requestRef = useRef<number>(0);
   const detectorRef = useRef<BarcodeDetector | null>(null);
+  // Enabled formats, and those of them the native detector reads
+  const symbologiesRef = useRef(symbologies);
+  const nativeFormatsRef = useRef<Symbology[]>([]);
+  const lastFallbackRef = useRef<number>(0);
   const activeRef = useRef(active);
   const lastScannedRef = useRef<string | null>(null);
   const lastScanTimeRef = useRef<number>(0);
   const currentCornersRef = useRef<{x: number, y: number}[] | null>(null);
+  // Structured Append parts collected so far, and the last code the other readers returned with its check result
+  const appendSetRef = useRef<AppendSet | null>(null);
+  // checked is false while our decoder has not yet managed to read the code
+  const appendCheckRef = useRef<{ data: string, part: DecodedQr | null, checked: boolean, since: number }>({ data: '', part: null, checked: true, since: 0 });
+  const lastDecodeRef = useRef<number>(0);
+  const [appendProgress, setAppendProgress] = useState<{ set: AppendSet, error: string | null } | null>(null);
+  // Animated file transfer being received
+  const transferRef = useRef<TransferReceiver | null>(null);
+  const [transfer, setTransfer] = useState<{ progress: TransferProgress, file: { meta: TransferMeta, bytes: Uint8Array } | null, error: string | null } | null>(null);
+  // Image picked, pasted or dropped for decoding
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  // Several files or a PDF go to batch decoding instead
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [dragging, setDragging] = useState(false);
 
   useEffect(() => {
     activeRef.current = active;
     if (!active) {
       lastScannedRef.current = null;
+      resetAppendSet();
+      resetTransfer();
       if (torchOn) toggleTorch(false);
     }
   }, [active]);
@@ -80,14 +138,34 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
     localStorage.setItem('qr-auto-action', autoAction.toString());
   }, [autoAction]);
 
-  // Initialize Native Barcode Detector
+  // Screenshots pasted anywhere on the page open the image import
+  useEffect(() => {
+    if (!active) return;
+    const onPaste = (e: ClipboardEvent) => {
+      const file = findImageFile(e.clipboardData);
+      if (!file) return;
+      e.preventDefault();
+      setImportFile(file);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [active]);
+
+  // Initialize Native Barcode Detector with the enabled formats it supports; the rest fall
+  // back to our own readers
   useEffect(() => {
+    let cancelled = false;
+    symbologiesRef.current = symbologies;
+    detectorRef.current = null;
+    nativeFormatsRef.current = [];
     const initDetector = async () => {
       if ('BarcodeDetector' in window && window.BarcodeDetector) {
         try {
-          const formats = await window.BarcodeDetector.getSupportedFormats();
-          if (formats.includes('qr_code')) {
-            detectorRef.current = new window.BarcodeDetector({ formats: ['qr_code'] });
+          const supported = await window.BarcodeDetector.getSupportedFormats();
+          const formats = symbologies.filter(s => supported.includes(s));
+          if (!cancelled && formats.length) {
+            detectorRef.current = new window.BarcodeDetector({ formats });
+            nativeFormatsRef.current = formats;
           }
         } catch (e) {
           console.warn("BarcodeDetector initialization failed", e);
@@ -99,7 +177,10 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
     if (!processingCanvasRef.current) {
       processingCanvasRef.current = document.createElement('canvas');
     }
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [symbologies]);
 
   const toggleTorch = async (forceState?: boolean) => {
     const video = videoRef.current;
@@ -283,6 +364,8 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
         let foundCode = false;
         let points: {x: number, y: number}[] = [];
         let rawData = "";
+        let symbology: Symbology = 'qr_code';
+        const qrEnabled = symbologiesRef.current.includes('qr_code');
 
         // 1. Native BarcodeDetector
         if (detectorRef.current) {
@@ -299,45 +382,165 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
                 foundCode = true;
                 rawData = code.rawValue;
                 points = code.cornerPoints;
+                symbology = code.format as Symbology;
               }
             }
           } catch (err) {}
         }
 
+        // The frame is only copied to the processing canvas when a pixel-based reader needs it
+        let frame: ImageData | null = null;
+        const grabFrame = () => {
+          if (!frame && pCanvas) {
+            if (pCanvas.width !== video.videoWidth || pCanvas.height !== video.videoHeight) {
+              pCanvas.width = video.videoWidth;
+              pCanvas.height = video.videoHeight;
+            }
+            const pCtx = pCanvas.getContext('2d', { willReadFrequently: true });
+            if (pCtx) {
+              pCtx.drawImage(video, 0, 0, pCanvas.width, pCanvas.height);
+              frame = pCtx.getImageData(0, 0, pCanvas.width, pCanvas.height);
+            }
+          }
+          return frame;
+        };
+
         // 2. Fallback jsQR
-        if (!foundCode && pCanvas) {
-           if (pCanvas.width !== video.videoWidth || pCanvas.height !== video.videoHeight) {
-             pCanvas.width = video.videoWidth;
-             pCanvas.height = video.videoHeight;
-           }
-           const pCtx = pCanvas.getContext('2d', { willReadFrequently: true });
-           if (pCtx) {
-             pCtx.drawImage(video, 0, 0, pCanvas.width, pCanvas.height);
-             const imageData = pCtx.getImageData(0, 0, pCanvas.width, pCanvas.height);
-             const code = jsQR(imageData.data, imageData.width, imageData.height, { inversionAttempts: "dontInvert" });
-             
-             if (code && code.data) {
-               const center = {
-                 x: (code.location.topLeftCorner.x + code.location.bottomRightCorner.x) / 2,
-                 y: (code.location.topLeftCorner.y + code.location.bottomRightCorner.y) / 2
-               };
-
-               if (isPointInFocusArea(center, video.videoWidth, video.videoHeight)) {
-                 foundCode = true;
-                 rawData = code.data;
-                 points = [
-                   code.location.topLeftCorner,
-                   code.location.topRightCorner,
-                   code.location.bottomRightCorner,
-                   code.location.bottomLeftCorner
-                 ];
-               }
+        if (!foundCode && qrEnabled) {
+           const imageData = grabFrame();
+           const code = imageData && jsQR(imageData.data, imageData.width, imageData.height, { inversionAttempts: "dontInvert" });
+           
+           if (code && code.data) {
+             const center = {
+               x: (code.location.topLeftCorner.x + code.location.bottomRightCorner.x) / 2,
+               y: (code.location.topLeftCorner.y + code.location.bottomRightCorner.y) / 2
+             };
+
+             if (isPointInFocusArea(center, video.videoWidth, video.videoHeight)) {
+               foundCode = true;
+               rawData = code.data;
+               points = [
+                 code.location.topLeftCorner,
+                 code.location.topRightCorner,
+                 code.location.bottomRightCorner,
+                 code.location.bottomLeftCorner
+               ];
              }
            }
         }
 
-        if (foundCode && points.length > 0) {
+        // 3. Structured Append: both readers above drop the set header (jsQR reads it as data), so new
+        // codes go through our decoder once before anything runs, and empty frames are checked every so
+        // often. Only while a set is being collected does a code it cannot read wait for a later frame.
+        let appendPart: DecodedQr | null = null;
+        let headerUnknown = false;
+        const appendCheck = appendCheckRef.current;
+        const checkPending = foundCode && rawData === appendCheck.data && !appendCheck.checked;
+        if (!qrEnabled || (foundCode && symbology !== 'qr_code')) {
+          // Only QR codes carry a set header
+        } else if (foundCode && isTransferFrame(rawData)) {
+          // Transfer frames change several times a second and never belong to a set
+        } else if (foundCode && rawData === appendCheck.data && appendCheck.checked) {
+          appendPart = appendCheck.part;
+        } else if ((foundCode && !checkPending) || Date.now() - lastDecodeRef.current > DECODE_INTERVAL) {
+          lastDecodeRef.current = Date.now();
+          const imageData = grabFrame();
+          const decoded = imageData ? decodeQr(imageData) : null;
+          if (decoded?.structuredAppend) {
+            appendPart = decoded;
+          } else if (decoded && !foundCode) {
+            const center = {
+              x: (decoded.corners[0].x + decoded.corners[2].x) / 2,
+              y: (decoded.corners[0].y + decoded.corners[2].y) / 2
+            };
+            if (isPointInFocusArea(center, video.videoWidth, video.videoHeight)) {
+              foundCode = true;
+              rawData = decoded.text;
+              points = decoded.corners;
+            }
+          }
+          if (foundCode) {
+            const since = checkPending ? appendCheck.since : Date.now();
+            // Until the header has been read, a further part of the set could be taken for a whole code
+            const set = appendSetRef.current;
+            const collecting = !!set && missingAppendParts(set).length > 0;
+            const checked = !!decoded || !collecting || Date.now() - since > APPEND_CHECK_TIMEOUT;
+            appendCheckRef.current = { data: rawData, part: appendPart, checked, since };
+            headerUnknown = !checked;
+          }
+        } else {
+          headerUnknown = checkPending;
+        }
+
+        if (headerUnknown) {
           drawLensCorners(ctx, points);
+          foundCode = false;
+        }
+
+        // 4. Formats the native detector does not read, throttled like the QR decoder above
+        const fallbackFormats = symbologiesRef.current.filter(
+          s => s !== 'qr_code' && FALLBACK_SYMBOLOGIES.includes(s) && !nativeFormatsRef.current.includes(s)
+        );
+        if (!foundCode && !appendPart && !headerUnknown && fallbackFormats.length && Date.now() - lastFallbackRef.current > DECODE_INTERVAL) {
+          lastFallbackRef.current = Date.now();
+          const imageData = grabFrame();
+          const decoded = imageData ? decodeBarcode(imageData, fallbackFormats) : null;
+          if (decoded) {
+            const center = {
+              x: (decoded.corners[0].x + decoded.corners[2].x) / 2,
+              y: (decoded.corners[0].y + decoded.corners[2].y) / 2
+            };
+            if (isPointInFocusArea(center, video.videoWidth, video.videoHeight)) {
+              foundCode = true;
+              rawData = decoded.text;
+              points = decoded.corners;
+              symbology = decoded.symbology;
+            }
+          }
+        }
+
+        if (appendPart) {
+          drawLensCorners(ctx, foundCode ? points : appendPart.corners);
+          foundCode = false;
+          const header = appendPart.structuredAppend!;
+          const current = appendSetRef.current;
+          const isNewPart = !current || current.total !== header.total || current.parity !== header.parity || !current.parts[header.index];
+          if (isNewPart && !isModalOpen()) {
+            const set = collectAppendPart(current, appendPart);
+            // A completed set stays current, so the part still in view does not start it over
+            appendSetRef.current = set;
+            if (missingAppendParts(set).length) {
+              triggerFeedback();
+              setAppendProgress({ set, error: null });
+            } else {
+              try {
+                // The complete set goes through the same flow as a single code
+                rawData = assembleAppendSet(set);
+                foundCode = true;
+                points = appendPart.corners;
+                setAppendProgress(null);
+              } catch (e) {
+                appendSetRef.current = null;
+                setAppendProgress({ set, error: e instanceof Error ? e.message : String(e) });
+              }
+            }
+          }
+        }
+
+        // 5. File transfer frames feed the receiver instead of the action flow
+        if (foundCode && isTransferFrame(rawData)) {
+          drawLensCorners(ctx, points);
+          // A malformed or hostile frame is dropped; it must not stop the scan loop
+          try {
+            receiveTransferFrame(rawData);
+          } catch (e) {
+            console.warn('Transfer frame dropped', e);
+          }
+          foundCode = false;
+        }
+
+        if (foundCode && points.length > 0) {
+          if (!appendPart) drawLensCorners(ctx, points);
 
           const now = Date.now();
           const isSameCode = rawData === lastScannedRef.current;
@@ -351,26 +554,13 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
              // We have a new valid scan candidate
              // Check if we are blocked by manual modal? 
              // We will solve this by checking if the DOM contains our modal ID.
-             const modalOpen = document.getElementById('manual-result-modal');
-             
-             if (!modalOpen) {
+             if (!isModalOpen()) {
                 lastScannedRef.current = rawData;
                 lastScanTimeRef.current = now;
                 
                 triggerFeedback();
-                
-                const type = detectQRType(rawData);
-                if (autoActionRef.current) {
-                   performAction(rawData, type);
-                } else {
-                   // Manual Mode: Set state to show modal
-                   // We need to call the setManualResult from outside the loop context?
-                   // Actually, since this function is created once, we need to dispatch a state update.
-                   // To avoid staleness, we can just dispatch.
-                   // But we need to make sure we don't dispatch repeatedly.
-                   // The lastScannedRef check handles the "once" part.
-                   setManualResult({ data: rawData, type });
-                }
+
+                openScanned(rawData, symbology);
              }
           }
         } else {
@@ -469,18 +659,245 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
     };
   }, [active, scanFrame]);
 
+  // Either runs the action straight away or shows the confirmation modal. Signed codes always
+  // stop at the modal, so the signature verdict is seen before anything runs.
+  // recorded is what goes into the history, null to skip it; unlocked codes keep their envelope there.
+  // signature carries the verdict of a signed code whose payload had to be unlocked first.
+  const presentResult = async (scanned: string, symbology: Symbology, recorded: string | null = scanned, signature?: SignatureCheck) => {
+    let data = scanned;
+    if (isSignedPayload(scanned)) {
+      const verified = await verifySignedPayload(scanned).catch(() => null);
+      data = verified ? verified.payload : scanned;
+      // An outer signature that failed is not outweighed by an inner one that holds
+      if (!signature || signature.status === 'verified') signature = verified ? verified.check : { status: 'unverified', keyId: '' };
+    }
+    // A signed code may wrap a protected one; it is opened with the verdict kept for the result
+    if (isProtectedPayload(data)) {
+      setLocked({ envelope: data, symbology, recorded, signature, error: null });
+      return;
+    }
+    const { type, confidence } = actionRegistry.classify(data);
+    if (recorded !== null) recordScan(recorded, type, symbology).catch(e => console.warn('Scan history not saved', e));
+    // Suspicious links and guessed types (bare domains, numbers) always stop at the confirmation screen
+    const inspection = shouldInspect(data, type) ? inspectUrl(data) : undefined;
+    const confident = confidence >= CONFIDENT_DETECTION && (!inspection || inspection.verdict === 'safe');
+    const result: ScannedResult = { raw: data, type, symbology, inspection, signature };
+    if (autoActionRef.current && !actionRegistry.requiresPreview(type) && confident && !signature) {
+       runAction(result);
+    } else {
+       // Manual Mode: the lastScannedRef check keeps this from being dispatched repeatedly
+       setActionError(null);
+       setManualResult(result);
+    }
+  };
+
+  // A failed action (refused clipboard, blocked link, a throwing custom action) brings the result
+  // back on screen with the reason, so it can be retried or copied instead
+  const runAction = (result: ScannedResult, actionId?: string) => {
+    actionRegistry.run(result.raw, result.type, actionId).catch(e => {
+      setManualResult(result);
+      setActionError(e instanceof Error ? e.message : String(e));
+    });
+  };
+
+  // Protected codes are only classified once the passphrase has opened them
+  const openScanned = (scanned: string, symbology: Symbology, record = true) => {
+    if (isProtectedPayload(scanned)) {
+      setLocked({ envelope: scanned, symbology, recorded: record ? scanned : null, error: null });
+    } else {
+      presentResult(scanned, symbology, record ? scanned : null).catch(e => console.warn('Scan result not shown', e));
+    }
+  };
+
+  // The modals pause scanning; the loop cannot read their state, so it looks for them in the DOM
+  const isModalOpen = () =>
+    !!document.getElementById('manual-result-modal') || !!document.getElementById('unlock-modal') || !!document.getElementById('image-import-modal') ||
+    !!document.getElementById('batch-scan-modal') ||
+    !!document.getElementById('history-modal');
+
+  // The native detector reads every code in an image at once, so it goes first for imports too
+  const detectInImage = async (source: ImageBitmapSource): Promise<DecodedBarcode[]> => {
+    const detector = detectorRef.current;
+    if (!detector) return [];
+    const codes = await detector.detect(source);
+    return codes.map(code => ({ text: code.rawValue, symbology: code.format as Symbology, corners: code.cornerPoints }));
+  };
+
+  const selectImportedCode = (code: DecodedBarcode) => {
+    setImportFile(null);
+    // Keeps the camera from opening the same code again if it is also in view
+    lastScannedRef.current = code.text;
+    lastScanTimeRef.current = Date.now();
+    openScanned(code.text, code.symbology);
+  };
+
+  const openFiles = (files: FileList | null) => {
+    const scannable = Array.from(files || []).filter(isScannableFile);
+    if (scannable.length === 1 && !isPdfFile(scannable[0])) setImportFile(scannable[0]);
+    else if (scannable.length) setBatchFiles(scannable);
+  };
+
+  // Re-running is not a new scan, so it adds nothing to the history
+  const rerunHistoryEntry = (entry: HistoryEntry) => {
+    setShowHistory(false);
+    lastScannedRef.current = entry.data;
+    lastScanTimeRef.current = Date.now();
+    openScanned(entry.data, entry.symbology, false);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    openFiles(e.dataTransfer.files);
+  };
+
+  const unlock = async () => {
+    if (!locked || !passphrase) return;
+    setUnlocking(true);
+    try {
+      const data = await openPayload(locked.envelope, passphrase);
+      setLocked(null);
+      setPassphrase('');
+      await presentResult(data, locked.symbology, locked.recorded, locked.signature);
+    } catch (e) {
+      setLocked({ ...locked, error: e instanceof Error ? e.message : String(e) });
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const closeUnlock = () => {
+    setLocked(null);
+    setPassphrase('');
+    lastScannedRef.current = null;
+  };
+
+  const resetAppendSet = () => {
+    appendSetRef.current = null;
+    setAppendProgress(null);
+  };
+
+  const receiveTransferFrame = (text: string) => {
+    let receiver = transferRef.current;
+    // A received file stays on screen until it is saved or dismissed
+    if (receiver?.isComplete()) return;
+    let frame;
+    try {
+      frame = parseTransferFrame(text);
+    } catch {
+      return;
+    }
+    if (receiver && receiver.transferId === frame.transferId) {
+      const before = receiver.progress().frames;
+      receiver.add(frame);
+      if (receiver.progress().frames === before) return;
+    } else {
+      receiver = createTransferReceiver(frame);
+      transferRef.current = receiver;
+      triggerFeedback();
+    }
+    const progress = receiver.progress();
+    setTransfer({ progress, file: null, error: null });
+    if (receiver.isComplete()) {
+      const finished = receiver;
+      finished.finish()
+        .then(file => {
+          if (transferRef.current !== finished) return;
+          triggerFeedback();
+          setTransfer({ progress, file, error: null });
+        })
+        .catch(e => {
+          if (transferRef.current === finished) setTransfer({ progress, file: null, error: e instanceof Error ? e.message : String(e) });
+        });
+    }
+  };
+
+  const resetTransfer = () => {
+    transferRef.current = null;
+    setTransfer(null);
+  };
+
+  const saveTransfer = () => {
+    if (!transfer?.file) return;
+    const { meta, bytes } = transfer.file;
+    downloadFile(meta.name || 'dosya', new Blob([bytes], { type: meta.type || 'application/octet-stream' }));
+    resetTransfer();
+  };
+
   // Handle manual modal close
   const closeManualResult = () => {
     setManualResult(null);
+    setActionError(null);
     // Allow re-scan of same code immediately if desired, or keep cooldown.
     // Let's clear lastScannedRef to allow re-scan immediately.
     lastScannedRef.current = null;
   };
 
+  // A blocked link or tampered content can still be copied for inspection elsewhere, never opened
+  const copyOnly = manualResult?.inspection?.verdict === 'block' || manualResult?.signature?.status === 'tampered';
+  const manualActions = manualResult
+    ? actionRegistry.getActions(manualResult.type).filter(a => !copyOnly || a.kind === 'copy')
+    : [];
+  const preferredAction = manualResult ? actionRegistry.getPreferredAction(manualResult.type) : undefined;
+  const primaryAction = manualActions.find(a => a.id === preferredAction?.id) ?? manualActions[0];
+
   if (!active) return null;
 
   return (
-    <div className="relative h-full w-full bg-black flex flex-col items-center justify-center overflow-hidden">
+    <div
+      className="relative h-full w-full bg-black flex flex-col items-center justify-center overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
+      <input
+        ref={imageInputRef}
+        type="file"
+        multiple
+        accept="image/*,application/pdf"
+        className="hidden"
+        onChange={(e) => {
+          openFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+
+      {dragging && (
+        <div className="absolute inset-4 z-[80] rounded-3xl border-2 border-dashed border-indigo-400 bg-indigo-500/10 backdrop-blur-sm flex flex-col items-center justify-center gap-3 pointer-events-none">
+          <ImagePlus className="w-10 h-10 text-indigo-300" />
+          <p className="text-white font-medium">Taramak için görsel veya PDF bırakın</p>
+        </div>
+      )}
+
+      {importFile && (
+        <ImageImportDialog
+          file={importFile}
+          symbologies={symbologies}
+          detect={detectInImage}
+          onSelect={selectImportedCode}
+          onClose={() => setImportFile(null)}
+        />
+      )}
+
+      {batchFiles && (
+        <BatchScanDialog
+          files={batchFiles}
+          symbologies={symbologies}
+          detect={detectInImage}
+          onClose={() => setBatchFiles(null)}
+        />
+      )}
+
+      {showHistory && <HistoryPanel onRerun={rerunHistoryEntry} onClose={() => setShowHistory(false)} />}
+
       {error ? (
         <div className="text-center p-6 bg-neutral-900/90 rounded-xl border border-red-500/30 m-4 max-w-sm backdrop-blur-md relative z-50">
           <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
@@ -492,6 +909,21 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
             <RefreshCcw className="w-4 h-4" />
             <span>Yenile</span>
           </button>
+          {/* Codes can still be read from images and PDFs without a camera */}
+          <button
+             onClick={() => imageInputRef.current?.click()}
+             className="flex items-center justify-center gap-2 w-full px-4 py-3 mt-3 bg-indigo-600 rounded-lg text-white"
+          >
+            <ImagePlus className="w-4 h-4" />
+            <span>Dosyadan Tara</span>
+          </button>
+          <button
+             onClick={() => setShowHistory(true)}
+             className="flex items-center justify-center gap-2 w-full px-4 py-3 mt-3 bg-neutral-800 rounded-lg text-white"
+          >
+            <HistoryIcon className="w-4 h-4" />
+            <span>Tarama Geçmişi</span>
+          </button>
         </div>
       ) : (
         <>
@@ -539,45 +971,92 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
              </div>
           </div>
           
-          {/* Manual Result Modal Overlay */}
-          {manualResult && (
-            <div id="manual-result-modal" className="absolute inset-0 z-[60] flex items-center justify-center p-6 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
-               <div className="w-full max-w-sm bg-neutral-900 rounded-2xl border border-white/10 shadow-2xl overflow-hidden p-6 relative">
-                  <div className="flex justify-between items-start mb-4">
-                     <span className="px-3 py-1 bg-indigo-500/20 text-indigo-300 text-xs font-bold rounded-full border border-indigo-500/30">
-                        {manualResult.type}
-                     </span>
-                     <button onClick={closeManualResult} className="text-neutral-400 hover:text-white p-1">
-                        <X className="w-5 h-5" />
-                     </button>
-                  </div>
-                  
-                  <p className="text-white text-lg font-medium mb-2 break-all line-clamp-4">
-                     {manualResult.data}
-                  </p>
-                  
-                  <div className="flex gap-3 mt-6">
-                     <button 
-                        onClick={closeManualResult}
-                        className="flex-1 py-3 rounded-xl bg-neutral-800 text-neutral-300 font-medium hover:bg-neutral-700 transition-colors"
-                     >
-                        İptal
-                     </button>
-                     <button 
-                        onClick={() => {
-                           performAction(manualResult.data, manualResult.type);
-                           closeManualResult();
-                        }}
-                        className="flex-1 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors flex items-center justify-center gap-2"
-                     >
-                        <span>Aç / Git</span>
-                        <ArrowRight className="w-4 h-4" />
-                     </button>
-                  </div>
-               </div>
+          {/* Structured Append progress: which parts of the set are still missing */}
+          {appendProgress && (
+            <div className="absolute bottom-8 left-0 right-0 px-6 z-40 flex justify-center">
+              <div className="w-full max-w-sm bg-black/70 backdrop-blur-md rounded-2xl border border-white/10 p-4 space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-white font-medium">
+                    Parçalı kod · {appendProgress.set.total - missingAppendParts(appendProgress.set).length} / {appendProgress.set.total}
+                  </span>
+                  <button onClick={resetAppendSet} className="text-neutral-400 hover:text-white p-1">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {appendProgress.set.parts.map((part, i) => (
+                    <span
+                      key={i}
+                      className={`w-7 h-7 rounded-md flex items-center justify-center text-xs font-medium ${
+                        part ? 'bg-emerald-500 text-white' : 'bg-neutral-800 text-neutral-500'
+                      }`}
+                    >
+                      {i + 1}
+                    </span>
+                  ))}
+                </div>
+                <p className={`text-xs ${appendProgress.error ? 'text-red-400' : 'text-neutral-400'}`}>
+                  {appendProgress.error || `Eksik parçalar: ${missingAppendParts(appendProgress.set).map(i => i + 1).join(', ')}`}
+                </p>
+              </div>
             </div>
           )}
-          
+
+          {/* File transfer: progress while frames arrive, then the verified file */}
+          {transfer && (
+            <div className="absolute bottom-8 left-0 right-0 px-6 z-40 flex justify-center">
+              <div className="w-full max-w-sm bg-black/70 backdrop-blur-md rounded-2xl border border-white/10 p-4 space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-white font-medium truncate">
+                    {transfer.file ? transfer.file.meta.name : `Dosya alınıyor · %${Math.floor((transfer.progress.decoded / transfer.progress.blockCount) * 100)}`}
+                  </span>
+                  <button onClick={resetTransfer} className="text-neutral-400 hover:text-white p-1">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                {transfer.file ? (
+                  <>
+                    <p className="flex items-center gap-1.5 text-xs text-emerald-400">
+                      <ShieldCheck className="w-4 h-4" />
+                      {formatFileSize(transfer.file.meta.size)} · SHA-256 doğrulandı
+                    </p>
+                    <button
+                      onClick={saveTransfer}
+                      className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-500 transition-colors"
+                    >
+                      <Download className="w-4 h-4" />
+                      Kaydet
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="h-1.5 rounded-full bg-neutral-800 overflow-hidden">
+                      <div
+                        className="h-full bg-emerald-500 transition-all"
+                        style={{ width: `${(transfer.progress.decoded / transfer.progress.blockCount) * 100}%` }}
+                      />
+                    </div>
+                    <p className={`text-xs ${transfer.error ? 'text-red-400' : 'text-neutral-400'}`}>
+                      {transfer.error ||
+                        (transfer.progress.decoded === transfer.progress.blockCount
+                          ? 'Doğrulanıyor...'
+                          : `${transfer.progress.frames} kare · ${transfer.progress.decoded} / ${transfer.progress.blockCount} blok`)}
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {showSettings && (
+            <ScannerSettings
+              onClose={() => {
+                setShowSettings(false);
+                setSymbologies(loadEnabledSymbologies());
+              }}
+            />
+          )}
+
           {/* Top Controls Container */}
           <div className="absolute top-8 left-0 right-0 px-6 flex justify-between z-50 pointer-events-none">
              
@@ -608,6 +1087,30 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
                  >
                    {autoAction ? <Rocket className="w-6 h-6" /> : <MousePointerClick className="w-6 h-6" />}
                  </button>
+
+                 {/* Settings */}
+                 <button
+                   onClick={() => setShowSettings(true)}
+                   className="p-3 rounded-full backdrop-blur-md transition-all shadow-xl border flex items-center justify-center bg-black/50 text-white/70 border-white/10 hover:bg-black/70"
+                 >
+                   <Settings2 className="w-6 h-6" />
+                 </button>
+
+                 {/* Image and PDF import; pasting or dropping files does the same */}
+                 <button
+                   onClick={() => imageInputRef.current?.click()}
+                   className="p-3 rounded-full backdrop-blur-md transition-all shadow-xl border flex items-center justify-center bg-black/50 text-white/70 border-white/10 hover:bg-black/70"
+                 >
+                   <ImagePlus className="w-6 h-6" />
+                 </button>
+
+                 {/* Scan history */}
+                 <button
+                   onClick={() => setShowHistory(true)}
+                   className="p-3 rounded-full backdrop-blur-md transition-all shadow-xl border flex items-center justify-center bg-black/50 text-white/70 border-white/10 hover:bg-black/70"
+                 >
+                   <HistoryIcon className="w-6 h-6" />
+                 </button>
              </div>
 
              {/* Torch Button - Right */}
@@ -626,6 +1129,122 @@ const Scanner: React.FC<ScannerProps> = ({ active }) => {
           </div>
         </>
       )}
+
+      {/* Passphrase prompt for protected codes */}
+      {locked && (
+        <div id="unlock-modal" className="absolute inset-0 z-[60] flex items-center justify-center p-6 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+           <div className="w-full max-w-sm bg-neutral-900 rounded-2xl border border-white/10 shadow-2xl overflow-hidden p-6 relative space-y-4">
+              <div className="flex justify-between items-start">
+                 <span className="flex items-center gap-1.5 px-3 py-1 bg-amber-500/20 text-amber-300 text-xs font-bold rounded-full border border-amber-500/30">
+                    <Lock className="w-3.5 h-3.5" />
+                    KORUMALI
+                 </span>
+                 <button onClick={closeUnlock} className="text-neutral-400 hover:text-white p-1">
+                    <X className="w-5 h-5" />
+                 </button>
+              </div>
+              {locked.signature && <SignatureBadge check={locked.signature} />}
+              <p className="text-sm text-neutral-300">Bu kodun içeriği parolayla şifrelenmiş. Açmak için parolayı girin.</p>
+              <form
+                 onSubmit={(e) => {
+                    e.preventDefault();
+                    unlock();
+                 }}
+                 className="space-y-3"
+              >
+                 <input
+                    type="password"
+                    autoFocus
+                    placeholder="Parola"
+                    className="w-full bg-neutral-950 border border-neutral-800 rounded-xl p-3 text-white focus:outline-none focus:border-indigo-500 transition-all"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                 />
+                 {locked.error && <p className="text-xs text-red-400 ml-1">{locked.error}</p>}
+                 <button
+                    type="submit"
+                    disabled={!passphrase || unlocking}
+                    className="w-full py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+                 >
+                    {unlocking ? 'Açılıyor...' : 'Aç'}
+                 </button>
+              </form>
+           </div>
+        </div>
+      )}
+
+      {/* Manual Result Modal Overlay */}
+      {manualResult && (
+        <div id="manual-result-modal" className="absolute inset-0 z-[60] flex items-center justify-center p-6 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+           <div className="w-full max-w-sm bg-neutral-900 rounded-2xl border border-white/10 shadow-2xl overflow-hidden p-6 relative">
+              <div className="flex justify-between items-start mb-4">
+                 <div className="flex flex-wrap items-center gap-2">
+                    <span className="px-3 py-1 bg-indigo-500/20 text-indigo-300 text-xs font-bold rounded-full border border-indigo-500/30">
+                       {manualResult.type}
+                    </span>
+                    <span className="px-3 py-1 bg-white/5 text-neutral-400 text-xs font-medium rounded-full border border-white/10">
+                       {SYMBOLOGY_LABELS[manualResult.symbology] ?? manualResult.symbology}
+                    </span>
+                 </div>
+                 <button onClick={closeManualResult} className="text-neutral-400 hover:text-white p-1">
+                    <X className="w-5 h-5" />
+                 </button>
+              </div>
+              
+              {manualResult.signature && <SignatureBadge check={manualResult.signature} />}
+              <ResultPreview data={manualResult.raw} type={manualResult.type} />
+              {manualResult.inspection && <UrlSafetyNotice inspection={manualResult.inspection} />}
+              {actionError && (
+                 <p className="flex items-center gap-1.5 mt-4 text-xs text-red-400">
+                    <AlertCircle className="w-4 h-4 shrink-0" />
+                    {actionError}
+                 </p>
+              )}
+
+              {/* Alternative handlers for this type, the preferred one is the main button below */}
+              {manualActions.length > 1 && (
+                 <div className="flex flex-wrap gap-2 mt-4">
+                    {manualActions
+                       .filter(a => a.id !== primaryAction?.id)
+                       .map(a => (
+                          <button
+                             key={a.id}
+                             onClick={() => {
+                                runAction(manualResult, a.id);
+                                closeManualResult();
+                             }}
+                             className="px-3 py-1.5 rounded-lg bg-neutral-800 text-neutral-300 text-xs font-medium hover:bg-neutral-700 transition-colors"
+                          >
+                             {a.label}
+                          </button>
+                       ))}
+                 </div>
+              )}
+              
+              <div className="flex gap-3 mt-6">
+                 <button 
+                    onClick={closeManualResult}
+                    className="flex-1 py-3 rounded-xl bg-neutral-800 text-neutral-300 font-medium hover:bg-neutral-700 transition-colors"
+                 >
+                    İptal
+                 </button>
+                 <button 
+                    disabled={!primaryAction}
+                    onClick={() => {
+                       if (!primaryAction) return;
+                       runAction(manualResult, primaryAction.id);
+                       closeManualResult();
+                    }}
+                    className="flex-1 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                 >
+                    <span>{primaryAction?.label ?? 'Aç / Git'}</span>
+                    <ArrowRight className="w-4 h-4" />
+                 </button>
+              </div>
+           </div>
+        </div>
+      )}
+      
     </div>
   );
 };
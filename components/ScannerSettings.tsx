@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { HistorySettings, MapSettings, MapProvider, Symbology, UrlLists } from '../types';
+import { MAP_PROVIDERS, loadMapSettings, saveMapSettings } from '../utils/geo';
+import { loadUrlLists, saveUrlLists } from '../utils/urlSafety';
+import { HISTORY_RETENTION_OPTIONS, loadHistorySettings, pruneHistory, saveHistorySettings } from '../utils/history';
+import { actionRegistry } from '../utils/actionRegistry';
+import { QR_TYPE_LABELS } from '../utils/qrUtils';
+import { ALL_SYMBOLOGIES, FALLBACK_SYMBOLOGIES, SYMBOLOGY_LABELS, loadEnabledSymbologies, saveEnabledSymbologies } from '../utils/symbology';
+import PatternRulesEditor from './PatternRulesEditor';
+import TrustedKeysEditor from './TrustedKeysEditor';
+
+interface ScannerSettingsProps {
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-neutral-950 border border-neutral-800 rounded-xl p-3 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const ScannerSettings: React.FC<ScannerSettingsProps> = ({ onClose }) => {
+  const [mapSettings, setMapSettings] = useState<MapSettings>(loadMapSettings);
+  const [symbologies, setSymbologies] = useState<Symbology[]>(loadEnabledSymbologies);
+  const [historySettings, setHistorySettings] = useState<HistorySettings>(loadHistorySettings);
+  // Edited as one domain per line, stored as arrays
+  const [urlLists, setUrlLists] = useState(() => {
+    const lists = loadUrlLists();
+    return { allow: lists.allow.join('\n'), block: lists.block.join('\n') };
+  });
+  // Bumped to re-render after a preference is stored in the registry
+  const [, setPreferenceVersion] = useState(0);
+  const configurableTypes = actionRegistry.types().filter(t => actionRegistry.getActions(t).length > 1);
+
+  const updateMapSettings = (next: MapSettings) => {
+    setMapSettings(next);
+    saveMapSettings(next);
+  };
+
+  // At least one format stays on, or the scanner would read nothing
+  const toggleSymbology = (symbology: Symbology) => {
+    const next = symbologies.includes(symbology) ? symbologies.filter(s => s !== symbology) : [...symbologies, symbology];
+    if (!next.length) return;
+    setSymbologies(next);
+    saveEnabledSymbologies(next);
+  };
+
+  // A shorter retention applies to what is already stored, not only to new scans
+  const updateHistorySettings = (next: HistorySettings) => {
+    setHistorySettings(next);
+    saveHistorySettings(next);
+    if (next.retentionDays !== historySettings.retentionDays) pruneHistory(next).catch(() => {});
+  };
+
+  const updateUrlList = (key: keyof UrlLists, text: string) => {
+    const next = { ...urlLists, [key]: text };
+    setUrlLists(next);
+    const toDomains = (value: string) => value.split(/[\s,]+/).map(d => d.trim().toLowerCase()).filter(Boolean);
+    saveUrlLists({ allow: toDomains(next.allow), block: toDomains(next.block) });
+  };
+
+  return (
+    <div className="absolute inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-sm max-h-[85%] overflow-y-auto bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-white text-lg font-semibold">Tarayıcı Ayarları</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <section className="space-y-3 mb-6">
+          <h3 className="text-sm text-neutral-400">Otomatik İşlem</h3>
+          {configurableTypes.map(type => (
+            <div key={type} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-neutral-300">{QR_TYPE_LABELS[type] ?? type}</span>
+              <select
+                className="bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                value={actionRegistry.getPreferredAction(type)?.id}
+                onChange={(e) => {
+                  actionRegistry.setPreferredAction(type, e.target.value);
+                  setPreferenceVersion(v => v + 1);
+                }}
+              >
+                {actionRegistry.getActions(type).map(a => (
+                  <option key={a.id} value={a.id}>{a.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-3 mb-6">
+          <h3 className="text-sm text-neutral-400">Barkod Türleri</h3>
+          <div className="grid grid-cols-3 gap-2">
+            {ALL_SYMBOLOGIES.map(symbology => (
+              <button
+                key={symbology}
+                onClick={() => toggleSymbology(symbology)}
+                className={`px-2 py-2 rounded-lg text-xs border transition-colors ${
+                  symbologies.includes(symbology)
+                    ? 'bg-white text-black border-white'
+                    : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+                }`}
+              >
+                {SYMBOLOGY_LABELS[symbology]}
+                {!FALLBACK_SYMBOLOGIES.includes(symbology) && '*'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-neutral-500 ml-1">* Yalnızca tarayıcı bu türü destekliyorsa okunur. Kapalı türler hiç aranmaz, bu da taramayı hızlandırır.</p>
+        </section>
+
+        <section className="space-y-3 mb-6">
+          <h3 className="text-sm text-neutral-400">Özel Kurallar</h3>
+          <p className="text-xs text-neutral-500">Eşleşen metinler yerleşik türlerden önce bu kurallarla işlenir. Sıra önceliği belirler.</p>
+          <PatternRulesEditor />
+        </section>
+
+        <section className="space-y-3 mb-6">
+          <h3 className="text-sm text-neutral-400">Bağlantı Güvenliği</h3>
+          <div className="space-y-1">
+            <label className="text-xs text-neutral-500 ml-1">Güvenilen alan adları (uyarısız açılır)</label>
+            <textarea
+              rows={3}
+              className={`${inputClass} font-mono resize-none`}
+              placeholder="ornek.com"
+              value={urlLists.allow}
+              onChange={(e) => updateUrlList('allow', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-neutral-500 ml-1">Engellenen alan adları (asla açılmaz)</label>
+            <textarea
+              rows={3}
+              className={`${inputClass} font-mono resize-none`}
+              placeholder="supheli-site.net"
+              value={urlLists.block}
+              onChange={(e) => updateUrlList('block', e.target.value)}
+            />
+          </div>
+          <p className="text-xs text-neutral-500 ml-1">Her satıra bir alan adı; alt alan adları da kapsanır.</p>
+        </section>
+
+        <section className="space-y-3 mb-6">
+          <h3 className="text-sm text-neutral-400">Güvenilir Anahtarlar</h3>
+          <p className="text-xs text-neutral-500">İmzalı kodlar yalnızca bu anahtarlardan biriyle imzalandıysa doğrulanmış sayılır.</p>
+          <TrustedKeysEditor />
+        </section>
+
+        <section className="space-y-3 mb-6">
+          <h3 className="text-sm text-neutral-400">Tarama Geçmişi</h3>
+          <label className="flex items-center gap-3 ml-1 text-sm text-neutral-300 cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-indigo-500"
+              checked={historySettings.enabled}
+              onChange={(e) => updateHistorySettings({ ...historySettings, enabled: e.target.checked })}
+            />
+            Taramaları bu cihazda kaydet
+          </label>
+          <label className={`flex items-center gap-3 ml-1 text-sm cursor-pointer ${historySettings.enabled ? 'text-neutral-300' : 'text-neutral-600'}`}>
+            <input
+              type="checkbox"
+              className="w-4 h-4 accent-indigo-500"
+              disabled={!historySettings.enabled}
+              checked={historySettings.location}
+              onChange={(e) => updateHistorySettings({ ...historySettings, location: e.target.checked })}
+            />
+            Konumu da kaydet
+          </label>
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm text-neutral-300">Saklama süresi</span>
+            <select
+              className="bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+              value={historySettings.retentionDays}
+              onChange={(e) => updateHistorySettings({ ...historySettings, retentionDays: Number(e.target.value) })}
+            >
+              {HISTORY_RETENTION_OPTIONS.map(o => (
+                <option key={o.days} value={o.days}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-neutral-500 ml-1">Geçmiş yalnızca bu tarayıcıda tutulur. Favoriler süre dolunca silinmez.</p>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm text-neutral-400">Konumları Aç</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {MAP_PROVIDERS.map(p => (
+              <button
+                key={p.id}
+                onClick={() => updateMapSettings({ ...mapSettings, provider: p.id as MapProvider })}
+                className={`px-3 py-2 rounded-lg text-sm border transition-colors ${
+                  mapSettings.provider === p.id
+                    ? 'bg-white text-black border-white'
+                    : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+                }`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          {mapSettings.provider === 'custom' && (
+            <div className="space-y-1">
+              <input
+                type="url"
+                className={inputClass}
+                value={mapSettings.customTemplate}
+                onChange={(e) => updateMapSettings({ ...mapSettings, customTemplate: e.target.value })}
+              />
+              <p className="text-xs text-neutral-500 ml-1">Kullanılabilir alanlar: {'{lat} {lng} {alt} {label}'}</p>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ScannerSettings;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ShieldCheck, ShieldAlert, ShieldX } from 'lucide-react';
+import { SignatureCheck } from '../types';
+
+interface SignatureBadgeProps {
+  check: SignatureCheck;
+}
+
+const BADGES = {
+  verified: { icon: ShieldCheck, title: 'İmza doğrulandı', className: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300' },
+  unverified: { icon: ShieldAlert, title: 'İmza doğrulanamadı', className: 'bg-amber-500/10 border-amber-500/30 text-amber-300' },
+  tampered: { icon: ShieldX, title: 'İçerik değiştirilmiş', className: 'bg-red-500/10 border-red-500/30 text-red-300' }
+};
+
+const SignatureBadge: React.FC<SignatureBadgeProps> = ({ check }) => {
+  const badge = BADGES[check.status];
+  const detail =
+    check.status === 'verified'
+      ? `İmzalayan: ${check.keyName}`
+      : check.status === 'unverified'
+        ? `Anahtar ${check.keyId} güvenilir anahtarlar arasında yok`
+        : 'İmza içerikle uyuşmuyor; yalnızca kopyalanabilir';
+
+  return (
+    <div className={`mb-4 rounded-xl border p-3 ${badge.className}`}>
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <badge.icon className="w-4 h-4" />
+        <span>{badge.title}</span>
+      </div>
+      <p className="mt-1 text-xs text-neutral-400">{detail}</p>
+    </div>
+  );
+};
+
+export default SignatureBadge;
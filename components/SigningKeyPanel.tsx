@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Copy, KeyRound, RefreshCcw } from 'lucide-react';
+import { SigningKey } from '../types';
+import { createSigningKey } from '../utils/signing';
+
+interface SigningKeyPanelProps {
+  value: SigningKey | null;
+  onChange: (key: SigningKey) => void;
+}
+
+const inputClass = "w-full bg-neutral-900 border border-neutral-800 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const SigningKeyPanel: React.FC<SigningKeyPanelProps> = ({ value, onChange }) => {
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async (keyName: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await createSigningKey(keyName));
+      setName('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!value) {
+    return (
+      <div className="space-y-2">
+        <input type="text" placeholder="Anahtar adı (ör. Merkez ofis)" className={inputClass} value={name} onChange={(e) => setName(e.target.value)} />
+        <button
+          onClick={() => handleCreate(name.trim())}
+          disabled={!name.trim() || busy}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+        >
+          <KeyRound className="w-4 h-4" />
+          İmza anahtarı oluştur
+        </button>
+        {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-neutral-800 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-white truncate">{value.name} <span className="text-neutral-500 font-mono text-xs">{value.id}</span></span>
+        <button
+          onClick={() => {
+            if (confirm('Yeni anahtar oluşturulsun mu? Eski anahtarla imzalanan kodlar bu cihazda doğrulanmaya devam eder, diğer cihazların yeni anahtarı eklemesi gerekir.')) {
+              handleCreate(value.name);
+            }
+          }}
+          disabled={busy}
+          title="Yeni anahtar"
+          className="text-neutral-500 hover:text-white disabled:opacity-40"
+        >
+          <RefreshCcw className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-[11px] text-neutral-500">Okutacak cihazlar bu genel anahtarı Tarayıcı Ayarları › Güvenilir Anahtarlar bölümüne eklemeli:</p>
+      <div className="flex items-start gap-2">
+        <code className="flex-1 text-[11px] text-neutral-300 font-mono break-all">{value.publicKey}</code>
+        <button onClick={() => navigator.clipboard.writeText(value.publicKey)} title="Kopyala" className="text-neutral-500 hover:text-white">
+          <Copy className="w-4 h-4" />
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+    </div>
+  );
+};
+
+export default SigningKeyPanel;
@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import { X, FileArchive, Printer } from 'lucide-react';
+import { QrStyle, SymbolOptions } from '../types';
+import { MAX_APPEND_SYMBOLS, appendSetToPdf, exportAppendZip, splitStructuredAppend } from '../utils/structuredAppend';
+import { LABEL_LAYOUTS } from '../utils/batch';
+import { downloadFile } from '../utils/qrUtils';
+import StyledQrCode from './StyledQrCode';
+
+interface StructuredAppendDialogProps {
+  data: string;
+  style: QrStyle;
+  symbolOptions: SymbolOptions;
+  onClose: () => void;
+}
+
+type AppendOutput = 'png' | 'svg' | 'labels';
+
+const VERSION_LIMITS = [5, 10, 15, 20, 25, 30, 40];
+
+const selectClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const StructuredAppendDialog: React.FC<StructuredAppendDialogProps> = ({ data, style, symbolOptions, onClose }) => {
+  const [maxVersion, setMaxVersion] = useState(10);
+  const [output, setOutput] = useState<AppendOutput>('png');
+  const [pixelSize, setPixelSize] = useState('1024');
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const split = useMemo(() => {
+    try {
+      return { symbols: splitStructuredAppend(data, symbolOptions, maxVersion), error: null };
+    } catch (e) {
+      return { symbols: [], error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [data, symbolOptions, maxVersion]);
+  const { symbols } = split;
+
+  const handleExport = async () => {
+    setError(null);
+    setBusy(true);
+    const options = { quietZone: symbolOptions.quietZone, transparent: false, style };
+    try {
+      if (output === 'labels') {
+        const layout = LABEL_LAYOUTS.find(l => l.id === layoutId) || LABEL_LAYOUTS[0];
+        const bytes = await appendSetToPdf(symbols, layout, options);
+        downloadFile('qr-set.pdf', new Blob([bytes], { type: 'application/pdf' }));
+      } else {
+        const size = parseInt(pixelSize, 10);
+        if (output === 'png' && !(size >= 64 && size <= 4096)) throw new Error('Boyut 64 ile 4096 piksel arasında olmalı');
+        const bytes = await exportAppendZip(symbols, output, options, size, 'qr-set');
+        downloadFile('qr-set.zip', new Blob([bytes], { type: 'application/zip' }));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-neutral-900 rounded-t-2xl sm:rounded-2xl border border-white/10 shadow-2xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-white text-lg font-semibold">Parçalı Set</h2>
+          <button onClick={onClose} className="text-neutral-400 hover:text-white p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-xs text-neutral-500">
+          İçerik en fazla {MAX_APPEND_SYMBOLS} koda bölünür (Structured Append). Destekleyen okuyucular parçaları herhangi bir sırayla tarayıp birleştirir.
+        </p>
+
+        <div className="space-y-1">
+          <label className="text-xs text-neutral-500 ml-1">Parça başına en büyük sürüm</label>
+          <select className={selectClass} value={maxVersion} onChange={(e) => setMaxVersion(parseInt(e.target.value, 10))}>
+            {VERSION_LIMITS.map(v => (
+              <option key={v} value={v}>Sürüm {v} ({v * 4 + 17}×{v * 4 + 17} modül)</option>
+            ))}
+          </select>
+        </div>
+
+        {split.error ? (
+          <p className="text-xs text-red-400 ml-1">{split.error}</p>
+        ) : (
+          <>
+            <p className="text-xs text-neutral-400 ml-1">
+              {symbols.length} parça · sürüm {symbols[0]?.version} · {symbols[0]?.ecLevel} seviyesi
+            </p>
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {symbols.map((symbol, i) => (
+                <div key={i} className="flex flex-col items-center gap-1">
+                  <div className="rounded-md overflow-hidden">
+                    <StyledQrCode symbol={symbol} style={style} quietZone={symbolOptions.quietZone} size={120} />
+                  </div>
+                  <span className="text-xs text-neutral-400">{i + 1} / {symbols.length}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                { id: 'png', label: 'ZIP · PNG', icon: FileArchive },
+                { id: 'svg', label: 'ZIP · SVG', icon: FileArchive },
+                { id: 'labels', label: 'PDF', icon: Printer }
+              ] as Array<{ id: AppendOutput; label: string; icon: typeof Printer }>).map(o => (
+                <button
+                  key={o.id}
+                  onClick={() => setOutput(o.id)}
+                  className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm border transition-colors ${
+                    output === o.id ? 'bg-white text-black border-white' : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+                  }`}
+                >
+                  <o.icon className="w-4 h-4" />
+                  {o.label}
+                </button>
+              ))}
+            </div>
+
+            {output === 'png' && (
+              <div className="space-y-1">
+                <label className="text-xs text-neutral-500 ml-1">Boyut (piksel)</label>
+                <input type="number" className={selectClass} value={pixelSize} onChange={(e) => setPixelSize(e.target.value)} />
+              </div>
+            )}
+
+            {output === 'labels' && (
+              <div className="space-y-1">
+                <label className="text-xs text-neutral-500 ml-1">Sayfa düzeni</label>
+                <select className={selectClass} value={layoutId} onChange={(e) => setLayoutId(e.target.value)}>
+                  {LABEL_LAYOUTS.map(l => (
+                    <option key={l.id} value={l.id}>{l.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+
+        <button
+          onClick={handleExport}
+          disabled={!symbols.length || busy}
+          className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-500 transition-colors disabled:opacity-40"
+        >
+          {busy ? 'Hazırlanıyor...' : `${symbols.length} kodu dışa aktar`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StructuredAppendDialog;
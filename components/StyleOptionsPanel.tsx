@@ -0,0 +1,189 @@
+import React, { useRef } from 'react';
+import { ImagePlus, Trash2, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { QrStyle, ModuleShape, EyeStyle, GradientType, EcLevel } from '../types';
+import { MIN_LOGO_SIZE, MAX_LOGO_SIZE, ScanCheck, StyleWarning, DEFAULT_QR_STYLE } from '../utils/qrStyle';
+
+interface StyleOptionsPanelProps {
+  value: QrStyle;
+  onChange: (value: QrStyle) => void;
+  // Level forced by the logo, when higher than the one chosen
+  forcedEcLevel: EcLevel | null;
+  warnings: StyleWarning[];
+  // null while the check is running, undefined when there is no symbol to check
+  scanCheck?: ScanCheck | null;
+}
+
+const MODULE_SHAPES: Array<{ id: ModuleShape; label: string }> = [
+  { id: 'square', label: 'Kare' },
+  { id: 'rounded', label: 'Yuvarlak' },
+  { id: 'dots', label: 'Nokta' }
+];
+
+const EYE_STYLES: Array<{ id: EyeStyle; label: string }> = [
+  { id: 'square', label: 'Kare' },
+  { id: 'rounded', label: 'Yumuşak' },
+  { id: 'circle', label: 'Daire' }
+];
+
+const GRADIENTS: Array<{ id: GradientType; label: string }> = [
+  { id: 'none', label: 'Düz' },
+  { id: 'linear', label: 'Doğrusal' },
+  { id: 'radial', label: 'Dairesel' }
+];
+
+// Keeps stored styles small; logos are shown at a few hundred pixels at most
+const MAX_LOGO_BYTES = 512 * 1024;
+
+const optionClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+    active ? 'bg-white text-black border-white' : 'bg-neutral-950 text-neutral-400 border-neutral-800 hover:bg-neutral-800'
+  }`;
+
+const colorClass = "w-full h-9 bg-neutral-950 border border-neutral-800 rounded-lg cursor-pointer";
+
+const StyleOptionsPanel: React.FC<StyleOptionsPanelProps> = ({ value, onChange, forcedEcLevel, warnings, scanCheck }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const set = <K extends keyof QrStyle>(key: K, v: QrStyle[K]) => onChange({ ...value, [key]: v });
+
+  const handleLogo = (file: File) => {
+    if (file.size > MAX_LOGO_BYTES) {
+      alert('Logo en fazla 512 KB olabilir');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => set('logo', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <span className="text-[11px] text-neutral-500 ml-1">Kod Rengi</span>
+          <input type="color" className={colorClass} value={value.foreground} onChange={(e) => set('foreground', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-neutral-500 ml-1">Zemin</span>
+          <input type="color" className={colorClass} value={value.background} onChange={(e) => set('background', e.target.value)} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-neutral-500 ml-1">Göz Rengi</span>
+          <input
+            type="color"
+            className={colorClass}
+            value={value.eyeColor || value.foreground}
+            onChange={(e) => set('eyeColor', e.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-neutral-500 ml-1">Renk Geçişi</span>
+        <div className="flex gap-2 items-center">
+          {GRADIENTS.map(g => (
+            <button key={g.id} onClick={() => set('gradient', g.id)} className={optionClass(value.gradient === g.id)}>{g.label}</button>
+          ))}
+          {value.gradient !== 'none' && (
+            <input type="color" className="w-10 h-8 bg-neutral-950 border border-neutral-800 rounded-lg cursor-pointer" value={value.gradientColor} onChange={(e) => set('gradientColor', e.target.value)} />
+          )}
+        </div>
+        {value.gradient === 'linear' && (
+          <input
+            type="range"
+            min={0}
+            max={360}
+            step={15}
+            value={value.gradientAngle}
+            onChange={(e) => set('gradientAngle', parseInt(e.target.value, 10))}
+            className="w-full accent-indigo-500"
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-neutral-500 ml-1">Modül Şekli</span>
+        <div className="flex gap-2">
+          {MODULE_SHAPES.map(m => (
+            <button key={m.id} onClick={() => set('moduleShape', m.id)} className={optionClass(value.moduleShape === m.id)}>{m.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-neutral-500 ml-1">Göz Şekli</span>
+        <div className="flex gap-2">
+          {EYE_STYLES.map(e => (
+            <button key={e.id} onClick={() => set('eyeStyle', e.id)} className={optionClass(value.eyeStyle === e.id)}>{e.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-[11px] text-neutral-500 ml-1">Logo</span>
+        <div className="flex gap-2 items-center">
+          <button onClick={() => fileInputRef.current?.click()} className={`${optionClass(false)} flex items-center gap-1`}>
+            <ImagePlus className="w-4 h-4" /> {value.logo ? 'Değiştir' : 'Logo Ekle'}
+          </button>
+          {value.logo && (
+            <>
+              <input
+                type="range"
+                min={MIN_LOGO_SIZE}
+                max={MAX_LOGO_SIZE}
+                step={0.02}
+                value={value.logoSize}
+                onChange={(e) => set('logoSize', parseFloat(e.target.value))}
+                className="flex-1 accent-indigo-500"
+              />
+              <button onClick={() => set('logo', null)} className="text-neutral-500 hover:text-red-400 p-1">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/svg+xml,image/webp"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleLogo(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {forcedEcLevel && (
+          <p className="text-[11px] text-neutral-400 ml-1">Logo için hata düzeltme seviyesi {forcedEcLevel} olarak uygulanıyor</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {warnings.map(w => (
+          <p key={w.code} className="flex items-start gap-2 text-xs text-amber-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" /> {w.message}
+          </p>
+        ))}
+        {scanCheck === undefined ? null : scanCheck === null ? (
+          <p className="flex items-center gap-2 text-xs text-neutral-500">
+            <Loader2 className="w-4 h-4 animate-spin" /> Okunabilirlik kontrol ediliyor
+          </p>
+        ) : scanCheck.matches ? (
+          <p className="flex items-center gap-2 text-xs text-emerald-400">
+            <CheckCircle2 className="w-4 h-4" /> Tasarım okunabiliyor
+          </p>
+        ) : (
+          <p className="flex items-start gap-2 text-xs text-red-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {scanCheck.decoded ? 'Kod okunuyor ama farklı bir içerik veriyor' : 'Bu tasarım okunamıyor; kontrastı artırın, logoyu küçültün veya sade şekiller seçin'}
+          </p>
+        )}
+      </div>
+
+      <button onClick={() => onChange(DEFAULT_QR_STYLE)} className="text-xs text-neutral-500 hover:text-white">
+        Varsayılan görünüme dön
+      </button>
+    </div>
+  );
+};
+
+export default StyleOptionsPanel;
@@ -0,0 +1,39 @@
+import React, { useEffect, useRef } from 'react';
+import { QrStyle } from '../types';
+import { QrSymbol } from '../utils/qrEncoder';
+import { drawStyledSymbol, loadImage } from '../utils/qrStyle';
+
+interface StyledQrCodeProps {
+  symbol: QrSymbol;
+  style: QrStyle;
+  quietZone: number;
+  size: number;
+}
+
+const StyledQrCode: React.FC<StyledQrCodeProps> = ({ symbol, style, quietZone, size }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const draw = async () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      // Backing store at device resolution so the preview stays sharp on retina screens
+      const pixelSize = Math.round(size * (window.devicePixelRatio || 1));
+      const logo = style.logo ? await loadImage(style.logo).catch(() => null) : null;
+      if (cancelled) return;
+      canvas.width = pixelSize;
+      canvas.height = pixelSize;
+      drawStyledSymbol(ctx, symbol, pixelSize, style, { quietZone, logo });
+    };
+    draw();
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, style, quietZone, size]);
+
+  return <canvas ref={canvasRef} style={{ width: size, height: size }} />;
+};
+
+export default StyledQrCode;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { EcLevel, SymbolOptions } from '../types';
+import { CapacityReport, EC_LEVELS, EC_RECOVERY, MODE_LABELS, MODE_UNITS, MIN_VERSION, MAX_VERSION } from '../utils/qrEncoder';
+
+interface SymbolOptionsPanelProps {
+  value: SymbolOptions;
+  onChange: (value: SymbolOptions) => void;
+  report: CapacityReport;
+}
+
+// Above this the modules get too small for typical print and screen sizes
+const DENSE_VERSION = 25;
+
+const selectClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-indigo-500";
+
+const SymbolOptionsPanel: React.FC<SymbolOptionsPanelProps> = ({ value, onChange, report }) => {
+  const set = <K extends keyof SymbolOptions>(key: K, v: SymbolOptions[K]) => onChange({ ...value, [key]: v });
+  const { symbol } = report;
+  const usage = report.versionChars ? Math.min(100, (report.usedChars / report.versionChars) * 100) : 0;
+
+  return (
+    <div className="w-full max-w-xs mt-4 space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <span className="text-[11px] text-neutral-500 ml-1">Hata Düzeltme</span>
+          <select className={selectClass} value={value.ecLevel} onChange={(e) => set('ecLevel', e.target.value as EcLevel)}>
+            {EC_LEVELS.map(l => (
+              <option key={l} value={l}>{l} (%{EC_RECOVERY[l]})</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-neutral-500 ml-1">En Az Sürüm</span>
+          <select className={selectClass} value={value.minVersion} onChange={(e) => set('minVersion', parseInt(e.target.value, 10))}>
+            {Array.from({ length: MAX_VERSION - MIN_VERSION + 1 }, (_, i) => i + MIN_VERSION).map(v => (
+              <option key={v} value={v}>{v === MIN_VERSION ? 'Otomatik' : v}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-neutral-500 ml-1">Kenar Boşluğu</span>
+          <select className={selectClass} value={value.quietZone} onChange={(e) => set('quietZone', parseInt(e.target.value, 10))}>
+            {[0, 1, 2, 3, 4, 6, 8].map(q => (
+              <option key={q} value={q}>{q} modül</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {symbol ? (
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-xs text-neutral-400">
+            <span>Sürüm {symbol.version} · {symbol.size}×{symbol.size} modül · {MODE_LABELS[report.mode.name]}</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-neutral-800 overflow-hidden">
+            <div
+              className={`h-full transition-all ${usage > 90 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+              style={{ width: `${usage}%` }}
+            />
+          </div>
+          <p className="text-[11px] text-neutral-500">
+            Kalan: bu sürümde {report.versionChars - report.usedChars}, sürüm 40'a kadar {report.maxChars - report.usedChars} {MODE_UNITS[report.mode.name]}
+          </p>
+          {value.quietZone < 4 && (
+            <p className="text-[11px] text-amber-400">4 modülden dar kenar boşluğu bazı okuyucularda sorun çıkarabilir</p>
+          )}
+          {symbol.version > DENSE_VERSION && (
+            <p className="text-[11px] text-amber-400">Çok yoğun kod; küçük baskı ve ekranlarda okunması zorlaşır</p>
+          )}
+        </div>
+      ) : (
+        <div className="flex items-start gap-2 text-xs text-red-400">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>{report.error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SymbolOptionsPanel;
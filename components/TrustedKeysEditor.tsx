@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { TrustedKey } from '../types';
+import { addTrustedKey, loadTrustedKeys, removeTrustedKey } from '../utils/signing';
+
+const inputClass = "w-full bg-neutral-950 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500 transition-all";
+
+const TrustedKeysEditor: React.FC = () => {
+  const [keys, setKeys] = useState<TrustedKey[]>([]);
+  const [name, setName] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () =>
+    loadTrustedKeys()
+      .then(setKeys)
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleAdd = async () => {
+    try {
+      await addTrustedKey(name, publicKey);
+      setName('');
+      setPublicKey('');
+      setError(null);
+      refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleRemove = async (key: TrustedKey) => {
+    if (!confirm(`"${key.name}" anahtarı kaldırılsın mı? Bu anahtarla imzalı kodlar doğrulanamaz olur.`)) return;
+    await removeTrustedKey(key);
+    refresh();
+  };
+
+  return (
+    <div className="space-y-3">
+      {keys.map(key => (
+        <div key={key.id} className="flex items-center gap-2 rounded-xl border border-neutral-800 px-3 py-2">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white truncate">{key.name}</p>
+            <p className="text-[11px] text-neutral-500 font-mono">{key.id}</p>
+          </div>
+          <button onClick={() => handleRemove(key)} className="text-neutral-500 hover:text-red-400">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="rounded-xl border border-neutral-800 p-3 space-y-2">
+        <input type="text" className={inputClass} placeholder="Ad (ör. Merkez ofis)" value={name} onChange={(e) => setName(e.target.value)} />
+        <input
+          type="text"
+          className={`${inputClass} font-mono`}
+          placeholder="Genel anahtar"
+          value={publicKey}
+          onChange={(e) => setPublicKey(e.target.value)}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!name.trim() || !publicKey.trim()}
+          className="w-full flex items-center justify-center gap-1 px-3 py-2 rounded-lg bg-neutral-800 text-neutral-300 text-sm hover:bg-neutral-700 transition-colors disabled:opacity-40"
+        >
+          <Plus className="w-4 h-4" /> Anahtar Ekle
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 ml-1">{error}</p>}
+    </div>
+  );
+};
+
+export default TrustedKeysEditor;
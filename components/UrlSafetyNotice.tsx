@@ -0,0 +1,38 @@
+import React from 'react';
+import { ShieldAlert, ShieldX, AlertTriangle } from 'lucide-react';
+import { UrlInspection } from '../types';
+
+interface UrlSafetyNoticeProps {
+  inspection: UrlInspection;
+}
+
+const UrlSafetyNotice: React.FC<UrlSafetyNoticeProps> = ({ inspection }) => {
+  if (inspection.verdict === 'safe') return null;
+  const blocked = inspection.verdict === 'block';
+  const Icon = blocked ? ShieldX : ShieldAlert;
+
+  return (
+    <div className={`mt-4 rounded-xl border p-3 space-y-2 ${blocked ? 'bg-red-500/10 border-red-500/30' : 'bg-amber-500/10 border-amber-500/30'}`}>
+      <div className={`flex items-center gap-2 text-sm font-semibold ${blocked ? 'text-red-300' : 'text-amber-300'}`}>
+        <Icon className="w-4 h-4" />
+        <span>{blocked ? 'Bu bağlantı açılmayacak' : 'Açmadan önce kontrol edin'}</span>
+      </div>
+      {inspection.displayHost && (
+        <p className="text-xs text-neutral-400 break-all">
+          Hedef: <span className="text-white font-mono">{inspection.displayHost}</span>
+          {inspection.displayHost !== inspection.host && <span className="text-neutral-500"> ({inspection.host})</span>}
+        </p>
+      )}
+      <ul className="space-y-1">
+        {inspection.findings.map(f => (
+          <li key={f.code} className="flex items-start gap-2 text-xs text-neutral-300">
+            <AlertTriangle className={`w-3.5 h-3.5 mt-0.5 shrink-0 ${f.severity === 'danger' ? 'text-red-400' : 'text-amber-400'}`} />
+            <span>{f.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default UrlSafetyNotice;
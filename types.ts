@@ -10,18 +10,38 @@ export enum QRType {
   EMAIL = 'EMAIL',
   PHONE = 'PHONE',
   WIFI = 'WIFI',
-  GEO = 'GEO'
+  GEO = 'GEO',
+  CONTACT = 'CONTACT',
+  EVENT = 'EVENT',
+  SMS = 'SMS',
+  PAYMENT = 'PAYMENT',
+  GS1 = 'GS1',
+  CUSTOM = 'CUSTOM'
 }
 
 export interface WifiConfig {
   ssid: string;
   password: string;
   encryption: 'WPA' | 'WEP' | 'nopass';
+  hidden?: boolean;
 }
 
 export interface GeoConfig {
   lat: string;
   lng: string;
+  alt?: string;
+  // Uncertainty radius in metres (RFC 5870 "u=")
+  uncertainty?: string;
+  crs?: string;
+  label?: string;
+}
+
+export type MapProvider = 'google' | 'osm' | 'apple' | 'custom';
+
+export interface MapSettings {
+  provider: MapProvider;
+  // Placeholders: {lat} {lng} {alt} {label}
+  customTemplate: string;
 }
 
 export interface EmailConfig {
@@ -30,8 +50,273 @@ export interface EmailConfig {
   body: string;
 }
 
+export type ContactFormat = 'vcard3' | 'vcard4' | 'mecard';
+
+export interface SmsConfig {
+  number: string;
+  body: string;
+}
+
+export interface ContactConfig {
+  firstName: string;
+  lastName: string;
+  org: string;
+  title: string;
+  phones: string[];
+  emails: string[];
+  address: string;
+  url: string;
+}
+
+export interface EventConfig {
+  title: string;
+  // Wall-clock "YYYY-MM-DDTHH:mm" (or "YYYY-MM-DD" when allDay) in `timezone`
+  start: string;
+  end: string;
+  // IANA zone name, "UTC", or empty for floating time
+  timezone: string;
+  location: string;
+  description: string;
+  allDay: boolean;
+}
+
+// EMVCo merchant-presented payment QR (TR Karekod)
+export interface EmvField {
+  id: string;
+  length: number;
+  value: string;
+  children?: EmvField[];
+}
+
+export interface PaymentConfig {
+  merchantName: string;
+  merchantCity: string;
+  postalCode: string;
+  countryCode: string;
+  mcc: string;
+  // ISO 4217 numeric, e.g. "949" for TRY
+  currency: string;
+  amount: string;
+  // Merchant account information template, one of 26-51
+  accountTemplateId: string;
+  accountGuid: string;
+  accountId: string;
+  billNumber: string;
+  referenceLabel: string;
+  terminalLabel: string;
+}
+
+export interface PaymentPayload {
+  fields: EmvField[];
+  config: PaymentConfig;
+  dynamic: boolean;
+  crcValid: boolean;
+  crcExpected: string;
+  crcActual: string;
+  error?: string;
+}
+
+export interface Gs1Element {
+  // Application Identifier, e.g. "01" or "3103"
+  ai: string;
+  label: string;
+  value: string;
+  // Dates and measures formatted for reading; the raw value otherwise
+  display: string;
+  error?: string;
+}
+
+export interface Gs1Payload {
+  elements: Gs1Element[];
+  // Set when the payload was a GS1 Digital Link URL
+  digitalLink?: string;
+  // YYYY-MM-DD from AI 17 or 7003
+  expiry?: string;
+  expired: boolean;
+  error?: string;
+}
+
+export type ParsedPayload =
+  | { type: QRType.URL; url: string }
+  | { type: QRType.TEXT; text: string }
+  | { type: QRType.EMAIL; email: EmailConfig }
+  | { type: QRType.PHONE; phone: string }
+  | { type: QRType.WIFI; wifi: WifiConfig }
+  | { type: QRType.GEO; geo: GeoConfig }
+  | { type: QRType.CONTACT; contact: ContactConfig }
+  | { type: QRType.EVENT; event: EventConfig }
+  | { type: QRType.SMS; sms: SmsConfig }
+  | { type: QRType.PAYMENT; payment: PaymentPayload }
+  | { type: QRType.GS1; gs1: Gs1Payload }
+  | { type: QRType.CUSTOM; rule: PatternRule; value: string };
+
+export type PatternRuleAction = 'open' | 'copy';
+
+export interface PatternRule {
+  id: string;
+  name: string;
+  // Regular expression source, matched against the whole trimmed scan
+  pattern: string;
+  flags: string;
+  action: PatternRuleAction;
+  // $1..$9, $<name> and $& are replaced with the captured text
+  template: string;
+  enabled: boolean;
+}
+
+export type EcLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface SymbolOptions {
+  ecLevel: EcLevel;
+  // The encoder picks the smallest version >= this that fits the data
+  minVersion: number;
+  // Quiet zone width in modules; the spec asks for 4
+  quietZone: number;
+}
+
+export type ModuleShape = 'square' | 'rounded' | 'dots';
+export type EyeStyle = 'square' | 'rounded' | 'circle';
+export type GradientType = 'none' | 'linear' | 'radial';
+
+export interface QrStyle {
+  foreground: string;
+  background: string;
+  gradient: GradientType;
+  // End colour of the gradient; foreground is the start
+  gradientColor: string;
+  // Degrees, linear gradients only
+  gradientAngle: number;
+  moduleShape: ModuleShape;
+  eyeStyle: EyeStyle;
+  // Defaults to the foreground colour when empty
+  eyeColor: string;
+  // Data URL of the centre logo
+  logo: string | null;
+  // Logo width as a share of the symbol width
+  logoSize: number;
+}
+
+export interface DetectionResult {
+  type: QRType;
+  // 1 for an explicit scheme, header or plain text; lower for bare values guessed from their shape
+  confidence: number;
+  // Which rule matched, e.g. 'scheme', 'bare-domain', 'fallback'
+  reason: string;
+}
+
+export interface UrlFinding {
+  code: 'scheme' | 'malformed' | 'blocklist' | 'userinfo' | 'punycode' | 'homoglyph' | 'ip' | 'port' | 'shortener';
+  severity: 'warning' | 'danger';
+  message: string;
+}
+
+export interface UrlInspection {
+  url: string;
+  host: string;
+  // Host with punycode labels decoded, as a user would read it
+  displayHost: string;
+  findings: UrlFinding[];
+  // safe: open directly, warn: confirm first, block: never open
+  verdict: 'safe' | 'warn' | 'block';
+  allowListed: boolean;
+}
+
+export interface UrlLists {
+  allow: string[];
+  block: string[];
+}
+
+// Public key accepted for signed codes; id is the key id carried in the signature
+export interface TrustedKey {
+  id: string;
+  name: string;
+  // Uncompressed P-256 point, base64url
+  publicKey: string;
+  addedAt: number;
+}
+
+// The app's own key pair; the private half is a non-extractable CryptoKey kept in IndexedDB
+export interface SigningKey {
+  id: string;
+  name: string;
+  privateKey: CryptoKey;
+  publicKey: string;
+  createdAt: number;
+}
+
+// verified: trusted key and valid signature, unverified: unknown key, tampered: invalid signature
+export interface SignatureCheck {
+  status: 'verified' | 'unverified' | 'tampered';
+  keyId: string;
+  keyName?: string;
+}
+
+// Barcode formats, named as the native BarcodeDetector reports them
+export type Symbology =
+  | 'qr_code'
+  | 'data_matrix'
+  | 'aztec'
+  | 'pdf417'
+  | 'ean_13'
+  | 'ean_8'
+  | 'upc_a'
+  | 'upc_e'
+  | 'code_128'
+  | 'code_39'
+  | 'code_93'
+  | 'codabar'
+  | 'itf';
+
+// What the scanner shows for a code it did not act on straight away
 export interface ScannedResult {
   raw: string;
   type: QRType;
-  actionDescription: string;
-}
\ No newline at end of file
+  symbology: Symbology;
+  inspection?: UrlInspection;
+  signature?: SignatureCheck;
+}
+
+// Form state of the Generator, enough to reopen a code for editing
+export type GeneratorInputs =
+  | { type: QRType.URL; url: string }
+  | { type: QRType.TEXT; text: string }
+  | { type: QRType.PHONE; phone: string }
+  | { type: QRType.SMS; sms: SmsConfig }
+  | { type: QRType.WIFI; wifi: WifiConfig }
+  | { type: QRType.GEO; geo: GeoConfig }
+  | { type: QRType.EMAIL; email: EmailConfig }
+  | { type: QRType.CONTACT; contact: ContactConfig; format: ContactFormat }
+  | { type: QRType.EVENT; event: EventConfig }
+  | { type: QRType.PAYMENT; payment: PaymentConfig };
+
+export interface SavedCode {
+  id: string;
+  name: string;
+  tags: string[];
+  inputs: GeneratorInputs;
+  // Encoded payload at save time, used for search and re-export
+  data: string;
+  style: QrStyle;
+  symbolOptions: SymbolOptions;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One recorded scan; data is the code as read, so protected and signed codes are checked again on re-run
+export interface HistoryEntry {
+  id: string;
+  scannedAt: number;
+  type: QRType;
+  data: string;
+  symbology: Symbology;
+  location?: { lat: number; lng: number; accuracy: number };
+  favorite: boolean;
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  // Ask the browser for a position with each scan
+  location: boolean;
+  // Entries older than this are removed; 0 keeps them forever. Favourites never expire.
+  retentionDays: number;
+}
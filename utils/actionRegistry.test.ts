@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { QRType } from '../types';
+import { BrowserEnv, PreferenceStore, SettingsSource, createActionRegistry } from './actionRegistry';
+import { registerBuiltinActions } from './builtinActions';
+
+// Records what the actions asked the browser to do instead of doing it
+const createFakeEnv = ({ popups = true, clipboard = true } = {}) => {
+  const calls: { opened: string[]; navigated: string[]; copied: string[] } = { opened: [], navigated: [], copied: [] };
+  const env: BrowserEnv = {
+    open: url => {
+      calls.opened.push(url);
+      return popups;
+    },
+    navigate: url => {
+      calls.navigated.push(url);
+    },
+    copy: async text => {
+      if (clipboard) calls.copied.push(text);
+      return clipboard;
+    },
+    vibrate: () => {},
+    download: () => {}
+  };
+  return { env, calls };
+};
+
+const createMemoryStore = (initial: Record<string, string> = {}) => {
+  let saved = initial;
+  const store: PreferenceStore = {
+    load: () => saved,
+    save: preferences => {
+      saved = preferences;
+    }
+  };
+  return { store, saved: () => saved };
+};
+
+const settings: SettingsSource = {
+  mapSettings: () => ({ provider: 'osm', customTemplate: '' }),
+  urlLists: () => ({ allow: [], block: ['evil.example'] }),
+  patternRules: () => []
+};
+
+const createRegistry = (env: BrowserEnv, store = createMemoryStore().store) => {
+  const registry = createActionRegistry(env, store, settings);
+  registerBuiltinActions(registry);
+  return registry;
+};
+
+describe('createActionRegistry', () => {
+  it('runs the first action when no preference is stored', async () => {
+    const { env, calls } = createFakeEnv();
+    await createRegistry(env).run('https://example.com', QRType.URL);
+    expect(calls.opened).toEqual(['https://example.com']);
+  });
+
+  it('runs the stored preferred action and saves a new choice', async () => {
+    const { env, calls } = createFakeEnv();
+    const memory = createMemoryStore({ [QRType.URL]: 'copy' });
+    const registry = createRegistry(env, memory.store);
+    await registry.run('https://example.com', QRType.URL);
+    expect(calls.copied).toEqual(['https://example.com']);
+    expect(calls.opened).toEqual([]);
+
+    registry.setPreferredAction(QRType.URL, 'open');
+    expect(memory.saved()).toEqual({ [QRType.URL]: 'open' });
+    expect(registry.getPreferredAction(QRType.URL)?.id).toBe('open');
+  });
+
+  it('falls back to the first action when the stored one no longer exists', () => {
+    const { env } = createFakeEnv();
+    const registry = createRegistry(env, createMemoryStore({ [QRType.URL]: 'removed' }).store);
+    expect(registry.getPreferredAction(QRType.URL)?.id).toBe('open');
+  });
+
+  it('falls back to the text actions for types without a handler', () => {
+    const { env } = createFakeEnv();
+    const registry = createActionRegistry(env, createMemoryStore().store, settings);
+    registry.register({ type: QRType.TEXT, actions: [{ id: 'copy', label: 'Kopyala', kind: 'copy', run: () => {} }] });
+    expect(registry.getActions(QRType.URL).map(a => a.id)).toEqual(['copy']);
+  });
+
+  it('navigates in place when the popup is blocked', async () => {
+    const { env, calls } = createFakeEnv({ popups: false });
+    await createRegistry(env).run('https://example.com', QRType.URL);
+    expect(calls.navigated).toEqual(['https://example.com']);
+  });
+
+  it('asks for a preview only for structured payloads', () => {
+    const registry = createRegistry(createFakeEnv().env);
+    expect(registry.requiresPreview(QRType.CONTACT)).toBe(true);
+    expect(registry.requiresPreview(QRType.EVENT)).toBe(true);
+    expect(registry.requiresPreview(QRType.PAYMENT)).toBe(true);
+    expect(registry.requiresPreview(QRType.GS1)).toBe(true);
+    expect(registry.requiresPreview(QRType.URL)).toBe(false);
+    expect(registry.requiresPreview(QRType.TEXT)).toBe(false);
+  });
+
+  it('refuses to open a blocked URL', async () => {
+    const { env, calls } = createFakeEnv();
+    await expect(createRegistry(env).run('https://login.evil.example/', QRType.URL, 'open')).rejects.toThrow('engelli');
+    expect(calls.opened).toEqual([]);
+    expect(calls.navigated).toEqual([]);
+  });
+
+  it('reports a refused clipboard write', async () => {
+    const { env } = createFakeEnv({ clipboard: false });
+    await expect(createRegistry(env).run('merhaba', QRType.TEXT)).rejects.toThrow('kopyalanamadı');
+  });
+
+  it('marks copy actions so they stay available for blocked content', () => {
+    const registry = createRegistry(createFakeEnv().env);
+    expect(registry.getActions(QRType.URL).filter(a => a.kind === 'copy').map(a => a.id)).toEqual(['copy']);
+    expect(registry.getActions(QRType.GEO).filter(a => a.kind === 'copy').map(a => a.id)).toEqual(['copy-coords']);
+  });
+});
@@ -0,0 +1,190 @@
+import type { ComponentType } from 'react';
+import { QRType, ParsedPayload, DetectionResult, MapSettings, PatternRule, UrlLists } from '../types';
+import { parseQRPayload, downloadFile } from './qrUtils';
+import { classifyContent } from './detection';
+import { loadMapSettings } from './geo';
+import { loadUrlLists } from './urlSafety';
+import { loadRules } from './patternRules';
+import { registerBuiltinActions } from './builtinActions';
+
+// Everything an action may do to the outside world goes through this, so the
+// registry can be driven by a fake environment instead of real navigation.
+export interface BrowserEnv {
+  // Returns false when the popup was blocked
+  open: (url: string) => boolean;
+  navigate: (url: string) => void;
+  copy: (text: string) => Promise<boolean>;
+  vibrate: (pattern: number | number[]) => void;
+  download: (fileName: string, content: string | Blob, mimeType?: string) => void;
+}
+
+export interface QRAction {
+  id: string;
+  label: string;
+  // Copy actions only hand the content over; they stay available where opening it is not allowed
+  kind?: 'copy';
+  run: (data: string, payload: ParsedPayload, env: BrowserEnv) => void | Promise<void>;
+}
+
+export interface PreviewProps {
+  data: string;
+  payload: ParsedPayload;
+}
+
+export interface TypeHandler {
+  type: QRType;
+  // Detectors with a higher priority run first; anything undetected falls back to classifyContent
+  priority?: number;
+  detect?: (data: string) => boolean;
+  actions: QRAction[];
+  preview?: ComponentType<PreviewProps>;
+  // Structured payloads whose raw text means little get a preview before any action runs
+  requiresPreview?: boolean;
+}
+
+export interface PreferenceStore {
+  load: () => Record<string, string>;
+  save: (preferences: Record<string, string>) => void;
+}
+
+const PREFERENCES_KEY = 'qr-action-preferences';
+
+export const localPreferenceStore: PreferenceStore = {
+  load: () => {
+    try {
+      return JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  },
+  save: (preferences) => localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences))
+};
+
+// Stored user settings the built-in handlers consult, injected like the env so a fake
+// registry doesn't depend on localStorage either
+export interface SettingsSource {
+  mapSettings: () => MapSettings;
+  urlLists: () => UrlLists;
+  patternRules: () => PatternRule[];
+}
+
+export const localSettingsSource: SettingsSource = {
+  mapSettings: loadMapSettings,
+  urlLists: loadUrlLists,
+  patternRules: loadRules
+};
+
+export const createBrowserEnv = (): BrowserEnv => ({
+  open: (url) => {
+    // Note: Some browsers might block popups here since this isn't a direct click event.
+    const newWindow = window.open(url, '_blank');
+    return !(!newWindow || newWindow.closed || typeof newWindow.closed == 'undefined');
+  },
+  navigate: (url) => {
+    window.location.href = url;
+  },
+  // Clipboard writes may be blocked by browsers if not triggered by explicit user
+  // interaction or if the document lacks focus.
+  copy: async (text) => {
+    if (!navigator.clipboard) return false;
+    try {
+      // Attempt to focus window first if possible (helps in some iframe contexts)
+      if (window.focus) window.focus();
+      await navigator.clipboard.writeText(text);
+      return true;
+    } catch (err) {
+      console.warn("Clipboard write failed (likely due to lack of user gesture or focus):", err);
+      return false;
+    }
+  },
+  vibrate: (pattern) => {
+    if (navigator.vibrate) navigator.vibrate(pattern);
+  },
+  download: downloadFile
+});
+
+export const createActionRegistry = (
+  env: BrowserEnv,
+  preferenceStore: PreferenceStore = localPreferenceStore,
+  settings: SettingsSource = localSettingsSource
+) => {
+  const handlers = new Map<QRType, TypeHandler>();
+  let preferences = preferenceStore.load();
+
+  const register = (handler: TypeHandler) => {
+    const existing = handlers.get(handler.type);
+    if (!existing) {
+      handlers.set(handler.type, { ...handler, actions: [...handler.actions] });
+      return;
+    }
+    // Later registrations extend a type: new actions are appended, same ids are replaced
+    const actions = existing.actions.filter(a => !handler.actions.some(h => h.id === a.id));
+    handlers.set(handler.type, { ...existing, ...handler, actions: [...actions, ...handler.actions] });
+  };
+
+  const registerAction = (type: QRType, action: QRAction) => register({ type, actions: [action] });
+
+  const setPreview = (type: QRType, preview: ComponentType<PreviewProps>) => register({ type, actions: [], preview });
+
+  const classify = (data: string): DetectionResult => {
+    const detectors = Array.from(handlers.values())
+      .filter(h => h.detect)
+      .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    for (const handler of detectors) {
+      // A registered detector is an explicit claim on the payload
+      if (handler.detect!(data)) return { type: handler.type, confidence: 1, reason: 'handler' };
+    }
+    return classifyContent(data);
+  };
+
+  const detect = (data: string): QRType => classify(data).type;
+
+  const getHandler = (type: QRType) => handlers.get(type);
+
+  const getActions = (type: QRType) => handlers.get(type)?.actions ?? handlers.get(QRType.TEXT)?.actions ?? [];
+
+  const getPreferredAction = (type: QRType): QRAction | undefined => {
+    const actions = getActions(type);
+    return actions.find(a => a.id === preferences[type]) ?? actions[0];
+  };
+
+  const setPreferredAction = (type: QRType, actionId: string) => {
+    preferences = { ...preferences, [type]: actionId };
+    preferenceStore.save(preferences);
+  };
+
+  const requiresPreview = (type: QRType) => !!handlers.get(type)?.requiresPreview;
+
+  const run = async (data: string, type: QRType, actionId?: string) => {
+    const action = actionId ? getActions(type).find(a => a.id === actionId) : getPreferredAction(type);
+    if (!action) {
+      console.warn(`No action registered for ${type}`);
+      return;
+    }
+    await action.run(data, parseQRPayload(data, type, settings.patternRules()), env);
+  };
+
+  return {
+    env,
+    settings,
+    register,
+    registerAction,
+    setPreview,
+    classify,
+    detect,
+    getHandler,
+    getActions,
+    getPreferredAction,
+    setPreferredAction,
+    requiresPreview,
+    run,
+    types: () => Array.from(handlers.keys())
+  };
+};
+
+export type ActionRegistry = ReturnType<typeof createActionRegistry>;
+
+export const actionRegistry = createActionRegistry(createBrowserEnv());
+registerBuiltinActions(actionRegistry);
+
+export const performAction = (data: string, type: QRType, actionId?: string) => actionRegistry.run(data, type, actionId);
@@ -0,0 +1,557 @@
+// Linear barcode reader for camera frames, for browsers whose BarcodeDetector is missing or
+// lacks a format. A handful of scan lines through the middle of the frame are turned into runs
+// of bar and space widths, and each format's decoder looks for its start pattern in them. The
+// pattern tables and matching thresholds follow ZXing's one-dimensional readers.
+
+import { Point, RgbaImage, binarize } from './qrDecoder';
+
+export type LinearFormat = 'ean_13' | 'ean_8' | 'upc_a' | 'upc_e' | 'code_128' | 'code_39' | 'code_93' | 'codabar' | 'itf';
+
+export interface DecodedLinear {
+  text: string;
+  format: LinearFormat;
+  // Image coordinates around the scan line: start top, end top, end bottom, start bottom
+  corners: Point[];
+}
+
+// Widths along a scan line, starting with a space; bars are at the odd indexes
+type Runs = number[];
+
+interface RunMatch {
+  text: string;
+  format: LinearFormat;
+  // Run index range [start, end) covered by the barcode
+  start: number;
+  end: number;
+}
+
+// Average variance of the runs from the pattern, scaled to the same total; Infinity when a
+// single run is off by more than maxIndividual modules
+const patternVariance = (runs: Runs, offset: number, pattern: number[], maxIndividual: number) => {
+  let total = 0;
+  let modules = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    total += runs[offset + i];
+    modules += pattern[i];
+  }
+  if (offset + pattern.length > runs.length || total < modules) return Infinity;
+  const unit = total / modules;
+  let variance = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const diff = Math.abs(runs[offset + i] - pattern[i] * unit);
+    if (diff > maxIndividual * unit) return Infinity;
+    variance += diff;
+  }
+  return variance / total;
+};
+
+const sumRuns = (runs: Runs, from: number, count: number) => {
+  let total = 0;
+  for (let i = from; i < from + count && i < runs.length; i++) total += runs[i];
+  return total;
+};
+
+// Index of the closest pattern, or -1 when none is within maxAverage
+const bestPattern = (runs: Runs, offset: number, patterns: number[][], maxAverage: number, maxIndividual: number) => {
+  let best = -1;
+  let bestVariance = maxAverage;
+  patterns.forEach((pattern, i) => {
+    const variance = patternVariance(runs, offset, pattern, maxIndividual);
+    if (variance < bestVariance) {
+      bestVariance = variance;
+      best = i;
+    }
+  });
+  return best;
+};
+
+// Mod 10 check with weights 3 and 1 from the right, the check digit itself weighing 1
+const checkMod10 = (digits: string) => {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 1; i >= 0; i--, weight = 4 - weight) sum += (digits.charCodeAt(i) - 48) * weight;
+  return sum % 10 === 0;
+};
+
+// EAN / UPC
+
+const EAN_AVERAGE = 0.48;
+const EAN_INDIVIDUAL = 0.7;
+const GUARD = [1, 1, 1];
+const MIDDLE_GUARD = [1, 1, 1, 1, 1];
+const UPCE_END_GUARD = [1, 1, 1, 1, 1, 1];
+
+// Left-hand odd parity; the right-hand set has the same widths starting with a bar
+const L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+];
+// Even parity is the odd pattern mirrored
+const LG_PATTERNS = [...L_PATTERNS, ...L_PATTERNS.map(p => [...p].reverse())];
+
+// Parity of the six left digits (bit 5 is the first digit, set for even parity) gives the
+// leading EAN-13 digit
+const EAN13_FIRST_DIGIT = [0x00, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a];
+// Parity of the six UPC-E digits gives the number system (row) and check digit (column)
+const UPCE_PARITY = [
+  [0x38, 0x34, 0x32, 0x31, 0x2c, 0x26, 0x23, 0x2a, 0x29, 0x25],
+  [0x07, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a]
+];
+
+const readEanDigits = (runs: Runs, offset: number, count: number, withParity: boolean) => {
+  let digits = '';
+  let parity = 0;
+  for (let k = 0; k < count; k++) {
+    const match = bestPattern(runs, offset + k * 4, withParity ? LG_PATTERNS : L_PATTERNS, EAN_AVERAGE, EAN_INDIVIDUAL);
+    if (match < 0) return null;
+    digits += match % 10;
+    if (match >= 10) parity |= 1 << (count - 1 - k);
+  }
+  return { digits, parity };
+};
+
+const isGuard = (runs: Runs, offset: number, pattern: number[]) => patternVariance(runs, offset, pattern, EAN_INDIVIDUAL) < EAN_AVERAGE;
+
+// A quiet zone at least as wide as the guard next to it
+const hasQuietZone = (runs: Runs, index: number, guardWidth: number) => index >= 0 && index < runs.length && runs[index] >= guardWidth;
+
+const upceToUpca = (upce: string) => {
+  const chars = upce.slice(1, 7);
+  const last = chars[5];
+  let middle: string;
+  if (last <= '2') middle = chars.slice(0, 2) + last + '0000' + chars.slice(2, 5);
+  else if (last === '3') middle = chars.slice(0, 3) + '00000' + chars.slice(3, 5);
+  else if (last === '4') middle = chars.slice(0, 4) + '00000' + chars[4];
+  else middle = chars.slice(0, 5) + '0000' + last;
+  return upce[0] + middle + upce[7];
+};
+
+const decodeEan = (runs: Runs, s: number, formats: Set<LinearFormat>): RunMatch | null => {
+  if (!isGuard(runs, s, GUARD) || !hasQuietZone(runs, s - 1, sumRuns(runs, s, 3))) return null;
+  const guardWidth = sumRuns(runs, s, 3);
+
+  if (formats.has('ean_13') || formats.has('upc_a')) {
+    const left = readEanDigits(runs, s + 3, 6, true);
+    const right = left && isGuard(runs, s + 27, MIDDLE_GUARD) ? readEanDigits(runs, s + 32, 6, false) : null;
+    if (left && right && isGuard(runs, s + 56, GUARD) && hasQuietZone(runs, s + 59, guardWidth)) {
+      const first = EAN13_FIRST_DIGIT.indexOf(left.parity);
+      const digits = `${first}${left.digits}${right.digits}`;
+      if (first >= 0 && checkMod10(digits)) {
+        // UPC-A is EAN-13 with a leading zero
+        if (first === 0 && formats.has('upc_a')) return { text: digits.slice(1), format: 'upc_a', start: s, end: s + 59 };
+        if (formats.has('ean_13')) return { text: digits, format: 'ean_13', start: s, end: s + 59 };
+      }
+    }
+  }
+
+  if (formats.has('ean_8')) {
+    const left = readEanDigits(runs, s + 3, 4, false);
+    const right = left && isGuard(runs, s + 19, MIDDLE_GUARD) ? readEanDigits(runs, s + 24, 4, false) : null;
+    if (left && right && isGuard(runs, s + 40, GUARD) && hasQuietZone(runs, s + 43, guardWidth)) {
+      const digits = left.digits + right.digits;
+      if (checkMod10(digits)) return { text: digits, format: 'ean_8', start: s, end: s + 43 };
+    }
+  }
+
+  if (formats.has('upc_e')) {
+    const body = readEanDigits(runs, s + 3, 6, true);
+    if (body && isGuard(runs, s + 27, UPCE_END_GUARD) && hasQuietZone(runs, s + 33, guardWidth)) {
+      for (let system = 0; system < 2; system++) {
+        const check = UPCE_PARITY[system].indexOf(body.parity);
+        if (check < 0) continue;
+        const text = `${system}${body.digits}${check}`;
+        if (checkMod10(upceToUpca(text))) return { text, format: 'upc_e', start: s, end: s + 33 };
+      }
+    }
+  }
+  return null;
+};
+
+// Code 128
+
+const CODE128_AVERAGE = 0.25;
+const CODE128_INDIVIDUAL = 0.7;
+
+// Values 0-105, then the stop pattern without its final bar
+const CODE128_PATTERNS = [
+  [2, 1, 2, 2, 2, 2], [2, 2, 2, 1, 2, 2], [2, 2, 2, 2, 2, 1], [1, 2, 1, 2, 2, 3], [1, 2, 1, 3, 2, 2],
+  [1, 3, 1, 2, 2, 2], [1, 2, 2, 2, 1, 3], [1, 2, 2, 3, 1, 2], [1, 3, 2, 2, 1, 2], [2, 2, 1, 2, 1, 3],
+  [2, 2, 1, 3, 1, 2], [2, 3, 1, 2, 1, 2], [1, 1, 2, 2, 3, 2], [1, 2, 2, 1, 3, 2], [1, 2, 2, 2, 3, 1],
+  [1, 1, 3, 2, 2, 2], [1, 2, 3, 1, 2, 2], [1, 2, 3, 2, 2, 1], [2, 2, 3, 2, 1, 1], [2, 2, 1, 1, 3, 2],
+  [2, 2, 1, 2, 3, 1], [2, 1, 3, 2, 1, 2], [2, 2, 3, 1, 1, 2], [3, 1, 2, 1, 3, 1], [3, 1, 1, 2, 2, 2],
+  [3, 2, 1, 1, 2, 2], [3, 2, 1, 2, 2, 1], [3, 1, 2, 2, 1, 2], [3, 2, 2, 1, 1, 2], [3, 2, 2, 2, 1, 1],
+  [2, 1, 2, 1, 2, 3], [2, 1, 2, 3, 2, 1], [2, 3, 2, 1, 2, 1], [1, 1, 1, 3, 2, 3], [1, 3, 1, 1, 2, 3],
+  [1, 3, 1, 3, 2, 1], [1, 1, 2, 3, 1, 3], [1, 3, 2, 1, 1, 3], [1, 3, 2, 3, 1, 1], [2, 1, 1, 3, 1, 3],
+  [2, 3, 1, 1, 1, 3], [2, 3, 1, 3, 1, 1], [1, 1, 2, 1, 3, 3], [1, 1, 2, 3, 3, 1], [1, 3, 2, 1, 3, 1],
+  [1, 1, 3, 1, 2, 3], [1, 1, 3, 3, 2, 1], [1, 3, 3, 1, 2, 1], [3, 1, 3, 1, 2, 1], [2, 1, 1, 3, 3, 1],
+  [2, 3, 1, 1, 3, 1], [2, 1, 3, 1, 1, 3], [2, 1, 3, 3, 1, 1], [2, 1, 3, 1, 3, 1], [3, 1, 1, 1, 2, 3],
+  [3, 1, 1, 3, 2, 1], [3, 3, 1, 1, 2, 1], [3, 1, 2, 1, 1, 3], [3, 1, 2, 3, 1, 1], [3, 3, 2, 1, 1, 1],
+  [3, 1, 4, 1, 1, 1], [2, 2, 1, 4, 1, 1], [4, 3, 1, 1, 1, 1], [1, 1, 1, 2, 2, 4], [1, 1, 1, 4, 2, 2],
+  [1, 2, 1, 1, 2, 4], [1, 2, 1, 4, 2, 1], [1, 4, 1, 1, 2, 2], [1, 4, 1, 2, 2, 1], [1, 1, 2, 2, 1, 4],
+  [1, 1, 2, 4, 1, 2], [1, 2, 2, 1, 1, 4], [1, 2, 2, 4, 1, 1], [1, 4, 2, 1, 1, 2], [1, 4, 2, 2, 1, 1],
+  [2, 4, 1, 2, 1, 1], [2, 2, 1, 1, 1, 4], [4, 1, 3, 1, 1, 1], [2, 4, 1, 1, 1, 2], [1, 3, 4, 1, 1, 1],
+  [1, 1, 1, 2, 4, 2], [1, 2, 1, 1, 4, 2], [1, 2, 1, 2, 4, 1], [1, 1, 4, 2, 1, 2], [1, 2, 4, 1, 1, 2],
+  [1, 2, 4, 2, 1, 1], [4, 1, 1, 2, 1, 2], [4, 2, 1, 1, 1, 2], [4, 2, 1, 2, 1, 1], [2, 1, 2, 1, 4, 1],
+  [2, 1, 4, 1, 2, 1], [4, 1, 2, 1, 2, 1], [1, 1, 1, 1, 4, 3], [1, 1, 1, 3, 4, 1], [1, 3, 1, 1, 4, 1],
+  [1, 1, 4, 1, 1, 3], [1, 1, 4, 3, 1, 1], [4, 1, 1, 1, 1, 3], [4, 1, 1, 3, 1, 1], [1, 1, 3, 1, 4, 1],
+  [1, 1, 4, 1, 3, 1], [3, 1, 1, 1, 4, 1], [4, 1, 1, 1, 3, 1], [2, 1, 1, 4, 1, 2], [2, 1, 1, 2, 1, 4],
+  [2, 1, 1, 2, 3, 2], [2, 3, 3, 1, 1, 1]
+];
+const CODE128_START_A = 103;
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+const CODE_SHIFT = 98;
+const CODE_C = 99;
+const CODE_B = 100;
+const CODE_A = 101;
+const FNC1 = 102;
+const FNC4_A = 101;
+const FNC4_B = 100;
+// Separates GS1 element strings, as other readers report FNC1 after the first position
+const GROUP_SEPARATOR = '\u001d';
+
+const decodeCode128 = (runs: Runs, s: number): RunMatch | null => {
+  const start = CODE128_START_A + bestPattern(runs, s, CODE128_PATTERNS.slice(CODE128_START_A, CODE128_STOP), CODE128_AVERAGE, CODE128_INDIVIDUAL);
+  if (start < CODE128_START_A) return null;
+  if (!hasQuietZone(runs, s - 1, sumRuns(runs, s, 6) / 2)) return null;
+
+  const codes = [start];
+  let offset = s + 6;
+  for (;;) {
+    const code = bestPattern(runs, offset, CODE128_PATTERNS, CODE128_AVERAGE, CODE128_INDIVIDUAL);
+    if (code < 0) return null;
+    offset += 6;
+    if (code === CODE128_STOP) break;
+    if (code >= CODE128_START_A) return null;
+    codes.push(code);
+  }
+  // The stop pattern ends with a two-module bar and a quiet zone
+  if (offset >= runs.length || !hasQuietZone(runs, offset + 1, sumRuns(runs, offset - 6, 7) / 2)) return null;
+  if (codes.length < 3) return null;
+
+  const check = codes.pop() as number;
+  const sum = codes.reduce((total, code, i) => total + (i === 0 ? code : code * i), 0);
+  if (sum % 103 !== check) return null;
+
+  let set = start === CODE128_START_A ? 'A' : start === CODE128_START_B ? 'B' : 'C';
+  let text = '';
+  let shifted = false;
+  let fnc4 = false;
+  for (let i = 1; i < codes.length; i++) {
+    const code = codes[i];
+    const current = shifted ? (set === 'A' ? 'B' : 'A') : set;
+    shifted = false;
+    if (code === FNC1) {
+      // In the first position it only marks GS1 data
+      if (i > 1) text += GROUP_SEPARATOR;
+      continue;
+    }
+    if (current === 'C') {
+      if (code < 100) text += String(code).padStart(2, '0');
+      else if (code === CODE_B) set = 'B';
+      else if (code === CODE_A) set = 'A';
+      continue;
+    }
+    if (code < 96) {
+      const ascii = current === 'A' ? (code < 64 ? code + 32 : code - 64) : code + 32;
+      text += String.fromCharCode(ascii + (fnc4 ? 128 : 0));
+      fnc4 = false;
+    } else if (code === CODE_SHIFT) shifted = true;
+    else if (code === CODE_C) set = 'C';
+    else if (current === 'A' && code === CODE_B) set = 'B';
+    else if (current === 'B' && code === CODE_A) set = 'A';
+    else if ((current === 'A' && code === FNC4_A) || (current === 'B' && code === FNC4_B)) fnc4 = true;
+    // FNC2 and FNC3 carry no data
+  }
+  return { text, format: 'code_128', start: s, end: offset + 1 };
+};
+
+// Code 39, Codabar: narrow and wide elements
+
+// Bitmasks over the 9 elements (first element is the high bit), set for wide
+const CODE39_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+const CODE39_ENCODINGS = [
+  0x034, 0x121, 0x061, 0x160, 0x031, 0x130, 0x070, 0x025, 0x124, 0x064,
+  0x109, 0x049, 0x148, 0x019, 0x118, 0x058, 0x00d, 0x10c, 0x04c, 0x01c,
+  0x103, 0x043, 0x142, 0x013, 0x112, 0x052, 0x007, 0x106, 0x046, 0x016,
+  0x181, 0x0c1, 0x1c0, 0x091, 0x190, 0x0d0, 0x085, 0x184, 0x0c4, 0x0a8,
+  0x0a2, 0x08a, 0x02a
+];
+const CODE39_ASTERISK = 0x094;
+
+// Wide elements are the three widest, each clearly wider than the narrow ones; -1 otherwise
+const code39Pattern = (runs: Runs, offset: number) => {
+  if (offset + 9 > runs.length) return -1;
+  const counters = runs.slice(offset, offset + 9);
+  let maxNarrow = 0;
+  for (;;) {
+    const next = Math.min(...counters.filter(c => c > maxNarrow));
+    if (!Number.isFinite(next)) return -1;
+    maxNarrow = next;
+    const wide = counters.filter(c => c > maxNarrow);
+    if (wide.length < 3) return -1;
+    if (wide.length === 3) {
+      const totalWide = wide.reduce((a, b) => a + b, 0);
+      // One wide element as large as the other two together means this is not a character
+      if (wide.some(c => c * 2 >= totalWide)) return -1;
+      return counters.reduce((pattern, c, i) => (c > maxNarrow ? pattern | (1 << (8 - i)) : pattern), 0);
+    }
+  }
+};
+
+const decodeCode39 = (runs: Runs, s: number): RunMatch | null => {
+  if (code39Pattern(runs, s) !== CODE39_ASTERISK) return null;
+  const startWidth = sumRuns(runs, s, 9);
+  if (!hasQuietZone(runs, s - 1, startWidth / 2)) return null;
+  let text = '';
+  let offset = s + 10;
+  for (;;) {
+    const pattern = code39Pattern(runs, offset);
+    if (pattern === CODE39_ASTERISK) break;
+    const index = CODE39_ENCODINGS.indexOf(pattern);
+    if (index < 0) return null;
+    text += CODE39_ALPHABET[index];
+    offset += 10;
+  }
+  if (!text || !hasQuietZone(runs, offset + 9, sumRuns(runs, offset, 9) / 2)) return null;
+  return { text, format: 'code_39', start: s, end: offset + 9 };
+};
+
+// 7 elements, four bars and three spaces, with two or three of them wide
+const CODABAR_ALPHABET = '0123456789-$:/.+ABCD';
+const CODABAR_ENCODINGS = [
+  0x003, 0x006, 0x009, 0x060, 0x012, 0x042, 0x021, 0x024, 0x030, 0x048,
+  0x00c, 0x018, 0x045, 0x051, 0x054, 0x015, 0x01a, 0x029, 0x00b, 0x00e
+];
+const CODABAR_MIN_DATA = 2;
+
+const codabarChar = (runs: Runs, offset: number) => {
+  if (offset + 7 > runs.length) return -1;
+  const counters = runs.slice(offset, offset + 7);
+  const threshold = (Math.min(...counters) + Math.max(...counters)) / 2;
+  const pattern = counters.reduce((p, c, i) => (c > threshold ? p | (1 << (6 - i)) : p), 0);
+  return CODABAR_ENCODINGS.indexOf(pattern);
+};
+
+const isCodabarGuard = (index: number) => index >= 16;
+
+const decodeCodabar = (runs: Runs, s: number): RunMatch | null => {
+  const first = codabarChar(runs, s);
+  if (!isCodabarGuard(first) || !hasQuietZone(runs, s - 1, sumRuns(runs, s, 7) / 2)) return null;
+  let text = '';
+  let offset = s + 8;
+  for (;;) {
+    const index = codabarChar(runs, offset);
+    if (index < 0) return null;
+    if (isCodabarGuard(index)) break;
+    text += CODABAR_ALPHABET[index];
+    offset += 8;
+  }
+  if (text.length < CODABAR_MIN_DATA || !hasQuietZone(runs, offset + 7, sumRuns(runs, offset, 7) / 2)) return null;
+  return { text, format: 'codabar', start: s, end: offset + 7 };
+};
+
+// Code 93: 9 modules in three bars and three spaces, two check characters
+
+const CODE93_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%abcd*';
+// Module bitmaps, first module is the high bit
+const CODE93_ENCODINGS = [
+  0x114, 0x148, 0x144, 0x142, 0x128, 0x124, 0x122, 0x150, 0x112, 0x10a,
+  0x1a8, 0x1a4, 0x1a2, 0x194, 0x192, 0x18a, 0x168, 0x164, 0x162, 0x134,
+  0x11a, 0x158, 0x14c, 0x146, 0x12c, 0x116, 0x1b4, 0x1b2, 0x1ac, 0x1a6,
+  0x196, 0x19a, 0x16c, 0x166, 0x136, 0x13a, 0x12e, 0x1d4, 0x1d2, 0x1ca,
+  0x16e, 0x176, 0x1ae, 0x126, 0x1da, 0x1d6, 0x132, 0x15e
+];
+const CODE93_ASTERISK = 47;
+
+const code93Char = (runs: Runs, offset: number) => {
+  if (offset + 6 > runs.length) return -1;
+  const total = sumRuns(runs, offset, 6);
+  let pattern = 0;
+  let modules = 0;
+  for (let i = 0; i < 6; i++) {
+    const width = Math.round((runs[offset + i] * 9) / total);
+    if (width < 1 || width > 4) return -1;
+    for (let m = 0; m < width; m++) pattern = (pattern << 1) | (i % 2 === 0 ? 1 : 0);
+    modules += width;
+  }
+  return modules === 9 ? CODE93_ENCODINGS.indexOf(pattern) : -1;
+};
+
+const code93Check = (values: number[], maxWeight: number) => {
+  let sum = 0;
+  for (let i = values.length - 1, weight = 1; i >= 0; i--) {
+    sum += values[i] * weight;
+    weight = weight === maxWeight ? 1 : weight + 1;
+  }
+  return sum % 47;
+};
+
+// Full ASCII: a, b, c and d shift the next letter
+const decodeCode93Extended = (values: number[]) => {
+  let text = '';
+  for (let i = 0; i < values.length; i++) {
+    const c = CODE93_ALPHABET[values[i]];
+    if (c < 'a' || c > 'd') {
+      text += c;
+      continue;
+    }
+    const next = CODE93_ALPHABET[values[++i]];
+    if (!next || next < 'A' || next > 'Z') return null;
+    const n = next.charCodeAt(0) - 65;
+    if (c === 'a') text += String.fromCharCode(n + 1);
+    else if (c === 'b') text += n < 5 ? String.fromCharCode(n + 27) : n < 10 ? ';<=>?'[n - 5] : n < 15 ? '[\\]^_'[n - 10] : n < 20 ? '{|}~\x7f'[n - 15] : n === 20 ? '\0' : n === 21 ? '@' : n === 22 ? '`' : '\x7f';
+    else if (c === 'c') text += n < 15 ? String.fromCharCode(n + 33) : n === 25 ? ':' : '';
+    else text += String.fromCharCode(n + 97);
+  }
+  return text;
+};
+
+const decodeCode93 = (runs: Runs, s: number): RunMatch | null => {
+  if (code93Char(runs, s) !== CODE93_ASTERISK || !hasQuietZone(runs, s - 1, sumRuns(runs, s, 6) / 2)) return null;
+  const values: number[] = [];
+  let offset = s + 6;
+  for (;;) {
+    const value = code93Char(runs, offset);
+    if (value < 0) return null;
+    offset += 6;
+    if (value === CODE93_ASTERISK) break;
+    values.push(value);
+  }
+  // Stop character, a one-module termination bar, then the quiet zone
+  if (values.length < 3 || !hasQuietZone(runs, offset + 1, sumRuns(runs, offset - 6, 6) / 2)) return null;
+  const data = values.slice(0, -2);
+  if (code93Check(data, 20) !== values[values.length - 2] || code93Check(values.slice(0, -1), 15) !== values[values.length - 1]) return null;
+  const text = decodeCode93Extended(data);
+  return text ? { text, format: 'code_93', start: s, end: offset + 1 } : null;
+};
+
+// Interleaved 2 of 5: digit pairs, the first on the bars and the second on the spaces
+
+const ITF_AVERAGE = 0.38;
+const ITF_INDIVIDUAL = 0.5;
+const ITF_START = [1, 1, 1, 1];
+const ITF_END = [3, 1, 1];
+const ITF_MIN_LENGTH = 6;
+const N = 1;
+const W = 3;
+const ITF_PATTERNS = [
+  [N, N, W, W, N], [W, N, N, N, W], [N, W, N, N, W], [W, W, N, N, N], [N, N, W, N, W],
+  [W, N, W, N, N], [N, W, W, N, N], [N, N, N, W, W], [W, N, N, W, N], [N, W, N, W, N]
+];
+
+const decodeItf = (runs: Runs, s: number): RunMatch | null => {
+  if (patternVariance(runs, s, ITF_START, ITF_INDIVIDUAL) >= ITF_AVERAGE) return null;
+  const narrow = sumRuns(runs, s, 4) / 4;
+  // ITF is easily read into noise, so it needs a full ten-module quiet zone
+  if (!hasQuietZone(runs, s - 1, narrow * 10)) return null;
+  let text = '';
+  let offset = s + 4;
+  while (offset + 3 < runs.length) {
+    if (text.length >= ITF_MIN_LENGTH && patternVariance(runs, offset, ITF_END, ITF_INDIVIDUAL) < ITF_AVERAGE && runs[offset + 3] >= narrow * 10) {
+      return { text, format: 'itf', start: s, end: offset + 3 };
+    }
+    const bars = [0, 2, 4, 6, 8].map(i => runs[offset + i]);
+    const spaces = [1, 3, 5, 7, 9].map(i => runs[offset + i]);
+    if (spaces.some(v => v === undefined)) return null;
+    const first = bestPattern(bars, 0, ITF_PATTERNS, ITF_AVERAGE, ITF_INDIVIDUAL);
+    const second = bestPattern(spaces, 0, ITF_PATTERNS, ITF_AVERAGE, ITF_INDIVIDUAL);
+    if (first < 0 || second < 0) return null;
+    text += `${first}${second}`;
+    offset += 10;
+  }
+  return null;
+};
+
+// Scanning
+
+const decodeRuns = (runs: Runs, formats: Set<LinearFormat>): RunMatch | null => {
+  const ean = formats.has('ean_13') || formats.has('ean_8') || formats.has('upc_a') || formats.has('upc_e');
+  for (let s = 1; s < runs.length; s += 2) {
+    // Every format leaves a quiet zone of several modules before a first bar of at most two
+    if (runs[s - 1] < runs[s] * 2) continue;
+    const match =
+      (ean && decodeEan(runs, s, formats)) ||
+      (formats.has('code_128') && decodeCode128(runs, s)) ||
+      (formats.has('code_39') && decodeCode39(runs, s)) ||
+      (formats.has('code_93') && decodeCode93(runs, s)) ||
+      (formats.has('codabar') && decodeCodabar(runs, s)) ||
+      (formats.has('itf') && decodeItf(runs, s)) ||
+      null;
+    if (match) return match;
+  }
+  return null;
+};
+
+// Positions of the run boundaries along the line, so a match can be mapped back to the image
+const toRuns = (dark: (i: number) => boolean, length: number) => {
+  const runs: Runs = [];
+  const starts: number[] = [];
+  let current = false;
+  let count = 0;
+  starts.push(0);
+  for (let i = 0; i < length; i++) {
+    const d = dark(i);
+    if (d !== current) {
+      runs.push(count);
+      starts.push(i);
+      current = d;
+      count = 0;
+    }
+    count++;
+  }
+  runs.push(count);
+  return { runs, starts };
+};
+
+const SCAN_LINES = 15;
+// Scan lines spread over the middle of the frame, centre first
+const lineOffsets = (size: number) =>
+  Array.from({ length: SCAN_LINES }, (_, i) => {
+    const step = Math.ceil(i / 2) * (i % 2 ? 1 : -1);
+    return Math.round(size / 2 + (step * size * 0.6) / SCAN_LINES);
+  });
+
+export const decodeLinear = (image: RgbaImage, formats: LinearFormat[]): DecodedLinear | null => {
+  if (!formats.length) return null;
+  const enabled = new Set(formats);
+  const img = binarize(image);
+  const { width, height, bits } = img;
+
+  // Rows first for horizontal labels, then columns for vertical ones
+  const lines = [
+    ...lineOffsets(height).map(y => ({ length: width, dark: (i: number) => bits[y * width + i] === 1, point: (i: number) => ({ x: i, y }) })),
+    ...lineOffsets(width).map(x => ({ length: height, dark: (i: number) => bits[i * width + x] === 1, point: (i: number) => ({ x, y: i }) }))
+  ];
+  for (const line of lines) {
+    const { runs, starts } = toRuns(line.dark, line.length);
+    // Upside-down labels read the same runs in reverse
+    for (const reversed of [false, true]) {
+      const ordered = reversed ? [...runs].reverse() : runs;
+      // Keep bars at odd indexes: a line that ends dark gets an empty leading space
+      const aligned = ordered.length % 2 === 0 && reversed ? [0, ...ordered] : ordered;
+      const match = decodeRuns(aligned, enabled);
+      if (!match) continue;
+      const shift = aligned.length - ordered.length;
+      const toIndex = (r: number) => (reversed ? runs.length - 1 - (r - shift) : r);
+      const a = toIndex(match.start);
+      const b = toIndex(match.end - 1);
+      const from = line.point(starts[Math.min(a, b)]);
+      const lastRun = Math.max(a, b);
+      const to = line.point(starts[lastRun] + runs[lastRun]);
+      // A thin box around the scan line, for the overlay
+      const normal = line.point(0).y === line.point(1).y ? { x: 0, y: 12 } : { x: 12, y: 0 };
+      return {
+        text: match.text,
+        format: match.format,
+        corners: [
+          { x: from.x - normal.x, y: from.y - normal.y },
+          { x: to.x - normal.x, y: to.y - normal.y },
+          { x: to.x + normal.x, y: to.y + normal.y },
+          { x: from.x + normal.x, y: from.y + normal.y }
+        ]
+      };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Base45Error, decodeBase45, encodeBase45 } from './base45';
+
+// Examples from RFC 9285 section 4.3
+const VECTORS: Array<[string, string]> = [
+  ['AB', 'BB8'],
+  ['Hello!!', '%69 VD92EX0'],
+  ['base-45', 'UJCLQE7W581'],
+  ['ietf!', 'QED8WEX0']
+];
+
+describe('base45', () => {
+  it.each(VECTORS)('encodes %j as %j', (text, encoded) => {
+    expect(encodeBase45(new TextEncoder().encode(text))).toBe(encoded);
+  });
+
+  it.each(VECTORS)('decodes %j from %j', (text, encoded) => {
+    expect(new TextDecoder().decode(decodeBase45(encoded))).toBe(text);
+  });
+
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decodeBase45(encodeBase45(bytes))).toEqual(bytes);
+    expect(decodeBase45(encodeBase45(bytes.subarray(1)))).toEqual(bytes.subarray(1));
+  });
+
+  it('rejects invalid input', () => {
+    expect(() => decodeBase45('GGW')).toThrow(Base45Error);
+    expect(() => decodeBase45('abc')).toThrow(Base45Error);
+    expect(() => decodeBase45('ABCD')).toThrow(Base45Error);
+  });
+});
@@ -0,0 +1,48 @@
+// Base45 (RFC 9285): binary data as QR alphanumeric characters, which the symbol packs at
+// 5.5 bits each, so two bytes cost three characters
+
+const CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+export class Base45Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Base45Error';
+  }
+}
+
+export const encodeBase45 = (bytes: Uint8Array) => {
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    const n = bytes[i] * 256 + bytes[i + 1];
+    result += CHARSET[n % 45] + CHARSET[Math.floor(n / 45) % 45] + CHARSET[Math.floor(n / 2025)];
+  }
+  if (bytes.length % 2) {
+    const n = bytes[bytes.length - 1];
+    result += CHARSET[n % 45] + CHARSET[Math.floor(n / 45)];
+  }
+  return result;
+};
+
+export const decodeBase45 = (text: string) => {
+  if (text.length % 3 === 1) throw new Base45Error('Geçersiz Base45 uzunluğu');
+  const values = Array.from(text, c => {
+    const v = CHARSET.indexOf(c);
+    if (v < 0) throw new Base45Error(`Geçersiz Base45 karakteri: ${c}`);
+    return v;
+  });
+  const bytes = new Uint8Array(Math.floor(text.length / 3) * 2 + (text.length % 3 ? 1 : 0));
+  let o = 0;
+  for (let i = 0; i < values.length; i += 3) {
+    if (i + 2 < values.length) {
+      const n = values[i] + values[i + 1] * 45 + values[i + 2] * 2025;
+      if (n > 0xffff) throw new Base45Error('Geçersiz Base45 verisi');
+      bytes[o++] = n >> 8;
+      bytes[o++] = n & 0xff;
+    } else {
+      const n = values[i] + values[i + 1] * 45;
+      if (n > 0xff) throw new Base45Error('Geçersiz Base45 verisi');
+      bytes[o++] = n;
+    }
+  }
+  return bytes;
+};
@@ -0,0 +1,320 @@
+import { PaymentConfig, QRType, SymbolOptions, WifiConfig } from '../types';
+import { CsvTable } from './csv';
+import { QrSymbol, analyzeCapacity } from './qrEncoder';
+import { ExportOptions, embedPdfLogo, exportFileName, symbolPdfOps, symbolToPng, symbolToSvg } from './qrExport';
+import { generateEmailString, generateSmsString, generateWifiString } from './qrUtils';
+import { emptyContact, generateContactString } from './contact';
+import { generateEventString, localTimeZone } from './calendar';
+import { buildGeoPayload, normalizeGeoInput } from './geo';
+import { defaultPayment, generatePaymentString, validatePayment } from './emvco';
+import { PAGE_SIZES, PageSizeId, addHelvetica, createPdfWriter, emptyResources, fitText, mmToPt, pdfNum, pdfText, textWidth } from './pdf';
+import { createZip } from './zip';
+
+// Bulk generation: CSV rows are mapped onto the same payload builders the single-code forms use
+
+// GS1 codes are read, not generated
+export type BatchType = Exclude<QRType, QRType.CUSTOM | QRType.GS1>;
+
+export interface BatchField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Header names that map onto this field automatically, compared without case or diacritics
+  aliases: string[];
+}
+
+export const BATCH_FIELDS: Record<BatchType, BatchField[]> = {
+  [QRType.URL]: [{ key: 'url', label: 'URL', required: true, aliases: ['link', 'adres', 'web'] }],
+  [QRType.TEXT]: [{ key: 'text', label: 'Metin', required: true, aliases: ['metin', 'içerik'] }],
+  [QRType.PHONE]: [{ key: 'phone', label: 'Telefon', required: true, aliases: ['telefon', 'tel', 'numara'] }],
+  [QRType.SMS]: [
+    { key: 'number', label: 'Numara', required: true, aliases: ['numara', 'telefon', 'phone'] },
+    { key: 'body', label: 'Mesaj', aliases: ['mesaj', 'message'] }
+  ],
+  [QRType.WIFI]: [
+    { key: 'ssid', label: 'Ağ Adı (SSID)', required: true, aliases: ['ağ', 'network', 'wifi'] },
+    { key: 'password', label: 'Şifre', aliases: ['şifre', 'parola', 'pass'] },
+    { key: 'encryption', label: 'Güvenlik (WPA/WEP/nopass)', aliases: ['güvenlik', 'security', 'type'] },
+    { key: 'hidden', label: 'Gizli', aliases: ['gizli'] }
+  ],
+  [QRType.EMAIL]: [
+    { key: 'to', label: 'Alıcı', required: true, aliases: ['email', 'e-posta', 'eposta', 'alıcı'] },
+    { key: 'subject', label: 'Konu', aliases: ['konu'] },
+    { key: 'body', label: 'Mesaj', aliases: ['mesaj', 'message'] }
+  ],
+  [QRType.GEO]: [
+    { key: 'lat', label: 'Enlem', required: true, aliases: ['latitude', 'enlem'] },
+    { key: 'lng', label: 'Boylam', required: true, aliases: ['lon', 'long', 'longitude', 'boylam'] },
+    { key: 'label', label: 'Etiket', aliases: ['etiket', 'name', 'ad'] }
+  ],
+  [QRType.CONTACT]: [
+    { key: 'firstName', label: 'Ad', aliases: ['first name', 'ad', 'isim'] },
+    { key: 'lastName', label: 'Soyad', aliases: ['last name', 'soyad', 'soyadı'] },
+    { key: 'org', label: 'Kurum', aliases: ['organization', 'company', 'kurum', 'şirket'] },
+    { key: 'title', label: 'Unvan', aliases: ['unvan', 'görev'] },
+    { key: 'phone', label: 'Telefon', aliases: ['telefon', 'tel'] },
+    { key: 'email', label: 'E-posta', aliases: ['e-posta', 'eposta'] },
+    { key: 'address', label: 'Adres', aliases: ['adres'] },
+    { key: 'url', label: 'Web', aliases: ['web', 'website'] }
+  ],
+  [QRType.EVENT]: [
+    { key: 'title', label: 'Başlık', required: true, aliases: ['başlık', 'etkinlik'] },
+    { key: 'start', label: 'Başlangıç', required: true, aliases: ['başlangıç', 'tarih', 'date'] },
+    { key: 'end', label: 'Bitiş', aliases: ['bitiş'] },
+    { key: 'location', label: 'Yer', aliases: ['yer', 'konum'] },
+    { key: 'description', label: 'Açıklama', aliases: ['açıklama'] },
+    { key: 'timezone', label: 'Saat Dilimi', aliases: ['tz', 'saat dilimi'] }
+  ],
+  [QRType.PAYMENT]: [
+    { key: 'merchantName', label: 'İşyeri Adı', required: true, aliases: ['merchant', 'işyeri'] },
+    { key: 'merchantCity', label: 'Şehir', required: true, aliases: ['city', 'şehir'] },
+    { key: 'accountId', label: 'Hesap / IBAN', required: true, aliases: ['account', 'iban', 'hesap'] },
+    { key: 'accountGuid', label: 'Sağlayıcı Kimliği', aliases: ['guid'] },
+    { key: 'amount', label: 'Tutar', aliases: ['tutar'] },
+    { key: 'billNumber', label: 'Fatura No', aliases: ['bill', 'fatura'] },
+    { key: 'referenceLabel', label: 'Referans', aliases: ['reference', 'referans'] },
+    { key: 'terminalLabel', label: 'Terminal', aliases: ['terminal'] }
+  ]
+};
+
+// Field key -> CSV header ('' when unmapped)
+export type ColumnMapping = Record<string, string>;
+
+// "ŞİFRE", "Şifre" and "sifre" all fold to "sifre"
+const foldHeader = (header: string) =>
+  header
+    .trim()
+    .toLowerCase()
+    .replace(/ı/g, 'i')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[_\s]+/g, ' ');
+
+export const autoMapColumns = (type: BatchType, headers: string[]): ColumnMapping => {
+  const used = new Set<string>();
+  const mapping: ColumnMapping = {};
+  for (const field of BATCH_FIELDS[type]) {
+    const candidates = [field.key, ...field.aliases].map(foldHeader);
+    const match = headers.find(h => !used.has(h) && candidates.includes(foldHeader(h)));
+    mapping[field.key] = match || '';
+    if (match) used.add(match);
+  }
+  return mapping;
+};
+
+const isTruthy = (value: string) => /^(1|true|yes|evet|x|e)$/i.test(value.trim());
+
+const requireValue = (values: Record<string, string>, key: string, label: string) => {
+  const value = (values[key] || '').trim();
+  if (!value) throw new Error(`${label} boş`);
+  return value;
+};
+
+const wifiEncryption = (value: string, password: string): WifiConfig['encryption'] => {
+  const v = value.trim().toUpperCase();
+  if (v === 'WEP') return 'WEP';
+  if (v === 'NOPASS' || v === 'NONE' || v === 'OPEN' || v === 'YOK') return 'nopass';
+  return password ? 'WPA' : 'nopass';
+};
+
+// Builds one row's payload; throws with a user-facing message when the row is unusable
+export const buildBatchPayload = (type: BatchType, values: Record<string, string>): string => {
+  const v = (key: string) => (values[key] || '').trim();
+  switch (type) {
+    case QRType.URL: {
+      const url = requireValue(values, 'url', 'URL');
+      return /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`;
+    }
+    case QRType.TEXT:
+      // Text is taken verbatim, including surrounding whitespace
+      if (!values.text) throw new Error('Metin boş');
+      return values.text;
+    case QRType.PHONE:
+      return `tel:${requireValue(values, 'phone', 'Telefon').replace(/\s+/g, '')}`;
+    case QRType.SMS:
+      return generateSmsString(requireValue(values, 'number', 'Numara'), values.body || '');
+    case QRType.WIFI: {
+      const ssid = requireValue(values, 'ssid', 'Ağ adı');
+      const password = values.password || '';
+      return generateWifiString(ssid, password, wifiEncryption(v('encryption'), password), isTruthy(v('hidden')));
+    }
+    case QRType.EMAIL:
+      return generateEmailString(requireValue(values, 'to', 'Alıcı'), v('subject'), values.body || '');
+    case QRType.GEO: {
+      const geo = { lat: requireValue(values, 'lat', 'Enlem'), lng: requireValue(values, 'lng', 'Boylam'), label: v('label') };
+      const { errors } = normalizeGeoInput(geo);
+      const error = errors.lat || errors.lng;
+      if (error) throw new Error(error);
+      return buildGeoPayload(geo);
+    }
+    case QRType.CONTACT: {
+      const contact = {
+        ...emptyContact(),
+        firstName: v('firstName'),
+        lastName: v('lastName'),
+        org: v('org'),
+        title: v('title'),
+        phones: [v('phone')],
+        emails: [v('email')],
+        address: v('address'),
+        url: v('url')
+      };
+      if (!contact.firstName && !contact.lastName && !contact.org) throw new Error('Ad veya kurum gerekli');
+      return generateContactString(contact, 'vcard3');
+    }
+    case QRType.EVENT: {
+      const start = requireValue(values, 'start', 'Başlangıç').replace(' ', 'T');
+      const allDay = /^\d{4}-\d{2}-\d{2}$/.test(start);
+      if (!allDay && !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(start)) throw new Error('Başlangıç YYYY-AA-GG veya YYYY-AA-GG SS:DD olmalı');
+      const end = v('end').replace(' ', 'T') || start;
+      return generateEventString({
+        title: requireValue(values, 'title', 'Başlık'),
+        start: start.slice(0, allDay ? 10 : 16),
+        end: end.slice(0, allDay ? 10 : 16),
+        timezone: v('timezone') || localTimeZone(),
+        location: v('location'),
+        description: values.description || '',
+        allDay
+      });
+    }
+    case QRType.PAYMENT: {
+      const config = { ...defaultPayment() };
+      for (const field of BATCH_FIELDS[QRType.PAYMENT]) {
+        const key = field.key as keyof PaymentConfig;
+        if (v(key)) config[key] = v(key);
+      }
+      const errors = Object.values(validatePayment(config));
+      if (errors.length) throw new Error(errors[0]);
+      return generatePaymentString(config);
+    }
+  }
+};
+
+export interface BatchRow {
+  // 1-based data row number, as a spreadsheet shows it below the header
+  line: number;
+  caption: string;
+  data: string;
+  symbol: QrSymbol | null;
+  error?: string;
+}
+
+export const buildBatchRows = (
+  table: CsvTable,
+  type: BatchType,
+  mapping: ColumnMapping,
+  captionColumn: string,
+  options: SymbolOptions
+): BatchRow[] => {
+  const columnIndex = (header: string) => table.headers.indexOf(header);
+  return table.rows.map((cells, i) => {
+    const values: Record<string, string> = {};
+    for (const [key, header] of Object.entries(mapping)) {
+      if (header) values[key] = cells[columnIndex(header)] ?? '';
+    }
+    const caption = captionColumn ? (cells[columnIndex(captionColumn)] ?? '').trim() : '';
+    const line = i + 2;
+    try {
+      const data = buildBatchPayload(type, values);
+      const report = analyzeCapacity(data, options);
+      return { line, caption, data, symbol: report.symbol, error: report.error };
+    } catch (e) {
+      return { line, caption, data: '', symbol: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  });
+};
+
+export type BatchProgress = (done: number, total: number) => void;
+
+// File names keep the row number first so the archive sorts in CSV order
+export const exportBatchZip = async (
+  rows: BatchRow[],
+  type: BatchType,
+  format: 'png' | 'svg',
+  options: ExportOptions,
+  pixelSize: number,
+  onProgress?: BatchProgress
+) => {
+  const valid = rows.filter((r): r is BatchRow & { symbol: QrSymbol } => !!r.symbol);
+  const width = Math.max(3, String(rows.length + 1).length);
+  const encoder = new TextEncoder();
+  const entries = [];
+  for (const [i, row] of valid.entries()) {
+    const data =
+      format === 'svg'
+        ? encoder.encode(await symbolToSvg(row.symbol, options))
+        : new Uint8Array(await (await symbolToPng(row.symbol, pixelSize, options)).arrayBuffer());
+    entries.push({ name: `${String(row.line).padStart(width, '0')}-${exportFileName(row.data, type, format)}`, data });
+    onProgress?.(i + 1, valid.length);
+  }
+  return createZip(entries);
+};
+
+export interface LabelLayout {
+  id: string;
+  label: string;
+  page: PageSizeId;
+  columns: number;
+  rows: number;
+  // Label size, page margins and gaps between labels, in millimetres
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  { id: 'l7160', label: 'A4 · 3×7 (Avery L7160, 63,5×38,1 mm)', page: 'a4', columns: 3, rows: 7, width: 63.5, height: 38.1, left: 7.2, top: 15.15, gapX: 2.5, gapY: 0 },
+  { id: 'l7159', label: 'A4 · 3×8 (Avery L7159, 63,5×33,9 mm)', page: 'a4', columns: 3, rows: 8, width: 63.5, height: 33.9, left: 7.2, top: 12.9, gapX: 2.5, gapY: 0 },
+  { id: 'l7163', label: 'A4 · 2×7 (Avery L7163, 99,1×38,1 mm)', page: 'a4', columns: 2, rows: 7, width: 99.1, height: 38.1, left: 4.65, top: 15.15, gapX: 2.5, gapY: 0 },
+  { id: 'a4-3x4', label: 'A4 · 3×4 kesim kartı (70×74,25 mm)', page: 'a4', columns: 3, rows: 4, width: 70, height: 74.25, left: 0, top: 0, gapX: 0, gapY: 0 },
+  { id: '5160', label: 'Letter · 3×10 (Avery 5160, 66,7×25,4 mm)', page: 'letter', columns: 3, rows: 10, width: 66.675, height: 25.4, left: 4.7625, top: 12.7, gapX: 3.175, gapY: 0 }
+];
+
+const LABEL_PADDING_MM = 2;
+const MAX_CAPTION_PT = 9;
+
+// One vector symbol per label with its caption centred underneath
+export const labelSheetToPdf = async (rows: BatchRow[], layout: LabelLayout, options: ExportOptions) => {
+  const valid = rows.filter((r): r is BatchRow & { symbol: QrSymbol } => !!r.symbol);
+  const pdf = createPdfWriter();
+  const page = PAGE_SIZES[layout.page];
+  const logo = await embedPdfLogo(pdf, options.style);
+  const font = addHelvetica(pdf);
+
+  const labelW = mmToPt(layout.width);
+  const labelH = mmToPt(layout.height);
+  const pad = mmToPt(LABEL_PADDING_MM);
+  const hasCaptions = valid.some(r => r.caption);
+  // Captions scale with the label so small address labels still fit a readable code
+  const fontSize = hasCaptions ? Math.min(MAX_CAPTION_PT, labelH * 0.1) : 0;
+  const captionH = hasCaptions ? fontSize * 1.5 : 0;
+  const size = Math.min(labelW - pad * 2, labelH - pad * 2 - captionH);
+  if (size <= 0) throw new Error('Etiket kod için çok küçük');
+
+  const perPage = layout.columns * layout.rows;
+  for (let start = 0; start < Math.max(valid.length, 1); start += perPage) {
+    const resources = emptyResources();
+    resources.fonts.F1 = font;
+    const ops: string[] = [];
+    valid.slice(start, start + perPage).forEach((row, i) => {
+      const col = i % layout.columns;
+      const line = Math.floor(i / layout.columns);
+      const x = mmToPt(layout.left + col * (layout.width + layout.gapX));
+      // PDF's origin is bottom-left, so the label's top edge counts down from the page top
+      const y = page.height - mmToPt(layout.top + line * (layout.height + layout.gapY));
+      const blockTop = y - (labelH - size - captionH) / 2;
+      ops.push(symbolPdfOps(pdf, row.symbol, options, { left: x + (labelW - size) / 2, top: blockTop, size }, resources, logo));
+      if (row.caption) {
+        const text = fitText(row.caption, fontSize, labelW - pad * 2);
+        const tx = x + (labelW - textWidth(text, fontSize)) / 2;
+        const ty = blockTop - size - fontSize * 1.1;
+        ops.push(`BT 0 g /F1 ${pdfNum(fontSize)} Tf ${pdfNum(tx)} ${pdfNum(ty)} Td ${pdfText(text)} Tj ET`);
+      }
+    });
+    pdf.addPage(page, ops.join('\n'), resources);
+  }
+  return pdf.finish();
+};
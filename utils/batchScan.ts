@@ -0,0 +1,79 @@
+import { QRType, Symbology } from '../types';
+import { neutralizeFormula, toCsv } from './csv';
+import { openPdf } from './pdfReader';
+import { loadImageFile, nativeDetect, prepareImage, scanImage } from './imageScan';
+import { DecodedBarcode } from './symbology';
+
+// Bulk decoding: image files and every page of PDFs go through the same readers as a single
+// imported image, one page at a time so large documents stay within memory
+
+// Pages are drawn at this resolution, limited to PDF_MAX_SIZE pixels on the long side
+const PDF_DPI = 200;
+const PDF_MAX_SIZE = 2400;
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const isScannableFile = (file: File) => file.type.startsWith('image/') || isPdfFile(file);
+
+export interface BatchScanCode {
+  // 1-based; null for image files
+  page: number | null;
+  code: DecodedBarcode;
+}
+
+export interface BatchScanOptions {
+  detect?: (source: ImageBitmapSource) => Promise<DecodedBarcode[]>;
+  signal?: AbortSignal;
+  // Called before each page is read
+  onPage?: (page: number, pageCount: number) => void;
+}
+
+export const scanBatchFile = async (file: File, symbologies: Symbology[], { detect, signal, onPage }: BatchScanOptions = {}) => {
+  const codes: BatchScanCode[] = [];
+  const warnings: string[] = [];
+
+  if (!isPdfFile(file)) {
+    onPage?.(1, 1);
+    const loaded = await loadImageFile(file);
+    try {
+      const found = await scanImage(loaded.image, symbologies, { detect: detect && nativeDetect(loaded, detect), signal });
+      found.forEach(code => codes.push({ page: null, code }));
+    } finally {
+      if (loaded.source instanceof ImageBitmap) loaded.source.close();
+    }
+    return { codes, warnings };
+  }
+
+  const pdf = await openPdf(new Uint8Array(await file.arrayBuffer()));
+  const canvas = document.createElement('canvas');
+  for (let i = 0; i < pdf.pageCount && !signal?.aborted; i++) {
+    onPage?.(i + 1, pdf.pageCount);
+    try {
+      const rendered = await pdf.renderPage(i, canvas, PDF_DPI, PDF_MAX_SIZE);
+      rendered.warnings.forEach(w => warnings.push(`Sayfa ${i + 1}: ${w}`));
+      const loaded = prepareImage(canvas);
+      const found = await scanImage(loaded.image, symbologies, { detect: detect && nativeDetect(loaded, detect), signal });
+      found.forEach(code => codes.push({ page: i + 1, code }));
+    } catch (e) {
+      // One broken page does not stop the rest of the document
+      warnings.push(`Sayfa ${i + 1}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return { codes, warnings };
+};
+
+export interface BatchScanRow {
+  file: string;
+  page: number | null;
+  type: QRType;
+  symbology: Symbology;
+  payload: string;
+}
+
+export const batchRowsToCsv = (rows: BatchScanRow[]) =>
+  toCsv(
+    ['file', 'page', 'type', 'symbology', 'payload'],
+    rows.map(r => [r.file, r.page === null ? '' : String(r.page), r.type, r.symbology, neutralizeFormula(r.payload)])
+  );
+
+export const batchRowsToJson = (rows: BatchScanRow[]) => JSON.stringify(rows, null, 2);
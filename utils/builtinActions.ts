@@ -0,0 +1,275 @@
+import type { ActionRegistry, BrowserEnv, QRAction, SettingsSource } from './actionRegistry';
+import { QRType } from '../types';
+import { generateSmsUri, generateEmailString } from './qrUtils';
+import { generateVCardString, contactFileName } from './contact';
+import { toICSFile, eventFileName } from './calendar';
+import { buildMapUrl } from './geo';
+import { inspectUrl } from './urlSafety';
+import { matchRule } from './patternRules';
+import { toGs1DigitalLink, toGs1HumanReadable } from './gs1';
+
+export class ActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ActionError';
+  }
+}
+
+// The browser env reports a refused clipboard write instead of throwing
+const copyText = async (env: BrowserEnv, text: string) => {
+  if (!(await env.copy(text))) throw new ActionError('Panoya kopyalanamadı');
+};
+
+// Last line of defence for callers that skip the scanner's confirmation screen
+const openUnlessBlocked = (settings: SettingsSource, url: string, env: BrowserEnv) => {
+  if (inspectUrl(url, settings.urlLists()).verdict === 'block') throw new ActionError('Bağlantı engelli listede olduğu için açılmadı');
+  // Fallback if popup blocked: Redirect current window
+  if (!env.open(url)) env.navigate(url);
+};
+
+// Text - Copy immediately and silently
+const copyRaw: QRAction = {
+  id: 'copy',
+  label: 'Kopyala',
+  kind: 'copy',
+  run: async (data, _payload, env) => {
+    await copyText(env, data);
+    env.vibrate(100);
+  }
+};
+
+const openMap = (settings: SettingsSource, provider: 'google' | 'osm' | 'apple', label: string): QRAction => ({
+  id: `open-${provider}`,
+  label,
+  run: (_data, payload, env) => {
+    if (payload.type !== QRType.GEO) return;
+    env.open(buildMapUrl(payload.geo, { ...settings.mapSettings(), provider }));
+  }
+});
+
+export const registerBuiltinActions = (registry: ActionRegistry) => {
+  const { settings } = registry;
+
+  registry.register({
+    type: QRType.CUSTOM,
+    // User rules are more specific than any built-in format, so they are checked first
+    priority: 100,
+    detect: (data) => !!matchRule(data, settings.patternRules()),
+    actions: [
+      {
+        id: 'apply',
+        label: 'Kuralı Uygula',
+        run: async (_data, payload, env) => {
+          if (payload.type !== QRType.CUSTOM) return;
+          if (payload.rule.action === 'copy') {
+            await copyText(env, payload.value);
+            env.vibrate(100);
+            return;
+          }
+          openUnlessBlocked(settings, payload.value, env);
+        }
+      },
+      copyRaw
+    ]
+  });
+
+  registry.register({
+    type: QRType.URL,
+    actions: [
+      {
+        id: 'open',
+        label: 'Aç / Git',
+        run: (_data, payload, env) => {
+          if (payload.type === QRType.URL) openUnlessBlocked(settings, payload.url, env);
+        }
+      },
+      copyRaw
+    ]
+  });
+
+  registry.register({
+    type: QRType.TEXT,
+    actions: [copyRaw]
+  });
+
+  registry.register({
+    type: QRType.EMAIL,
+    actions: [
+      {
+        id: 'open',
+        label: 'E-posta Yaz',
+        run: (_data, payload, env) => {
+          // Rebuilt so bare addresses and upper-case "MAILTO:" both become a valid mailto: URI
+          if (payload.type === QRType.EMAIL) env.navigate(generateEmailString(payload.email.to, payload.email.subject, payload.email.body));
+        }
+      },
+      {
+        id: 'copy-address',
+        label: 'Adresi Kopyala',
+        kind: 'copy',
+        run: async (_data, payload, env) => {
+          if (payload.type === QRType.EMAIL) await copyText(env, payload.email.to);
+        }
+      }
+    ]
+  });
+
+  registry.register({
+    type: QRType.PHONE,
+    actions: [
+      {
+        id: 'call',
+        label: 'Ara',
+        run: (_data, payload, env) => {
+          if (payload.type === QRType.PHONE) env.navigate(`tel:${payload.phone.replace(/[\s().-]/g, '')}`);
+        }
+      },
+      {
+        id: 'copy-number',
+        label: 'Numarayı Kopyala',
+        kind: 'copy',
+        run: async (_data, payload, env) => {
+          if (payload.type === QRType.PHONE) await copyText(env, payload.phone);
+        }
+      }
+    ]
+  });
+
+  registry.register({
+    type: QRType.SMS,
+    actions: [
+      {
+        id: 'open',
+        label: 'Mesaj Yaz',
+        run: (_data, payload, env) => {
+          // Normalise SMSTO: into the sms: URI the OS messaging app understands, with the body prefilled
+          if (payload.type === QRType.SMS) env.navigate(generateSmsUri(payload.sms.number, payload.sms.body));
+        }
+      },
+      copyRaw
+    ]
+  });
+
+  registry.register({
+    type: QRType.GEO,
+    actions: [
+      {
+        id: 'open',
+        label: 'Haritada Aç',
+        run: (_data, payload, env) => {
+          // Opened with the map provider chosen in scanner settings
+          if (payload.type === QRType.GEO) env.open(buildMapUrl(payload.geo, settings.mapSettings()));
+        }
+      },
+      openMap(settings, 'osm', "OpenStreetMap'te Aç"),
+      openMap(settings, 'google', "Google Haritalar'da Aç"),
+      openMap(settings, 'apple', "Apple Haritalar'da Aç"),
+      {
+        id: 'copy-coords',
+        label: 'Koordinatları Kopyala',
+        kind: 'copy',
+        run: async (_data, payload, env) => {
+          if (payload.type === QRType.GEO) await copyText(env, `${payload.geo.lat},${payload.geo.lng}`);
+        }
+      }
+    ]
+  });
+
+  registry.register({
+    type: QRType.WIFI,
+    actions: [
+      {
+        id: 'copy-password',
+        label: 'Şifreyi Kopyala',
+        kind: 'copy',
+        run: async (_data, payload, env) => {
+          // Browsers cannot join networks, so the best we can do is hand over the password
+          if (payload.type !== QRType.WIFI || !payload.wifi.password) return;
+          await copyText(env, payload.wifi.password);
+          // Stronger feedback for silent success
+          env.vibrate([100, 50, 100]);
+        }
+      },
+      copyRaw
+    ]
+  });
+
+  registry.register({
+    type: QRType.CONTACT,
+    requiresPreview: true,
+    actions: [
+      {
+        id: 'download',
+        label: 'Rehbere Ekle (.vcf)',
+        run: (data, payload, env) => {
+          if (payload.type !== QRType.CONTACT) return;
+          // MECARD is converted so every contact lands in the address book as a standard .vcf
+          const vcard = /^BEGIN:VCARD/i.test(data) ? data : generateVCardString(payload.contact);
+          env.download(contactFileName(payload.contact), vcard, 'text/vcard');
+        }
+      },
+      copyRaw
+    ]
+  });
+
+  registry.register({
+    type: QRType.EVENT,
+    requiresPreview: true,
+    actions: [
+      {
+        id: 'download',
+        label: 'Takvime Ekle (.ics)',
+        run: (data, payload, env) => {
+          if (payload.type === QRType.EVENT) env.download(eventFileName(payload.event), toICSFile(data), 'text/calendar');
+        }
+      },
+      copyRaw
+    ]
+  });
+
+  registry.register({
+    type: QRType.PAYMENT,
+    requiresPreview: true,
+    actions: [
+      {
+        id: 'copy',
+        label: 'Ödeme Kodunu Kopyala',
+        kind: 'copy',
+        run: async (data, _payload, env) => {
+          // There is no web intent for bank apps; the payload is copied so it can be pasted into one
+          await copyText(env, data);
+          env.vibrate([100, 50, 100]);
+        }
+      }
+    ]
+  });
+
+  registry.register({
+    type: QRType.GS1,
+    requiresPreview: true,
+    actions: [
+      {
+        id: 'copy-readable',
+        label: 'Okunur Biçimde Kopyala',
+        kind: 'copy',
+        run: async (_data, payload, env) => {
+          // "(01)...(17)..." as printed under the barcode, without the invisible separators
+          if (payload.type !== QRType.GS1) return;
+          await copyText(env, toGs1HumanReadable(payload.gs1));
+          env.vibrate(100);
+        }
+      },
+      {
+        id: 'open',
+        label: 'Ürün Sayfasını Aç',
+        run: (_data, payload, env) => {
+          if (payload.type !== QRType.GS1) return;
+          // Element strings have no address of their own and go through the GS1 resolver
+          const url = payload.gs1.digitalLink ?? toGs1DigitalLink(payload.gs1);
+          if (url) openUnlessBlocked(settings, url, env);
+        }
+      },
+      copyRaw
+    ]
+  });
+};
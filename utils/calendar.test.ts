@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { EventConfig } from '../types';
+import { generateEventString, parseEvent, toICSFile, utcToZoned, zonedToUtc } from './calendar';
+
+const EVENT: EventConfig = {
+  title: 'Toplantı; planlama, 2. çeyrek',
+  start: '2025-03-30T09:30',
+  end: '2025-03-30T11:00',
+  timezone: 'Europe/Istanbul',
+  location: 'Ofis\nKat 3',
+  description: '',
+  allDay: false
+};
+
+describe('zone conversion', () => {
+  it('converts wall time in a zone to UTC and back', () => {
+    expect(zonedToUtc('2025-03-30T09:30', 'Europe/Istanbul').toISOString()).toBe('2025-03-30T06:30:00.000Z');
+    expect(utcToZoned(new Date('2025-03-30T06:30:00Z'), 'Europe/Istanbul')).toBe('2025-03-30T09:30');
+  });
+
+  it('applies the offset in effect at that date', () => {
+    expect(zonedToUtc('2025-01-15T12:00', 'Europe/Berlin').toISOString()).toBe('2025-01-15T11:00:00.000Z');
+    expect(zonedToUtc('2025-07-15T12:00', 'Europe/Berlin').toISOString()).toBe('2025-07-15T10:00:00.000Z');
+  });
+});
+
+describe('event codes', () => {
+  it('writes zoned times as UTC', () => {
+    const data = generateEventString(EVENT);
+    expect(data).toContain('DTSTART:20250330T063000Z');
+    expect(data).toContain('DTEND:20250330T080000Z');
+  });
+
+  it('parses back what it generates, in UTC', () => {
+    const parsed = parseEvent(generateEventString(EVENT));
+    expect(parsed).toEqual({ ...EVENT, start: '2025-03-30T06:30', end: '2025-03-30T08:00', timezone: 'UTC' });
+  });
+
+  it('keeps floating times as they are', () => {
+    const floating = { ...EVENT, timezone: '' };
+    expect(generateEventString(floating)).toContain('DTSTART:20250330T093000');
+    expect(parseEvent(generateEventString(floating))).toEqual(floating);
+  });
+
+  it('writes all-day events with an exclusive end date and reads them back inclusive', () => {
+    const allDay = { ...EVENT, start: '2025-12-31', end: '2026-01-01', timezone: '', allDay: true };
+    const data = generateEventString(allDay);
+    expect(data).toContain('DTSTART;VALUE=DATE:20251231');
+    expect(data).toContain('DTEND;VALUE=DATE:20260102');
+    expect(parseEvent(data)).toEqual(allDay);
+  });
+
+  it('reads TZID parameters and converts the end into the start zone', () => {
+    const parsed = parseEvent('BEGIN:VEVENT\nDTSTART;TZID=Europe/Istanbul:20250330T093000\nDTEND:20250330T080000Z\nEND:VEVENT');
+    expect(parsed).toMatchObject({ start: '2025-03-30T09:30', end: '2025-03-30T11:00', timezone: 'Europe/Istanbul' });
+  });
+
+  it('wraps a bare VEVENT in a calendar with UID and DTSTAMP', () => {
+    const ics = toICSFile(generateEventString(EVENT));
+    const lines = ics.split('\r\n');
+    expect(lines.slice(0, 4)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Fast QR//TR', 'BEGIN:VEVENT']);
+    expect(lines.some(l => l.startsWith('UID:'))).toBe(true);
+    expect(lines.some(l => l.startsWith('DTSTAMP:'))).toBe(true);
+    expect(ics.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it.each(['a'.repeat(200), 'ğ'.repeat(100)])('folds lines longer than 75 octets', description => {
+    const ics = toICSFile(generateEventString({ ...EVENT, description }));
+    expect(ics.split('\r\n').every(l => new TextEncoder().encode(l).length <= 75)).toBe(true);
+    expect(parseEvent(ics).description).toBe(description);
+  });
+});
@@ -0,0 +1,241 @@
+import { EventConfig } from '../types';
+import { escapeVCardValue, unescapeVCardValue } from './contact';
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const toWallTime = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export const defaultEvent = (): EventConfig => {
+  const start = new Date();
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  const end = new Date(start.getTime() + 60 * 60 * 1000);
+  return {
+    title: '',
+    start: toWallTime(start),
+    end: toWallTime(end),
+    timezone: localTimeZone(),
+    location: '',
+    description: '',
+    allDay: false
+  };
+};
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+const getOffsetMs = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+const parseWallTime = (wall: string) => {
+  const [date, time = '00:00'] = wall.split('T');
+  const [y, m, d] = date.split('-').map(Number);
+  const [h, min, sec = 0] = time.split(':').map(Number);
+  return Date.UTC(y, m - 1, d, h, min, sec);
+};
+
+export const zonedToUtc = (wall: string, timeZone: string): Date => {
+  const guess = parseWallTime(wall);
+  if (!timeZone) return new Date(guess + new Date(guess).getTimezoneOffset() * 60000);
+  if (timeZone === 'UTC') return new Date(guess);
+  // Two passes so wall times just after a DST switch resolve to the right offset
+  const first = guess - getOffsetMs(new Date(guess), timeZone);
+  const second = guess - getOffsetMs(new Date(first), timeZone);
+  return new Date(second);
+};
+
+export const utcToZoned = (date: Date, timeZone: string) => {
+  if (!timeZone) return toWallTime(date);
+  const shifted = new Date(date.getTime() + (timeZone === 'UTC' ? 0 : getOffsetMs(date, timeZone)));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}T${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}`;
+};
+
+const formatICalUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatICalDate = (wall: string) => wall.slice(0, 10).replace(/-/g, '');
+
+const addDays = (wallDate: string, days: number) => {
+  const date = new Date(parseWallTime(wallDate.slice(0, 10)) + days * 86400000);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const formatDateTime = (wall: string, timeZone: string) => {
+  // Floating times are written without a zone designator and keep their wall-clock value
+  if (!timeZone) return `${formatICalDate(wall)}T${wall.slice(11, 13)}${wall.slice(14, 16)}00`;
+  return formatICalUtc(zonedToUtc(wall, timeZone));
+};
+
+export const generateEventString = (event: EventConfig) => {
+  const lines = ['BEGIN:VEVENT'];
+  if (event.title.trim()) lines.push(`SUMMARY:${escapeVCardValue(event.title.trim())}`);
+
+  if (event.allDay) {
+    const end = event.end && event.end >= event.start ? event.end : event.start;
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(event.start)}`);
+    // DTEND is exclusive for all-day events
+    lines.push(`DTEND;VALUE=DATE:${formatICalDate(addDays(end, 1))}`);
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.start, event.timezone)}`);
+    if (event.end) lines.push(`DTEND:${formatDateTime(event.end, event.timezone)}`);
+  }
+
+  if (event.location.trim()) lines.push(`LOCATION:${escapeVCardValue(event.location.trim())}`);
+  if (event.description.trim()) lines.push(`DESCRIPTION:${escapeVCardValue(event.description.trim())}`);
+  lines.push('END:VEVENT');
+  return lines.join('\r\n');
+};
+
+interface ICalTime {
+  wall: string;
+  timezone: string;
+  isDate: boolean;
+}
+
+const parseICalTime = (value: string, params: string[]): ICalTime | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, m, d, h, min, , utc] = match;
+  const date = `${y}-${m}-${d}`;
+  if (!h) return { wall: date, timezone: '', isDate: true };
+
+  const tzParam = params.find(p => p.toUpperCase().startsWith('TZID='));
+  const timezone = utc ? 'UTC' : tzParam ? tzParam.slice(5).replace(/^"|"$/g, '') : '';
+  return { wall: `${date}T${h}:${min}`, timezone, isDate: false };
+};
+
+export const parseEvent = (data: string): EventConfig => {
+  const event: EventConfig = { title: '', start: '', end: '', timezone: '', location: '', description: '', allDay: false };
+  const lines = data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let start: ICalTime | null = null;
+  let end: ICalTime | null = null;
+  let inEvent = !/BEGIN:VCALENDAR/i.test(data);
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') { inEvent = true; continue; }
+    if (upper === 'END:VEVENT') break;
+    if (!inEvent) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const [rawName, ...params] = line.slice(0, colon).split(';');
+    const value = line.slice(colon + 1);
+
+    switch (rawName.toUpperCase()) {
+      case 'SUMMARY':
+        event.title = unescapeVCardValue(value);
+        break;
+      case 'LOCATION':
+        event.location = unescapeVCardValue(value);
+        break;
+      case 'DESCRIPTION':
+        event.description = unescapeVCardValue(value);
+        break;
+      case 'DTSTART':
+        start = parseICalTime(value, params);
+        break;
+      case 'DTEND':
+        end = parseICalTime(value, params);
+        break;
+    }
+  }
+
+  if (start) {
+    event.allDay = start.isDate;
+    event.timezone = start.timezone;
+    event.start = start.wall;
+  }
+  if (end) {
+    if (end.isDate) {
+      // Back to the inclusive last day we show and edit
+      const lastDay = addDays(end.wall, -1);
+      event.end = lastDay < event.start ? event.start : lastDay;
+    } else if (start && end.timezone !== start.timezone) {
+      event.end = utcToZoned(zonedToUtc(end.wall, end.timezone), start.timezone);
+    } else {
+      event.end = end.wall;
+    }
+  }
+  return event;
+};
+
+export const formatEventRange = (event: EventConfig) => {
+  if (!event.start) return '';
+  if (event.allDay) {
+    const fmt = new Intl.DateTimeFormat('tr-TR', { dateStyle: 'medium', timeZone: 'UTC' });
+    const start = fmt.format(new Date(parseWallTime(event.start)));
+    const end = event.end && event.end !== event.start ? fmt.format(new Date(parseWallTime(event.end))) : '';
+    return end ? `${start} – ${end} (Tüm gün)` : `${start} (Tüm gün)`;
+  }
+
+  // Shown in the viewer's own zone so a UTC-encoded event reads naturally
+  const fmt = new Intl.DateTimeFormat('tr-TR', { dateStyle: 'medium', timeStyle: 'short' });
+  const start = fmt.format(zonedToUtc(event.start, event.timezone));
+  if (!event.end) return start;
+  const end = zonedToUtc(event.end, event.timezone);
+  const sameDay = event.start.slice(0, 10) === event.end.slice(0, 10);
+  return `${start} – ${sameDay ? new Intl.DateTimeFormat('tr-TR', { timeStyle: 'short' }).format(end) : fmt.format(end)}`;
+};
+
+// RFC 5545 3.1: content lines longer than 75 octets are folded with CRLF + space. The space
+// counts towards the next line, and a multi-byte character is never split.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    if (octets + size > 75) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += ch;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+};
+
+const createUid = () =>
+  (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`) + '@fast-qr';
+
+// QR payloads usually carry a bare VEVENT; calendar apps want a full VCALENDAR with UID and DTSTAMP
+export const toICSFile = (data: string) => {
+  const lines = data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(Boolean);
+  if (/^BEGIN:VCALENDAR/i.test(lines[0] ?? '')) return lines.map(foldLine).join('\r\n') + '\r\n';
+
+  const body = lines.filter(l => !/^(BEGIN|END):VEVENT$/i.test(l));
+  if (!body.some(l => /^UID[:;]/i.test(l))) body.unshift(`UID:${createUid()}`);
+  if (!body.some(l => /^DTSTAMP[:;]/i.test(l))) body.unshift(`DTSTAMP:${formatICalUtc(new Date())}`);
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Fast QR//TR',
+    'BEGIN:VEVENT',
+    ...body,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const eventFileName = (event: EventConfig) => {
+  const base = (event.title || 'etkinlik').trim().replace(/[^\p{L}\p{N}]+/gu, '_');
+  return `${base}.ics`;
+};
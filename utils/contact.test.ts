@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ContactConfig, ContactFormat } from '../types';
+import { contactFileName, emptyContact, escapeVCardValue, generateContactString, parseContact, unescapeVCardValue } from './contact';
+
+const CONTACT: ContactConfig = {
+  firstName: 'Ayşe',
+  lastName: 'Yılmaz; Öztürk',
+  org: 'Örnek, A.Ş.',
+  title: 'Müdür',
+  phones: ['+90 555 123 45 67', '+90 212 000 00 00'],
+  emails: ['ayse@example.com'],
+  address: 'Bağdat Cad. No:1\nKadıköy',
+  url: 'https://example.com'
+};
+
+describe('contact codes', () => {
+  it.each(['vcard3', 'vcard4'] as ContactFormat[])('parses back a %s card', format => {
+    const parsed = parseContact(generateContactString(CONTACT, format));
+    // vCard 4 carries numbers as tel: URIs without spaces
+    const phones = format === 'vcard4' ? CONTACT.phones.map(p => p.replace(/\s+/g, '')) : CONTACT.phones;
+    expect(parsed).toEqual({ ...CONTACT, phones });
+  });
+
+  it('parses back a MECARD, which has no title field', () => {
+    expect(parseContact(generateContactString(CONTACT, 'mecard'))).toEqual({ ...CONTACT, title: '' });
+  });
+
+  it('unfolds continuation lines', () => {
+    const parsed = parseContact('BEGIN:VCARD\r\nVERSION:3.0\r\nFN:Ayşe Yıl\r\n maz\r\nN:Yılmaz;Ayşe;;;\r\nEND:VCARD');
+    expect(parsed.firstName).toBe('Ayşe');
+    expect(parsed.lastName).toBe('Yılmaz');
+  });
+
+  it('names the .vcf after the contact', () => {
+    expect(contactFileName(CONTACT)).toBe('Ayşe_Yılmaz_Öztürk.vcf');
+    expect(contactFileName(emptyContact())).toBe('kisi.vcf');
+  });
+});
+
+describe('vCard escaping', () => {
+  it('round-trips special characters', () => {
+    const value = 'a\\b,c;d\ne';
+    expect(escapeVCardValue(value)).toBe('a\\\\b\\,c\\;d\\ne');
+    expect(unescapeVCardValue(escapeVCardValue(value))).toBe(value);
+  });
+});
@@ -0,0 +1,199 @@
+import { ContactConfig, ContactFormat } from '../types';
+import { escapeMecardValue, unescapeMecardValue, splitMecardFields, stripQuotes } from './mecard';
+
+export const emptyContact = (): ContactConfig => ({
+  firstName: '',
+  lastName: '',
+  org: '',
+  title: '',
+  phones: [''],
+  emails: [''],
+  address: '',
+  url: ''
+});
+
+// vCard TEXT escaping (RFC 6350 3.4): backslash, comma, semicolon and newlines.
+// iCalendar (RFC 5545 3.3.11) uses the same rules.
+export const escapeVCardValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+
+export const unescapeVCardValue = (value: string) =>
+  value.replace(/\\(.)/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Splits a structured value (N, ADR) on unescaped semicolons
+const splitStructured = (value: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ';') {
+      parts.push(unescapeVCardValue(current));
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(unescapeVCardValue(current));
+  return parts;
+};
+
+const nonEmpty = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+
+export const formatContactName = (contact: ContactConfig) =>
+  [contact.firstName, contact.lastName].map(v => v.trim()).filter(Boolean).join(' ');
+
+export const generateVCardString = (contact: ContactConfig, version: '3.0' | '4.0' = '3.0') => {
+  const lines = ['BEGIN:VCARD', `VERSION:${version}`];
+  const fullName = formatContactName(contact) || contact.org.trim();
+
+  lines.push(`N:${escapeVCardValue(contact.lastName.trim())};${escapeVCardValue(contact.firstName.trim())};;;`);
+  lines.push(`FN:${escapeVCardValue(fullName)}`);
+  if (contact.org.trim()) lines.push(`ORG:${escapeVCardValue(contact.org.trim())}`);
+  if (contact.title.trim()) lines.push(`TITLE:${escapeVCardValue(contact.title.trim())}`);
+
+  for (const phone of nonEmpty(contact.phones)) {
+    // 4.0 carries phone numbers as tel: URIs, 3.0 as plain text
+    lines.push(version === '4.0' ? `TEL;VALUE=uri:tel:${phone.replace(/\s+/g, '')}` : `TEL:${escapeVCardValue(phone)}`);
+  }
+  for (const email of nonEmpty(contact.emails)) {
+    lines.push(`EMAIL:${escapeVCardValue(email)}`);
+  }
+  if (contact.address.trim()) lines.push(`ADR:;;${escapeVCardValue(contact.address.trim())};;;;`);
+  if (contact.url.trim()) lines.push(`URL:${contact.url.trim()}`);
+
+  lines.push('END:VCARD');
+  return lines.join('\r\n');
+};
+
+export const generateMecardString = (contact: ContactConfig) => {
+  let result = 'MECARD:';
+  const name = [contact.lastName.trim(), contact.firstName.trim()].filter(Boolean).map(escapeMecardValue).join(',');
+  if (name) result += `N:${name};`;
+  if (contact.org.trim()) result += `ORG:${escapeMecardValue(contact.org.trim())};`;
+  for (const phone of nonEmpty(contact.phones)) result += `TEL:${escapeMecardValue(phone)};`;
+  for (const email of nonEmpty(contact.emails)) result += `EMAIL:${escapeMecardValue(email)};`;
+  if (contact.address.trim()) result += `ADR:${escapeMecardValue(contact.address.trim())};`;
+  if (contact.url.trim()) result += `URL:${escapeMecardValue(contact.url.trim())};`;
+  return `${result};`;
+};
+
+export const generateContactString = (contact: ContactConfig, format: ContactFormat) => {
+  switch (format) {
+    case 'vcard4':
+      return generateVCardString(contact, '4.0');
+    case 'mecard':
+      return generateMecardString(contact);
+    default:
+      return generateVCardString(contact, '3.0');
+  }
+};
+
+const parseVCard = (data: string): ContactConfig => {
+  const contact: ContactConfig = { ...emptyContact(), phones: [], emails: [] };
+  // Unfold continuation lines (RFC 6350 3.2) before splitting into properties
+  const lines = data.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let fullName = '';
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const [rawName, ...params] = line.slice(0, colon).split(';');
+    // Grouped properties look like "item1.TEL"
+    const name = rawName.split('.').pop()!.toUpperCase();
+    const value = line.slice(colon + 1);
+    const isUri = params.some(p => p.toUpperCase() === 'VALUE=URI');
+
+    switch (name) {
+      case 'N': {
+        const [last = '', first = ''] = splitStructured(value);
+        contact.lastName = last;
+        contact.firstName = first;
+        break;
+      }
+      case 'FN':
+        fullName = unescapeVCardValue(value);
+        break;
+      case 'ORG':
+        contact.org = splitStructured(value).filter(Boolean).join(', ');
+        break;
+      case 'TITLE':
+        contact.title = unescapeVCardValue(value);
+        break;
+      case 'TEL':
+        contact.phones.push(isUri || /^tel:/i.test(value) ? value.replace(/^tel:/i, '') : unescapeVCardValue(value));
+        break;
+      case 'EMAIL':
+        contact.emails.push(unescapeVCardValue(value));
+        break;
+      case 'ADR':
+        contact.address = splitStructured(value).filter(Boolean).join(', ');
+        break;
+      case 'URL':
+        contact.url = value;
+        break;
+    }
+  }
+
+  // Cards without N still need a usable name
+  if (!contact.firstName && !contact.lastName && fullName) {
+    const parts = fullName.split(' ');
+    contact.lastName = parts.length > 1 ? parts.pop()! : '';
+    contact.firstName = parts.join(' ');
+  }
+  return contact;
+};
+
+const parseMecard = (data: string): ContactConfig => {
+  const contact: ContactConfig = { ...emptyContact(), phones: [], emails: [] };
+  const fields = splitMecardFields(data.replace(/^MECARD:/i, ''));
+
+  for (const [key, rawValue] of fields) {
+    const value = unescapeMecardValue(stripQuotes(rawValue));
+    switch (key) {
+      case 'N': {
+        // "Last,First" per the DoCoMo spec; the comma is the one unescaped separator
+        let cut = -1;
+        for (let i = 0; i < rawValue.length; i++) {
+          if (rawValue[i] === '\\') i++;
+          else if (rawValue[i] === ',') { cut = i; break; }
+        }
+        if (cut === -1) {
+          contact.lastName = value;
+        } else {
+          contact.lastName = unescapeMecardValue(rawValue.slice(0, cut));
+          contact.firstName = unescapeMecardValue(rawValue.slice(cut + 1));
+        }
+        break;
+      }
+      case 'ORG':
+        contact.org = value;
+        break;
+      case 'TITLE':
+        contact.title = value;
+        break;
+      case 'TEL':
+        contact.phones.push(value);
+        break;
+      case 'EMAIL':
+        contact.emails.push(value);
+        break;
+      case 'ADR':
+        contact.address = value;
+        break;
+      case 'URL':
+        contact.url = value;
+        break;
+    }
+  }
+  return contact;
+};
+
+export const parseContact = (data: string): ContactConfig =>
+  /^MECARD:/i.test(data) ? parseMecard(data) : parseVCard(data);
+
+export const contactFileName = (contact: ContactConfig) => {
+  const base = (formatContactName(contact) || contact.org || 'kisi').trim().replace(/[^\p{L}\p{N}]+/gu, '_');
+  return `${base}.vcf`;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { neutralizeFormula, parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('parses back what it writes', () => {
+    const headers = ['ad', 'içerik'];
+    const rows = [
+      ['virgül', 'a, b'],
+      ['tırnak', 'dedi ki "merhaba"'],
+      ['satır', 'bir\r\niki'],
+      ['boş', '']
+    ];
+    expect(parseCsv(toCsv(headers, rows))).toEqual({ headers, rows });
+    expect(parseCsv(toCsv(headers, rows, ';'))).toEqual({ headers, rows });
+  });
+
+  it('detects the delimiter Excel writes in Turkish locales', () => {
+    expect(parseCsv('ad;url\nAyşe;https://example.com/?a=1,2\n')).toEqual({
+      headers: ['ad', 'url'],
+      rows: [['Ayşe', 'https://example.com/?a=1,2']]
+    });
+  });
+
+  it('drops the BOM and blank lines, and pads short rows', () => {
+    expect(parseCsv('\ufeffa,b,c\n\n1,2\n')).toEqual({ headers: ['a', 'b', 'c'], rows: [['1', '2', '']] });
+  });
+
+  it('names empty header cells', () => {
+    expect(parseCsv('a,,c\n1,2,3').headers).toEqual(['a', 'Sütun 2', 'c']);
+  });
+
+  it('neutralizes cells a spreadsheet would run as formulas', () => {
+    expect(neutralizeFormula('=HYPERLINK("x")')).toBe('\'=HYPERLINK("x")');
+    expect(neutralizeFormula('+90 555')).toBe("'+90 555");
+    expect(neutralizeFormula('-1')).toBe("'-1");
+    expect(neutralizeFormula('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(neutralizeFormula('https://example.com')).toBe('https://example.com');
+  });
+});
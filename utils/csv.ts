@@ -0,0 +1,76 @@
+// RFC 4180 CSV, plus the semicolon-separated variant Excel writes in Turkish locales
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Picks the delimiter that occurs most often outside quotes on the first line
+const detectDelimiter = (text: string) => {
+  let inQuotes = false;
+  const counts: Record<string, number> = {};
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && DELIMITERS.includes(ch)) counts[ch] = (counts[ch] || 0) + 1;
+  }
+  return DELIMITERS.reduce((best, d) => ((counts[d] || 0) > (counts[best] || 0) ? d : best), ',');
+};
+
+export const parseCsv = (input: string, delimiter = detectDelimiter(input)): CsvTable => {
+  const text = input.replace(/^\uFEFF/, '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+  const [headerRow = [], ...rows] = nonEmpty;
+  const headers = headerRow.map((h, i) => h.trim() || `Sütun ${i + 1}`);
+  return { headers, rows: rows.map(r => headers.map((_, i) => r[i] ?? '')) };
+};
+
+const escapeCsvCell = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (headers: string[], rows: string[][], delimiter = ',') =>
+  [headers, ...rows].map(r => r.map(cell => escapeCsvCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+// Spreadsheets run cells starting with these as formulas, so untrusted text gets a leading quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export const neutralizeFormula = (value: string) => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
@@ -0,0 +1,562 @@
+// Data Matrix (ECC 200) reader for browsers whose BarcodeDetector is missing or lacks the
+// format. The symbol is boxed in from the middle of the frame as ZXing's white-rectangle
+// detector does; the corner with the solid L and the symbol size are then chosen by how well
+// the timing pattern samples. Placement, interleaving and the encodation modes follow
+// ISO/IEC 16022.
+
+import { BitImage, Point, RgbaImage, binarize, decodeQrBytes, isDark, project, quadToQuad } from './qrDecoder';
+import { createReedSolomon } from './reedSolomon';
+
+export interface DecodedDataMatrix {
+  text: string;
+  rows: number;
+  columns: number;
+  // Image coordinates of the symbol corners: top-left, top-right, bottom-right, bottom-left,
+  // with the solid L along the left and bottom
+  corners: Point[];
+}
+
+interface SymbolSize {
+  rows: number;
+  columns: number;
+  regionRows: number;
+  regionColumns: number;
+  eccPerBlock: number;
+  // Data codewords of each block; blocks are interleaved one codeword at a time
+  blocks: number[];
+}
+
+const size = (rows: number, columns: number, regionRows: number, regionColumns: number, eccPerBlock: number, blocks: number[]): SymbolSize => ({
+  rows,
+  columns,
+  regionRows,
+  regionColumns,
+  eccPerBlock,
+  blocks
+});
+
+const repeat = (count: number, data: number) => Array<number>(count).fill(data);
+
+const SIZES: SymbolSize[] = [
+  size(10, 10, 8, 8, 5, [3]),
+  size(12, 12, 10, 10, 7, [5]),
+  size(14, 14, 12, 12, 10, [8]),
+  size(16, 16, 14, 14, 12, [12]),
+  size(18, 18, 16, 16, 14, [18]),
+  size(20, 20, 18, 18, 18, [22]),
+  size(22, 22, 20, 20, 20, [30]),
+  size(24, 24, 22, 22, 24, [36]),
+  size(26, 26, 24, 24, 28, [44]),
+  size(32, 32, 14, 14, 36, [62]),
+  size(36, 36, 16, 16, 42, [86]),
+  size(40, 40, 18, 18, 48, [114]),
+  size(44, 44, 20, 20, 56, [144]),
+  size(48, 48, 22, 22, 68, [174]),
+  size(52, 52, 24, 24, 42, repeat(2, 102)),
+  size(64, 64, 14, 14, 56, repeat(2, 140)),
+  size(72, 72, 16, 16, 36, repeat(4, 92)),
+  size(80, 80, 18, 18, 48, repeat(4, 114)),
+  size(88, 88, 20, 20, 56, repeat(4, 144)),
+  size(96, 96, 22, 22, 68, repeat(4, 174)),
+  size(104, 104, 24, 24, 56, repeat(6, 136)),
+  size(120, 120, 18, 18, 68, repeat(6, 175)),
+  size(132, 132, 20, 20, 62, repeat(8, 163)),
+  size(144, 144, 22, 22, 62, [...repeat(8, 156), ...repeat(2, 155)]),
+  size(8, 18, 6, 16, 7, [5]),
+  size(8, 32, 6, 14, 11, [10]),
+  size(12, 26, 10, 24, 14, [16]),
+  size(12, 36, 10, 16, 18, [22]),
+  size(16, 36, 14, 16, 24, [32]),
+  size(16, 48, 14, 22, 28, [49])
+];
+
+const dataMatrixReedSolomon = createReedSolomon(0x12d, 1);
+
+// Locating
+
+// Grows a box from the middle of the frame until all four sides are clear, as ZXing's
+// WhiteRectangleDetector; null when it runs into the frame edge
+const findSymbolBox = (img: BitImage) => {
+  const { width, height } = img;
+  const initial = Math.max(10, Math.floor(Math.min(width, height) / 8));
+  let left = Math.floor((width - initial) / 2);
+  let right = left + initial;
+  let top = Math.floor((height - initial) / 2);
+  let bottom = top + initial;
+
+  const rowHasDark = (y: number, from: number, to: number) => {
+    for (let x = from; x <= to; x++) if (img.bits[y * width + x]) return true;
+    return false;
+  };
+  const columnHasDark = (x: number, from: number, to: number) => {
+    for (let y = from; y <= to; y++) if (img.bits[y * width + x]) return true;
+    return false;
+  };
+
+  // Each side moves out until it has crossed something dark and come out clear
+  const seen = [false, false, false, false];
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (let side = 0; side < 4; side++) {
+      for (;;) {
+        if (left < 0 || top < 0 || right >= width || bottom >= height) return null;
+        const dark =
+          side === 0 ? columnHasDark(right, top, bottom) :
+          side === 1 ? rowHasDark(bottom, left, right) :
+          side === 2 ? columnHasDark(left, top, bottom) :
+          rowHasDark(top, left, right);
+        if (!dark && seen[side]) break;
+        if (dark) grew = seen[side] = true;
+        if (side === 0) right++;
+        else if (side === 1) bottom++;
+        else if (side === 2) left--;
+        else top--;
+      }
+    }
+  }
+  return { left, right, top, bottom };
+};
+
+// Two guesses at the corners, clockwise from the top-left: the extreme dark pixels along the
+// diagonals suit a roughly upright symbol, those along the axes one turned near 45 degrees
+const cornerCandidates = (img: BitImage, box: { left: number; right: number; top: number; bottom: number }) => {
+  const diagonal = [
+    { score: Infinity, x: 0, y: 0 },
+    { score: -Infinity, x: 0, y: 0 },
+    { score: -Infinity, x: 0, y: 0 },
+    { score: Infinity, x: 0, y: 0 }
+  ];
+  const axial = [
+    { score: Infinity, x: 0, y: 0 },
+    { score: -Infinity, x: 0, y: 0 },
+    { score: -Infinity, x: 0, y: 0 },
+    { score: Infinity, x: 0, y: 0 }
+  ];
+  const keep = (slot: { score: number; x: number; y: number }, score: number, x: number, y: number, max: boolean) => {
+    if (max ? score > slot.score : score < slot.score) Object.assign(slot, { score, x, y });
+  };
+  for (let y = box.top; y <= box.bottom; y++) {
+    for (let x = box.left; x <= box.right; x++) {
+      if (!img.bits[y * img.width + x]) continue;
+      keep(diagonal[0], x + y, x, y, false);
+      keep(diagonal[1], x - y, x, y, true);
+      keep(diagonal[2], x + y, x, y, true);
+      keep(diagonal[3], x - y, x, y, false);
+      keep(axial[0], y, x, y, false);
+      keep(axial[1], x, x, y, true);
+      keep(axial[2], y, x, y, true);
+      keep(axial[3], x, x, y, false);
+    }
+  }
+  if (!Number.isFinite(diagonal[0].score)) return [];
+  // Outer corners of the extreme pixels
+  const diagonalOffsets = [[0, 0], [1, 0], [1, 1], [0, 1]];
+  const axialOffsets = [[0.5, 0], [1, 0.5], [0.5, 1], [0, 0.5]];
+  return [
+    diagonal.map((p, i) => ({ x: p.x + diagonalOffsets[i][0], y: p.y + diagonalOffsets[i][1] })),
+    axial.map((p, i) => ({ x: p.x + axialOffsets[i][0], y: p.y + axialOffsets[i][1] }))
+  ];
+};
+
+const symbolTransform = (corners: Point[], spec: SymbolSize) =>
+  quadToQuad([{ x: 0, y: 0 }, { x: spec.columns, y: 0 }, { x: spec.columns, y: spec.rows }, { x: 0, y: spec.rows }], corners);
+
+// Share of the finder and timing modules that sample as expected; with timingOnly the solid L
+// is left out, for placing the open corner
+const patternScore = (img: BitImage, corners: Point[], spec: SymbolSize, timingOnly = false) => {
+  const m = symbolTransform(corners, spec);
+  const sample = (row: number, column: number) => {
+    const p = project(m, column + 0.5, row + 0.5);
+    return isDark(img, p.x, p.y);
+  };
+  let matches = 0;
+  let total = 0;
+  for (let c = 0; c < spec.columns; c++) {
+    if (!timingOnly) matches += sample(spec.rows - 1, c) ? 1 : 0;
+    matches += sample(0, c) === (c % 2 === 0) ? 1 : 0;
+    total += timingOnly ? 1 : 2;
+  }
+  for (let r = 0; r < spec.rows; r++) {
+    if (!timingOnly) matches += sample(r, 0) ? 1 : 0;
+    matches += sample(r, spec.columns - 1) === (r % 2 === 1) ? 1 : 0;
+    total += timingOnly ? 1 : 2;
+  }
+  return matches / total;
+};
+
+const MIN_PATTERN_SCORE = 0.8;
+const MAX_CANDIDATES = 3;
+
+interface Placement {
+  corners: Point[];
+  spec: SymbolSize;
+  score: number;
+}
+
+// Tries each corner as the one between the solid edges, and each symbol size; the corner
+// between the timing edges is often light, so it is rebuilt from the other three and nudged
+// to where the timing pattern fits best
+const findPlacements = (img: BitImage): Placement[] => {
+  const box = findSymbolBox(img);
+  if (!box) return [];
+  const placements: Placement[] = [];
+  for (const quad of cornerCandidates(img, box)) {
+    for (let k = 0; k < 4; k++) {
+      const bottomLeft = quad[k];
+      const topLeft = quad[(k + 1) % 4];
+      const bottomRight = quad[(k + 3) % 4];
+      const topRight = { x: topLeft.x + bottomRight.x - bottomLeft.x, y: topLeft.y + bottomRight.y - bottomLeft.y };
+      // Each module has to span at least a couple of pixels
+      const side = Math.min(Math.hypot(topLeft.x - bottomLeft.x, topLeft.y - bottomLeft.y), Math.hypot(bottomRight.x - bottomLeft.x, bottomRight.y - bottomLeft.y));
+      for (const spec of SIZES) {
+        if (side / Math.max(spec.rows, spec.columns) < 1.5) continue;
+        const corners = [topLeft, topRight, bottomRight, bottomLeft];
+        const score = patternScore(img, corners, spec);
+        if (score >= MIN_PATTERN_SCORE) placements.push({ corners, spec, score });
+      }
+    }
+  }
+  return placements
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES)
+    .map(placement => {
+      const [topLeft, topRight, bottomRight, bottomLeft] = placement.corners;
+      const { spec } = placement;
+      const u = { x: (topRight.x - topLeft.x) / spec.columns, y: (topRight.y - topLeft.y) / spec.columns };
+      const v = { x: (bottomRight.x - topRight.x) / spec.rows, y: (bottomRight.y - topRight.y) / spec.rows };
+      let best = { corners: placement.corners, score: patternScore(img, placement.corners, spec, true) };
+      for (let i = -4; i <= 4; i++) {
+        for (let j = -4; j <= 4; j++) {
+          const moved = { x: topRight.x + (u.x * i + v.x * j) / 2, y: topRight.y + (u.y * i + v.y * j) / 2 };
+          const corners = [topLeft, moved, bottomRight, bottomLeft];
+          const score = patternScore(img, corners, spec, true);
+          if (score > best.score) best = { corners, score };
+        }
+      }
+      return { ...placement, corners: best.corners };
+    });
+};
+
+// Codeword placement
+
+const regionCounts = (spec: SymbolSize) => ({
+  down: spec.rows / (spec.regionRows + 2),
+  across: spec.columns / (spec.regionColumns + 2)
+});
+
+// The data regions without their finder and timing borders, as one matrix
+const mappingMatrix = (modules: boolean[][], spec: SymbolSize) => {
+  const { down, across } = regionCounts(spec);
+  const numRows = down * spec.regionRows;
+  const numColumns = across * spec.regionColumns;
+  const matrix: boolean[][] = [];
+  for (let r = 0; r < numRows; r++) {
+    const symbolRow = Math.floor(r / spec.regionRows) * (spec.regionRows + 2) + 1 + (r % spec.regionRows);
+    const row: boolean[] = [];
+    for (let c = 0; c < numColumns; c++) {
+      row.push(modules[symbolRow][Math.floor(c / spec.regionColumns) * (spec.regionColumns + 2) + 1 + (c % spec.regionColumns)]);
+    }
+    matrix.push(row);
+  }
+  return matrix;
+};
+
+// The diagonal "utah" walk of ISO/IEC 16022 Annex F, with its four corner shapes
+const readCodewords = (matrix: boolean[][]) => {
+  const numRows = matrix.length;
+  const numColumns = matrix[0].length;
+  const read = matrix.map(row => row.map(() => false));
+  const codewords: number[] = [];
+
+  const bit = (row: number, column: number) => {
+    if (row < 0) {
+      row += numRows;
+      column += 4 - ((numRows + 4) % 8);
+    }
+    if (column < 0) {
+      column += numColumns;
+      row += 4 - ((numColumns + 4) % 8);
+    }
+    if (row >= numRows) row -= numRows;
+    read[row][column] = true;
+    return matrix[row][column] ? 1 : 0;
+  };
+  const shape = (cells: Array<[number, number]>) => cells.reduce((value, [r, c]) => (value << 1) | bit(r, c), 0);
+  const utah = (r: number, c: number) =>
+    shape([[r - 2, c - 2], [r - 2, c - 1], [r - 1, c - 2], [r - 1, c - 1], [r - 1, c], [r, c - 2], [r, c - 1], [r, c]]);
+  const corner1 = () => shape([[numRows - 1, 0], [numRows - 1, 1], [numRows - 1, 2], [0, numColumns - 2], [0, numColumns - 1], [1, numColumns - 1], [2, numColumns - 1], [3, numColumns - 1]]);
+  const corner2 = () => shape([[numRows - 3, 0], [numRows - 2, 0], [numRows - 1, 0], [0, numColumns - 4], [0, numColumns - 3], [0, numColumns - 2], [0, numColumns - 1], [1, numColumns - 1]]);
+  const corner3 = () => shape([[numRows - 1, 0], [numRows - 1, numColumns - 1], [0, numColumns - 3], [0, numColumns - 2], [0, numColumns - 1], [1, numColumns - 3], [1, numColumns - 2], [1, numColumns - 1]]);
+  const corner4 = () => shape([[numRows - 3, 0], [numRows - 2, 0], [numRows - 1, 0], [0, numColumns - 2], [0, numColumns - 1], [1, numColumns - 1], [2, numColumns - 1], [3, numColumns - 1]]);
+
+  let row = 4;
+  let column = 0;
+  const cornersRead = [false, false, false, false];
+  do {
+    if (row === numRows && column === 0 && !cornersRead[0]) {
+      codewords.push(corner1());
+      row -= 2;
+      column += 2;
+      cornersRead[0] = true;
+    } else if (row === numRows - 2 && column === 0 && numColumns % 4 !== 0 && !cornersRead[1]) {
+      codewords.push(corner2());
+      row -= 2;
+      column += 2;
+      cornersRead[1] = true;
+    } else if (row === numRows + 4 && column === 2 && numColumns % 8 === 0 && !cornersRead[2]) {
+      codewords.push(corner3());
+      row -= 2;
+      column += 2;
+      cornersRead[2] = true;
+    } else if (row === numRows - 2 && column === 0 && numColumns % 8 === 4 && !cornersRead[3]) {
+      codewords.push(corner4());
+      row -= 2;
+      column += 2;
+      cornersRead[3] = true;
+    } else {
+      // Up and to the right
+      do {
+        if (row < numRows && column >= 0 && !read[row][column]) codewords.push(utah(row, column));
+        row -= 2;
+        column += 2;
+      } while (row >= 0 && column < numColumns);
+      row += 1;
+      column += 3;
+      // Down and to the left
+      do {
+        if (row >= 0 && column < numColumns && !read[row][column]) codewords.push(utah(row, column));
+        row += 2;
+        column -= 2;
+      } while (row < numRows && column >= 0);
+      row += 3;
+      column += 1;
+    }
+  } while (row < numRows || column < numColumns);
+  return codewords;
+};
+
+// Splits the interleaved codewords into blocks, corrects each and joins the data back up
+const correctCodewords = (codewords: number[], spec: SymbolSize) => {
+  const blocks = spec.blocks.map(() => [] as number[]);
+  let index = 0;
+  const longest = Math.max(...spec.blocks);
+  for (let i = 0; i < longest; i++) {
+    spec.blocks.forEach((data, b) => {
+      if (i < data) blocks[b].push(codewords[index++]);
+    });
+  }
+  for (let i = 0; i < spec.eccPerBlock; i++) blocks.forEach(block => block.push(codewords[index++]));
+
+  for (const block of blocks) {
+    if (!dataMatrixReedSolomon.correct(block, spec.eccPerBlock)) return null;
+  }
+  const data: number[] = [];
+  for (let i = 0; i < longest; i++) {
+    spec.blocks.forEach((count, b) => {
+      if (i < count) data.push(blocks[b][i]);
+    });
+  }
+  return data;
+};
+
+// Encodation
+
+const PAD = 129;
+const LATCH_C40 = 230;
+const LATCH_BASE256 = 231;
+const FNC1 = 232;
+const STRUCTURED_APPEND = 233;
+const READER_PROGRAMMING = 234;
+const UPPER_SHIFT = 235;
+const MACRO_05 = 236;
+const MACRO_06 = 237;
+const LATCH_X12 = 238;
+const LATCH_TEXT = 239;
+const LATCH_EDIFACT = 240;
+const ECI = 241;
+const UNLATCH = 254;
+
+const GROUP_SEPARATOR = 0x1d;
+const MACRO_HEADER = '[)>\u001e';
+const MACRO_TRAILER = '\u001e\u0004';
+
+const C40_BASIC = ' 0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const TEXT_BASIC = ' 0123456789abcdefghijklmnopqrstuvwxyz';
+const SHIFT2_SET = '!"#$%&\'()*+,-./:;<=>?@[\\]^_';
+const TEXT_SHIFT3_SET = '`ABCDEFGHIJKLMNOPQRSTUVWXYZ{|}~\u007f';
+const X12_SET = '\r*> 0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+class DataMatrixFormatError extends Error {
+  constructor() {
+    super('Data Matrix verisi çözülemedi');
+    this.name = 'DataMatrixFormatError';
+  }
+}
+
+// Undoes the 255-state randomising of Base 256 codewords; position counts from 1
+const unrandomize255 = (codeword: number, position: number) => {
+  const value = codeword - (((149 * position) % 255) + 1);
+  return value >= 0 ? value : value + 256;
+};
+
+const decodeCodewords = (data: number[]) => {
+  const bytes: number[] = [];
+  const push = (text: string) => {
+    for (const c of text) bytes.push(c.charCodeAt(0));
+  };
+  let trailer = '';
+  let eci: number | undefined;
+  let i = 0;
+
+  // C40 and Text pack three values into two codewords; both return to ASCII on 254
+  const decodeC40Text = (basic: string, text: boolean) => {
+    let shift = 0;
+    let upper = false;
+    const emit = (code: number) => {
+      bytes.push(upper ? code + 128 : code);
+      upper = false;
+    };
+    while (i + 1 < data.length && data[i] !== UNLATCH) {
+      const packed = data[i] * 256 + data[i + 1] - 1;
+      i += 2;
+      for (const value of [Math.floor(packed / 1600), Math.floor(packed / 40) % 40, packed % 40]) {
+        if (shift === 0) {
+          if (value < 3) shift = value + 1;
+          else emit(basic.charCodeAt(value - 3));
+        } else if (shift === 1) {
+          emit(value);
+          shift = 0;
+        } else if (shift === 2) {
+          if (value < 27) emit(SHIFT2_SET.charCodeAt(value));
+          else if (value === 27) bytes.push(GROUP_SEPARATOR);
+          else if (value === 30) upper = true;
+          else throw new DataMatrixFormatError();
+          shift = 0;
+        } else {
+          if (text) {
+            if (value >= TEXT_SHIFT3_SET.length) throw new DataMatrixFormatError();
+            emit(TEXT_SHIFT3_SET.charCodeAt(value));
+          } else {
+            emit(96 + value);
+          }
+          shift = 0;
+        }
+      }
+    }
+    if (data[i] === UNLATCH) i++;
+  };
+
+  const decodeX12 = () => {
+    while (i + 1 < data.length && data[i] !== UNLATCH) {
+      const packed = data[i] * 256 + data[i + 1] - 1;
+      i += 2;
+      for (const value of [Math.floor(packed / 1600), Math.floor(packed / 40) % 40, packed % 40]) {
+        if (value >= X12_SET.length) throw new DataMatrixFormatError();
+        push(X12_SET[value]);
+      }
+    }
+    if (data[i] === UNLATCH) i++;
+  };
+
+  // Four 6-bit values in three codewords, until the 011111 unlatch; ASCII resumes at the next
+  // codeword, or without an unlatch when at most two codewords are left
+  const decodeEdifact = () => {
+    let position = i * 8;
+    const read6 = () => {
+      let value = 0;
+      for (let k = 0; k < 6; k++, position++) value = (value << 1) | ((data[position >> 3] >> (7 - (position & 7))) & 1);
+      return value;
+    };
+    while (data.length * 8 - position > 16) {
+      for (let k = 0; k < 4; k++) {
+        const value = read6();
+        if (value === 0x1f) {
+          i = Math.ceil(position / 8);
+          return;
+        }
+        bytes.push(value & 0x20 ? value : value | 0x40);
+      }
+    }
+    i = Math.ceil(position / 8);
+  };
+
+  const decodeBase256 = () => {
+    const first = unrandomize255(data[i], ++i);
+    let count: number;
+    if (first === 0) count = data.length - i;
+    else if (first < 250) count = first;
+    else count = 250 * (first - 249) + unrandomize255(data[i], ++i);
+    if (i + count > data.length) throw new DataMatrixFormatError();
+    for (let k = 0; k < count; k++) bytes.push(unrandomize255(data[i], ++i));
+  };
+
+  let upper = false;
+  while (i < data.length) {
+    const codeword = data[i++];
+    if (codeword === PAD) break;
+    if (codeword >= 1 && codeword <= 128) {
+      bytes.push(codeword - 1 + (upper ? 128 : 0));
+      upper = false;
+    } else if (codeword >= 130 && codeword <= 229) {
+      push(String(codeword - 130).padStart(2, '0'));
+    } else if (codeword === LATCH_C40) decodeC40Text(C40_BASIC, false);
+    else if (codeword === LATCH_TEXT) decodeC40Text(TEXT_BASIC, true);
+    else if (codeword === LATCH_X12) decodeX12();
+    else if (codeword === LATCH_EDIFACT) decodeEdifact();
+    else if (codeword === LATCH_BASE256) decodeBase256();
+    else if (codeword === FNC1) {
+      // In the first position it only marks GS1 data
+      if (i > 1) bytes.push(GROUP_SEPARATOR);
+    } else if (codeword === STRUCTURED_APPEND) i += 3;
+    else if (codeword === READER_PROGRAMMING) continue;
+    else if (codeword === UPPER_SHIFT) upper = true;
+    else if (codeword === MACRO_05 || codeword === MACRO_06) {
+      push(`${MACRO_HEADER}${codeword === MACRO_05 ? '05' : '06'}\u001d`);
+      trailer = MACRO_TRAILER;
+    } else if (codeword === ECI) {
+      const c1 = data[i++];
+      if (c1 <= 127) eci = c1 - 1;
+      else if (c1 <= 191) eci = (c1 - 128) * 254 + data[i++] - 1 + 127;
+      else {
+        eci = (c1 - 192) * 64516 + (data[i] - 1) * 254 + data[i + 1] - 1 + 16383;
+        i += 2;
+      }
+    } else {
+      throw new DataMatrixFormatError();
+    }
+  }
+  push(trailer);
+  return decodeQrBytes(new Uint8Array(bytes), eci);
+};
+
+const decodeModules = (modules: boolean[][], spec: SymbolSize) => {
+  const codewords = readCodewords(mappingMatrix(modules, spec));
+  const data = correctCodewords(codewords, spec);
+  if (!data) return null;
+  try {
+    return decodeCodewords(data);
+  } catch (e) {
+    if (e instanceof DataMatrixFormatError) return null;
+    throw e;
+  }
+};
+
+export const decodeDataMatrix = (image: RgbaImage): DecodedDataMatrix | null => {
+  const img = binarize(image);
+  for (const { corners, spec } of findPlacements(img)) {
+    const m = symbolTransform(corners, spec);
+    const modules: boolean[][] = [];
+    for (let r = 0; r < spec.rows; r++) {
+      const row: boolean[] = [];
+      for (let c = 0; c < spec.columns; c++) {
+        const p = project(m, c + 0.5, r + 0.5);
+        row.push(isDark(img, p.x, p.y));
+      }
+      modules.push(row);
+    }
+    const text = decodeModules(modules, spec);
+    if (text !== null) return { text, rows: spec.rows, columns: spec.columns, corners };
+  }
+  return null;
+};
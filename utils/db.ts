@@ -0,0 +1,97 @@
+// Promise wrapper around the app's IndexedDB database; each feature owns one object store
+
+const DB_NAME = 'qr-app';
+const DB_VERSION = 3;
+
+export const STORES = {
+  library: 'library',
+  signingKeys: 'signingKeys',
+  trustedKeys: 'trustedKeys',
+  history: 'history'
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Versions only ever add stores, so each step checks for what is missing
+        if (!db.objectStoreNames.contains(STORES.library)) {
+          db.createObjectStore(STORES.library, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(STORES.signingKeys)) db.createObjectStore(STORES.signingKeys, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.trustedKeys)) db.createObjectStore(STORES.trustedKeys, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.history)) {
+          db.createObjectStore(STORES.history, { keyPath: 'id' }).createIndex('scannedAt', 'scannedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Veritabanı başka bir sekmede açık; o sekmeyi kapatıp tekrar deneyin'));
+    }).catch(e => {
+      // Let the next call retry instead of caching the failure
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('İşlem iptal edildi'));
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(store).objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+// Writes all values in one transaction, so a failed import leaves the store untouched
+export const putMany = async <T>(store: StoreName, values: T[]) => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  for (const value of values) objectStore.put(value);
+  await transactionDone(tx);
+};
+
+export const deleteOne = async (store: StoreName, key: IDBValidKey) => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  await transactionDone(tx);
+};
+
+export const deleteMany = async (store: StoreName, keys: IDBValidKey[]) => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  for (const key of keys) objectStore.delete(key);
+  await transactionDone(tx);
+};
+
+export const clearStore = async (store: StoreName) => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { QRType } from '../types';
+import { CONFIDENT_DETECTION, classifyContent } from './detection';
+
+interface DetectionCase {
+  input: string;
+  type: QRType;
+  reason: string;
+  // Whether the scanner may act without asking first
+  confident: boolean;
+}
+
+const CASES: DetectionCase[] = [
+  // Schemes and headers, in any letter case
+  { input: 'HTTPS://EXAMPLE.COM', type: QRType.URL, reason: 'scheme', confident: true },
+  { input: 'Http://example.com/a', type: QRType.URL, reason: 'scheme', confident: true },
+  { input: '  https://example.com  ', type: QRType.URL, reason: 'scheme', confident: true },
+  { input: 'WWW.Example.com', type: QRType.URL, reason: 'www', confident: true },
+  { input: 'MAILTO:a@b.com', type: QRType.EMAIL, reason: 'scheme', confident: true },
+  { input: 'TEL:+905551234567', type: QRType.PHONE, reason: 'scheme', confident: true },
+  { input: 'SMSTO:+90555:merhaba', type: QRType.SMS, reason: 'scheme', confident: true },
+  { input: 'WIFI:S:Ev;T:WPA;P:sifre;;', type: QRType.WIFI, reason: 'scheme', confident: true },
+  { input: 'WIFI:merhaba', type: QRType.WIFI, reason: 'scheme', confident: true },
+  { input: 'GEO:41.0,29.0', type: QRType.GEO, reason: 'scheme', confident: true },
+  { input: 'geo:abc', type: QRType.GEO, reason: 'scheme', confident: false },
+  { input: 'BEGIN:VCARD\nFN:Ayşe\nEND:VCARD', type: QRType.CONTACT, reason: 'header', confident: true },
+  { input: 'MECARD:N:Ayşe;;', type: QRType.CONTACT, reason: 'header', confident: true },
+  { input: 'BEGIN:VEVENT\nEND:VEVENT', type: QRType.EVENT, reason: 'header', confident: true },
+
+  // Bare domains
+  { input: 'example.com', type: QRType.URL, reason: 'bare-domain', confident: false },
+  { input: 'example.com/path', type: QRType.URL, reason: 'bare-domain', confident: true },
+  { input: 'ornek.com.tr', type: QRType.URL, reason: 'bare-domain', confident: false },
+  { input: 'example.de', type: QRType.URL, reason: 'bare-domain', confident: false },
+
+  // Bare emails
+  { input: 'user@example.com', type: QRType.EMAIL, reason: 'bare-email', confident: true },
+  { input: 'USER@EXAMPLE.COM', type: QRType.EMAIL, reason: 'bare-email', confident: true },
+
+  // International phone numbers need the leading +
+  { input: '+90 555 123 45 67', type: QRType.PHONE, reason: 'bare-phone', confident: false },
+  { input: '+1 (212) 555-1234', type: QRType.PHONE, reason: 'bare-phone', confident: false },
+
+  // GTINs with a valid check digit, and GS1 element strings
+  { input: '4006381333931', type: QRType.GS1, reason: 'gtin', confident: false },
+  { input: '96385074', type: QRType.GS1, reason: 'gtin', confident: false },
+  { input: '036000291452', type: QRType.GS1, reason: 'gtin', confident: false },
+  { input: '(01)04006381333931(17)251231', type: QRType.GS1, reason: 'gs1', confident: true },
+  { input: '(01)04006381333931(10)ABC-12', type: QRType.GS1, reason: 'gs1', confident: true },
+  { input: ']C1010400638133393117251231', type: QRType.GS1, reason: 'gs1', confident: true },
+  { input: 'https://id.gs1.org/01/04006381333931', type: QRType.GS1, reason: 'gs1', confident: true },
+
+  // Plain-text fallbacks
+  { input: 'merhaba dünya', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '   ', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '12345', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '4006381333932', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '05551234567', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '+12', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: 'readme.md', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: 'example.unknowntld', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: 'foo.bar baz', type: QRType.TEXT, reason: 'fallback', confident: true },
+  // Bracketed prefixes that are not GS1 element strings
+  { input: '(555) 123-4567', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '(212) 555-1234', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '(2020) was a great year', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '(10) items left', type: QRType.TEXT, reason: 'fallback', confident: true },
+  { input: '(01)04006381333932', type: QRType.TEXT, reason: 'fallback', confident: true }
+];
+
+describe('classifyContent', () => {
+  it.each(CASES)('$input -> $type ($reason)', ({ input, type, reason, confident }) => {
+    const detection = classifyContent(input);
+    expect(detection.type).toBe(type);
+    expect(detection.reason).toBe(reason);
+    expect(detection.confidence >= CONFIDENT_DETECTION).toBe(confident);
+  });
+});
@@ -0,0 +1,68 @@
+import { QRType, DetectionResult } from '../types';
+import { isEmvPayload, parsePayment } from './emvco';
+import { gs1Confidence } from './gs1';
+
+// Below this a classification is only a guess and should be confirmed before acting on it
+export const CONFIDENT_DETECTION = 0.8;
+
+// Generic TLDs we accept for bare domains; two-letter country codes are accepted as a class
+const COMMON_TLDS = [
+  'com', 'net', 'org', 'edu', 'gov', 'mil', 'int', 'info', 'biz', 'name', 'pro', 'app', 'dev', 'io',
+  'ai', 'co', 'me', 'tv', 'xyz', 'online', 'site', 'store', 'shop', 'tech', 'blog', 'cloud', 'page', 'link', 'live'
+];
+
+// Two-letter TLDs that are far more often file extensions than websites
+const FILE_LIKE_TLDS = ['md', 'js', 'py', 'rs', 'sh', 'pl', 'cs', 'ps', 'so', 'gz'];
+
+const EMAIL_RE = /^[^\s@:/?#]+@[^\s@:/?#]+\.[a-z]{2,}$/i;
+// Host (with at least one dot) followed by an optional port and path
+const BARE_DOMAIN_RE = /^((?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+([a-z]{2,24}))(?::\d{1,5})?(?:[/?#]\S*)?$/i;
+// E.164 allows up to 15 digits; require the leading + so plain numbers stay text
+const INTL_PHONE_RE = /^\+\d[\d\s().-]{5,20}$/;
+
+const result = (type: QRType, confidence: number, reason: string): DetectionResult => ({ type, confidence, reason });
+
+const classifyBareDomain = (value: string): DetectionResult | null => {
+  const match = value.match(BARE_DOMAIN_RE);
+  if (!match) return null;
+  const tld = match[2].toLowerCase();
+  const hasPath = match[0].length > match[1].length;
+  if (COMMON_TLDS.includes(tld) || tld === 'tr') return result(QRType.URL, hasPath ? 0.8 : 0.7, 'bare-domain');
+  if (tld.length === 2 && !FILE_LIKE_TLDS.includes(tld)) return result(QRType.URL, hasPath ? 0.65 : 0.55, 'bare-domain');
+  return null;
+};
+
+// Classifies scanned or typed content regardless of letter case and surrounding whitespace
+export const classifyContent = (data: string): DetectionResult => {
+  const value = data.trim();
+  const lower = value.toLowerCase();
+
+  // Digital Links are URLs too, but their element table says more than the address
+  const gs1 = gs1Confidence(value);
+  if (gs1 >= CONFIDENT_DETECTION) return result(QRType.GS1, gs1, 'gs1');
+
+  if (/^https?:\/\/\S/.test(lower)) return result(QRType.URL, 1, 'scheme');
+  if (lower.startsWith('www.') && !/\s/.test(value)) return result(QRType.URL, 0.95, 'www');
+  if (lower.startsWith('mailto:')) return result(QRType.EMAIL, 1, 'scheme');
+  if (lower.startsWith('tel:')) return result(QRType.PHONE, 1, 'scheme');
+  if (/^(smsto|mmsto|sms|mms):/.test(lower)) return result(QRType.SMS, 1, 'scheme');
+  // A WIFI: prefix without an SSID field is probably just text that starts with the word
+  if (lower.startsWith('wifi:')) return result(QRType.WIFI, /(^|;)S:/i.test(value.slice(5)) ? 1 : 0.8, 'scheme');
+  if (lower.startsWith('geo:')) return result(QRType.GEO, /^geo:\s*[-+]?\d/.test(lower) ? 1 : 0.6, 'scheme');
+  if (lower.startsWith('begin:vcard') || lower.startsWith('mecard:')) return result(QRType.CONTACT, 1, 'header');
+  if (lower.startsWith('begin:vevent') || lower.startsWith('begin:vcalendar')) return result(QRType.EVENT, 1, 'header');
+  // A CRC mismatch still looks like a payment code but may be damaged or tampered with
+  if (isEmvPayload(value)) return result(QRType.PAYMENT, parsePayment(value).crcValid ? 1 : 0.8, 'emv');
+
+  if (EMAIL_RE.test(value)) return result(QRType.EMAIL, 0.85, 'bare-email');
+  if (INTL_PHONE_RE.test(value)) {
+    const digits = value.replace(/\D/g, '').length;
+    if (digits >= 8 && digits <= 15) return result(QRType.PHONE, 0.75, 'bare-phone');
+  }
+  const domain = classifyBareDomain(value);
+  if (domain) return domain;
+  // A lone EAN/UPC number with a valid check digit is probably a product code
+  if (gs1) return result(QRType.GS1, gs1, 'gtin');
+
+  return result(QRType.TEXT, 1, 'fallback');
+};
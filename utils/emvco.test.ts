@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { PaymentConfig } from '../types';
+import { EmvParseError, crc16ccitt, defaultPayment, generatePaymentString, isEmvPayload, parsePayment, parseTLV, validatePayment } from './emvco';
+
+const CONFIG: PaymentConfig = {
+  ...defaultPayment(),
+  merchantName: 'Çınar Kafe',
+  merchantCity: 'İSTANBUL',
+  postalCode: '34000',
+  mcc: '5812',
+  amount: '125.50',
+  accountGuid: 'tr.gov.tcmb',
+  accountId: 'TR330006100519786457841326',
+  billNumber: 'F-2024-001',
+  referenceLabel: 'Masa 4',
+  terminalLabel: 'K1'
+};
+
+describe('crc16ccitt', () => {
+  it('matches the CRC-16/CCITT-FALSE check value', () => {
+    expect(crc16ccitt('123456789')).toBe('29B1');
+    expect(crc16ccitt('')).toBe('FFFF');
+  });
+});
+
+describe('payment codes', () => {
+  it('parses back what it generates', () => {
+    const data = generatePaymentString(CONFIG);
+    expect(isEmvPayload(data)).toBe(true);
+    const payment = parsePayment(data);
+    expect(payment.error).toBeUndefined();
+    expect(payment.crcValid).toBe(true);
+    expect(payment.dynamic).toBe(true);
+    expect(payment.config).toEqual(CONFIG);
+  });
+
+  it('ends with the CRC of everything before it, "6304" included', () => {
+    const data = generatePaymentString(CONFIG);
+    expect(data.slice(-8, -4)).toBe('6304');
+    expect(data.slice(-4)).toBe(crc16ccitt(data.slice(0, -4)));
+  });
+
+  it('makes a static code without an amount', () => {
+    const payment = parsePayment(generatePaymentString({ ...CONFIG, amount: '' }));
+    expect(payment.dynamic).toBe(false);
+    expect(payment.fields.some(f => f.id === '54')).toBe(false);
+  });
+
+  it('writes tags in ascending order', () => {
+    const ids = parseTLV(generatePaymentString(CONFIG)).map(f => f.id);
+    expect(ids).toEqual(ids.slice().sort());
+  });
+
+  it('flags a changed payload by its CRC', () => {
+    const tampered = generatePaymentString(CONFIG).replace('125.50', '925.50');
+    const payment = parsePayment(tampered);
+    expect(payment.crcValid).toBe(false);
+    expect(payment.crcActual).not.toBe(payment.crcExpected);
+  });
+
+  it('reports a truncated field instead of throwing', () => {
+    const payment = parsePayment('000201010212591');
+    expect(payment.error).toBeDefined();
+    expect(payment.crcValid).toBe(false);
+  });
+
+  it('refuses values longer than 99 characters', () => {
+    expect(() => generatePaymentString({ ...CONFIG, accountId: 'x'.repeat(100) })).toThrow(EmvParseError);
+  });
+});
+
+describe('validatePayment', () => {
+  it('accepts a complete config', () => {
+    expect(validatePayment(CONFIG)).toEqual({});
+  });
+
+  it('flags the fields beyond their limits', () => {
+    const errors = validatePayment({ ...CONFIG, merchantName: 'x'.repeat(26), countryCode: 'TUR', amount: '12,5', accountId: '' });
+    expect(Object.keys(errors).sort()).toEqual(['accountId', 'amount', 'countryCode', 'merchantName']);
+  });
+});
@@ -0,0 +1,211 @@
+import { EmvField, PaymentConfig, PaymentPayload } from '../types';
+
+// EMVCo Merchant-Presented Mode (MPM) tags we read and write
+export const EMV_TAGS = {
+  PAYLOAD_FORMAT: '00',
+  POINT_OF_INITIATION: '01',
+  MCC: '52',
+  CURRENCY: '53',
+  AMOUNT: '54',
+  COUNTRY: '58',
+  MERCHANT_NAME: '59',
+  MERCHANT_CITY: '60',
+  POSTAL_CODE: '61',
+  ADDITIONAL_DATA: '62',
+  CRC: '63'
+} as const;
+
+// Sub-tags of the Additional Data Field Template (62)
+export const EMV_ADDITIONAL_TAGS = {
+  BILL_NUMBER: '01',
+  STORE_LABEL: '03',
+  REFERENCE_LABEL: '05',
+  TERMINAL_LABEL: '07',
+  PURPOSE: '08'
+} as const;
+
+// ISO 4217 numeric codes we can label; anything else is shown as the raw number
+export const CURRENCIES: Record<string, string> = {
+  '949': 'TRY',
+  '840': 'USD',
+  '978': 'EUR',
+  '826': 'GBP'
+};
+
+const isTemplateTag = (id: string) => {
+  const n = parseInt(id, 10);
+  // 26-51 merchant account templates, 62 additional data, 64 language template, 80-99 unreserved templates
+  return (n >= 26 && n <= 51) || n === 62 || n === 64 || n >= 80;
+};
+
+export class EmvParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmvParseError';
+  }
+}
+
+export const parseTLV = (data: string, nested = true): EmvField[] => {
+  const fields: EmvField[] = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const id = data.slice(pos, pos + 2);
+    const lengthStr = data.slice(pos + 2, pos + 4);
+    if (!/^\d{2}$/.test(id) || !/^\d{2}$/.test(lengthStr)) {
+      throw new EmvParseError(`Geçersiz TLV başlığı (konum ${pos})`);
+    }
+    const length = parseInt(lengthStr, 10);
+    const value = data.slice(pos + 4, pos + 4 + length);
+    if (value.length !== length) throw new EmvParseError(`Alan ${id} beklenenden kısa`);
+
+    const field: EmvField = { id, length, value };
+    if (nested && isTemplateTag(id)) {
+      // A template that doesn't parse as TLV is kept as an opaque value
+      try {
+        field.children = parseTLV(value, false);
+      } catch {
+        field.children = undefined;
+      }
+    }
+    fields.push(field);
+    pos += 4 + length;
+  }
+  return fields;
+};
+
+// CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as mandated for tag 63
+export const crc16ccitt = (input: string) => {
+  const bytes = new TextEncoder().encode(input);
+  let crc = 0xffff;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+export const isEmvPayload = (data: string) => /^000201/.test(data) && /6304[0-9A-Fa-f]{4}$/.test(data);
+
+const findValue = (fields: EmvField[], id: string) => fields.find(f => f.id === id)?.value ?? '';
+
+export const parsePayment = (data: string): PaymentPayload => {
+  let fields: EmvField[] = [];
+  let error: string | undefined;
+  try {
+    fields = parseTLV(data);
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  // The CRC covers everything up to and including "6304"
+  const crcActual = data.slice(-4).toUpperCase();
+  const crcExpected = crc16ccitt(data.slice(0, -4));
+
+  const merchantAccount = fields.find(f => parseInt(f.id, 10) >= 26 && parseInt(f.id, 10) <= 51);
+  const additional = fields.find(f => f.id === EMV_TAGS.ADDITIONAL_DATA)?.children ?? [];
+
+  const config: PaymentConfig = {
+    merchantName: findValue(fields, EMV_TAGS.MERCHANT_NAME),
+    merchantCity: findValue(fields, EMV_TAGS.MERCHANT_CITY),
+    postalCode: findValue(fields, EMV_TAGS.POSTAL_CODE),
+    countryCode: findValue(fields, EMV_TAGS.COUNTRY),
+    mcc: findValue(fields, EMV_TAGS.MCC),
+    currency: findValue(fields, EMV_TAGS.CURRENCY),
+    amount: findValue(fields, EMV_TAGS.AMOUNT),
+    accountTemplateId: merchantAccount?.id ?? '26',
+    accountGuid: merchantAccount?.children ? findValue(merchantAccount.children, '00') : '',
+    accountId: merchantAccount?.children ? findValue(merchantAccount.children, '01') : merchantAccount?.value ?? '',
+    billNumber: findValue(additional, EMV_ADDITIONAL_TAGS.BILL_NUMBER),
+    referenceLabel: findValue(additional, EMV_ADDITIONAL_TAGS.REFERENCE_LABEL),
+    terminalLabel: findValue(additional, EMV_ADDITIONAL_TAGS.TERMINAL_LABEL)
+  };
+
+  return {
+    fields,
+    config,
+    dynamic: findValue(fields, EMV_TAGS.POINT_OF_INITIATION) === '12',
+    crcValid: !error && crcActual === crcExpected,
+    crcExpected,
+    crcActual,
+    error
+  };
+};
+
+const tlv = (id: string, value: string) => {
+  if (value.length > 99) throw new EmvParseError(`Alan ${id} 99 karakteri aşıyor`);
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+};
+
+const optionalTlv = (id: string, value: string) => (value.trim() ? tlv(id, value.trim()) : '');
+
+export const generatePaymentString = (config: PaymentConfig) => {
+  const account = optionalTlv('00', config.accountGuid) + optionalTlv('01', config.accountId);
+  const additional =
+    optionalTlv(EMV_ADDITIONAL_TAGS.BILL_NUMBER, config.billNumber) +
+    optionalTlv(EMV_ADDITIONAL_TAGS.REFERENCE_LABEL, config.referenceLabel) +
+    optionalTlv(EMV_ADDITIONAL_TAGS.TERMINAL_LABEL, config.terminalLabel);
+  const amount = config.amount.trim();
+
+  // Tags must appear in ascending order; the CRC is computed over the body plus "6304"
+  const body =
+    tlv(EMV_TAGS.PAYLOAD_FORMAT, '01') +
+    // A fixed amount makes the code single-use ("dynamic"), otherwise the payer enters it
+    tlv(EMV_TAGS.POINT_OF_INITIATION, amount ? '12' : '11') +
+    (account ? tlv(config.accountTemplateId, account) : '') +
+    tlv(EMV_TAGS.MCC, config.mcc.trim() || '0000') +
+    tlv(EMV_TAGS.CURRENCY, config.currency) +
+    (amount ? tlv(EMV_TAGS.AMOUNT, amount) : '') +
+    tlv(EMV_TAGS.COUNTRY, config.countryCode.trim().toUpperCase()) +
+    tlv(EMV_TAGS.MERCHANT_NAME, config.merchantName.trim()) +
+    tlv(EMV_TAGS.MERCHANT_CITY, config.merchantCity.trim()) +
+    optionalTlv(EMV_TAGS.POSTAL_CODE, config.postalCode) +
+    (additional ? tlv(EMV_TAGS.ADDITIONAL_DATA, additional) : '') +
+    `${EMV_TAGS.CRC}04`;
+
+  return body + crc16ccitt(body);
+};
+
+export const defaultPayment = (): PaymentConfig => ({
+  merchantName: '',
+  merchantCity: '',
+  postalCode: '',
+  countryCode: 'TR',
+  mcc: '0000',
+  currency: '949',
+  amount: '',
+  accountTemplateId: '26',
+  accountGuid: '',
+  accountId: '',
+  billNumber: '',
+  referenceLabel: '',
+  terminalLabel: ''
+});
+
+// EMVCo field limits for the tags the generator exposes
+export const validatePayment = (config: PaymentConfig) => {
+  const errors: Partial<Record<keyof PaymentConfig, string>> = {};
+  if (!config.merchantName.trim()) errors.merchantName = 'İşyeri adı zorunlu';
+  else if (config.merchantName.trim().length > 25) errors.merchantName = 'En fazla 25 karakter';
+  if (!config.merchantCity.trim()) errors.merchantCity = 'Şehir zorunlu';
+  else if (config.merchantCity.trim().length > 15) errors.merchantCity = 'En fazla 15 karakter';
+  if (!/^[A-Za-z]{2}$/.test(config.countryCode.trim())) errors.countryCode = 'İki harfli ülke kodu (ör. TR)';
+  if (config.mcc.trim() && !/^\d{4}$/.test(config.mcc.trim())) errors.mcc = '4 haneli MCC';
+  if (config.amount.trim() && !/^\d{1,10}(\.\d{1,2})?$/.test(config.amount.trim())) errors.amount = 'Ör. 125.50';
+  if (!config.accountId.trim()) errors.accountId = 'Hesap bilgisi zorunlu';
+  // Both sub-fields plus their 4-character headers must fit in one 99-character template
+  else if (config.accountGuid.trim().length + config.accountId.trim().length > 91) errors.accountId = 'Hesap bilgisi çok uzun';
+  for (const key of ['billNumber', 'referenceLabel', 'terminalLabel'] as const) {
+    if (config[key].trim().length > 25) errors[key] = 'En fazla 25 karakter';
+  }
+  return errors;
+};
+
+export const formatPaymentAmount = (amount: string, currency: string) => {
+  const code = CURRENCIES[currency];
+  const value = parseFloat(amount);
+  if (!amount || isNaN(value)) return '';
+  if (!code) return `${amount} (${currency})`;
+  return new Intl.NumberFormat('tr-TR', { style: 'currency', currency: code }).format(value);
+};
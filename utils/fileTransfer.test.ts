@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TransferError,
+  createTransferReceiver,
+  createTransferSender,
+  encodeTransferFrame,
+  parseTransferFrame
+} from './fileTransfer';
+
+const BLOCK_SIZE = 200;
+
+const sampleFile = (size: number, name = 'rapor.pdf') => {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = (i * 31 + 7) & 0xff;
+  return new File([bytes], name, { type: 'application/pdf' });
+};
+
+// Feeds frames from the given ids on until the receiver has every block
+const receive = (sender: Awaited<ReturnType<typeof createTransferSender>>, frameIds: number[]) => {
+  const frames = frameIds.map(id => parseTransferFrame(sender.frame(id)));
+  const receiver = createTransferReceiver(frames[0]);
+  for (const frame of frames.slice(1)) {
+    if (receiver.isComplete()) break;
+    receiver.add(frame);
+  }
+  return receiver;
+};
+
+describe('file transfer', () => {
+  it('reassembles the file from the first pass of frames', async () => {
+    const file = sampleFile(5000);
+    const sender = await createTransferSender(file, BLOCK_SIZE);
+    const receiver = receive(sender, Array.from({ length: sender.blockCount }, (_, i) => i));
+    expect(receiver.isComplete()).toBe(true);
+    const { meta, bytes } = await receiver.finish();
+    expect(meta.name).toBe('rapor.pdf');
+    expect(meta.type).toBe('application/pdf');
+    expect(bytes).toEqual(new Uint8Array(await file.arrayBuffer()));
+  });
+
+  it('finishes from coded frames when the first pass was missed', async () => {
+    const file = sampleFile(3000);
+    const sender = await createTransferSender(file, BLOCK_SIZE);
+    // Joins late: skips every plain block and half of what follows
+    const ids = Array.from({ length: sender.blockCount * 6 }, (_, i) => sender.blockCount + i * 2);
+    const receiver = receive(sender, ids);
+    expect(receiver.isComplete()).toBe(true);
+    expect((await receiver.finish()).bytes).toEqual(new Uint8Array(await file.arrayBuffer()));
+  });
+
+  it('counts repeated frames once', async () => {
+    const sender = await createTransferSender(sampleFile(1000), BLOCK_SIZE);
+    const frame = parseTransferFrame(sender.frame(0));
+    const receiver = createTransferReceiver(frame);
+    receiver.add(frame);
+    expect(receiver.progress().frames).toBe(1);
+  });
+
+  it('ignores frames of another transfer', async () => {
+    const a = await createTransferSender(sampleFile(1000), BLOCK_SIZE);
+    const b = await createTransferSender(sampleFile(1000), BLOCK_SIZE);
+    const receiver = createTransferReceiver(parseTransferFrame(a.frame(0)));
+    receiver.add(parseTransferFrame(b.frame(1)));
+    expect(receiver.progress().frames).toBe(1);
+  });
+
+  it('rejects a frame that claims the transfer with another layout', async () => {
+    const sender = await createTransferSender(sampleFile(1000), BLOCK_SIZE);
+    const first = parseTransferFrame(sender.frame(0));
+    const receiver = createTransferReceiver(first);
+    const forged = { ...first, frameId: 1, blockSize: 100, payload: new Uint8Array(100) };
+    expect(() => receiver.add(parseTransferFrame(encodeTransferFrame(forged)))).toThrow(TransferError);
+    expect(() => receiver.add({ ...first, frameId: 2, sourceLength: first.sourceLength + 1 })).toThrow(TransferError);
+    expect(receiver.progress().frames).toBe(1);
+  });
+
+  it('refuses to finish before every block is known', async () => {
+    const sender = await createTransferSender(sampleFile(1000), BLOCK_SIZE);
+    const receiver = createTransferReceiver(parseTransferFrame(sender.frame(0)));
+    await expect(receiver.finish()).rejects.toThrow(TransferError);
+  });
+
+  it('rejects malformed and oversized frames', () => {
+    expect(() => parseTransferFrame('hello')).toThrow(TransferError);
+    expect(() => parseTransferFrame('QRF1:!!!')).toThrow('Bozuk');
+    const huge = encodeTransferFrame({ transferId: 1, sourceLength: 0xffffffff, blockSize: 100, frameId: 0, payload: new Uint8Array(100) });
+    expect(() => parseTransferFrame(huge)).toThrow('Desteklenmeyen');
+  });
+
+  it('refuses files over the size limit', async () => {
+    await expect(createTransferSender(sampleFile(600 * 1024), BLOCK_SIZE)).rejects.toThrow(TransferError);
+  });
+});
@@ -0,0 +1,244 @@
+import { decodeBase45, encodeBase45 } from './base45';
+
+// Offline file transfer as an animated stream of QR frames. The file is cut into blocks and
+// sent with an LT fountain code: the first pass carries each block once, every later frame XORs
+// a random set of blocks, so the receiver can join late, miss frames and still finish once it
+// has caught a few more frames than there are blocks.
+
+// Base45 keeps every frame in alphanumeric mode, which the native reader and jsQR return intact
+export const TRANSFER_PREFIX = 'QRF1:';
+export const MAX_TRANSFER_SIZE = 512 * 1024;
+// The header is untrusted input: these bound what a receiver will allocate for one transfer
+const MAX_META_SIZE = 4096;
+const MAX_SOURCE_LENGTH = 2 + MAX_META_SIZE + MAX_TRANSFER_SIZE;
+const MAX_BLOCK_SIZE = 2048;
+const MAX_BLOCK_COUNT = 8192;
+
+// Transfer id, source length, block size and frame id, all big-endian
+const HEADER_SIZE = 14;
+
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+// Travels inside the coded data, ahead of the file itself
+export interface TransferMeta {
+  name: string;
+  type: string;
+  size: number;
+  sha256: string;
+}
+
+export interface TransferFrame {
+  transferId: number;
+  sourceLength: number;
+  blockSize: number;
+  frameId: number;
+  payload: Uint8Array;
+}
+
+export const formatFileSize = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+export const isTransferFrame = (text: string) => text.startsWith(TRANSFER_PREFIX);
+
+export const encodeTransferFrame = (frame: TransferFrame) => {
+  const bytes = new Uint8Array(HEADER_SIZE + frame.payload.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, frame.transferId);
+  view.setUint32(4, frame.sourceLength);
+  view.setUint16(8, frame.blockSize);
+  view.setUint32(10, frame.frameId);
+  bytes.set(frame.payload, HEADER_SIZE);
+  return TRANSFER_PREFIX + encodeBase45(bytes);
+};
+
+export const parseTransferFrame = (text: string): TransferFrame => {
+  if (!isTransferFrame(text)) throw new TransferError('Dosya aktarım karesi değil');
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase45(text.slice(TRANSFER_PREFIX.length));
+  } catch {
+    throw new TransferError('Bozuk aktarım karesi');
+  }
+  const view = new DataView(bytes.buffer);
+  const blockSize = bytes.length >= HEADER_SIZE ? view.getUint16(8) : 0;
+  if (!blockSize || blockSize > MAX_BLOCK_SIZE || bytes.length !== HEADER_SIZE + blockSize) throw new TransferError('Bozuk aktarım karesi');
+  const sourceLength = view.getUint32(4);
+  if (sourceLength <= 2 || sourceLength > MAX_SOURCE_LENGTH || Math.ceil(sourceLength / blockSize) > MAX_BLOCK_COUNT) {
+    throw new TransferError('Desteklenmeyen aktarım boyutu');
+  }
+  return {
+    transferId: view.getUint32(0),
+    sourceLength,
+    blockSize,
+    frameId: view.getUint32(10),
+    payload: bytes.slice(HEADER_SIZE)
+  };
+};
+
+export const sha256Hex = async (bytes: Uint8Array) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+// LT code. Sender and receiver derive each frame's block set from its id, so only the id travels.
+
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const SOLITON_C = 0.03;
+const SOLITON_DELTA = 0.5;
+
+// Cumulative robust soliton distribution over degrees 1..k
+const robustSoliton = (k: number) => {
+  const weights = new Float64Array(k + 1);
+  const r = SOLITON_C * Math.log(k / SOLITON_DELTA) * Math.sqrt(k);
+  const spike = Math.min(k, Math.max(1, Math.floor(k / r)));
+  for (let d = 1; d <= k; d++) {
+    weights[d] = d === 1 ? 1 / k : 1 / (d * (d - 1));
+    if (d < spike) weights[d] += r / (d * k);
+    else if (d === spike) weights[d] += Math.max(0, (r * Math.log(r / SOLITON_DELTA)) / k);
+  }
+  const total = weights.reduce((a, b) => a + b, 0);
+  const cdf = new Float64Array(k + 1);
+  for (let d = 1; d <= k; d++) cdf[d] = cdf[d - 1] + weights[d] / total;
+  return cdf;
+};
+
+const frameBlocks = (frameId: number, transferId: number, k: number, cdf: Float64Array) => {
+  if (frameId < k) return [frameId];
+  const random = mulberry32((transferId ^ Math.imul(frameId, 0x9e3779b1)) >>> 0);
+  const x = random();
+  let degree = 1;
+  while (degree < k && cdf[degree] < x) degree++;
+  // Partial Fisher-Yates shuffle picks distinct blocks
+  const pool = Array.from({ length: k }, (_, i) => i);
+  for (let i = 0; i < degree; i++) {
+    const j = i + Math.floor(random() * (k - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, degree);
+};
+
+const xorInto = (target: Uint8Array, source: Uint8Array) => {
+  for (let i = 0; i < target.length; i++) target[i] ^= source[i];
+};
+
+export const createTransferSender = async (file: File, blockSize: number) => {
+  if (file.size > MAX_TRANSFER_SIZE) throw new TransferError(`Dosya en fazla ${MAX_TRANSFER_SIZE / 1024} KB olabilir`);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const meta: TransferMeta = { name: file.name, type: file.type, size: bytes.length, sha256: await sha256Hex(bytes) };
+  const metaBytes = new TextEncoder().encode(JSON.stringify(meta));
+  if (metaBytes.length > MAX_META_SIZE) throw new TransferError('Dosya adı çok uzun');
+  if (Math.ceil((2 + metaBytes.length + bytes.length) / blockSize) > MAX_BLOCK_COUNT) throw new TransferError('Blok boyutu bu dosya için çok küçük');
+  const sourceLength = 2 + metaBytes.length + bytes.length;
+  const k = Math.ceil(sourceLength / blockSize);
+  // Zero padding fills the last block
+  const source = new Uint8Array(k * blockSize);
+  new DataView(source.buffer).setUint16(0, metaBytes.length);
+  source.set(metaBytes, 2);
+  source.set(bytes, 2 + metaBytes.length);
+  const transferId = crypto.getRandomValues(new Uint32Array(1))[0];
+  const cdf = robustSoliton(k);
+
+  return {
+    meta,
+    blockCount: k,
+    frame: (frameId: number) => {
+      const payload = new Uint8Array(blockSize);
+      for (const i of frameBlocks(frameId, transferId, k, cdf)) xorInto(payload, source.subarray(i * blockSize, (i + 1) * blockSize));
+      return encodeTransferFrame({ transferId, sourceLength, blockSize, frameId, payload });
+    }
+  };
+};
+
+export type TransferSender = Awaited<ReturnType<typeof createTransferSender>>;
+
+export interface TransferProgress {
+  frames: number;
+  decoded: number;
+  blockCount: number;
+}
+
+// Peeling decoder: a frame whose blocks are all known but one reveals that block, which may in
+// turn reduce frames waiting in the pending list
+export const createTransferReceiver = (first: TransferFrame) => {
+  const { transferId, sourceLength, blockSize } = first;
+  const k = Math.ceil(sourceLength / blockSize);
+  const cdf = robustSoliton(k);
+  const known: Array<Uint8Array | undefined> = new Array(k).fill(undefined);
+  const seen = new Set<number>();
+  let pending: Array<{ blocks: number[]; data: Uint8Array }> = [];
+  let decoded = 0;
+
+  const learn = (index: number, data: Uint8Array) => {
+    const queue: Array<[number, Uint8Array]> = [[index, data]];
+    while (queue.length) {
+      const [i, block] = queue.pop() as [number, Uint8Array];
+      if (known[i]) continue;
+      known[i] = block;
+      decoded++;
+      for (const eq of pending) {
+        const at = eq.blocks.indexOf(i);
+        if (at < 0) continue;
+        xorInto(eq.data, block);
+        eq.blocks.splice(at, 1);
+        if (eq.blocks.length === 1) queue.push([eq.blocks[0], eq.data]);
+      }
+      pending = pending.filter(eq => eq.blocks.length > 1);
+    }
+  };
+
+  // Frames of another transfer are ignored; one claiming this transfer with a different layout
+  // would be merged into the wrong blocks, so it is rejected
+  const add = (frame: TransferFrame) => {
+    if (frame.transferId !== transferId) return;
+    if (frame.sourceLength !== sourceLength || frame.blockSize !== blockSize) throw new TransferError('Aktarımla uyuşmayan kare');
+    if (seen.has(frame.frameId) || decoded === k) return;
+    seen.add(frame.frameId);
+    const data = frame.payload.slice();
+    const blocks = frameBlocks(frame.frameId, transferId, k, cdf).filter(i => {
+      const block = known[i];
+      if (block) xorInto(data, block);
+      return !block;
+    });
+    if (blocks.length === 1) learn(blocks[0], data);
+    else if (blocks.length > 1) pending.push({ blocks, data });
+  };
+
+  add(first);
+
+  return {
+    transferId,
+    add,
+    progress: (): TransferProgress => ({ frames: seen.size, decoded, blockCount: k }),
+    isComplete: () => decoded === k,
+    // Throws when the reassembled file does not match the sender's size or hash
+    finish: async () => {
+      const source = new Uint8Array(k * blockSize);
+      known.forEach((block, i) => {
+        if (!block) throw new TransferError('Aktarım henüz tamamlanmadı');
+        source.set(block, i * blockSize);
+      });
+      const metaLength = new DataView(source.buffer).getUint16(0);
+      let meta: TransferMeta;
+      try {
+        meta = JSON.parse(new TextDecoder().decode(source.subarray(2, 2 + metaLength)));
+      } catch {
+        throw new TransferError('Dosya bilgisi okunamadı');
+      }
+      const bytes = source.slice(2 + metaLength, sourceLength);
+      if (bytes.length !== meta.size || (await sha256Hex(bytes)) !== meta.sha256) {
+        throw new TransferError('Dosya doğrulanamadı: SHA-256 özeti tutmuyor');
+      }
+      return { meta, bytes };
+    }
+  };
+};
+
+export type TransferReceiver = ReturnType<typeof createTransferReceiver>;
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { buildGeoPayload, buildMapUrl, generateGeoString, normalizeGeoInput, parseCoordinate, parseGeo } from './geo';
+
+describe('geo URIs', () => {
+  it('parses back what it generates', () => {
+    const extras = { alt: '40', uncertainty: '25', crs: 'nad27', label: 'Galata Kulesi & Çevresi' };
+    const data = generateGeoString('41.025631', '28.974158', extras);
+    expect(parseGeo(data)).toEqual({ lat: '41.025631', lng: '28.974158', ...extras });
+  });
+
+  it('leaves the default wgs84 reference system implicit', () => {
+    expect(generateGeoString('1', '2', { crs: 'WGS84' })).toBe('geo:1,2');
+  });
+
+  it('reads the Android "geo:0,0?q=lat,lng(Label)" form', () => {
+    expect(parseGeo('geo:0,0?q=41.0082,28.9784(Ayasofya)')).toEqual({ lat: '41.0082', lng: '28.9784', label: 'Ayasofya' });
+  });
+
+  it('reads upper-case schemes and plus-encoded labels', () => {
+    expect(parseGeo('GEO:41,29?q=Kız+Kulesi')).toEqual({ lat: '41', lng: '29', label: 'Kız Kulesi' });
+  });
+});
+
+describe('parseCoordinate', () => {
+  it.each([
+    ['41.0082', 41.0082],
+    ['41,0082', 41.0082],
+    ['-73.9857', -73.9857],
+    ['41°00\'29.5"N', 41 + 29.5 / 3600],
+    ['41 0 29.5 K', 41 + 29.5 / 3600],
+    ['28° 58\' 42" D', 28 + 58 / 60 + 42 / 3600],
+    ['33°52\'S', -(33 + 52 / 60)],
+    ['B 74° 0.5\'', -(74 + 0.5 / 60)]
+  ])('reads %s', (input, expected) => {
+    expect(parseCoordinate(input)).toBeCloseTo(expected, 9);
+  });
+
+  it.each(['', 'abc', '41°61\'', '1 2 3 4'])('rejects %j', input => {
+    expect(parseCoordinate(input)).toBeNull();
+  });
+});
+
+describe('normalizeGeoInput', () => {
+  it('flags coordinates out of range', () => {
+    const { errors } = normalizeGeoInput({ lat: '91', lng: '-181', alt: 'yüksek', uncertainty: '-5' });
+    expect(Object.keys(errors).sort()).toEqual(['alt', 'lat', 'lng', 'uncertainty']);
+  });
+
+  it('turns DMS input into decimal degrees in the payload', () => {
+    expect(buildGeoPayload({ lat: '41°00\'29.5"N', lng: '28°58\'42"E' })).toBe('geo:41.008194,28.978333');
+  });
+});
+
+describe('buildMapUrl', () => {
+  const geo = { lat: '41.0082', lng: '28.9784', label: 'Ayasofya' };
+
+  it('builds a link for each provider', () => {
+    expect(buildMapUrl(geo, { provider: 'google', customTemplate: '' })).toBe('https://www.google.com/maps/search/?api=1&query=41.0082,28.9784');
+    expect(buildMapUrl(geo, { provider: 'osm', customTemplate: '' })).toBe('https://www.openstreetmap.org/?mlat=41.0082&mlon=28.9784#map=17/41.0082/28.9784');
+    expect(buildMapUrl(geo, { provider: 'apple', customTemplate: '' })).toBe('https://maps.apple.com/?ll=41.0082,28.9784&q=Ayasofya');
+    expect(buildMapUrl(geo, { provider: 'custom', customTemplate: 'https://harita.example/{lat}/{lng}?ad={label}' })).toBe(
+      'https://harita.example/41.0082/28.9784?ad=Ayasofya'
+    );
+  });
+
+  it('searches by name for "geo:0,0?q=..." codes', () => {
+    expect(buildMapUrl({ lat: '0', lng: '0', label: 'Kız Kulesi' }, { provider: 'google', customTemplate: '' })).toBe(
+      'https://www.google.com/maps/search/?api=1&query=K%C4%B1z%20Kulesi'
+    );
+  });
+});
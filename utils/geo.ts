@@ -0,0 +1,179 @@
+import { GeoConfig, MapProvider, MapSettings } from '../types';
+import { safeDecode } from './encoding';
+
+// geo:lat,lng[,alt][;crs=..][;u=..][;param=..][?q=label] (RFC 5870, plus the Android ?q= extension)
+export const parseGeo = (data: string): GeoConfig => {
+  const body = data.replace(/^geo:/i, '');
+  const queryStart = body.indexOf('?');
+  const path = queryStart === -1 ? body : body.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : body.slice(queryStart + 1);
+
+  const [coords, ...params] = path.split(';');
+  const [lat = '', lng = '', alt] = coords.split(',').map(v => v.trim());
+  const config: GeoConfig = { lat, lng };
+  if (alt) config.alt = alt;
+
+  for (const param of params) {
+    const eq = param.indexOf('=');
+    const key = (eq === -1 ? param : param.slice(0, eq)).toLowerCase();
+    const value = eq === -1 ? '' : safeDecode(param.slice(eq + 1));
+    if (key === 'crs') config.crs = value.toLowerCase();
+    else if (key === 'u') config.uncertainty = value;
+  }
+
+  for (const pair of query.split('&')) {
+    const eq = pair.indexOf('=');
+    if (eq === -1 || pair.slice(0, eq).toLowerCase() !== 'q') continue;
+    const q = safeDecode(pair.slice(eq + 1).replace(/\+/g, ' '));
+    // Android writes "q=lat,lng(Label)"; keep just the label
+    const labelMatch = q.match(/^\s*(?:([-+]?\d+(?:\.\d+)?)\s*,\s*([-+]?\d+(?:\.\d+)?))?\s*\(([^)]*)\)\s*$/);
+    if (labelMatch) {
+      config.label = labelMatch[3];
+      // "geo:0,0?q=lat,lng(Label)" carries the real position in the query
+      if (labelMatch[1] && parseFloat(lat) === 0 && parseFloat(lng) === 0) {
+        config.lat = labelMatch[1];
+        config.lng = labelMatch[2];
+      }
+    } else {
+      config.label = q;
+    }
+  }
+
+  return config;
+};
+
+export const generateGeoString = (lat: string, lng: string, extras: Omit<GeoConfig, 'lat' | 'lng'> = {}) => {
+  let result = `geo:${lat},${lng}`;
+  if (extras.alt) result += `,${extras.alt}`;
+  // wgs84 is the RFC default and is left implicit
+  if (extras.crs && extras.crs.toLowerCase() !== 'wgs84') result += `;crs=${encodeURIComponent(extras.crs)}`;
+  if (extras.uncertainty) result += `;u=${extras.uncertainty}`;
+  if (extras.label) result += `?q=${encodeURIComponent(extras.label)}`;
+  return result;
+};
+
+// Hemisphere letters in English and Turkish (Kuzey, Güney, Doğu, Batı)
+const NEGATIVE_HEMISPHERES = ['S', 'W', 'G', 'B'];
+const HEMISPHERE_RE = /^([NSEWKGDB])|([NSEWKGDB])$/i;
+
+// Accepts decimal degrees ("41.0082", "41,0082") or degrees-minutes-seconds ("41°00'29.5\"N", "41 0 29.5 K", "N 41° 0.49'")
+export const parseCoordinate = (input: string): number | null => {
+  let value = input.trim();
+  if (!value) return null;
+  if (/^[-+]?\d+,\d+$/.test(value)) value = value.replace(',', '.');
+  if (/^[-+]?\d+(\.\d+)?$/.test(value)) return parseFloat(value);
+
+  let sign = 1;
+  const hemisphere = value.match(HEMISPHERE_RE);
+  if (hemisphere) {
+    const letter = (hemisphere[1] || hemisphere[2]).toUpperCase();
+    if (NEGATIVE_HEMISPHERES.includes(letter)) sign = -1;
+    value = value.replace(HEMISPHERE_RE, '').trim();
+  }
+  if (value.startsWith('-')) {
+    sign = -sign;
+    value = value.slice(1);
+  }
+  if (!/^[\d\s°º'′"″:.,]+$/.test(value)) return null;
+
+  const parts = value.replace(/(\d),(\d)/g, '$1.$2').match(/\d+(?:\.\d+)?/g);
+  if (!parts || parts.length > 3) return null;
+  const [deg, min = 0, sec = 0] = parts.map(Number);
+  if (min >= 60 || sec >= 60) return null;
+  return sign * (deg + min / 60 + sec / 3600);
+};
+
+export interface GeoInputErrors {
+  lat?: string;
+  lng?: string;
+  alt?: string;
+  uncertainty?: string;
+}
+
+export interface NormalizedGeo {
+  lat: number | null;
+  lng: number | null;
+  errors: GeoInputErrors;
+}
+
+export const normalizeGeoInput = (geo: GeoConfig): NormalizedGeo => {
+  const errors: GeoInputErrors = {};
+  const lat = parseCoordinate(geo.lat);
+  const lng = parseCoordinate(geo.lng);
+
+  if (geo.lat.trim() && lat === null) errors.lat = 'Geçersiz enlem biçimi';
+  else if (lat !== null && (lat < -90 || lat > 90)) errors.lat = 'Enlem -90 ile 90 arasında olmalı';
+  if (geo.lng.trim() && lng === null) errors.lng = 'Geçersiz boylam biçimi';
+  else if (lng !== null && (lng < -180 || lng > 180)) errors.lng = 'Boylam -180 ile 180 arasında olmalı';
+  if (geo.alt && !/^[-+]?\d+(\.\d+)?$/.test(geo.alt.trim())) errors.alt = 'Rakım metre cinsinden sayı olmalı';
+  if (geo.uncertainty && !/^\d+(\.\d+)?$/.test(geo.uncertainty.trim())) errors.uncertainty = 'Hassasiyet pozitif bir sayı olmalı';
+
+  return { lat, lng, errors };
+};
+
+// Six decimals is ~10 cm, well beyond what phones report
+export const formatCoordinate = (value: number) => parseFloat(value.toFixed(6)).toString();
+
+export const MAP_PROVIDERS: Array<{ id: MapProvider; label: string }> = [
+  { id: 'google', label: 'Google Haritalar' },
+  { id: 'osm', label: 'OpenStreetMap' },
+  { id: 'apple', label: 'Apple Haritalar' },
+  { id: 'custom', label: 'Özel URL Şablonu' }
+];
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = { provider: 'google', customTemplate: 'https://example.com/map?lat={lat}&lng={lng}' };
+
+const MAP_SETTINGS_KEY = 'qr-map-settings';
+
+export const loadMapSettings = (): MapSettings => {
+  try {
+    const saved = localStorage.getItem(MAP_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_MAP_SETTINGS, ...JSON.parse(saved) } : DEFAULT_MAP_SETTINGS;
+  } catch {
+    return DEFAULT_MAP_SETTINGS;
+  }
+};
+
+export const saveMapSettings = (settings: MapSettings) => {
+  localStorage.setItem(MAP_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const buildMapUrl = (geo: GeoConfig, settings: MapSettings = loadMapSettings()) => {
+  const lat = encodeURIComponent(geo.lat);
+  const lng = encodeURIComponent(geo.lng);
+  const label = encodeURIComponent(geo.label || '');
+
+  switch (settings.provider) {
+    case 'osm':
+      return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=17/${lat}/${lng}`;
+    case 'apple':
+      return `https://maps.apple.com/?ll=${lat},${lng}&q=${label || 'Konum'}`;
+    case 'custom':
+      return settings.customTemplate
+        .replace(/\{lat\}/g, lat)
+        .replace(/\{lng\}/g, lng)
+        .replace(/\{alt\}/g, encodeURIComponent(geo.alt || ''))
+        .replace(/\{label\}/g, label);
+    default:
+      // "geo:0,0?q=..." is the Android idiom for a search by name
+      if (parseFloat(geo.lat) === 0 && parseFloat(geo.lng) === 0 && label) {
+        return `https://www.google.com/maps/search/?api=1&query=${label}`;
+      }
+      return `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
+  }
+};
+
+// Generator input may be DMS; the payload always carries normalised decimal degrees
+export const buildGeoPayload = (geo: GeoConfig) => {
+  const { lat, lng } = normalizeGeoInput(geo);
+  return generateGeoString(
+    lat !== null ? formatCoordinate(lat) : geo.lat.trim(),
+    lng !== null ? formatCoordinate(lng) : geo.lng.trim(),
+    {
+      alt: geo.alt?.trim(),
+      uncertainty: geo.uncertainty?.trim(),
+      crs: geo.crs,
+      label: geo.label?.trim()
+    }
+  );
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { GROUP_SEPARATOR, gs1CheckDigit, isValidGtin, parseGs1, parseGs1Date, toGs1DigitalLink, toGs1HumanReadable } from './gs1';
+
+const NOW = new Date(2025, 5, 15);
+
+describe('gs1CheckDigit', () => {
+  it.each([
+    ['400638133393', 1],
+    ['03600029145', 2],
+    ['9638507', 4],
+    ['0950600013435', 2],
+    ['10614141234567890', 8]
+  ])('computes the check digit of %s', (digits, expected) => {
+    expect(gs1CheckDigit(digits)).toBe(expected);
+  });
+
+  it('validates whole GTINs', () => {
+    expect(isValidGtin('4006381333931')).toBe(true);
+    expect(isValidGtin('4006381333932')).toBe(false);
+    expect(isValidGtin('12345')).toBe(false);
+  });
+});
+
+describe('parseGs1Date', () => {
+  it('reads YYMMDD with day 00 as the last day of the month', () => {
+    expect(parseGs1Date('251231', NOW)).toEqual(new Date(2025, 11, 31));
+    expect(parseGs1Date('240200', NOW)).toEqual(new Date(2024, 1, 29));
+  });
+
+  it('slides the century around the current year', () => {
+    expect(parseGs1Date('991231', NOW)?.getFullYear()).toBe(1999);
+    expect(parseGs1Date('740101', NOW)?.getFullYear()).toBe(2074);
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseGs1Date('251301', NOW)).toBeNull();
+    expect(parseGs1Date('250230', NOW)).toBeNull();
+  });
+});
+
+describe('parseGs1', () => {
+  const elements = [
+    ['01', '04006381333931'],
+    ['17', '251231'],
+    ['10', 'ABC-12'],
+    ['3103', '001250']
+  ];
+
+  it('reads bracketed, concatenated and Digital Link forms alike', () => {
+    const bracketed = parseGs1('(01)04006381333931(17)251231(10)ABC-12(3103)001250', NOW);
+    const concatenated = parseGs1(`]d201040063813339311725123110ABC-12${GROUP_SEPARATOR}3103001250`, NOW);
+    const link = parseGs1('https://id.gs1.org/01/04006381333931/10/ABC-12?17=251231&3103=001250', NOW);
+    for (const payload of [bracketed, concatenated]) {
+      expect(payload.elements.map(e => [e.ai, e.value])).toEqual(elements);
+      expect(payload.elements.every(e => !e.error)).toBe(true);
+    }
+    expect(link.elements.map(e => [e.ai, e.value]).sort()).toEqual(elements.slice().sort());
+    expect(link.digitalLink).toBeDefined();
+  });
+
+  it('formats decimal AIs with their unit', () => {
+    const weight = parseGs1('(01)04006381333931(3103)001250', NOW).elements[1];
+    expect(weight.display).toBe('1,250 kg');
+  });
+
+  it('reports the expiry date and whether it has passed', () => {
+    expect(parseGs1('(01)04006381333931(17)251231', NOW)).toMatchObject({ expiry: '2025-12-31', expired: false });
+    expect(parseGs1('(01)04006381333931(17)250101', NOW)).toMatchObject({ expiry: '2025-01-01', expired: true });
+  });
+
+  it('flags a wrong check digit', () => {
+    expect(parseGs1('(01)04006381333932', NOW).elements[0].error).toContain('Kontrol basamağı');
+  });
+
+  it('reads a bare GTIN as its (01) element', () => {
+    expect(parseGs1('4006381333931', NOW).elements.map(e => [e.ai, e.value])).toEqual([['01', '04006381333931']]);
+  });
+
+  it('converts between element strings and Digital Link', () => {
+    const payload = parseGs1('(01)04006381333931(10)ABC/12(17)251231', NOW);
+    const link = toGs1DigitalLink(payload);
+    expect(link).toBe('https://id.gs1.org/01/04006381333931/10/ABC%2F12?17=251231');
+    expect(toGs1HumanReadable(parseGs1(link!, NOW))).toBe('(01)04006381333931(10)ABC/12(17)251231');
+  });
+
+  it('has no Digital Link without a primary key', () => {
+    expect(toGs1DigitalLink(parseGs1('(17)251231(10)ABC', NOW))).toBeNull();
+  });
+});
@@ -0,0 +1,319 @@
+import { Gs1Element, Gs1Payload } from '../types';
+
+// GS1 element strings, "(01)09506000134352(17)251231(10)ABC" or the same with FNC1 separators
+// as scanners deliver them, and GS1 Digital Link URLs such as
+// https://id.gs1.org/01/09506000134352/10/ABC?17=251231
+
+export const GS1_RESOLVER = 'https://id.gs1.org';
+export const GROUP_SEPARATOR = '\u001d';
+
+// Symbology identifiers some scanners prefix GS1 data with (GS1-128, DataBar, Data Matrix, QR)
+const SYMBOLOGY_ID_RE = /^\](C1|e0|d2|Q3|J1)/;
+// GTIN-8, -12 (UPC-A), -13 (EAN-13) and -14 on their own
+const BARE_GTIN_RE = /^(\d{8}|\d{12,14})$/;
+// GS1 AI encodable character set 82; no spaces
+const CSET82_RE = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/;
+
+type AiKind = 'check' | 'date' | 'datetime' | 'decimal' | 'numeric' | 'text';
+
+interface AiDefinition {
+  label: string;
+  kind: AiKind;
+  min: number;
+  max: number;
+  unit?: string;
+}
+
+const def = (label: string, kind: AiKind, min: number, max = min, unit?: string): AiDefinition => ({ label, kind, min, max, unit });
+
+// Keyed by AI; three-digit keys of decimal AIs stand for the four-digit AI whose last digit is
+// the number of decimals, e.g. 3103 is a net weight in kg with three decimals
+const AIS: Record<string, AiDefinition> = {
+  '00': def('SSCC (lojistik birim)', 'check', 18),
+  '01': def('GTIN', 'check', 14),
+  '02': def('İçerikteki GTIN', 'check', 14),
+  '10': def('Parti / Lot', 'text', 1, 20),
+  '11': def('Üretim tarihi', 'date', 6),
+  '12': def('Vade tarihi', 'date', 6),
+  '13': def('Ambalajlama tarihi', 'date', 6),
+  '15': def('Tavsiye edilen tüketim tarihi', 'date', 6),
+  '16': def('Son satış tarihi', 'date', 6),
+  '17': def('Son kullanma tarihi', 'date', 6),
+  '20': def('Ürün varyantı', 'numeric', 2),
+  '21': def('Seri numarası', 'text', 1, 20),
+  '22': def('Tüketici ürün varyantı', 'text', 1, 20),
+  '235': def('Üçüncü taraf seri numarası', 'text', 1, 28),
+  '240': def('Ek ürün kimliği', 'text', 1, 30),
+  '241': def('Müşteri parça numarası', 'text', 1, 30),
+  '250': def('İkincil seri numarası', 'text', 1, 30),
+  '251': def('Kaynak varlık referansı', 'text', 1, 30),
+  '253': def('GDTI (belge türü)', 'text', 13, 30),
+  '254': def('GLN uzantısı', 'text', 1, 20),
+  '255': def('GCN (kupon)', 'text', 13, 25),
+  '30': def('Değişken adet', 'numeric', 1, 8),
+  '310': def('Net ağırlık', 'decimal', 6, 6, 'kg'),
+  '311': def('Uzunluk', 'decimal', 6, 6, 'm'),
+  '312': def('Genişlik', 'decimal', 6, 6, 'm'),
+  '313': def('Yükseklik', 'decimal', 6, 6, 'm'),
+  '315': def('Net hacim', 'decimal', 6, 6, 'l'),
+  '316': def('Net hacim', 'decimal', 6, 6, 'm³'),
+  '320': def('Net ağırlık', 'decimal', 6, 6, 'lb'),
+  '330': def('Brüt ağırlık', 'decimal', 6, 6, 'kg'),
+  '37': def('Adet', 'numeric', 1, 8),
+  '390': def('Ödenecek tutar', 'decimal', 1, 15),
+  '392': def('Ödenecek tutar (tek ürün)', 'decimal', 1, 15),
+  '400': def('Sipariş numarası', 'text', 1, 30),
+  '401': def('GINC (sevkiyat)', 'text', 1, 30),
+  '402': def('GSIN (gönderi)', 'check', 17),
+  '403': def('Yönlendirme kodu', 'text', 1, 30),
+  '410': def('Teslim yeri GLN', 'check', 13),
+  '411': def('Fatura adresi GLN', 'check', 13),
+  '412': def('Tedarikçi GLN', 'check', 13),
+  '413': def('Nihai alıcı GLN', 'check', 13),
+  '414': def('Konum GLN', 'check', 13),
+  '415': def('Fatura kesen GLN', 'check', 13),
+  '416': def('Üretim yeri GLN', 'check', 13),
+  '417': def('Taraf GLN', 'check', 13),
+  '420': def('Teslim posta kodu', 'text', 1, 20),
+  '422': def('Menşe ülke', 'numeric', 3),
+  '7003': def('Son kullanma tarihi ve saati', 'datetime', 10),
+  '8003': def('GRAI (iade edilebilir varlık)', 'text', 14, 30),
+  '8004': def('GIAI (bireysel varlık)', 'text', 1, 30),
+  '8006': def('ITIP (ürün parçası)', 'numeric', 18),
+  '8017': def('GSRN (hizmet sağlayıcı)', 'check', 18),
+  '8018': def('GSRN (hizmet alıcı)', 'check', 18),
+  '8020': def('Ödeme referansı', 'text', 1, 25),
+  '90': def('Şirket içi bilgi', 'text', 1, 30),
+  ...Object.fromEntries(['91', '92', '93', '94', '95', '96', '97', '98', '99'].map(ai => [ai, def('Şirket içi bilgi', 'text', 1, 90)]))
+};
+
+// AIs whose data has a predefined length, so no FNC1 follows them (by their first two digits)
+const PREDEFINED_LENGTH = ['00', '01', '02', '03', '04', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20', '31', '32', '33', '34', '35', '36', '41'];
+
+// Digital Link primary keys; qualifiers and attributes hang off one of these
+const PRIMARY_KEYS = ['01', '00', '253', '255', '401', '402', '414', '417', '8003', '8004', '8006', '8017', '8018'];
+// Qualifiers that belong in the path after a primary key, in their required order
+const KEY_QUALIFIERS: Record<string, string[]> = {
+  '01': ['22', '10', '21'],
+  '414': ['254']
+};
+
+// Returns the AI at the start of the data and its definition
+const lookupAi = (data: string) => {
+  for (const length of [2, 3, 4]) {
+    const definition = AIS[data.slice(0, length)];
+    if (!definition) continue;
+    const ai = definition.kind === 'decimal' ? data.slice(0, 4) : data.slice(0, length);
+    if (definition.kind === 'decimal' && !/^\d{4}$/.test(ai)) return null;
+    return { ai, definition };
+  }
+  return null;
+};
+
+const definitionFor = (ai: string) => {
+  const decimal = ai.length === 4 ? AIS[ai.slice(0, 3)] : undefined;
+  return AIS[ai] ?? (decimal?.kind === 'decimal' ? decimal : undefined);
+};
+
+// Mod 10 with weights 3 and 1 from the right, as for GTIN, GLN and SSCC
+export const gs1CheckDigit = (digits: string) => {
+  let sum = 0;
+  for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = 4 - weight) sum += (digits.charCodeAt(i) - 48) * weight;
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidGtin = (value: string) =>
+  BARE_GTIN_RE.test(value) && gs1CheckDigit(value.slice(0, -1)) === Number(value.slice(-1));
+
+// YYMMDD with the GS1 sliding century; day 00 is the last day of the month
+export const parseGs1Date = (value: string, now = new Date()) => {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const [yy, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const currentYear = now.getFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  const diff = yy - (currentYear % 100);
+  const year = century + yy + (diff >= 51 ? -100 : diff <= -50 ? 100 : 0);
+  if (month < 1 || month > 12) return null;
+  const lastDay = new Date(year, month, 0).getDate();
+  if (day > lastDay) return null;
+  return new Date(year, month - 1, day || lastDay);
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('tr-TR');
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const describe = (ai: string, value: string, now: Date): Gs1Element => {
+  const definition = definitionFor(ai);
+  if (!definition) return { ai, label: `AI ${ai}`, value, display: value };
+  const element: Gs1Element = { ai, label: definition.label, value, display: value };
+  const numeric = definition.kind !== 'text';
+  if (numeric && !/^\d+$/.test(value)) return { ...element, error: 'Yalnızca rakam içermeli' };
+  if (!CSET82_RE.test(value)) return { ...element, error: 'GS1 karakter kümesi dışında karakter içeriyor' };
+  if (value.length < definition.min || value.length > definition.max) {
+    return {
+      ...element,
+      error: definition.min === definition.max ? `${definition.min} karakter olmalı` : `${definition.min}-${definition.max} karakter olmalı`
+    };
+  }
+  switch (definition.kind) {
+    case 'check': {
+      const expected = gs1CheckDigit(value.slice(0, -1));
+      return expected === Number(value.slice(-1)) ? element : { ...element, error: `Kontrol basamağı hatalı (beklenen ${expected})` };
+    }
+    case 'date': {
+      const date = parseGs1Date(value, now);
+      return date ? { ...element, display: formatDate(date) } : { ...element, error: 'Geçersiz tarih' };
+    }
+    case 'datetime': {
+      const date = parseGs1Date(value.slice(0, 6), now);
+      const hours = Number(value.slice(6, 8));
+      const minutes = Number(value.slice(8, 10));
+      if (!date || hours > 23 || minutes > 59) return { ...element, error: 'Geçersiz tarih' };
+      return { ...element, display: `${formatDate(date)} ${value.slice(6, 8)}:${value.slice(8, 10)}` };
+    }
+    case 'decimal': {
+      const decimals = Number(ai[3]);
+      const amount = Number(value) / 10 ** decimals;
+      const formatted = new Intl.NumberFormat('tr-TR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(amount);
+      return { ...element, display: definition.unit ? `${formatted} ${definition.unit}` : formatted };
+    }
+    default:
+      return element;
+  }
+};
+
+// Expiry is AI 17 (or 7003); an item is expired from the day after its date
+const withExpiry = (elements: Gs1Element[], now: Date, extra: Partial<Gs1Payload> = {}): Gs1Payload => {
+  const expiryElement = elements.find(e => (e.ai === '17' || e.ai === '7003') && !e.error);
+  const expiryDate = expiryElement ? parseGs1Date(expiryElement.value.slice(0, 6), now) : null;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return {
+    elements,
+    expiry: expiryDate ? toIsoDate(expiryDate) : undefined,
+    expired: !!expiryDate && expiryDate < today,
+    ...extra
+  };
+};
+
+// "(01)...(10)..." as printed under the barcode
+const parseBracketed = (data: string) => {
+  const elements: Array<[string, string]> = [];
+  const re = /\((\d{2,4})\)([^(]*)/y;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(data))) {
+    elements.push([match[1], match[2]]);
+    consumed = re.lastIndex;
+  }
+  return consumed === data.length ? elements : null;
+};
+
+// Concatenated element strings: fixed-length AIs run straight into the next one, the others
+// end at a group separator
+const parseConcatenated = (data: string) => {
+  const elements: Array<[string, string]> = [];
+  let rest = data;
+  while (rest) {
+    const found = lookupAi(rest);
+    if (!found) return null;
+    const { ai, definition } = found;
+    rest = rest.slice(ai.length);
+    let value: string;
+    if (PREDEFINED_LENGTH.includes(ai.slice(0, 2))) {
+      value = rest.slice(0, definition.max);
+      rest = rest.slice(value.length);
+    } else {
+      const end = rest.indexOf(GROUP_SEPARATOR);
+      value = end === -1 ? rest : rest.slice(0, end);
+      rest = end === -1 ? '' : rest.slice(end);
+    }
+    if (rest.startsWith(GROUP_SEPARATOR)) rest = rest.slice(1);
+    elements.push([ai, value]);
+  }
+  return elements.length ? elements : null;
+};
+
+const parseDigitalLinkPairs = (data: string) => {
+  let url: URL;
+  try {
+    url = new URL(data);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(url.protocol)) return null;
+  const segments = url.pathname.split('/').filter(Boolean).map(s => {
+    try {
+      return decodeURIComponent(s);
+    } catch {
+      return s;
+    }
+  });
+  // Resolvers may serve the link under a path prefix, so the primary key can come later
+  const start = segments.findIndex((s, i) => PRIMARY_KEYS.includes(s) && i + 1 < segments.length && (segments.length - i) % 2 === 0);
+  if (start === -1) return null;
+  const elements: Array<[string, string]> = [];
+  for (let i = start; i < segments.length; i += 2) {
+    if (!definitionFor(segments[i])) return null;
+    elements.push([segments[i], segments[i + 1]]);
+  }
+  url.searchParams.forEach((value, key) => {
+    if (/^\d{2,4}$/.test(key) && definitionFor(key)) elements.push([key, value]);
+  });
+  return elements;
+};
+
+export const isGs1DigitalLink = (data: string) => {
+  const pairs = parseDigitalLinkPairs(data.trim());
+  return !!pairs && !describe(pairs[0][0], pairs[0][1], new Date()).error;
+};
+
+export const parseGs1 = (data: string, now = new Date()): Gs1Payload => {
+  const value = data.trim();
+  const toElements = (pairs: Array<[string, string]>) => pairs.map(([ai, v]) => describe(ai, v, now));
+
+  const link = parseDigitalLinkPairs(value);
+  if (link) return withExpiry(toElements(link), now, { digitalLink: value });
+  // EAN and UPC scans are GTINs on their own, shown as their (01) element
+  if (BARE_GTIN_RE.test(value)) return withExpiry([describe('01', value.padStart(14, '0'), now)], now);
+
+  const body = value.replace(SYMBOLOGY_ID_RE, '');
+  const pairs = body.startsWith('(') ? parseBracketed(body) : parseConcatenated(body.replace(/^\u001d/, ''));
+  if (!pairs) return withExpiry([], now, { error: 'GS1 verisi çözümlenemedi' });
+  return withExpiry(toElements(pairs), now);
+};
+
+// 0 when the data is not GS1; bare GTINs are only a guess, explicit element strings are certain
+export const gs1Confidence = (data: string) => {
+  const value = data.trim();
+  if (isGs1DigitalLink(value)) return 1;
+  if (BARE_GTIN_RE.test(value)) return isValidGtin(value) ? 0.6 : 0;
+
+  const bracketed = /^\(\d{2,4}\)/.test(value);
+  const explicit = SYMBOLOGY_ID_RE.test(value) || value.includes(GROUP_SEPARATOR) || bracketed;
+  if (!explicit && !/^(00\d{18}|0[12]\d{14})/.test(value)) return 0;
+  const payload = parseGs1(value);
+  if (payload.error || !payload.elements.length) return 0;
+  // Parentheses are common in plain text, e.g. "(212) 555-1234", so printed element strings
+  // only count when every AI is a known one and its value is well formed
+  if (bracketed && payload.elements.some(e => !definitionFor(e.ai) || e.error)) return 0;
+  // The primary key has to check out before a plain digit run is taken for GS1
+  const key = payload.elements[0];
+  if (!explicit && key.error) return 0;
+  return explicit ? 1 : 0.9;
+};
+
+export const toGs1HumanReadable = (payload: Gs1Payload) => payload.elements.map(e => `(${e.ai})${e.value}`).join('');
+
+// Canonical Digital Link on the GS1 resolver; null without a primary key
+export const toGs1DigitalLink = (payload: Gs1Payload, base = GS1_RESOLVER) => {
+  const key = payload.elements.find(e => PRIMARY_KEYS.includes(e.ai));
+  if (!key) return null;
+  const qualifiers = KEY_QUALIFIERS[key.ai] ?? [];
+  const path = [key, ...qualifiers.map(ai => payload.elements.find(e => e.ai === ai)).filter((e): e is Gs1Element => !!e)];
+  const query = payload.elements.filter(e => !path.includes(e));
+  const search = new URLSearchParams(query.map(e => [e.ai, e.value])).toString();
+  return `${base}/${path.map(e => `${e.ai}/${encodeURIComponent(e.value)}`).join('/')}${search ? `?${search}` : ''}`;
+};
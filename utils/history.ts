@@ -0,0 +1,108 @@
+import { HistoryEntry, HistorySettings, QRType, Symbology } from '../types';
+import { STORES, clearStore, deleteMany, deleteOne, getAll, putMany } from './db';
+import { neutralizeFormula, toCsv } from './csv';
+
+// Scan history is opt-in: nothing is written until it is switched on in the scanner settings
+
+const HISTORY_SETTINGS_KEY = 'qr-history-settings';
+
+const DEFAULT_HISTORY_SETTINGS: HistorySettings = { enabled: false, location: false, retentionDays: 30 };
+
+export const HISTORY_RETENTION_OPTIONS = [
+  { days: 1, label: '1 gün' },
+  { days: 7, label: '7 gün' },
+  { days: 30, label: '30 gün' },
+  { days: 365, label: '1 yıl' },
+  { days: 0, label: 'Süresiz' }
+];
+
+export const loadHistorySettings = (): HistorySettings => {
+  try {
+    const saved = localStorage.getItem(HISTORY_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_HISTORY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_HISTORY_SETTINGS;
+  } catch {
+    return DEFAULT_HISTORY_SETTINGS;
+  }
+};
+
+export const saveHistorySettings = (settings: HistorySettings) => {
+  localStorage.setItem(HISTORY_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const LOCATION_TIMEOUT = 5000;
+
+const newId = () => Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+
+// Resolves without a position when it is denied or slow, so a scan is never lost waiting for it.
+// The browser's own timeout only starts once the permission prompt is answered, hence the timer.
+const currentLocation = () =>
+  new Promise<HistoryEntry['location']>(resolve => {
+    if (!navigator.geolocation) return resolve(undefined);
+    setTimeout(() => resolve(undefined), LOCATION_TIMEOUT);
+    navigator.geolocation.getCurrentPosition(
+      pos => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy }),
+      () => resolve(undefined),
+      { timeout: LOCATION_TIMEOUT, maximumAge: 60000 }
+    );
+  });
+
+export const pruneHistory = async (settings: HistorySettings = loadHistorySettings()) => {
+  const entries = await getAll<HistoryEntry>(STORES.history);
+  if (!settings.retentionDays) return entries;
+  const cutoff = Date.now() - settings.retentionDays * DAY;
+  const expired = entries.filter(e => !e.favorite && e.scannedAt < cutoff);
+  if (expired.length) await deleteMany(STORES.history, expired.map(e => e.id));
+  return entries.filter(e => e.favorite || e.scannedAt >= cutoff);
+};
+
+// Does nothing while history is off
+export const recordScan = async (data: string, type: QRType, symbology: Symbology) => {
+  const settings = loadHistorySettings();
+  if (!settings.enabled) return;
+  const scannedAt = Date.now();
+  const location = settings.location ? await currentLocation() : undefined;
+  const entry: HistoryEntry = { id: newId(), scannedAt, type, data, symbology, favorite: false };
+  if (location) entry.location = location;
+  await putMany(STORES.history, [entry]);
+  await pruneHistory(settings);
+};
+
+export const listHistory = async () => (await pruneHistory()).sort((a, b) => b.scannedAt - a.scannedAt);
+
+export const setFavorite = (entry: HistoryEntry, favorite: boolean) => putMany(STORES.history, [{ ...entry, favorite }]);
+
+export const deleteHistoryEntry = (id: string) => deleteOne(STORES.history, id);
+
+export const clearHistory = () => clearStore(STORES.history);
+
+export interface HistoryFilter {
+  query: string;
+  type: QRType | '';
+  favorites: boolean;
+}
+
+export const filterHistory = (entries: HistoryEntry[], filter: HistoryFilter) => {
+  const query = filter.query.trim().toLocaleLowerCase('tr');
+  return entries.filter(entry => {
+    if (filter.type && entry.type !== filter.type) return false;
+    if (filter.favorites && !entry.favorite) return false;
+    return !query || entry.data.toLocaleLowerCase('tr').includes(query);
+  });
+};
+
+export const historyToCsv = (entries: HistoryEntry[]) =>
+  toCsv(
+    ['scannedAt', 'type', 'symbology', 'data', 'latitude', 'longitude', 'favorite'],
+    entries.map(e => [
+      new Date(e.scannedAt).toISOString(),
+      e.type,
+      e.symbology,
+      neutralizeFormula(e.data),
+      e.location ? String(e.location.lat) : '',
+      e.location ? String(e.location.lng) : '',
+      e.favorite ? 'true' : 'false'
+    ])
+  );
+
+export const historyToJson = (entries: HistoryEntry[]) => JSON.stringify({ version: 1, entries }, null, 2);
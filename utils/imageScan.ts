@@ -0,0 +1,307 @@
+import jsQR from 'jsqr';
+import { Symbology } from '../types';
+import { Point, RgbaImage, decodeQr, distance } from './qrDecoder';
+import { DecodedBarcode, FALLBACK_SYMBOLOGIES, decodeBarcode } from './symbology';
+
+// Codes in still images: every reader runs over a few rescaled and rotated copies, and each
+// code found is painted over so the next attempt finds the one beside it
+
+// Long side images are reduced to before decoding; phone photos are several times larger
+export const WORKING_SIZE = 1600;
+// Scale and rotation (degrees) of each pass, relative to the loaded image
+const PASSES = [
+  { scale: 1, angle: 0 },
+  { scale: 0.5, angle: 0 },
+  { scale: 2, angle: 0 },
+  { scale: 1, angle: 45 },
+  { scale: 0.5, angle: 45 }
+];
+// Passes that would produce larger copies are skipped
+const MAX_PASS_PIXELS = 4000000;
+// Later passes are skipped once this much time has gone by, in ms
+const TIME_BUDGET = 5000;
+const MAX_CODES = 20;
+
+const LINEAR_SYMBOLOGIES: Symbology[] = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'code_93', 'codabar', 'itf'];
+
+export class ImageScanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageScanError';
+  }
+}
+
+export interface LoadedImage {
+  // Reduced to WORKING_SIZE; every corner reported for this image is in its coordinates
+  image: ImageData;
+  // Full size, for the native detector
+  source: ImageBitmap | HTMLCanvasElement;
+  // Loaded size over original size
+  scale: number;
+}
+
+export const prepareImage = (source: ImageBitmap | HTMLCanvasElement): LoadedImage => {
+  const scale = Math.min(1, WORKING_SIZE / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new ImageScanError('Canvas desteklenmiyor');
+  // Transparent pixels would otherwise read as black, and exported codes often have no background
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { image: ctx.getImageData(0, 0, canvas.width, canvas.height), source, scale };
+};
+
+export const loadImageFile = async (blob: Blob): Promise<LoadedImage> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new ImageScanError('Görsel açılamadı');
+  }
+  return prepareImage(bitmap);
+};
+
+// Native detector results from the full-size source, scaled into the loaded image
+export const nativeDetect = (loaded: LoadedImage, detect: (source: ImageBitmapSource) => Promise<DecodedBarcode[]>) => async () =>
+  (await detect(loaded.source)).map(code => ({ ...code, corners: code.corners.map(p => ({ x: p.x * loaded.scale, y: p.y * loaded.scale })) }));
+
+// First image on the clipboard or among dropped files
+export const findImageFile = (transfer: DataTransfer | null): File | null => {
+  if (!transfer) return null;
+  const files = [...Array.from(transfer.files), ...Array.from(transfer.items).map(item => (item.kind === 'file' ? item.getAsFile() : null))];
+  return files.find((file): file is File => !!file && file.type.startsWith('image/')) ?? null;
+};
+
+interface PassImage {
+  image: RgbaImage;
+  toSource: (p: Point) => Point;
+  fromSource: (p: Point) => Point;
+}
+
+// Area average, so thin bars survive the reduction
+const shrink = (src: RgbaImage, factor: number): RgbaImage => {
+  const width = Math.max(1, Math.round(src.width * factor));
+  const height = Math.max(1, Math.round(src.height * factor));
+  const sums = new Float64Array(width * height * 4);
+  const counts = new Uint32Array(width * height);
+  for (let y = 0; y < src.height; y++) {
+    const ty = Math.min(height - 1, Math.floor((y * height) / src.height));
+    for (let x = 0; x < src.width; x++) {
+      const t = ty * width + Math.min(width - 1, Math.floor((x * width) / src.width));
+      const s = (y * src.width + x) * 4;
+      for (let c = 0; c < 4; c++) sums[t * 4 + c] += src.data[s + c];
+      counts[t]++;
+    }
+  }
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < sums.length; i++) data[i] = sums[i] / counts[i >> 2];
+  return { data, width, height };
+};
+
+// Bilinear resampling around the centre; uncovered pixels are white
+const rotate = (src: RgbaImage, scale: number, angle: number): PassImage => {
+  const rad = (angle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const width = Math.max(1, Math.ceil((src.width * Math.abs(cos) + src.height * Math.abs(sin)) * scale));
+  const height = Math.max(1, Math.ceil((src.width * Math.abs(sin) + src.height * Math.abs(cos)) * scale));
+  const fromSource = ({ x, y }: Point): Point => {
+    const dx = x - src.width / 2;
+    const dy = y - src.height / 2;
+    return { x: (dx * cos - dy * sin) * scale + width / 2, y: (dx * sin + dy * cos) * scale + height / 2 };
+  };
+  const toSource = ({ x, y }: Point): Point => {
+    const dx = (x - width / 2) / scale;
+    const dy = (y - height / 2) / scale;
+    return { x: dx * cos + dy * sin + src.width / 2, y: -dx * sin + dy * cos + src.height / 2 };
+  };
+
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 0; y < height; y++) {
+    const dy = (y + 0.5 - height / 2) / scale;
+    for (let x = 0; x < width; x++) {
+      const dx = (x + 0.5 - width / 2) / scale;
+      const sx = dx * cos + dy * sin + src.width / 2 - 0.5;
+      const sy = -dx * sin + dy * cos + src.height / 2 - 0.5;
+      if (sx < -0.5 || sy < -0.5 || sx > src.width - 0.5 || sy > src.height - 0.5) continue;
+      const x0 = Math.max(0, Math.min(src.width - 1, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(src.height - 1, Math.floor(sy)));
+      const x1 = Math.min(src.width - 1, x0 + 1);
+      const y1 = Math.min(src.height - 1, y0 + 1);
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src.data[(y0 * src.width + x0) * 4 + c] * (1 - fx) + src.data[(y0 * src.width + x1) * 4 + c] * fx;
+        const bottom = src.data[(y1 * src.width + x0) * 4 + c] * (1 - fx) + src.data[(y1 * src.width + x1) * 4 + c] * fx;
+        data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { image: { data, width, height }, toSource, fromSource };
+};
+
+const passImage = (src: RgbaImage, scale: number, angle: number): PassImage => {
+  if (scale >= 1) return rotate(src, scale, angle);
+  // Reduce first, then rotate the smaller copy
+  const small = shrink(src, scale);
+  const fx = small.width / src.width;
+  const fy = small.height / src.height;
+  const turned = rotate(small, 1, angle);
+  return {
+    image: turned.image,
+    toSource: p => {
+      const q = turned.toSource(p);
+      return { x: q.x / fx, y: q.y / fy };
+    },
+    fromSource: p => turned.fromSource({ x: p.x * fx, y: p.y * fy })
+  };
+};
+
+const luminance = (img: RgbaImage, { x, y }: Point) => {
+  const px = Math.round(x);
+  const py = Math.round(y);
+  if (px < 0 || py < 0 || px >= img.width || py >= img.height) return 255;
+  const i = (py * img.width + px) * 4;
+  return (img.data[i] * 299 + img.data[i + 1] * 587 + img.data[i + 2] * 114) / 1000;
+};
+
+// Linear readers report a thin box around the line they read; this widens it to the bar
+// height by walking outwards while the lines across the box still look like bars
+const growAlongBars = (img: RgbaImage, [a, b, c, d]: Point[]): Point[] => {
+  const from = { x: (a.x + d.x) / 2, y: (a.y + d.y) / 2 };
+  const to = { x: (b.x + c.x) / 2, y: (b.y + c.y) / 2 };
+  const length = distance(from, to);
+  if (length < 1) return [a, b, c, d];
+  const normal = { x: -(to.y - from.y) / length, y: (to.x - from.x) / length };
+  const samples = Math.min(400, Math.ceil(length));
+  const line = (offset: number) => {
+    const values: number[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      values.push(luminance(img, {
+        x: from.x + (to.x - from.x) * t + normal.x * offset,
+        y: from.y + (to.y - from.y) * t + normal.y * offset
+      }));
+    }
+    return values;
+  };
+  const centre = line(0);
+  const threshold = (Math.min(...centre) + Math.max(...centre)) / 2;
+  const barLike = (offset: number) => {
+    const dark = line(offset).filter(v => v < threshold).length / (samples + 1);
+    return dark > 0.2 && dark < 0.8;
+  };
+  const reach = (sign: number) => {
+    let offset = 0;
+    while (offset < length * 1.5 && barLike(sign * (offset + 2))) offset += 2;
+    return Math.max(offset, distance(a, d) / 2);
+  };
+  const up = reach(-1);
+  const down = reach(1);
+  const shift = (p: Point, offset: number) => ({ x: p.x + normal.x * offset, y: p.y + normal.y * offset });
+  return [shift(from, -up), shift(to, -up), shift(to, down), shift(from, down)];
+};
+
+// Paints a code white, with room for its quiet zone, so readers move on to the next one
+const maskQuad = (img: RgbaImage, corners: Point[]) => {
+  const cx = corners.reduce((s, p) => s + p.x, 0) / corners.length;
+  const cy = corners.reduce((s, p) => s + p.y, 0) / corners.length;
+  const quad = corners.map(p => ({ x: cx + (p.x - cx) * 1.25 + Math.sign(p.x - cx) * 4, y: cy + (p.y - cy) * 1.25 + Math.sign(p.y - cy) * 4 }));
+  const minX = Math.max(0, Math.floor(Math.min(...quad.map(p => p.x))));
+  const maxX = Math.min(img.width - 1, Math.ceil(Math.max(...quad.map(p => p.x))));
+  const minY = Math.max(0, Math.floor(Math.min(...quad.map(p => p.y))));
+  const maxY = Math.min(img.height - 1, Math.ceil(Math.max(...quad.map(p => p.y))));
+  // Inside when on the same side of every edge; corners may run either way round
+  const inside = (x: number, y: number) => {
+    let sign = 0;
+    for (let i = 0; i < quad.length; i++) {
+      const p = quad[i];
+      const q = quad[(i + 1) % quad.length];
+      const cross = (q.x - p.x) * (y - p.y) - (q.y - p.y) * (x - p.x);
+      if (cross === 0) continue;
+      if (sign && Math.sign(cross) !== sign) return false;
+      sign = Math.sign(cross);
+    }
+    return true;
+  };
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (inside(x, y)) img.data.fill(255, (y * img.width + x) * 4, (y * img.width + x) * 4 + 3);
+    }
+  }
+};
+
+// One code from the image, or null: jsQR first as in the camera loop, then our own readers
+const readOne = (img: RgbaImage, symbologies: Symbology[]): DecodedBarcode | null => {
+  if (symbologies.includes('qr_code')) {
+    const pixels = new Uint8ClampedArray(img.data.buffer, img.data.byteOffset, img.data.length);
+    const code = jsQR(pixels, img.width, img.height, { inversionAttempts: 'attemptBoth' });
+    if (code?.data) {
+      const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } = code.location;
+      return { text: code.data, symbology: 'qr_code', corners: [topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner] };
+    }
+    const decoded = decodeQr(img);
+    if (decoded) return { text: decoded.text, symbology: 'qr_code', corners: decoded.corners };
+  }
+  const others = symbologies.filter(s => s !== 'qr_code' && FALLBACK_SYMBOLOGIES.includes(s));
+  return others.length ? decodeBarcode(img, others) : null;
+};
+
+const centre = (corners: Point[]) => ({
+  x: corners.reduce((s, p) => s + p.x, 0) / corners.length,
+  y: corners.reduce((s, p) => s + p.y, 0) / corners.length
+});
+
+// The same code found again by another pass or reader
+const isSameCode = (a: DecodedBarcode, b: DecodedBarcode) =>
+  a.text === b.text && distance(centre(a.corners), centre(b.corners)) < Math.max(distance(a.corners[0], a.corners[2]), distance(b.corners[0], b.corners[2]));
+
+export interface ImageScanOptions {
+  // Native detector results, in the coordinates of the scanned image
+  detect?: () => Promise<DecodedBarcode[]>;
+  signal?: AbortSignal;
+}
+
+// Every code found in the image, corners in its coordinates
+export const scanImage = async (image: RgbaImage, symbologies: Symbology[], { detect, signal }: ImageScanOptions = {}) => {
+  const found: DecodedBarcode[] = [];
+  const add = (code: DecodedBarcode) => {
+    if (found.some(f => isSameCode(f, code))) return false;
+    found.push(code);
+    return true;
+  };
+
+  if (detect) {
+    try {
+      (await detect()).filter(c => symbologies.includes(c.symbology)).forEach(add);
+    } catch (e) {
+      console.warn('BarcodeDetector failed on image', e);
+    }
+  }
+
+  const started = Date.now();
+  for (const [i, { scale, angle }] of PASSES.entries()) {
+    if (signal?.aborted || found.length >= MAX_CODES) break;
+    if (i > 0 && Date.now() - started > TIME_BUDGET) break;
+    if (image.width * image.height * scale * scale > MAX_PASS_PIXELS) continue;
+    // Let the page repaint between passes
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const pass = passImage(image, scale, angle);
+    // Codes already known are hidden, so this pass only spends time on new ones
+    found.forEach(code => maskQuad(pass.image, code.corners.map(pass.fromSource)));
+    while (found.length < MAX_CODES) {
+      const code = readOne(pass.image, symbologies);
+      if (!code) break;
+      const corners = LINEAR_SYMBOLOGIES.includes(code.symbology) ? growAlongBars(pass.image, code.corners) : code.corners;
+      maskQuad(pass.image, corners);
+      // A code that survived its own mask would otherwise be read forever
+      if (!add({ ...code, corners: corners.map(pass.toSource) })) break;
+    }
+  }
+  return found;
+};
@@ -0,0 +1,172 @@
+import { ContactFormat, EmailConfig, GeneratorInputs, GeoConfig, QRType, SavedCode, SmsConfig, WifiConfig } from '../types';
+import { generateEmailString, generateSmsString, generateWifiString, normalizePhone } from './qrUtils';
+import { emptyContact, generateContactString } from './contact';
+import { defaultEvent, generateEventString } from './calendar';
+import { buildGeoPayload } from './geo';
+import { defaultPayment, generatePaymentString } from './emvco';
+import { DEFAULT_QR_STYLE } from './qrStyle';
+import { DEFAULT_SYMBOL_OPTIONS } from './qrEncoder';
+import { STORES, deleteOne, getAll, putMany } from './db';
+
+// Saved codes keep the Generator's form state, so they reopen editable rather than as a bare payload
+
+export class LibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryError';
+  }
+}
+
+// Throws for payment inputs whose fields exceed EMV limits
+export const buildPayload = (inputs: GeneratorInputs): string => {
+  switch (inputs.type) {
+    case QRType.URL:
+      return inputs.url || 'https://';
+    case QRType.TEXT:
+      return inputs.text || ' ';
+    case QRType.PHONE:
+      return `tel:${normalizePhone(inputs.phone)}`;
+    case QRType.SMS:
+      return generateSmsString(inputs.sms.number, inputs.sms.body);
+    case QRType.WIFI:
+      return generateWifiString(inputs.wifi.ssid, inputs.wifi.password, inputs.wifi.encryption, inputs.wifi.hidden);
+    case QRType.GEO:
+      return buildGeoPayload(inputs.geo);
+    case QRType.EMAIL:
+      return generateEmailString(inputs.email.to, inputs.email.subject, inputs.email.body);
+    case QRType.CONTACT:
+      return generateContactString(inputs.contact, inputs.format);
+    case QRType.EVENT:
+      return generateEventString(inputs.event);
+    case QRType.PAYMENT:
+      return generatePaymentString(inputs.payment);
+  }
+};
+
+const newId = () => Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+
+export const createSavedCode = (fields: Pick<SavedCode, 'name' | 'tags' | 'inputs' | 'data' | 'style' | 'symbolOptions'>): SavedCode => {
+  const now = Date.now();
+  return { ...fields, id: newId(), createdAt: now, updatedAt: now };
+};
+
+export const duplicateCode = (code: SavedCode): SavedCode =>
+  createSavedCode({ ...code, name: `${code.name} (kopya)`, tags: [...code.tags] });
+
+// "wifi, Otel ,otel" -> ["wifi", "Otel"]
+export const parseTags = (text: string) => {
+  const tags: string[] = [];
+  for (const tag of text.split(',').map(t => t.trim()).filter(Boolean)) {
+    if (!tags.some(t => t.toLocaleLowerCase('tr') === tag.toLocaleLowerCase('tr'))) tags.push(tag);
+  }
+  return tags;
+};
+
+export const collectTags = (codes: SavedCode[]) => parseTags(codes.flatMap(c => c.tags).join(',')).sort((a, b) => a.localeCompare(b, 'tr'));
+
+export interface LibraryFilter {
+  query: string;
+  type: QRType | '';
+  tag: string;
+}
+
+export const filterCodes = (codes: SavedCode[], filter: LibraryFilter) => {
+  const query = filter.query.trim().toLocaleLowerCase('tr');
+  const tag = filter.tag.toLocaleLowerCase('tr');
+  return codes.filter(code => {
+    if (filter.type && code.inputs.type !== filter.type) return false;
+    if (tag && !code.tags.some(t => t.toLocaleLowerCase('tr') === tag)) return false;
+    if (!query) return true;
+    return [code.name, code.data, ...code.tags].some(value => value.toLocaleLowerCase('tr').includes(query));
+  });
+};
+
+export const listCodes = async () => (await getAll<SavedCode>(STORES.library)).sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const saveCode = (code: SavedCode) => putMany(STORES.library, [code]);
+
+export const deleteCode = (id: string) => deleteOne(STORES.library, id);
+
+export const exportLibrary = (codes: SavedCode[]) => JSON.stringify({ version: 1, codes }, null, 2);
+
+const str = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const withDefaults = <T extends object>(defaults: T, value: unknown): T =>
+  value && typeof value === 'object' ? { ...defaults, ...(value as Partial<T>) } : defaults;
+
+const CONTACT_FORMATS: ContactFormat[] = ['vcard3', 'vcard4', 'mecard'];
+
+// Fills in whatever a hand-edited backup left out, so the forms never see missing fields
+const sanitizeInputs = (raw: unknown): GeneratorInputs | null => {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  switch (r.type) {
+    case QRType.URL:
+      return { type: QRType.URL, url: str(r.url) };
+    case QRType.TEXT:
+      return { type: QRType.TEXT, text: str(r.text) };
+    case QRType.PHONE:
+      return { type: QRType.PHONE, phone: str(r.phone) };
+    case QRType.SMS:
+      return { type: QRType.SMS, sms: withDefaults<SmsConfig>({ number: '', body: '' }, r.sms) };
+    case QRType.WIFI:
+      return { type: QRType.WIFI, wifi: withDefaults<WifiConfig>({ ssid: '', password: '', encryption: 'WPA', hidden: false }, r.wifi) };
+    case QRType.GEO:
+      return { type: QRType.GEO, geo: withDefaults<GeoConfig>({ lat: '', lng: '' }, r.geo) };
+    case QRType.EMAIL:
+      return { type: QRType.EMAIL, email: withDefaults<EmailConfig>({ to: '', subject: '', body: '' }, r.email) };
+    case QRType.CONTACT:
+      return {
+        type: QRType.CONTACT,
+        contact: withDefaults(emptyContact(), r.contact),
+        format: CONTACT_FORMATS.includes(r.format as ContactFormat) ? (r.format as ContactFormat) : 'vcard3'
+      };
+    case QRType.EVENT:
+      return { type: QRType.EVENT, event: withDefaults(defaultEvent(), r.event) };
+    case QRType.PAYMENT:
+      return { type: QRType.PAYMENT, payment: withDefaults(defaultPayment(), r.payment) };
+    default:
+      return null;
+  }
+};
+
+const sanitizeCode = (raw: unknown, index: number): SavedCode => {
+  const entry = (raw && typeof raw === 'object' ? raw : {}) as Partial<SavedCode>;
+  const inputs = sanitizeInputs(entry.inputs);
+  if (!inputs) throw new LibraryError(`Kayıt ${index + 1}: geçersiz kod türü`);
+  let data = str(entry.data);
+  if (!data) {
+    try {
+      data = buildPayload(inputs);
+    } catch {
+      throw new LibraryError(`Kayıt ${index + 1}: içerik oluşturulamadı`);
+    }
+  }
+  const now = Date.now();
+  return {
+    id: str(entry.id) || newId(),
+    name: str(entry.name),
+    tags: Array.isArray(entry.tags) ? parseTags(entry.tags.filter(t => typeof t === 'string').join(',')) : [],
+    inputs,
+    data,
+    style: { ...DEFAULT_QR_STYLE, ...(entry.style || {}) },
+    symbolOptions: { ...DEFAULT_SYMBOL_OPTIONS, ...(entry.symbolOptions || {}) },
+    createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : now,
+    updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : now
+  };
+};
+
+// Accepts either a bare array or the { version, codes } object written by exportLibrary
+export const parseLibraryJson = (text: string): SavedCode[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LibraryError('Dosya geçerli bir JSON değil');
+  }
+  const list = Array.isArray(data) ? data : (data as { codes?: unknown })?.codes;
+  if (!Array.isArray(list)) throw new LibraryError('JSON içinde kod listesi bulunamadı');
+  return list.map(sanitizeCode);
+};
+
+// Imported codes replace saved ones with the same id, like pattern-rule imports
+export const importCodes = (codes: SavedCode[]) => putMany(STORES.library, codes);
@@ -0,0 +1,41 @@
+// MECARD-style escaping shared by the WIFI: format (ZXing spec): \ ; , : " are backslash-escaped
+const MECARD_SPECIAL_CHARS = /([\\;,:"])/g;
+
+export const escapeMecardValue = (value: string) => value.replace(MECARD_SPECIAL_CHARS, '\\$1');
+
+export const unescapeMecardValue = (value: string) => value.replace(/\\(.)/g, '$1');
+
+// Splits "K:v;K2:v2;;" into fields, honouring backslash escapes so "P:a\;b" stays one field
+export const splitMecardFields = (body: string): Array<[string, string]> => {
+  const fields: Array<[string, string]> = [];
+  let current = '';
+  const flush = () => {
+    if (!current) return;
+    const sep = current.indexOf(':');
+    if (sep > 0) {
+      fields.push([current.slice(0, sep).toUpperCase(), current.slice(sep + 1)]);
+    }
+    current = '';
+  };
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '\\' && i + 1 < body.length) {
+      current += ch + body[i + 1];
+      i++;
+    } else if (ch === ';') {
+      flush();
+    } else {
+      current += ch;
+    }
+  }
+  flush();
+  return fields;
+};
+
+export const stripQuotes = (value: string) => {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"') && value[value.length - 2] !== '\\') {
+    return value.slice(1, -1);
+  }
+  return value;
+};
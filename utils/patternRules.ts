@@ -0,0 +1,132 @@
+import { PatternRule, PatternRuleAction } from '../types';
+
+// User rules turn in-house label formats (asset tags, order numbers...) into links or reformatted text
+
+const RULES_KEY = 'qr-pattern-rules';
+const RULE_ACTIONS: PatternRuleAction[] = ['open', 'copy'];
+
+export class PatternRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatternRuleError';
+  }
+}
+
+export const createRule = (): PatternRule => ({
+  id: Math.random().toString(36).slice(2, 10),
+  name: '',
+  pattern: '',
+  flags: 'i',
+  action: 'open',
+  template: '',
+  enabled: true
+});
+
+// The pattern must cover the whole scan so "ASSET-1" doesn't also fire on "NOT-ASSET-1-X"
+export const compileRule = (rule: Pick<PatternRule, 'pattern' | 'flags'>) =>
+  new RegExp(`^(?:${rule.pattern})$`, rule.flags.replace(/[gy]/g, ''));
+
+export const validateRule = (rule: PatternRule) => {
+  const errors: Partial<Record<keyof PatternRule, string>> = {};
+  if (!rule.pattern.trim()) errors.pattern = 'Desen zorunlu';
+  else {
+    try {
+      compileRule(rule);
+    } catch {
+      errors.pattern = 'Geçersiz düzenli ifade';
+    }
+  }
+  if (!/^[imsu]*$/.test(rule.flags)) errors.flags = 'Yalnızca i, m, s, u';
+  if (!rule.template.trim()) errors.template = 'Şablon zorunlu';
+  else if (rule.action === 'open' && !/^https?:\/\//i.test(rule.template.trim())) errors.template = 'http:// veya https:// ile başlamalı';
+  return errors;
+};
+
+export const expandTemplate = (template: string, match: RegExpMatchArray, encode = false) => {
+  const wrap = (value: string | undefined) => (encode ? encodeURIComponent(value ?? '') : value ?? '');
+  return template.replace(/\$(?:(\d{1,2})|<([A-Za-z_][\w]*)>|(&)|(\$))/g, (token, index, name, whole, dollar) => {
+    if (dollar) return '$';
+    if (whole) return wrap(match[0]);
+    if (name) return wrap(match.groups?.[name]);
+    const i = parseInt(index, 10);
+    return i < match.length ? wrap(match[i]) : token;
+  });
+};
+
+export interface RuleMatch {
+  rule: PatternRule;
+  value: string;
+}
+
+// Rules are tried in list order; the first enabled rule that matches wins
+export const matchRule = (data: string, rules: PatternRule[] = loadRules()): RuleMatch | null => {
+  const input = data.trim();
+  for (const rule of rules) {
+    if (!rule.enabled || !rule.pattern) continue;
+    let match: RegExpMatchArray | null;
+    try {
+      match = input.match(compileRule(rule));
+    } catch {
+      continue;
+    }
+    // Captured text going into a URL is percent-encoded so it can't change the target
+    if (match) return { rule, value: expandTemplate(rule.template, match, rule.action === 'open') };
+  }
+  return null;
+};
+
+const sanitizeRule = (input: unknown, index: number): PatternRule => {
+  if (!input || typeof input !== 'object') throw new PatternRuleError(`Kural ${index + 1} bir nesne değil`);
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.pattern !== 'string' || typeof raw.template !== 'string') {
+    throw new PatternRuleError(`Kural ${index + 1}: "pattern" ve "template" metin olmalı`);
+  }
+  const rule: PatternRule = {
+    ...createRule(),
+    ...(typeof raw.id === 'string' && raw.id ? { id: raw.id } : {}),
+    name: typeof raw.name === 'string' ? raw.name : '',
+    pattern: raw.pattern,
+    flags: typeof raw.flags === 'string' ? raw.flags : 'i',
+    action: RULE_ACTIONS.includes(raw.action as PatternRuleAction) ? (raw.action as PatternRuleAction) : 'copy',
+    template: raw.template,
+    enabled: raw.enabled !== false
+  };
+  const errors = validateRule(rule);
+  const first = Object.values(errors)[0];
+  if (first) throw new PatternRuleError(`Kural ${index + 1}: ${first}`);
+  return rule;
+};
+
+// Accepts either a bare array or the { version, rules } object written by exportRules
+export const parseRulesJson = (text: string): PatternRule[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PatternRuleError('Dosya geçerli bir JSON değil');
+  }
+  const list = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) throw new PatternRuleError('JSON içinde kural listesi bulunamadı');
+  return list.map(sanitizeRule);
+};
+
+export const exportRules = (rules: PatternRule[]) => JSON.stringify({ version: 1, rules }, null, 2);
+
+// Imported rules replace ones with the same id and are appended otherwise
+export const mergeRules = (current: PatternRule[], incoming: PatternRule[]) => [
+  ...current.map(rule => incoming.find(r => r.id === rule.id) ?? rule),
+  ...incoming.filter(rule => !current.some(r => r.id === rule.id))
+];
+
+export const loadRules = (): PatternRule[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RULES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRules = (rules: PatternRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
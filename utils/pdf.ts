@@ -0,0 +1,147 @@
+// Small PDF 1.4 writer: enough for vector QR symbols, shadings, JPEG images and Helvetica captions
+
+export const MM_PER_INCH = 25.4;
+export const PT_PER_INCH = 72;
+
+export const mmToPt = (mm: number) => (mm / MM_PER_INCH) * PT_PER_INCH;
+
+export interface PdfPageSize {
+  width: number;
+  height: number;
+}
+
+export type PageSizeId = 'a4' | 'letter';
+
+// Portrait sizes in PDF points
+export const PAGE_SIZES: Record<PageSizeId, PdfPageSize> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 }
+};
+
+// Named resources a page's content stream refers to, mapped to object numbers
+export interface PdfResources {
+  shadings: Record<string, number>;
+  xobjects: Record<string, number>;
+  fonts: Record<string, number>;
+}
+
+export const emptyResources = (): PdfResources => ({ shadings: {}, xobjects: {}, fonts: {} });
+
+export const pdfNum = (n: number) => parseFloat(n.toFixed(3)).toString();
+
+export const pdfColor = (hex: string) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value.padEnd(6, '0');
+  return [0, 2, 4].map(i => (parseInt(full.slice(i, i + 2), 16) / 255).toFixed(3)).join(' ');
+};
+
+const dict = (entries: Record<string, number>) =>
+  Object.entries(entries)
+    .map(([name, ref]) => `/${name} ${ref} 0 R`)
+    .join(' ');
+
+// Object bodies are binary strings (one char per byte), so string offsets are byte offsets
+export const createPdfWriter = () => {
+  // 1 and 2 are reserved for the catalog and the page tree, written last
+  const objects: string[] = ['', ''];
+  const pages: number[] = [];
+
+  const addObject = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const addPage = (size: PdfPageSize, content: string, resources: PdfResources) => {
+    const stream = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    const res = [
+      Object.keys(resources.shadings).length ? `/Shading << ${dict(resources.shadings)} >>` : '',
+      Object.keys(resources.xobjects).length ? `/XObject << ${dict(resources.xobjects)} >>` : '',
+      Object.keys(resources.fonts).length ? `/Font << ${dict(resources.fonts)} >>` : ''
+    ].filter(Boolean);
+    pages.push(
+      addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size.width} ${size.height}] /Contents ${stream} 0 R /Resources << ${res.join(' ')} >> >>`
+      )
+    );
+  };
+
+  const finish = () => {
+    objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[1] = `<< /Type /Pages /Kids [${pages.map(p => `${p} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(pdf.length);
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefStart = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(o => `${o.toString().padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefStart}\n%%EOF\n`;
+    return Uint8Array.from(pdf, c => c.charCodeAt(0));
+  };
+
+  return { addObject, addPage, finish };
+};
+
+export type PdfWriter = ReturnType<typeof createPdfWriter>;
+
+export const addJpegImage = (pdf: PdfWriter, jpeg: { width: number; height: number; data: string }) =>
+  pdf.addObject(
+    `<< /Type /XObject /Subtype /Image /Width ${jpeg.width} /Height ${jpeg.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.data.length} >>\nstream\n${jpeg.data}\nendstream`
+  );
+
+// Standard Helvetica has the Turkish letters WinAnsi lacks; the Latin-5 slots remap them
+const LATIN5_DIFFERENCES: Record<string, number> = { 'Ğ': 208, 'İ': 221, 'Ş': 222, 'ğ': 240, 'ı': 253, 'ş': 254 };
+
+export const addHelvetica = (pdf: PdfWriter) =>
+  pdf.addObject(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding << /Type /Encoding /BaseEncoding /WinAnsiEncoding ' +
+      '/Differences [208 /Gbreve 221 /Idotaccent /Scedilla 240 /gbreve 253 /dotlessi /scedilla] >> >>'
+  );
+
+// Helvetica advance widths for ASCII 32-126, in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// Accented letters share their base letter's width; anything else is treated as an average glyph
+const charWidth = (ch: string) => {
+  if (ch === 'ı') return 278;
+  const base = ch.normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? HELVETICA_WIDTHS[base - 32] : 556;
+};
+
+export const textWidth = (text: string, fontSize: number) =>
+  (Array.from(text).reduce((sum, ch) => sum + charWidth(ch), 0) * fontSize) / 1000;
+
+// Shortens text with an ellipsis so it fits the given width
+export const fitText = (text: string, fontSize: number, maxWidth: number) => {
+  if (textWidth(text, fontSize) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length && textWidth(chars.join('') + '...', fontSize) > maxWidth) chars.pop();
+  return chars.length ? chars.join('').trimEnd() + '...' : '';
+};
+
+const LATIN5_SLOTS = new Set(Object.values(LATIN5_DIFFERENCES));
+
+const pdfByte = (ch: string) => {
+  if (ch in LATIN5_DIFFERENCES) return LATIN5_DIFFERENCES[ch];
+  const code = ch.charCodeAt(0);
+  // WinAnsi differs from Latin-1 in 127-159, and the remapped slots no longer hold their Latin-1 letters
+  return code >= 32 && code <= 255 && (code < 127 || code > 159) && !LATIN5_SLOTS.has(code) ? code : 63;
+};
+
+// Literal string in the font's encoding; characters outside it become "?"
+export const pdfText = (text: string) => {
+  let out = '';
+  for (const ch of text) {
+    const byte = pdfByte(ch);
+    out += byte === 40 || byte === 41 || byte === 92 ? `\\${String.fromCharCode(byte)}` : String.fromCharCode(byte);
+  }
+  return `(${out})`;
+};
@@ -0,0 +1,1052 @@
+// Just enough of a PDF reader to look for codes on the pages of scanned documents: the object
+// graph, the common stream filters and the content operators that draw paths, shadings and
+// images. Text is skipped, so barcodes set in a barcode font are not seen.
+
+export class PdfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfError';
+  }
+}
+
+export interface PdfRef {
+  type: 'ref';
+  num: number;
+  gen: number;
+}
+
+export interface PdfDict {
+  type: 'dict';
+  entries: Record<string, PdfObject>;
+}
+
+export interface PdfStream {
+  type: 'stream';
+  dict: PdfDict;
+  // Still encoded
+  data: Uint8Array;
+}
+
+// Names are plain strings and string literals are bytes
+export type PdfObject = null | boolean | number | string | Uint8Array | PdfObject[] | PdfRef | PdfDict | PdfStream;
+
+interface PdfOperator {
+  type: 'op';
+  op: string;
+}
+
+type PdfToken = PdfObject | PdfOperator;
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set(Array.from('()<>[]{}/%', c => c.charCodeAt(0)));
+const NUMBER_RE = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+const INTEGER_RE = /^\d+$/;
+
+const latin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+const isOperator = (token: PdfToken | undefined): token is PdfOperator =>
+  !!token && typeof token === 'object' && !Array.isArray(token) && !(token instanceof Uint8Array) && token.type === 'op';
+
+const isDict = (obj: PdfObject | undefined): obj is PdfDict =>
+  !!obj && typeof obj === 'object' && !Array.isArray(obj) && !(obj instanceof Uint8Array) && obj.type === 'dict';
+
+const isStream = (obj: PdfObject | undefined): obj is PdfStream =>
+  !!obj && typeof obj === 'object' && !Array.isArray(obj) && !(obj instanceof Uint8Array) && obj.type === 'stream';
+
+const isRef = (obj: PdfObject | undefined): obj is PdfRef =>
+  !!obj && typeof obj === 'object' && !Array.isArray(obj) && !(obj instanceof Uint8Array) && obj.type === 'ref';
+
+const createParser = (bytes: Uint8Array, start = 0) => {
+  let pos = start;
+
+  const skipSpace = () => {
+    while (pos < bytes.length) {
+      const c = bytes[pos];
+      if (WHITESPACE.has(c)) {
+        pos++;
+      } else if (c === 0x25) {
+        while (pos < bytes.length && bytes[pos] !== 10 && bytes[pos] !== 13) pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readRegular = () => {
+    const from = pos;
+    while (pos < bytes.length && !WHITESPACE.has(bytes[pos]) && !DELIMITERS.has(bytes[pos])) pos++;
+    return latin1(bytes.subarray(from, pos));
+  };
+
+  const readName = () => {
+    pos++;
+    return readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  };
+
+  const readLiteralString = () => {
+    pos++;
+    const out: number[] = [];
+    let depth = 1;
+    while (pos < bytes.length) {
+      const c = bytes[pos++];
+      if (c === 0x28) {
+        depth++;
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+      } else if (c === 0x5c) {
+        const e = bytes[pos++];
+        const simple: Record<number, number> = { 0x6e: 10, 0x72: 13, 0x74: 9, 0x62: 8, 0x66: 12, 0x28: 0x28, 0x29: 0x29, 0x5c: 0x5c };
+        if (e in simple) {
+          out.push(simple[e]);
+        } else if (e >= 0x30 && e <= 0x37) {
+          let value = e - 0x30;
+          for (let n = 0; n < 2 && bytes[pos] >= 0x30 && bytes[pos] <= 0x37; n++) value = value * 8 + bytes[pos++] - 0x30;
+          out.push(value & 0xff);
+        } else if (e === 13) {
+          // Line continuation
+          if (bytes[pos] === 10) pos++;
+        } else if (e !== 10) {
+          out.push(e);
+        }
+        continue;
+      }
+      out.push(c);
+    }
+    return new Uint8Array(out);
+  };
+
+  const readHexString = () => {
+    pos++;
+    const digits: number[] = [];
+    while (pos < bytes.length && bytes[pos] !== 0x3e) {
+      const value = parseInt(String.fromCharCode(bytes[pos++]), 16);
+      if (!Number.isNaN(value)) digits.push(value);
+    }
+    pos++;
+    if (digits.length % 2) digits.push(0);
+    const out = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = digits[i * 2] * 16 + digits[i * 2 + 1];
+    return out;
+  };
+
+  // `12 0 R` is read as one reference; anything else puts the parser back after the number
+  const tryReference = (num: number): PdfRef | null => {
+    const save = pos;
+    skipSpace();
+    const gen = readRegular();
+    if (INTEGER_RE.test(gen)) {
+      skipSpace();
+      if (bytes[pos] === 0x52 && (pos + 1 >= bytes.length || WHITESPACE.has(bytes[pos + 1]) || DELIMITERS.has(bytes[pos + 1]))) {
+        pos++;
+        return { type: 'ref', num, gen: parseInt(gen, 10) };
+      }
+    }
+    pos = save;
+    return null;
+  };
+
+  const next = (): PdfToken | undefined => {
+    skipSpace();
+    if (pos >= bytes.length) return undefined;
+    const c = bytes[pos];
+    if (c === 0x2f) return readName();
+    if (c === 0x28) return readLiteralString();
+    if (c === 0x3c) {
+      if (bytes[pos + 1] !== 0x3c) return readHexString();
+      pos += 2;
+      const entries: Record<string, PdfObject> = {};
+      for (;;) {
+        skipSpace();
+        if (pos >= bytes.length) break;
+        if (bytes[pos] === 0x3e && bytes[pos + 1] === 0x3e) {
+          pos += 2;
+          break;
+        }
+        const key = next();
+        const value = next();
+        if (typeof key === 'string' && value !== undefined && !isOperator(value)) entries[key] = value;
+      }
+      return { type: 'dict', entries };
+    }
+    if (c === 0x5b) {
+      pos++;
+      const items: PdfObject[] = [];
+      for (;;) {
+        skipSpace();
+        if (pos >= bytes.length) break;
+        if (bytes[pos] === 0x5d) {
+          pos++;
+          break;
+        }
+        const item = next();
+        if (item !== undefined && !isOperator(item)) items.push(item);
+      }
+      return items;
+    }
+    if (DELIMITERS.has(c)) {
+      // Stray closing delimiters and braces carry nothing we draw
+      pos++;
+      return { type: 'op', op: String.fromCharCode(c) };
+    }
+    const word = readRegular();
+    if (NUMBER_RE.test(word)) {
+      const value = parseFloat(word);
+      if (INTEGER_RE.test(word)) {
+        const ref = tryReference(value);
+        if (ref) return ref;
+      }
+      return value;
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return { type: 'op', op: word };
+  };
+
+  return {
+    next,
+    skipSpace,
+    get position() {
+      return pos;
+    },
+    set position(value: number) {
+      pos = value;
+    }
+  };
+};
+
+const indexOfBytes = (bytes: Uint8Array, pattern: string, from: number) => {
+  const first = pattern.charCodeAt(0);
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    if (bytes[i] !== first) continue;
+    for (let j = 1; j < pattern.length; j++) if (bytes[i + j] !== pattern.charCodeAt(j)) continue outer;
+    return i;
+  }
+  return -1;
+};
+
+// --- Stream filters ---
+
+const inflate = async (data: Uint8Array) => {
+  // Damaged streams keep whatever was inflated before the damage
+  const run = async (format: CompressionFormat) => {
+    const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+    const chunks: Uint8Array[] = [];
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+      }
+    } catch (e) {
+      if (!chunks.length) throw e;
+    }
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  };
+  try {
+    return await run('deflate');
+  } catch {
+    // A few writers leave out the zlib header
+    try {
+      return await run('deflate-raw');
+    } catch {
+      throw new PdfError('Sıkıştırılmış veri açılamadı');
+    }
+  }
+};
+
+const lzwDecode = (data: Uint8Array, earlyChange: number) => {
+  const out: number[] = [];
+  let table: number[][] = [];
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => (i < 256 ? [i] : []));
+  };
+  reset();
+  let codeLength = 9;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let previous: number[] | null = null;
+  for (let i = 0; i < data.length; i++) {
+    bitBuffer = ((bitBuffer << 8) | data[i]) >>> 0;
+    bitCount += 8;
+    while (bitCount >= codeLength) {
+      const code = (bitBuffer >>> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+      bitCount -= codeLength;
+      if (code === 256) {
+        reset();
+        codeLength = 9;
+        previous = null;
+        continue;
+      }
+      if (code === 257) return new Uint8Array(out);
+      let entry: number[];
+      if (code < table.length) entry = table[code];
+      else if (previous) entry = [...previous, previous[0]];
+      else return new Uint8Array(out);
+      out.push(...entry);
+      if (previous) table.push([...previous, entry[0]]);
+      previous = entry;
+      if (table.length + earlyChange >= 1 << codeLength && codeLength < 12) codeLength++;
+    }
+  }
+  return new Uint8Array(out);
+};
+
+const asciiHexDecode = (data: Uint8Array) => createParser(new Uint8Array([0x3c, ...data]), 0).next() as Uint8Array;
+
+const ascii85Decode = (data: Uint8Array) => {
+  const out: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84);
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    for (let i = 0; i < count - 1; i++) out.push((value >>> (24 - i * 8)) & 0xff);
+    group = [];
+  };
+  for (let i = 0; i < data.length; i++) {
+    const c = data[i];
+    if (c === 0x7e) break;
+    if (WHITESPACE.has(c)) continue;
+    if (c === 0x7a && !group.length) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(c - 33);
+    if (group.length === 5) flush(5);
+  }
+  if (group.length) flush(group.length);
+  return new Uint8Array(out);
+};
+
+const runLengthDecode = (data: Uint8Array) => {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; ) {
+    const length = data[i++];
+    if (length === 128) break;
+    if (length < 128) {
+      out.push(...data.subarray(i, i + length + 1));
+      i += length + 1;
+    } else {
+      for (let n = 0; n < 257 - length; n++) out.push(data[i]);
+      i++;
+    }
+  }
+  return new Uint8Array(out);
+};
+
+const unpredict = (data: Uint8Array, parms: PdfDict | undefined) => {
+  const predictor = num(parms?.entries.Predictor, 1);
+  if (predictor < 2) return data;
+  const colors = num(parms?.entries.Colors, 1);
+  const bpc = num(parms?.entries.BitsPerComponent, 8);
+  const columns = num(parms?.entries.Columns, 1);
+  const bpp = Math.max(1, Math.ceil((colors * bpc) / 8));
+  const rowLength = Math.ceil((columns * colors * bpc) / 8);
+  if (predictor === 2) {
+    // TIFF predictor, byte-sized samples only
+    const out = data.slice();
+    if (bpc === 8) {
+      for (let row = 0; row < out.length; row += rowLength) {
+        for (let i = row + bpp; i < Math.min(row + rowLength, out.length); i++) out[i] = (out[i] + out[i - bpp]) & 0xff;
+      }
+    }
+    return out;
+  }
+  // PNG predictors: every row starts with its own filter type
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  for (let r = 0; r < rows; r++) {
+    const filter = data[r * (rowLength + 1)];
+    const src = r * (rowLength + 1) + 1;
+    const dst = r * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bpp ? out[dst + i - bpp] : 0;
+      const up = r > 0 ? out[dst - rowLength + i] : 0;
+      const upLeft = r > 0 && i >= bpp ? out[dst - rowLength + i - bpp] : 0;
+      let value = data[src + i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+// Inline images abbreviate filter names
+const FILTER_NAMES: Record<string, string> = {
+  AHx: 'ASCIIHexDecode',
+  A85: 'ASCII85Decode',
+  LZW: 'LZWDecode',
+  Fl: 'FlateDecode',
+  RL: 'RunLengthDecode',
+  CCF: 'CCITTFaxDecode',
+  DCT: 'DCTDecode'
+};
+
+// Image codecs are left to the browser, or reported as unsupported
+const IMAGE_FILTERS = ['DCTDecode', 'JPXDecode', 'CCITTFaxDecode', 'JBIG2Decode'];
+
+const num = (obj: PdfObject | undefined, fallback: number) => (typeof obj === 'number' ? obj : fallback);
+
+// --- Document ---
+
+export const openPdf = async (bytes: Uint8Array) => {
+  const text = latin1(bytes);
+  if (!text.slice(0, 1024).includes('%PDF')) throw new PdfError('PDF dosyası değil');
+  if (/\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(text)) throw new PdfError('Şifreli PDF dosyaları okunamıyor');
+
+  // Objects are found by scanning for their headers instead of trusting the xref table, which
+  // is often stale in files that have been edited; later definitions win
+  const offsets = new Map<number, number>();
+  const headers: { num: number; offset: number }[] = [];
+  for (const match of text.matchAll(/(\d+)\s+(\d+)\s+obj\b/g)) {
+    const before = match.index ? text.charCodeAt(match.index - 1) : 32;
+    if (!WHITESPACE.has(before) && !DELIMITERS.has(before)) continue;
+    const objNum = parseInt(match[1], 10);
+    offsets.set(objNum, match.index!);
+    headers.push({ num: objNum, offset: match.index! });
+  }
+  const compressed = new Map<number, { data: Uint8Array; offset: number }>();
+  const cache = new Map<number, PdfObject>();
+
+  const parseAt = (source: Uint8Array, offset: number, withHeader: boolean): PdfObject => {
+    const parser = createParser(source, offset);
+    if (withHeader) {
+      parser.next();
+      parser.next();
+      parser.next();
+    }
+    const value = parser.next();
+    if (value === undefined || isOperator(value)) return null;
+    if (!withHeader || !isDict(value)) return value;
+    parser.skipSpace();
+    const at = parser.position;
+    if (latin1(source.subarray(at, at + 6)) !== 'stream') return value;
+    let start = at + 6;
+    if (source[start] === 13) start++;
+    if (source[start] === 10) start++;
+    const declared = resolve(value.entries.Length);
+    let end = typeof declared === 'number' ? start + declared : -1;
+    // Trust /Length only when endstream follows it
+    const after = end >= 0 ? indexOfBytes(source, 'endstream', end) : -1;
+    if (after < 0 || after - end > 2) {
+      end = indexOfBytes(source, 'endstream', start);
+      if (end < 0) end = source.length;
+      if (source[end - 1] === 10) end--;
+      if (source[end - 1] === 13) end--;
+    }
+    return { type: 'stream', dict: value, data: source.subarray(start, Math.max(start, end)) };
+  };
+
+  const load = (objNum: number): PdfObject => {
+    if (cache.has(objNum)) return cache.get(objNum)!;
+    // Guards against objects that refer to themselves while loading
+    cache.set(objNum, null);
+    let value: PdfObject = null;
+    const offset = offsets.get(objNum);
+    if (offset !== undefined) {
+      value = parseAt(bytes, offset, true);
+    } else {
+      const packed = compressed.get(objNum);
+      if (packed) value = parseAt(packed.data, packed.offset, false);
+    }
+    cache.set(objNum, value);
+    return value;
+  };
+
+  const resolve = (obj: PdfObject | undefined): PdfObject | undefined => {
+    let current = obj;
+    for (let depth = 0; isRef(current) && depth < 32; depth++) current = load(current.num);
+    return current;
+  };
+
+  const dictOf = (obj: PdfObject | undefined): PdfDict | undefined => {
+    const value = resolve(obj);
+    if (isStream(value)) return value.dict;
+    return isDict(value) ? value : undefined;
+  };
+
+  const get = (dict: PdfDict | undefined, key: string) => resolve(dict?.entries[key]);
+
+  const decodeStream = async (stream: PdfStream) => {
+    const filters = resolve(stream.dict.entries.Filter ?? stream.dict.entries.F);
+    const parmList = resolve(stream.dict.entries.DecodeParms ?? stream.dict.entries.DP);
+    const names = (Array.isArray(filters) ? filters.map(f => resolve(f)) : [filters]).filter((f): f is string => typeof f === 'string');
+    const parms = Array.isArray(parmList) ? parmList.map(p => dictOf(p)) : [dictOf(parmList)];
+    let data = stream.data;
+    for (const [i, short] of names.entries()) {
+      const name = FILTER_NAMES[short] ?? short;
+      if (IMAGE_FILTERS.includes(name)) return { data, imageFilter: name, parms: parms[i] };
+      if (name === 'FlateDecode') data = unpredict(await inflate(data), parms[i]);
+      else if (name === 'LZWDecode') data = unpredict(lzwDecode(data, num(parms[i]?.entries.EarlyChange, 1)), parms[i]);
+      else if (name === 'ASCIIHexDecode') data = asciiHexDecode(data);
+      else if (name === 'ASCII85Decode') data = ascii85Decode(data);
+      else if (name === 'RunLengthDecode') data = runLengthDecode(data);
+      else throw new PdfError(`Desteklenmeyen PDF filtresi: ${name}`);
+    }
+    return { data, imageFilter: null, parms: undefined };
+  };
+
+  // Compressed object streams hold most objects of newer files; they are unpacked up front
+  for (const match of text.matchAll(/\/Type\s*\/ObjStm\b/g)) {
+    const header = headers.filter(h => h.offset < match.index!).pop();
+    if (!header) continue;
+    const stream = load(header.num);
+    if (!isStream(stream)) continue;
+    try {
+      const { data } = await decodeStream(stream);
+      const first = num(resolve(stream.dict.entries.First), 0);
+      const count = num(resolve(stream.dict.entries.N), 0);
+      const parser = createParser(data.subarray(0, first));
+      for (let i = 0; i < count; i++) {
+        const objNum = parser.next();
+        const offset = parser.next();
+        if (typeof objNum !== 'number' || typeof offset !== 'number') break;
+        if (!offsets.has(objNum) && !compressed.has(objNum)) compressed.set(objNum, { data, offset: first + offset });
+      }
+    } catch {
+      // Objects in a damaged stream are simply missing
+    }
+  }
+
+  const rootMatch = Array.from(text.matchAll(/\/Root\s+(\d+)\s+(\d+)\s+R/g)).pop();
+  if (!rootMatch) throw new PdfError('PDF sayfa listesi bulunamadı');
+  const root = dictOf({ type: 'ref', num: parseInt(rootMatch[1], 10), gen: 0 });
+
+  // Leaf pages in order, with the attributes they inherit from the tree
+  const pages: { dict: PdfDict; resources?: PdfDict; box: number[] }[] = [];
+  const visited = new Set<PdfDict>();
+  const walk = (node: PdfDict | undefined, inherited: { resources?: PdfDict; box?: number[] }) => {
+    if (!node || visited.has(node)) return;
+    visited.add(node);
+    const resources = dictOf(node.entries.Resources) ?? inherited.resources;
+    const boxValue = get(node, 'CropBox') ?? get(node, 'MediaBox');
+    const box = Array.isArray(boxValue) && boxValue.length === 4 ? boxValue.map(v => num(resolve(v), 0)) : inherited.box;
+    const kids = get(node, 'Kids');
+    if (Array.isArray(kids)) {
+      kids.forEach(kid => walk(dictOf(kid), { resources, box }));
+    } else {
+      pages.push({ dict: node, resources, box: box ?? [0, 0, 612, 792] });
+    }
+  };
+  walk(dictOf(root?.entries.Pages), {});
+  if (!pages.length) throw new PdfError('PDF dosyasında sayfa yok');
+
+  const renderPage = async (index: number, canvas: HTMLCanvasElement, dpi: number, maxSize: number) => {
+    const page = pages[index];
+    const [ax, ay, bx, by] = page.box;
+    const [x0, x1] = [Math.min(ax, bx), Math.max(ax, bx)];
+    const [y0, y1] = [Math.min(ay, by), Math.max(ay, by)];
+    const scale = Math.min(dpi / 72, maxSize / Math.max(x1 - x0, y1 - y0, 1));
+    canvas.width = Math.max(1, Math.round((x1 - x0) * scale));
+    canvas.height = Math.max(1, Math.round((y1 - y0) * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new PdfError('Canvas desteklenmiyor');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    // PDF space has its origin at the bottom left; /Rotate is ignored as the readers do not mind
+    ctx.setTransform(scale, 0, 0, -scale, -x0 * scale, y1 * scale);
+
+    const contents = get(page.dict, 'Contents');
+    const streams = (Array.isArray(contents) ? contents.map(c => resolve(c)) : [contents]).filter(isStream);
+    const parts = await Promise.all(streams.map(s => decodeStream(s).then(r => r.data)));
+    const content = new Uint8Array(parts.reduce((n, p) => n + p.length + 1, 0)).fill(10);
+    let offset = 0;
+    for (const part of parts) {
+      content.set(part, offset);
+      offset += part.length + 1;
+    }
+
+    const painter = createPainter(ctx, { resolve, dictOf, get, decodeStream });
+    await painter.run(content, page.resources, 0);
+    return { warnings: painter.warnings() };
+  };
+
+  return { pageCount: pages.length, renderPage };
+};
+
+export type PdfDocument = Awaited<ReturnType<typeof openPdf>>;
+
+// --- Painting ---
+
+interface PdfAccess {
+  resolve: (obj: PdfObject | undefined) => PdfObject | undefined;
+  dictOf: (obj: PdfObject | undefined) => PdfDict | undefined;
+  get: (dict: PdfDict | undefined, key: string) => PdfObject | undefined;
+  decodeStream: (stream: PdfStream) => Promise<{ data: Uint8Array; imageFilter: string | null; parms: PdfDict | undefined }>;
+}
+
+type ColorFamily = 'gray' | 'rgb' | 'cmyk' | 'ink' | 'lab' | 'indexed' | 'pattern';
+
+interface ColorSpace {
+  family: ColorFamily;
+  components: number;
+  // Indexed spaces only
+  base?: ColorSpace;
+  hival?: number;
+  lookup?: Uint8Array;
+}
+
+const DEVICE_SPACES: Record<string, ColorSpace> = {
+  DeviceGray: { family: 'gray', components: 1 },
+  G: { family: 'gray', components: 1 },
+  CalGray: { family: 'gray', components: 1 },
+  DeviceRGB: { family: 'rgb', components: 3 },
+  RGB: { family: 'rgb', components: 3 },
+  CalRGB: { family: 'rgb', components: 3 },
+  DeviceCMYK: { family: 'cmyk', components: 4 },
+  CMYK: { family: 'cmyk', components: 4 },
+  Lab: { family: 'lab', components: 3 },
+  Pattern: { family: 'pattern', components: 0 }
+};
+
+// Components in 0..1 (indexes for Indexed) to 0..255 RGB
+const toRgb = (space: ColorSpace, c: ArrayLike<number>): [number, number, number] => {
+  switch (space.family) {
+    case 'gray':
+      return [c[0] * 255, c[0] * 255, c[0] * 255];
+    case 'rgb':
+      return [c[0] * 255, c[1] * 255, c[2] * 255];
+    case 'cmyk': {
+      const k = 1 - c[3];
+      return [255 * (1 - c[0]) * k, 255 * (1 - c[1]) * k, 255 * (1 - c[2]) * k];
+    }
+    case 'ink': {
+      // Separation and DeviceN tints: 1 is full ink
+      let tint = 0;
+      for (let i = 0; i < space.components; i++) tint = Math.max(tint, c[i] ?? 0);
+      return [255 * (1 - tint), 255 * (1 - tint), 255 * (1 - tint)];
+    }
+    case 'lab':
+      return [c[0] * 2.55, c[0] * 2.55, c[0] * 2.55];
+    case 'indexed': {
+      const base = space.base!;
+      const index = Math.max(0, Math.min(space.hival ?? 0, Math.round(c[0])));
+      const values = Array.from(space.lookup!.subarray(index * base.components, (index + 1) * base.components), v => v / 255);
+      return toRgb(base, values);
+    }
+    default:
+      return [128, 128, 128];
+  }
+};
+
+const cssColor = ([r, g, b]: [number, number, number]) => `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+
+interface GraphicsState {
+  fillSpace: ColorSpace;
+  strokeSpace: ColorSpace;
+  fill: string;
+  stroke: string;
+}
+
+const MAX_FORM_DEPTH = 8;
+
+const createPainter = (ctx: CanvasRenderingContext2D, pdf: PdfAccess) => {
+  const { resolve, dictOf, get, decodeStream } = pdf;
+  const warnings = new Set<string>();
+  let state: GraphicsState = {
+    fillSpace: DEVICE_SPACES.DeviceGray,
+    strokeSpace: DEVICE_SPACES.DeviceGray,
+    fill: 'rgb(0, 0, 0)',
+    stroke: 'rgb(0, 0, 0)'
+  };
+  const stack: GraphicsState[] = [];
+
+  const save = () => {
+    ctx.save();
+    stack.push({ ...state });
+  };
+  const restore = () => {
+    if (!stack.length) return;
+    ctx.restore();
+    state = stack.pop()!;
+  };
+
+  const colorSpace = (obj: PdfObject | undefined, resources: PdfDict | undefined, depth = 0): ColorSpace => {
+    const value = resolve(obj);
+    if (typeof value === 'string') {
+      if (DEVICE_SPACES[value]) return DEVICE_SPACES[value];
+      const named = dictOf(get(resources, 'ColorSpace'))?.entries[value];
+      return named !== undefined && depth < 4 ? colorSpace(named, resources, depth + 1) : DEVICE_SPACES.DeviceGray;
+    }
+    if (Array.isArray(value) && typeof resolve(value[0]) === 'string') {
+      const family = resolve(value[0]) as string;
+      if (family === 'ICCBased') {
+        const n = num(resolve(dictOf(value[1])?.entries.N), 3);
+        return n === 1 ? DEVICE_SPACES.DeviceGray : n === 4 ? DEVICE_SPACES.DeviceCMYK : DEVICE_SPACES.DeviceRGB;
+      }
+      if (family === 'Indexed' || family === 'I') {
+        const base = colorSpace(value[1], resources, depth + 1);
+        const table = resolve(value[3]);
+        return {
+          family: 'indexed',
+          components: 1,
+          base,
+          hival: num(resolve(value[2]), 255),
+          // Stream lookups were decoded when the space was first needed
+          lookup: table instanceof Uint8Array ? table : new Uint8Array(0)
+        };
+      }
+      if (family === 'Separation') return { family: 'ink', components: 1 };
+      if (family === 'DeviceN') {
+        const names = resolve(value[1]);
+        return { family: 'ink', components: Array.isArray(names) ? names.length : 1 };
+      }
+      if (family === 'Pattern') return DEVICE_SPACES.Pattern;
+      if (DEVICE_SPACES[family]) return DEVICE_SPACES[family];
+    }
+    return DEVICE_SPACES.DeviceGray;
+  };
+
+  // Indexed lookup tables may live in streams, which only decode asynchronously
+  const prepareColorSpace = async (obj: PdfObject | undefined, resources: PdfDict | undefined) => {
+    let value = resolve(obj);
+    if (typeof value === 'string' && !DEVICE_SPACES[value]) value = resolve(dictOf(get(resources, 'ColorSpace'))?.entries[value]);
+    if (Array.isArray(value) && (resolve(value[0]) === 'Indexed' || resolve(value[0]) === 'I')) {
+      const table = resolve(value[3]);
+      if (isStream(table)) value[3] = (await decodeStream(table)).data;
+    }
+  };
+
+  const shadingStyle = (shading: PdfDict | undefined, resources: PdfDict | undefined): CanvasGradient | string => {
+    if (!shading) return 'rgb(128, 128, 128)';
+    const space = colorSpace(shading.entries.ColorSpace, resources);
+    const fn = resolve(shading.entries.Function);
+    const domain = resolve(shading.entries.Domain);
+    const [t0, t1] = Array.isArray(domain) ? domain.map(v => num(resolve(v), 0)) : [0, 1];
+    const colorAt = (t: number) => cssColor(toRgb(space, evalFunction(fn, t0 + (t1 - t0) * t, space.components)));
+    const coords = resolve(shading.entries.Coords);
+    const c = Array.isArray(coords) ? coords.map(v => num(resolve(v), 0)) : [];
+    const type = num(resolve(shading.entries.ShadingType), 0);
+    let gradient: CanvasGradient | null = null;
+    if (type === 2 && c.length >= 4) gradient = ctx.createLinearGradient(c[0], c[1], c[2], c[3]);
+    else if (type === 3 && c.length >= 6) gradient = ctx.createRadialGradient(c[0], c[1], Math.max(0, c[2]), c[3], c[4], Math.max(0, c[5]));
+    // Mesh and function shadings are painted in their middle colour
+    if (!gradient) return colorAt(0.5);
+    for (let i = 0; i <= 4; i++) gradient.addColorStop(i / 4, colorAt(i / 4));
+    return gradient;
+  };
+
+  // Type 2 (exponential) and 3 (stitching) functions; sampled and PostScript ones give mid grey
+  const evalFunction = (fnObj: PdfObject | undefined, t: number, outputs: number): number[] => {
+    const fn = resolve(fnObj);
+    if (Array.isArray(fn)) return fn.map(f => evalFunction(f, t, 1)[0]);
+    const dict = dictOf(fn);
+    const numbers = (key: string, fallback: number[]) => {
+      const value = get(dict, key);
+      return Array.isArray(value) ? value.map(v => num(resolve(v), 0)) : fallback;
+    };
+    const type = num(get(dict, 'FunctionType'), -1);
+    if (type === 2) {
+      const c0 = numbers('C0', [0]);
+      const c1 = numbers('C1', [1]);
+      const n = num(get(dict, 'N'), 1);
+      return c0.map((v, i) => v + Math.pow(t, n) * ((c1[i] ?? 1) - v));
+    }
+    if (type === 3) {
+      const functions = get(dict, 'Functions');
+      const bounds = numbers('Bounds', []);
+      const [d0, d1] = numbers('Domain', [0, 1]);
+      const encode = numbers('Encode', []);
+      if (!Array.isArray(functions) || !functions.length) return new Array(outputs).fill(0.5);
+      let k = 0;
+      while (k < bounds.length && t >= bounds[k]) k++;
+      const lo = k === 0 ? d0 : bounds[k - 1];
+      const hi = k === bounds.length ? d1 : bounds[k];
+      const e0 = encode[k * 2] ?? 0;
+      const e1 = encode[k * 2 + 1] ?? 1;
+      const local = hi === lo ? e0 : e0 + ((t - lo) / (hi - lo)) * (e1 - e0);
+      return evalFunction(functions[Math.min(k, functions.length - 1)], local, outputs);
+    }
+    return new Array(outputs).fill(0.5);
+  };
+
+  const setColor = (target: 'fill' | 'stroke', operands: PdfObject[], resources: PdfDict | undefined) => {
+    const space = target === 'fill' ? state.fillSpace : state.strokeSpace;
+    let color: string;
+    if (space.family === 'pattern') {
+      // Shading patterns are approximated by their middle colour, tiling patterns by grey
+      const name = operands[operands.length - 1];
+      const pattern = typeof name === 'string' ? dictOf(dictOf(get(resources, 'Pattern'))?.entries[name]) : undefined;
+      const style = num(get(pattern, 'PatternType'), 1) === 2 ? shadingStyle(dictOf(get(pattern, 'Shading')), resources) : null;
+      color = typeof style === 'string' ? style : 'rgb(128, 128, 128)';
+    } else {
+      color = cssColor(toRgb(space, operands.map(o => num(o, 0))));
+    }
+    state[target] = color;
+  };
+
+  const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  };
+
+  // Raw samples to a canvas; masks paint the fill colour where the sample says so
+  const rasterize = (dict: PdfDict, data: Uint8Array, resources: PdfDict | undefined) => {
+    const width = num(get(dict, 'Width') ?? get(dict, 'W'), 0);
+    const height = num(get(dict, 'Height') ?? get(dict, 'H'), 0);
+    if (!width || !height) return null;
+    const isMask = get(dict, 'ImageMask') === true || get(dict, 'IM') === true;
+    const bpc = isMask ? 1 : num(get(dict, 'BitsPerComponent') ?? get(dict, 'BPC'), 8);
+    const space = isMask ? DEVICE_SPACES.DeviceGray : colorSpace(get(dict, 'ColorSpace') ?? get(dict, 'CS'), resources);
+    const comps = space.components || 1;
+    const maxValue = (1 << bpc) - 1;
+    const decodeValue = get(dict, 'Decode') ?? get(dict, 'D');
+    const decode = Array.isArray(decodeValue)
+      ? decodeValue.map(v => num(resolve(v), 0))
+      : Array.from({ length: comps * 2 }, (_, i) => (i % 2 ? (space.family === 'indexed' ? maxValue : 1) : 0));
+    const rowBytes = Math.ceil((width * comps * bpc) / 8);
+    const canvas = createCanvas(width, height);
+    const cctx = canvas.getContext('2d');
+    if (!cctx) return null;
+    const image = cctx.createImageData(width, height);
+    const out = image.data;
+    const fill = isMask ? state.fill.match(/\d+/g)!.map(Number) : [];
+    const sample = new Array<number>(comps);
+    for (let y = 0; y < height; y++) {
+      const row = y * rowBytes;
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < comps; c++) {
+          const bit = (x * comps + c) * bpc;
+          let raw: number;
+          if (bpc === 8) raw = data[row + (bit >> 3)] ?? 0;
+          else if (bpc === 16) raw = (data[row + (bit >> 3)] ?? 0) / 257;
+          else raw = ((data[row + (bit >> 3)] ?? 0) >> (8 - bpc - (bit & 7))) & maxValue;
+          const range = bpc === 16 ? 255 : maxValue;
+          sample[c] = decode[c * 2] + (raw * (decode[c * 2 + 1] - decode[c * 2])) / range;
+        }
+        const o = (y * width + x) * 4;
+        if (isMask) {
+          // Samples decoded to 0 are painted
+          if (sample[0] < 0.5) {
+            out[o] = fill[0];
+            out[o + 1] = fill[1];
+            out[o + 2] = fill[2];
+            out[o + 3] = 255;
+          }
+        } else {
+          const [r, g, b] = toRgb(space, sample);
+          out[o] = r;
+          out[o + 1] = g;
+          out[o + 2] = b;
+          out[o + 3] = 255;
+        }
+      }
+    }
+    cctx.putImageData(image, 0, 0);
+    return canvas;
+  };
+
+  const drawImage = async (dict: PdfDict, stream: PdfStream, resources: PdfDict | undefined) => {
+    const { data, imageFilter } = await decodeStream(stream);
+    let image: CanvasImageSource | null = null;
+    if (imageFilter === 'DCTDecode' || imageFilter === 'JPXDecode') {
+      try {
+        image = await createImageBitmap(new Blob([data], { type: imageFilter === 'DCTDecode' ? 'image/jpeg' : 'image/jp2' }));
+      } catch {
+        warnings.add(imageFilter === 'JPXDecode' ? 'JPEG 2000 görüntüler bu tarayıcıda açılamıyor' : 'Bozuk JPEG görüntü atlandı');
+      }
+    } else if (imageFilter) {
+      // Fax-style black and white scans need codecs browsers do not have
+      warnings.add(`${imageFilter === 'CCITTFaxDecode' ? 'CCITT' : 'JBIG2'} sıkıştırmalı görüntüler okunamıyor`);
+    } else {
+      image = rasterize(dict, data, resources);
+    }
+    if (!image) return;
+    const width = image instanceof ImageBitmap ? image.width : (image as HTMLCanvasElement).width;
+    ctx.save();
+    // Images fill the unit square with their first row at the top
+    ctx.transform(1, 0, 0, -1, 0, 1);
+    const m = ctx.getTransform();
+    // Small images scaled up (typically a code at one pixel per module) stay sharp
+    ctx.imageSmoothingEnabled = Math.hypot(m.a, m.b) < width;
+    ctx.drawImage(image, 0, 0, 1, 1);
+    ctx.restore();
+    if (image instanceof ImageBitmap) image.close();
+  };
+
+  const drawXObject = async (name: string, resources: PdfDict | undefined, depth: number) => {
+    const xobject = resolve(dictOf(get(resources, 'XObject'))?.entries[name]);
+    if (!isStream(xobject)) return;
+    const subtype = get(xobject.dict, 'Subtype');
+    if (subtype === 'Image') {
+      await prepareColorSpace(get(xobject.dict, 'ColorSpace'), resources);
+      await drawImage(xobject.dict, xobject, resources);
+    } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+      save();
+      const matrix = get(xobject.dict, 'Matrix');
+      if (Array.isArray(matrix) && matrix.length === 6) {
+        const [a, b, c, d, e, f] = matrix.map(v => num(resolve(v), 0));
+        ctx.transform(a, b, c, d, e, f);
+      }
+      const bbox = get(xobject.dict, 'BBox');
+      if (Array.isArray(bbox) && bbox.length === 4) {
+        const [bx0, by0, bx1, by1] = bbox.map(v => num(resolve(v), 0));
+        ctx.beginPath();
+        ctx.rect(bx0, by0, bx1 - bx0, by1 - by0);
+        ctx.clip();
+        ctx.beginPath();
+      }
+      const { data } = await decodeStream(xobject);
+      await run(data, dictOf(xobject.dict.entries.Resources) ?? resources, depth + 1);
+      restore();
+    }
+  };
+
+  const run = async (content: Uint8Array, resources: PdfDict | undefined, depth: number): Promise<void> => {
+    const parser = createParser(content);
+    const operands: PdfObject[] = [];
+    const n = (i: number) => num(operands[i], 0);
+    let pendingClip: CanvasFillRule | null = null;
+    let current = { x: 0, y: 0 };
+    const stackDepth = stack.length;
+
+    const paint = (fill: CanvasFillRule | null, stroke: boolean, close = false) => {
+      if (close) ctx.closePath();
+      if (fill) {
+        ctx.fillStyle = state.fill;
+        ctx.fill(fill);
+      }
+      if (stroke) {
+        ctx.strokeStyle = state.stroke;
+        ctx.stroke();
+      }
+      if (pendingClip) ctx.clip(pendingClip);
+      pendingClip = null;
+      ctx.beginPath();
+    };
+
+    ctx.beginPath();
+    for (;;) {
+      const token = parser.next();
+      if (token === undefined) break;
+      if (!isOperator(token)) {
+        operands.push(token);
+        continue;
+      }
+      const { op } = token;
+      try {
+        {
+          switch (op) {
+            case 'q': save(); break;
+            case 'Q': if (stack.length > stackDepth) restore(); break;
+            case 'cm': ctx.transform(n(0), n(1), n(2), n(3), n(4), n(5)); break;
+            case 'w': ctx.lineWidth = n(0) || 0.1; break;
+            case 'm': ctx.moveTo(n(0), n(1)); current = { x: n(0), y: n(1) }; break;
+            case 'l': ctx.lineTo(n(0), n(1)); current = { x: n(0), y: n(1) }; break;
+            case 'c': ctx.bezierCurveTo(n(0), n(1), n(2), n(3), n(4), n(5)); current = { x: n(4), y: n(5) }; break;
+            case 'v': ctx.bezierCurveTo(current.x, current.y, n(0), n(1), n(2), n(3)); current = { x: n(2), y: n(3) }; break;
+            case 'y': ctx.bezierCurveTo(n(0), n(1), n(2), n(3), n(2), n(3)); current = { x: n(2), y: n(3) }; break;
+            case 'h': ctx.closePath(); break;
+            case 're': ctx.rect(n(0), n(1), n(2), n(3)); current = { x: n(0), y: n(1) }; break;
+            case 'f': case 'F': paint('nonzero', false); break;
+            case 'f*': paint('evenodd', false); break;
+            case 'S': paint(null, true); break;
+            case 's': paint(null, true, true); break;
+            case 'B': paint('nonzero', true); break;
+            case 'B*': paint('evenodd', true); break;
+            case 'b': paint('nonzero', true, true); break;
+            case 'b*': paint('evenodd', true, true); break;
+            case 'n': paint(null, false); break;
+            case 'W': pendingClip = 'nonzero'; break;
+            case 'W*': pendingClip = 'evenodd'; break;
+            case 'g': state.fillSpace = DEVICE_SPACES.DeviceGray; setColor('fill', operands, resources); break;
+            case 'G': state.strokeSpace = DEVICE_SPACES.DeviceGray; setColor('stroke', operands, resources); break;
+            case 'rg': state.fillSpace = DEVICE_SPACES.DeviceRGB; setColor('fill', operands, resources); break;
+            case 'RG': state.strokeSpace = DEVICE_SPACES.DeviceRGB; setColor('stroke', operands, resources); break;
+            case 'k': state.fillSpace = DEVICE_SPACES.DeviceCMYK; setColor('fill', operands, resources); break;
+            case 'K': state.strokeSpace = DEVICE_SPACES.DeviceCMYK; setColor('stroke', operands, resources); break;
+            case 'cs':
+            case 'CS': {
+              await prepareColorSpace(operands[0], resources);
+              const space = colorSpace(operands[0], resources);
+              const initial = space.family === 'cmyk' ? [0, 0, 0, 1] : space.family === 'ink' ? [1] : [0, 0, 0];
+              if (op === 'cs') {
+                state.fillSpace = space;
+                setColor('fill', initial, resources);
+              } else {
+                state.strokeSpace = space;
+                setColor('stroke', initial, resources);
+              }
+              break;
+            }
+            case 'sc': case 'scn': setColor('fill', operands, resources); break;
+            case 'SC': case 'SCN': setColor('stroke', operands, resources); break;
+            case 'sh': {
+              const name = operands[0];
+              const shading = typeof name === 'string' ? dictOf(dictOf(get(resources, 'Shading'))?.entries[name]) : undefined;
+              ctx.save();
+              ctx.fillStyle = shadingStyle(shading, resources);
+              // Shadings cover the whole clipping region
+              ctx.fillRect(-1e5, -1e5, 2e5, 2e5);
+              ctx.restore();
+              break;
+            }
+            case 'Do':
+              if (typeof operands[0] === 'string') await drawXObject(operands[0], resources, depth);
+              break;
+            case 'BI': {
+              // Inline image: key/value pairs up to ID, then raw data up to EI
+              const entries: Record<string, PdfObject> = {};
+              for (;;) {
+                const key = parser.next();
+                if (key === undefined || (isOperator(key) && key.op === 'ID')) break;
+                const value = parser.next();
+                if (typeof key === 'string' && value !== undefined && !isOperator(value)) entries[key] = value;
+              }
+              const start = parser.position + 1;
+              let end = start;
+              for (;;) {
+                end = indexOfBytes(content, 'EI', end);
+                if (end < 0) {
+                  end = content.length;
+                  break;
+                }
+                const after = content[end + 2];
+                if (WHITESPACE.has(content[end - 1]) && (after === undefined || WHITESPACE.has(after))) break;
+                end += 2;
+              }
+              parser.position = end + 2;
+              const dict: PdfDict = { type: 'dict', entries };
+              await prepareColorSpace(entries.ColorSpace ?? entries.CS, resources);
+              await drawImage(dict, { type: 'stream', dict, data: content.subarray(start, Math.max(start, end - 1)) }, resources);
+              break;
+            }
+            default:
+              // Text, line style, marked content and graphics state dictionaries change nothing
+              // the readers can see
+              break;
+          }
+        }
+      } catch (e) {
+        warnings.add(e instanceof Error ? e.message : String(e));
+      }
+      operands.length = 0;
+    }
+    // Unbalanced q operators in a stream must not leak into the next one
+    while (stack.length > stackDepth) restore();
+  };
+
+  return { run, warnings: () => Array.from(warnings) };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase45, encodeBase45 } from './base45';
+import { PROTECTED_PREFIX, ProtectedPayloadError, isProtectedPayload, openPayload, sealPayload } from './protectedPayload';
+
+const WIFI = 'WIFI:S:Ev Ağı;T:WPA;P:gizli;şifre;;';
+
+describe('protected payloads', () => {
+  it('opens a sealed payload with the right passphrase', async () => {
+    const envelope = await sealPayload(WIFI, 'doğru parola');
+    expect(isProtectedPayload(envelope)).toBe(true);
+    expect(envelope).not.toContain('gizli');
+    expect(await openPayload(envelope, 'doğru parola')).toBe(WIFI);
+  });
+
+  it('refuses a wrong passphrase', async () => {
+    const envelope = await sealPayload(WIFI, 'doğru parola');
+    await expect(openPayload(envelope, 'yanlış parola')).rejects.toThrow(ProtectedPayloadError);
+  });
+
+  it('refuses an envelope whose header was changed', async () => {
+    const envelope = await sealPayload(WIFI, 'parola');
+    const bytes = decodeBase45(envelope.slice(PROTECTED_PREFIX.length));
+    // One bit of the salt; the header is authenticated as additional data
+    bytes[10] ^= 1;
+    await expect(openPayload(PROTECTED_PREFIX + encodeBase45(bytes), 'parola')).rejects.toThrow('Parola yanlış');
+  });
+
+  it('seals the same text differently every time', async () => {
+    expect(await sealPayload('merhaba', 'parola')).not.toBe(await sealPayload('merhaba', 'parola'));
+  });
+
+  it('refuses an empty passphrase', async () => {
+    await expect(sealPayload(WIFI, '')).rejects.toThrow(ProtectedPayloadError);
+  });
+
+  it('refuses malformed envelopes without deriving a key', async () => {
+    await expect(openPayload('merhaba', 'parola')).rejects.toThrow('Korumalı içerik değil');
+    await expect(openPayload(`${PROTECTED_PREFIX}!!`, 'parola')).rejects.toThrow('Bozuk');
+    await expect(openPayload(PROTECTED_PREFIX + encodeBase45(new Uint8Array(10)), 'parola')).rejects.toThrow('Bozuk');
+    // An iteration count of 0xFFFFFFFF would freeze the scanner
+    const header = new Uint8Array(60).fill(0xff);
+    await expect(openPayload(PROTECTED_PREFIX + encodeBase45(header), 'parola')).rejects.toThrow('Desteklenmeyen');
+  });
+});
@@ -0,0 +1,91 @@
+import { decodeBase45, encodeBase45 } from './base45';
+
+// Passphrase-protected payloads. Any generator payload (WiFi, text, vCard...) is encrypted and
+// wrapped in an envelope that the scanner recognises by its prefix:
+//
+//   QRP1:<base45 of the bytes below>
+//
+//   offset  size  field
+//   0       4     PBKDF2 iteration count, big-endian
+//   4       16    PBKDF2 salt
+//   20      12    AES-GCM IV
+//   32      n+16  AES-256-GCM ciphertext of the UTF-8 payload, followed by the tag
+//
+// The key is PBKDF2-HMAC-SHA256(passphrase, salt, iterations). The first 32 bytes are passed as
+// additional data, so a changed iteration count or salt fails the tag check like any other edit.
+// Base45 keeps the symbol in alphanumeric mode.
+
+export const PROTECTED_PREFIX = 'QRP1:';
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_SIZE = 16;
+const IV_SIZE = 12;
+const HEADER_SIZE = 4 + SALT_SIZE + IV_SIZE;
+const TAG_SIZE = 16;
+// Bounds for envelopes made elsewhere; a huge count would freeze the scanner
+const MIN_ITERATIONS = 10000;
+const MAX_ITERATIONS = 5000000;
+
+export class ProtectedPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtectedPayloadError';
+  }
+}
+
+export const isProtectedPayload = (text: string) => text.startsWith(PROTECTED_PREFIX);
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealPayload = async (text: string, passphrase: string) => {
+  if (!passphrase) throw new ProtectedPayloadError('Parola boş olamaz');
+  const header = new Uint8Array(HEADER_SIZE);
+  new DataView(header.buffer).setUint32(0, PBKDF2_ITERATIONS);
+  crypto.getRandomValues(header.subarray(4));
+  const salt = header.slice(4, 4 + SALT_SIZE);
+  const iv = header.slice(4 + SALT_SIZE);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, new TextEncoder().encode(text))
+  );
+  const bytes = new Uint8Array(HEADER_SIZE + ciphertext.length);
+  bytes.set(header);
+  bytes.set(ciphertext, HEADER_SIZE);
+  return PROTECTED_PREFIX + encodeBase45(bytes);
+};
+
+// Throws ProtectedPayloadError for a malformed envelope or a wrong passphrase; GCM cannot tell
+// a wrong passphrase from tampered data, so both get the same message
+export const openPayload = async (envelope: string, passphrase: string) => {
+  if (!isProtectedPayload(envelope)) throw new ProtectedPayloadError('Korumalı içerik değil');
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase45(envelope.slice(PROTECTED_PREFIX.length));
+  } catch {
+    throw new ProtectedPayloadError('Bozuk korumalı içerik');
+  }
+  if (bytes.length < HEADER_SIZE + TAG_SIZE) throw new ProtectedPayloadError('Bozuk korumalı içerik');
+  const header = bytes.slice(0, HEADER_SIZE);
+  const iterations = new DataView(header.buffer).getUint32(0);
+  if (iterations < MIN_ITERATIONS || iterations > MAX_ITERATIONS) throw new ProtectedPayloadError('Desteklenmeyen şifreleme ayarı');
+  const key = await deriveKey(passphrase, header.slice(4, 4 + SALT_SIZE), iterations);
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: header.slice(4 + SALT_SIZE), additionalData: header },
+      key,
+      bytes.slice(HEADER_SIZE)
+    );
+    return new TextDecoder().decode(plain);
+  } catch {
+    throw new ProtectedPayloadError('Parola yanlış veya içerik değiştirilmiş');
+  }
+};
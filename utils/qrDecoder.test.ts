@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { EcLevel } from '../types';
+import { QrSymbol, encodeSegments, encodeText, makeBytesSegment, makeEciSegment } from './qrEncoder';
+import { RgbaImage, decodeQr, decodeQrBytes } from './qrDecoder';
+
+// Black modules on white, with a quiet zone, as a camera frame would show them
+const renderSymbol = (symbol: QrSymbol, scale = 4, quietZone = 4): RgbaImage => {
+  const width = (symbol.size + quietZone * 2) * scale;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+  symbol.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const i = (((y + quietZone) * scale + dy) * width + (x + quietZone) * scale + dx) * 4;
+          data.fill(0, i, i + 3);
+        }
+      }
+    })
+  );
+  return { data, width, height: width };
+};
+
+describe('decodeQr', () => {
+  it.each([
+    ['numeric', '01234567890123456789'],
+    ['alphanumeric', 'HTTPS://EXAMPLE.COM/A-B'],
+    ['byte', 'https://example.com/?q=çay&ş=1'],
+    ['multi-line text', 'Satır 1\nSatır 2\r\nSatır 3']
+  ])('reads back %s content', (_, text) => {
+    const decoded = decodeQr(renderSymbol(encodeText(text, 'M')));
+    expect(decoded?.text).toBe(text);
+  });
+
+  it.each(['L', 'M', 'Q', 'H'] as EcLevel[])('reads back EC level %s', ecLevel => {
+    const decoded = decodeQr(renderSymbol(encodeText('ec level', ecLevel)));
+    expect(decoded?.text).toBe('ec level');
+    expect(decoded?.ecLevel).toBe(ecLevel);
+  });
+
+  it.each([0, 1, 2, 3, 4, 5, 6, 7])('reads back mask %i', mask => {
+    expect(decodeQr(renderSymbol(encodeText('mask', 'Q', { mask })))?.text).toBe('mask');
+  });
+
+  it('reads a symbol large enough to carry version information', () => {
+    const text = 'x'.repeat(400);
+    const symbol = encodeText(text, 'L');
+    expect(symbol.version).toBeGreaterThanOrEqual(7);
+    const decoded = decodeQr(renderSymbol(symbol, 3));
+    expect(decoded?.text).toBe(text);
+    expect(decoded?.version).toBe(symbol.version);
+  });
+
+  it('corrects damaged modules within the EC level', () => {
+    const symbol = encodeText('damaged but readable', 'H', { minVersion: 3 });
+    // A few modules in the data area, away from the finder and timing patterns
+    const modules = symbol.modules.map(row => row.slice());
+    for (let i = 0; i < 6; i++) modules[symbol.size - 2 - i][symbol.size - 3] = !modules[symbol.size - 2 - i][symbol.size - 3];
+    expect(decodeQr(renderSymbol({ ...symbol, modules }))?.text).toBe('damaged but readable');
+  });
+
+  it('honours an ECI designator', () => {
+    const latin2 = new Uint8Array([0x50, 0xb9, 0x65]);
+    const symbol = encodeSegments([makeEciSegment(4), makeBytesSegment(latin2)], 'M');
+    const decoded = decodeQr(renderSymbol(symbol));
+    expect(decoded?.eci).toBe(4);
+    expect(decoded?.text).toBe('Pše');
+  });
+
+  it('returns null for an image without a code', () => {
+    const width = 64;
+    expect(decodeQr({ data: new Uint8ClampedArray(width * width * 4).fill(255), width, height: width })).toBeNull();
+  });
+});
+
+describe('decodeQrBytes', () => {
+  it('reads UTF-8 without an ECI', () => {
+    expect(decodeQrBytes(new TextEncoder().encode('Gölcük'))).toBe('Gölcük');
+  });
+
+  it('falls back to Latin-1 for bytes that are not UTF-8', () => {
+    expect(decodeQrBytes(new Uint8Array([0x63, 0x61, 0x66, 0xe9]))).toBe('café');
+  });
+});
@@ -0,0 +1,743 @@
+// QR Code reader for camera frames and images. jsQR and the native BarcodeDetector drop the
+// Structured Append header (jsQR even reads it as data), so symbols that belong to a set are
+// decoded here. Locating follows ZXing's finder-pattern search; the matrix side mirrors
+// utils/qrEncoder, whose tables and format words it reuses.
+
+import { EcLevel, EC_LEVELS, MAX_VERSION, formatInfoBits, getAlignmentPatternPositions, getBlockLayout, maskInverts, versionInfoBits } from './qrEncoder';
+import { createReedSolomon } from './reedSolomon';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface StructuredAppendHeader {
+  // 0-based position in the set
+  index: number;
+  total: number;
+  parity: number;
+}
+
+export interface DecodedQr {
+  text: string;
+  // Payload of all segments in order; numeric and alphanumeric segments as ASCII
+  bytes: Uint8Array;
+  // First ECI designator, when the symbol declares a character set
+  eci?: number;
+  version: number;
+  ecLevel: EcLevel;
+  structuredAppend?: StructuredAppendHeader;
+  // Image coordinates of the symbol corners: top-left, top-right, bottom-right, bottom-left
+  corners: Point[];
+}
+
+// Anything with RGBA pixels, so ImageData and plain objects both work
+export interface RgbaImage {
+  data: Uint8ClampedArray | Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface BitImage {
+  width: number;
+  height: number;
+  // 1 is dark
+  bits: Uint8Array;
+}
+
+export const isDark = (img: BitImage, x: number, y: number) =>
+  x >= 0 && y >= 0 && x < img.width && y < img.height && img.bits[Math.floor(y) * img.width + Math.floor(x)] === 1;
+
+// Binarization, as ZXing's HybridBinarizer: each 8x8 block is thresholded at the mean of the
+// 5x5 blocks around it, and flat blocks count as background
+
+const BLOCK_SIZE = 8;
+const MIN_DYNAMIC_RANGE = 24;
+
+export const binarize = ({ data, width, height }: RgbaImage): BitImage => {
+  const grey = new Uint8Array(width * height);
+  for (let i = 0; i < grey.length; i++) grey[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+
+  const blocksX = Math.ceil(width / BLOCK_SIZE);
+  const blocksY = Math.ceil(height / BLOCK_SIZE);
+  const levels = new Float32Array(blocksX * blocksY);
+  for (let by = 0; by < blocksY; by++) {
+    const y0 = by * BLOCK_SIZE;
+    const y1 = Math.min(height, y0 + BLOCK_SIZE);
+    for (let bx = 0; bx < blocksX; bx++) {
+      const x0 = bx * BLOCK_SIZE;
+      const x1 = Math.min(width, x0 + BLOCK_SIZE);
+      let sum = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let i = y * width + x0, end = y * width + x1; i < end; i++) {
+          const v = grey[i];
+          sum += v;
+          if (v < min) min = v;
+          if (v > max) max = v;
+        }
+      }
+      let level = sum / ((y1 - y0) * (x1 - x0));
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        level = min / 2;
+        if (by > 0 && bx > 0) {
+          const neighbours = (levels[(by - 1) * blocksX + bx] + 2 * levels[by * blocksX + bx - 1] + levels[(by - 1) * blocksX + bx - 1]) / 4;
+          if (min < neighbours) level = neighbours;
+        }
+      }
+      levels[by * blocksX + bx] = level;
+    }
+  }
+
+  const bits = new Uint8Array(width * height);
+  const clamp = (v: number, max: number) => Math.min(Math.max(v, 0), max - 1);
+  for (let by = 0; by < blocksY; by++) {
+    const y0 = by * BLOCK_SIZE;
+    const y1 = Math.min(height, y0 + BLOCK_SIZE);
+    for (let bx = 0; bx < blocksX; bx++) {
+      let sum = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) sum += levels[clamp(by + dy, blocksY) * blocksX + clamp(bx + dx, blocksX)];
+      }
+      const threshold = sum / 25;
+      const x0 = bx * BLOCK_SIZE;
+      const x1 = Math.min(width, x0 + BLOCK_SIZE);
+      for (let y = y0; y < y1; y++) {
+        for (let i = y * width + x0, end = y * width + x1; i < end; i++) bits[i] = grey[i] <= threshold ? 1 : 0;
+      }
+    }
+  }
+  return { width, height, bits };
+};
+
+// Finder patterns: runs of dark, light, dark, light, dark in a 1:1:3:1:1 ratio, confirmed
+// vertically and horizontally through the centre
+
+interface FinderCandidate extends Point {
+  moduleSize: number;
+  // How many scan rows confirmed it
+  count: number;
+}
+
+const isFinderRatio = (counts: number[]) => {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (total < 7) return false;
+  const module = total / 7;
+  const variance = module / 2;
+  return (
+    Math.abs(module - counts[0]) < variance &&
+    Math.abs(module - counts[1]) < variance &&
+    Math.abs(3 * module - counts[2]) < 3 * variance &&
+    Math.abs(module - counts[3]) < variance &&
+    Math.abs(module - counts[4]) < variance
+  );
+};
+
+// Walks both ways from a dark pixel along (dx, dy); returns the pattern centre as an offset from
+// the start and the pattern width. A zero originalTotal skips the width comparison.
+const crossCheck = (img: BitImage, startX: number, startY: number, dx: number, dy: number, maxCount: number, originalTotal: number) => {
+  const counts = [0, 0, 0, 0, 0];
+  const inside = (t: number) => {
+    const x = startX + t * dx;
+    const y = startY + t * dy;
+    return x >= 0 && y >= 0 && x < img.width && y < img.height;
+  };
+  const dark = (t: number) => isDark(img, startX + t * dx, startY + t * dy);
+
+  let t = 0;
+  while (inside(t) && dark(t)) {
+    counts[2]++;
+    t--;
+  }
+  if (!inside(t)) return null;
+  while (inside(t) && !dark(t) && counts[1] <= maxCount) {
+    counts[1]++;
+    t--;
+  }
+  if (!inside(t) || counts[1] > maxCount) return null;
+  while (inside(t) && dark(t) && counts[0] <= maxCount) {
+    counts[0]++;
+    t--;
+  }
+  if (counts[0] > maxCount) return null;
+
+  t = 1;
+  while (inside(t) && dark(t)) {
+    counts[2]++;
+    t++;
+  }
+  if (!inside(t)) return null;
+  while (inside(t) && !dark(t) && counts[3] < maxCount) {
+    counts[3]++;
+    t++;
+  }
+  if (!inside(t) || counts[3] >= maxCount) return null;
+  while (inside(t) && dark(t) && counts[4] < maxCount) {
+    counts[4]++;
+    t++;
+  }
+  if (counts[4] >= maxCount) return null;
+
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (originalTotal && 5 * Math.abs(total - originalTotal) >= 2 * originalTotal) return null;
+  return isFinderRatio(counts) ? { offset: t - counts[4] - counts[3] - counts[2] / 2, total } : null;
+};
+
+const findFinderCandidates = (img: BitImage) => {
+  const candidates: FinderCandidate[] = [];
+
+  const handlePossibleCenter = (counts: number[], row: number, end: number) => {
+    const total = counts.reduce((a, b) => a + b, 0);
+    const startX = Math.floor(end - counts[4] - counts[3] - counts[2] / 2);
+    const vertical = crossCheck(img, startX, row, 0, 1, counts[2], total);
+    if (!vertical) return false;
+    const y = row + vertical.offset;
+    const horizontal = crossCheck(img, startX, Math.floor(y), 1, 0, counts[2], total);
+    if (!horizontal) return false;
+    const x = startX + horizontal.offset;
+    const moduleSize = total / 7;
+    const existing = candidates.find(
+      c => Math.abs(c.x - x) <= moduleSize && Math.abs(c.y - y) <= moduleSize && Math.abs(c.moduleSize - moduleSize) <= Math.max(1, c.moduleSize)
+    );
+    if (existing) {
+      const n = existing.count;
+      existing.x = (existing.x * n + x) / (n + 1);
+      existing.y = (existing.y * n + y) / (n + 1);
+      existing.moduleSize = (existing.moduleSize * n + moduleSize) / (n + 1);
+      existing.count++;
+    } else {
+      candidates.push({ x, y, moduleSize, count: 1 });
+    }
+    return true;
+  };
+
+  // Rows are skipped in steps small enough that a version 40 symbol filling the frame is still hit
+  const skip = Math.max(2, Math.floor((3 * img.height) / (4 * (MAX_VERSION * 4 + 17))));
+  for (let y = skip - 1; y < img.height; y += skip) {
+    let counts = [0, 0, 0, 0, 0];
+    let state = 0;
+    for (let x = 0; x < img.width; x++) {
+      if (img.bits[y * img.width + x]) {
+        if (state & 1) state++;
+        counts[state]++;
+      } else if (!(state & 1)) {
+        if (state === 4) {
+          if (isFinderRatio(counts) && handlePossibleCenter(counts, y, x)) {
+            counts = [0, 0, 0, 0, 0];
+            state = 0;
+          } else {
+            counts = [counts[2], counts[3], counts[4], 1, 0];
+            state = 3;
+          }
+        } else {
+          counts[++state]++;
+        }
+      } else {
+        counts[state]++;
+      }
+    }
+    if (isFinderRatio(counts)) handlePossibleCenter(counts, y, img.width);
+  }
+  return candidates;
+};
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Triples of candidates that could be the three corners of one symbol, most plausible first
+const finderTriples = (candidates: FinderCandidate[], limit: number) => {
+  const confirmed = candidates.filter(c => c.count >= 2);
+  const pool = (confirmed.length >= 3 ? confirmed : candidates).sort((a, b) => b.count - a.count).slice(0, 10);
+  const triples: Array<{ patterns: FinderCandidate[]; score: number }> = [];
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const patterns = [pool[i], pool[j], pool[k]];
+        const sizes = patterns.map(p => p.moduleSize);
+        const sizeSpread = (Math.max(...sizes) - Math.min(...sizes)) / Math.min(...sizes);
+        if (sizeSpread > 0.5) continue;
+        const [a, b, c] = [distance(pool[i], pool[j]), distance(pool[j], pool[k]), distance(pool[i], pool[k])].sort((x, y) => x - y);
+        const moduleSize = sizes.reduce((s, v) => s + v, 0) / 3;
+        // Finder centres of the smallest symbol are 14 modules apart; row scans overstate the
+        // module size of a rotated pattern by up to sqrt(2)
+        if (a < 9 * moduleSize) continue;
+        // Two equal legs and a hypotenuse of sqrt(2) times their length
+        const score = (b - a) / b + Math.abs(c * c - (a * a + b * b)) / (c * c) + sizeSpread;
+        if (score < 0.6) triples.push({ patterns, score });
+      }
+    }
+  }
+  return triples
+    .sort((x, y) => x.score - y.score)
+    .slice(0, limit)
+    .map(t => t.patterns);
+};
+
+// Returns [bottomLeft, topLeft, topRight]: top-left is opposite the longest side, and the
+// other two are ordered so the symbol reads clockwise
+const orderFinderPatterns = ([p0, p1, p2]: FinderCandidate[]) => {
+  const d01 = distance(p0, p1);
+  const d12 = distance(p1, p2);
+  const d02 = distance(p0, p2);
+  let [a, b, c] = d12 >= d01 && d12 >= d02 ? [p1, p0, p2] : d02 >= d01 && d02 >= d12 ? [p0, p1, p2] : [p0, p2, p1];
+  if ((c.x - b.x) * (a.y - b.y) - (c.y - b.y) * (a.x - b.x) < 0) [a, c] = [c, a];
+  return [a, b, c];
+};
+
+// Perspective transforms as row-major 3x3 matrices acting on (x, y, 1)
+
+export type Transform = number[];
+
+const squareToQuad = ([p0, p1, p2, p3]: Point[]): Transform => {
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+  if (dx3 === 0 && dy3 === 0) {
+    return [p1.x - p0.x, p2.x - p1.x, p0.x, p1.y - p0.y, p2.y - p1.y, p0.y, 0, 0, 1];
+  }
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const denominator = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / denominator;
+  const h = (dx1 * dy3 - dx3 * dy1) / denominator;
+  return [p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x, p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y, g, h, 1];
+};
+
+const adjoint = ([a, b, c, d, e, f, g, h, i]: Transform): Transform => [
+  e * i - f * h, c * h - b * i, b * f - c * e,
+  f * g - d * i, a * i - c * g, c * d - a * f,
+  d * h - e * g, b * g - a * h, a * e - b * d
+];
+
+const multiply = (m: Transform, n: Transform): Transform => {
+  const result: Transform = [];
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) result.push(m[r * 3] * n[c] + m[r * 3 + 1] * n[3 + c] + m[r * 3 + 2] * n[6 + c]);
+  }
+  return result;
+};
+
+export const quadToQuad = (from: Point[], to: Point[]) => multiply(squareToQuad(to), adjoint(squareToQuad(from)));
+
+export const project = (m: Transform, x: number, y: number): Point => {
+  const w = m[6] * x + m[7] * y + m[8];
+  return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+};
+
+// The bottom-right alignment pattern: a dark module in a light ring in a dark ring, matched
+// against a 5x5 template laid along the symbol's own axes
+const findAlignmentPattern = (img: BitImage, estimate: Point, u: Point, v: Point, moduleSize: number) => {
+  for (const allowance of [4, 8, 16]) {
+    const radius = Math.ceil(allowance * moduleSize);
+    let best = -1;
+    let matches: Point[] = [];
+    for (let y = Math.floor(estimate.y) - radius; y <= estimate.y + radius; y++) {
+      for (let x = Math.floor(estimate.x) - radius; x <= estimate.x + radius; x++) {
+        let score = 0;
+        for (let j = -2; j <= 2; j++) {
+          for (let i = -2; i <= 2; i++) {
+            const expected = Math.max(Math.abs(i), Math.abs(j)) !== 1;
+            if (isDark(img, x + 0.5 + i * u.x + j * v.x, y + 0.5 + i * u.y + j * v.y) === expected) score++;
+          }
+        }
+        if (score > best) {
+          best = score;
+          matches = [];
+        }
+        if (score === best) matches.push({ x: x + 0.5, y: y + 0.5 });
+      }
+    }
+    if (best >= 23) {
+      // Every pixel of the centre module matches, so take the middle of the cluster nearest the estimate
+      const nearest = matches.reduce((a, b) => (distance(a, estimate) <= distance(b, estimate) ? a : b));
+      const cluster = matches.filter(p => distance(p, nearest) <= moduleSize);
+      return {
+        x: cluster.reduce((s, p) => s + p.x, 0) / cluster.length,
+        y: cluster.reduce((s, p) => s + p.y, 0) / cluster.length
+      };
+    }
+  }
+  return null;
+};
+
+const sampleGrid = (img: BitImage, transform: Transform, size: number) => {
+  const modules: boolean[][] = [];
+  for (let y = 0; y < size; y++) {
+    const row: boolean[] = [];
+    for (let x = 0; x < size; x++) {
+      const p = project(transform, x + 0.5, y + 0.5);
+      if (!(p.x >= -1 && p.y >= -1 && p.x <= img.width && p.y <= img.height)) return null;
+      row.push(isDark(img, Math.min(Math.max(p.x, 0), img.width - 1), Math.min(Math.max(p.y, 0), img.height - 1)));
+    }
+    modules.push(row);
+  }
+  return modules;
+};
+
+const qrReedSolomon = createReedSolomon(0x11d, 0);
+
+// Symbol structure
+
+const functionModules = (version: number) => {
+  const size = version * 4 + 17;
+  const map = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const mark = (x0: number, y0: number, w: number, h: number) => {
+    for (let y = y0; y < y0 + h; y++) for (let x = x0; x < x0 + w; x++) map[y][x] = true;
+  };
+  // Finder patterns with their separators and format bits, which also covers the dark module
+  mark(0, 0, 9, 9);
+  mark(size - 8, 0, 8, 9);
+  mark(0, size - 8, 9, 8);
+  mark(6, 0, 1, size);
+  mark(0, 6, size, 1);
+  const positions = getAlignmentPatternPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((py, i) =>
+    positions.forEach((px, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      mark(px - 2, py - 2, 5, 5);
+    })
+  );
+  if (version >= 7) {
+    mark(size - 11, 0, 3, 6);
+    mark(0, size - 11, 6, 3);
+  }
+  return map;
+};
+
+const bitCount = (n: number) => {
+  let count = 0;
+  for (; n; n &= n - 1) count++;
+  return count;
+};
+
+const MAX_INFO_ERRORS = 3;
+
+const readFormat = (modules: boolean[][]) => {
+  const size = modules.length;
+  const get = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i <= 5; i++) first |= get(8, i) << i;
+  first |= (get(8, 7) << 6) | (get(8, 8) << 7) | (get(7, 8) << 8);
+  for (let i = 9; i < 15; i++) first |= get(14 - i, 8) << i;
+  for (let i = 0; i < 8; i++) second |= get(size - 1 - i, 8) << i;
+  for (let i = 8; i < 15; i++) second |= get(8, size - 15 + i) << i;
+
+  let best: { ecLevel: EcLevel; mask: number } | null = null;
+  let bestDistance = MAX_INFO_ERRORS + 1;
+  for (const ecLevel of EC_LEVELS) {
+    for (let mask = 0; mask < 8; mask++) {
+      const expected = formatInfoBits(ecLevel, mask);
+      const d = Math.min(bitCount(first ^ expected), bitCount(second ^ expected));
+      if (d < bestDistance) {
+        best = { ecLevel, mask };
+        bestDistance = d;
+      }
+    }
+  }
+  return best;
+};
+
+const readVersion = (modules: boolean[][]) => {
+  const size = modules.length;
+  let first = 0;
+  let second = 0;
+  for (let i = 0; i < 18; i++) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    if (modules[b][a]) first |= 1 << i;
+    if (modules[a][b]) second |= 1 << i;
+  }
+  let best: number | null = null;
+  let bestDistance = MAX_INFO_ERRORS + 1;
+  for (let version = 7; version <= MAX_VERSION; version++) {
+    const expected = versionInfoBits(version);
+    const d = Math.min(bitCount(first ^ expected), bitCount(second ^ expected));
+    if (d < bestDistance) {
+      best = version;
+      bestDistance = d;
+    }
+  }
+  return best;
+};
+
+// Reverses the encoder's zigzag placement and block interleaving, then corrects each block
+const readDataCodewords = (modules: boolean[][], version: number, ecLevel: EcLevel, mask: number) => {
+  const size = modules.length;
+  const isFunction = functionModules(version);
+  const layout = getBlockLayout(version, ecLevel);
+  const codewords = new Array<number>(layout.rawCodewords).fill(0);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bitIndex < layout.rawCodewords * 8) {
+          if (modules[y][x] !== maskInverts(mask, x, y)) codewords[bitIndex >>> 3] |= 1 << (7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  const { numBlocks, blockEccLen, numShortBlocks, shortBlockLen } = layout;
+  const padIndex = shortBlockLen - blockEccLen;
+  const blocks = Array.from({ length: numBlocks }, () => new Array<number>(shortBlockLen + 1).fill(0));
+  let k = 0;
+  for (let i = 0; i <= shortBlockLen; i++) {
+    for (let j = 0; j < numBlocks; j++) {
+      if (i !== padIndex || j >= numShortBlocks) blocks[j][i] = codewords[k++];
+    }
+  }
+
+  const data: number[] = [];
+  for (const [j, block] of blocks.entries()) {
+    if (j < numShortBlocks) block.splice(padIndex, 1);
+    if (!qrReedSolomon.correct(block, blockEccLen)) return null;
+    data.push(...block.slice(0, block.length - blockEccLen));
+  }
+  return data;
+};
+
+// Bitstream
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+// TextDecoder labels for the ECI designators seen in practice
+const ECI_CHARSETS: Record<number, string> = {
+  1: 'iso-8859-1',
+  3: 'iso-8859-1',
+  4: 'iso-8859-2',
+  7: 'iso-8859-5',
+  9: 'iso-8859-7',
+  11: 'iso-8859-9',
+  20: 'shift_jis',
+  21: 'windows-1250',
+  22: 'windows-1251',
+  23: 'windows-1252',
+  24: 'windows-1256',
+  25: 'utf-16be',
+  26: 'utf-8',
+  28: 'big5',
+  29: 'gb18030',
+  30: 'euc-kr'
+};
+
+// Without an ECI the bytes are usually UTF-8 in practice, whatever the standard's Latin-1 default says
+export const decodeQrBytes = (bytes: Uint8Array, eci?: number) => {
+  const charset = eci === undefined ? undefined : ECI_CHARSETS[eci];
+  if (charset) {
+    try {
+      return new TextDecoder(charset).decode(bytes);
+    } catch {
+      // Unsupported label; fall through to the guess below
+    }
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('iso-8859-1').decode(bytes);
+  }
+};
+
+const charCountBits = (mode: number, version: number) => {
+  const group = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  switch (mode) {
+    case 0x1: return [10, 12, 14][group];
+    case 0x2: return [9, 11, 13][group];
+    case 0x4: return [8, 16, 16][group];
+    default: return [8, 10, 12][group];
+  }
+};
+
+const parseBitstream = (data: number[], version: number) => {
+  let position = 0;
+  const available = () => data.length * 8 - position;
+  const read = (n: number) => {
+    if (n > available()) throw new RangeError('Bitstream ended early');
+    let value = 0;
+    for (let i = 0; i < n; i++, position++) value = (value << 1) | ((data[position >>> 3] >>> (7 - (position & 7))) & 1);
+    return value;
+  };
+
+  // Runs of bytes sharing one character set, so mixed ECI and Kanji content decodes piecewise
+  const runs: Array<{ charset: number | undefined; bytes: number[] }> = [];
+  let currentEci: number | undefined;
+  let firstEci: number | undefined;
+  let structuredAppend: StructuredAppendHeader | undefined;
+  const push = (charset: number | undefined, bytes: number[]) => {
+    const last = runs[runs.length - 1];
+    if (last && last.charset === charset) last.bytes.push(...bytes);
+    else runs.push({ charset, bytes });
+  };
+
+  while (available() >= 4) {
+    const mode = read(4);
+    if (mode === 0x0) break;
+    if (mode === 0x7) {
+      const first = read(8);
+      currentEci = (first & 0x80) === 0 ? first : (first & 0xc0) === 0x80 ? ((first & 0x3f) << 8) | read(8) : ((first & 0x1f) << 16) | read(16);
+      firstEci ??= currentEci;
+    } else if (mode === 0x3) {
+      structuredAppend = { index: read(4), total: read(4) + 1, parity: read(8) };
+    } else if (mode === 0x5) {
+      // FNC1 in first position: a GS1 marker with no payload of its own
+    } else if (mode === 0x9) {
+      read(8); // FNC1 application indicator
+    } else if (mode === 0x1) {
+      let count = read(charCountBits(mode, version));
+      const digits: number[] = [];
+      for (; count >= 3; count -= 3) digits.push(...String(read(10)).padStart(3, '0').split('').map(c => c.charCodeAt(0)));
+      if (count === 2) digits.push(...String(read(7)).padStart(2, '0').split('').map(c => c.charCodeAt(0)));
+      else if (count === 1) digits.push(String(read(4)).charCodeAt(0));
+      push(currentEci, digits);
+    } else if (mode === 0x2) {
+      let count = read(charCountBits(mode, version));
+      const chars: number[] = [];
+      for (; count >= 2; count -= 2) {
+        const pair = read(11);
+        chars.push(ALPHANUMERIC_CHARSET.charCodeAt(Math.floor(pair / 45)), ALPHANUMERIC_CHARSET.charCodeAt(pair % 45));
+      }
+      if (count === 1) chars.push(ALPHANUMERIC_CHARSET.charCodeAt(read(6)));
+      push(currentEci, chars);
+    } else if (mode === 0x4) {
+      const count = read(charCountBits(mode, version));
+      const bytes: number[] = [];
+      for (let i = 0; i < count; i++) bytes.push(read(8));
+      push(currentEci, bytes);
+    } else if (mode === 0x8) {
+      // Kanji packs each Shift JIS character into 13 bits
+      const count = read(charCountBits(mode, version));
+      const bytes: number[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = read(13);
+        let assembled = ((Math.floor(value / 0xc0) << 8) | value % 0xc0);
+        assembled += assembled < 0x1f00 ? 0x8140 : 0xc140;
+        bytes.push(assembled >> 8, assembled & 0xff);
+      }
+      push(20, bytes);
+    } else {
+      throw new RangeError('Unknown mode');
+    }
+  }
+
+  return {
+    text: runs.map(r => decodeQrBytes(new Uint8Array(r.bytes), r.charset)).join(''),
+    bytes: new Uint8Array(runs.flatMap(r => r.bytes)),
+    eci: firstEci,
+    structuredAppend
+  };
+};
+
+const decodeMatrix = (modules: boolean[][]) => {
+  const version = (modules.length - 17) / 4;
+  const format = readFormat(modules);
+  if (!format) return null;
+  const data = readDataCodewords(modules, version, format.ecLevel, format.mask);
+  if (!data) return null;
+  try {
+    return { ...parseBitstream(data, version), version, ecLevel: format.ecLevel };
+  } catch {
+    return null;
+  }
+};
+
+const transpose = (modules: boolean[][]) => modules.map((row, y) => row.map((_, x) => modules[x][y]));
+
+// Row scans cut a rotated finder pattern diagonally, so its width is measured again along the
+// line towards the neighbouring pattern, like ZXing's calculateModuleSize
+const moduleSizeTowards = (img: BitImage, from: FinderCandidate, to: Point) => {
+  const d = distance(from, to);
+  const run = crossCheck(img, from.x, from.y, (to.x - from.x) / d, (to.y - from.y) / d, from.moduleSize * 6, 0);
+  return run ? run.total / 7 : null;
+};
+
+const decodeFromFinders = (img: BitImage, triple: FinderCandidate[]): DecodedQr | null => {
+  const [bottomLeft, topLeft, topRight] = orderFinderPatterns(triple);
+  const measured = [
+    moduleSizeTowards(img, topLeft, topRight),
+    moduleSizeTowards(img, topRight, topLeft),
+    moduleSizeTowards(img, topLeft, bottomLeft),
+    moduleSizeTowards(img, bottomLeft, topLeft)
+  ].filter((m): m is number => m !== null);
+  const moduleSize = measured.length
+    ? measured.reduce((s, m) => s + m, 0) / measured.length
+    : triple.reduce((s, p) => s + p.moduleSize, 0) / 3;
+  const estimate = Math.round((distance(topLeft, topRight) + distance(topLeft, bottomLeft)) / (2 * moduleSize)) + 7;
+  // Nearest valid size first, then the neighbours in case the module size was misjudged
+  const nearest = Math.min(MAX_VERSION, Math.max(1, Math.round((estimate - 17) / 4)));
+  const versions = [nearest, nearest + 1, nearest - 1].filter(v => v >= 1 && v <= MAX_VERSION);
+
+  const tried = new Set<number>();
+  while (versions.length) {
+    let version = versions.shift() as number;
+    if (tried.has(version)) continue;
+    tried.add(version);
+    let size = version * 4 + 17;
+
+    const build = () => {
+      const inner = size - 3.5;
+      const u = { x: (topRight.x - topLeft.x) / (size - 7), y: (topRight.y - topLeft.y) / (size - 7) };
+      const v = { x: (bottomLeft.x - topLeft.x) / (size - 7), y: (bottomLeft.y - topLeft.y) / (size - 7) };
+      let corner: Point = { x: topRight.x - topLeft.x + bottomLeft.x, y: topRight.y - topLeft.y + bottomLeft.y };
+      let cornerModule = inner;
+      if (version >= 2) {
+        const towardsTopLeft = 1 - 3 / (size - 7);
+        const guess = {
+          x: topLeft.x + towardsTopLeft * (corner.x - topLeft.x),
+          y: topLeft.y + towardsTopLeft * (corner.y - topLeft.y)
+        };
+        const alignment = findAlignmentPattern(img, guess, u, v, moduleSize);
+        if (alignment) {
+          corner = alignment;
+          cornerModule = inner - 3;
+        }
+      }
+      return quadToQuad(
+        [{ x: 3.5, y: 3.5 }, { x: inner, y: 3.5 }, { x: cornerModule, y: cornerModule }, { x: 3.5, y: inner }],
+        [topLeft, topRight, corner, bottomLeft]
+      );
+    };
+
+    let transform = build();
+    let modules = sampleGrid(img, transform, size);
+    if (!modules) continue;
+    if (version >= 7) {
+      // The version blocks beat the size estimate from the finder distances
+      const declared = readVersion(modules);
+      if (declared && declared !== version) {
+        if (tried.has(declared)) continue;
+        tried.add(declared);
+        version = declared;
+        size = version * 4 + 17;
+        transform = build();
+        modules = sampleGrid(img, transform, size);
+        if (!modules) continue;
+      }
+    }
+
+    // A mirrored symbol reads correctly once transposed
+    const decoded = decodeMatrix(modules) || decodeMatrix(transpose(modules));
+    if (decoded) {
+      return {
+        ...decoded,
+        corners: [project(transform, 0, 0), project(transform, size, 0), project(transform, size, size), project(transform, 0, size)]
+      };
+    }
+  }
+  return null;
+};
+
+export const decodeQr = (image: RgbaImage): DecodedQr | null => {
+  const img = binarize(image);
+  for (const triple of finderTriples(findFinderCandidates(img), 4)) {
+    const result = decodeFromFinders(img, triple);
+    if (result) return result;
+  }
+  return null;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  QR_MODES,
+  QrCapacityError,
+  encodeText,
+  formatInfoBits,
+  getAlignmentPatternPositions,
+  getCharCapacity,
+  makeSegments,
+  versionInfoBits
+} from './qrEncoder';
+
+describe('known vectors', () => {
+  it('builds the masked format words from ISO/IEC 18004 Annex C', () => {
+    expect(formatInfoBits('M', 0)).toBe(0b101010000010010);
+    expect(formatInfoBits('L', 0)).toBe(0b111011111000100);
+    expect(formatInfoBits('Q', 0)).toBe(0b011010101011111);
+    expect(formatInfoBits('H', 0)).toBe(0b001011010001001);
+    expect(formatInfoBits('M', 5)).toBe(0b100000011001110);
+  });
+
+  it('builds the Golay-coded version words from Annex D', () => {
+    expect(versionInfoBits(7)).toBe(0b000111110010010100);
+    expect(versionInfoBits(40)).toBe(0b101000110001101001);
+  });
+
+  it('places alignment patterns as in Annex E', () => {
+    expect(getAlignmentPatternPositions(1)).toEqual([]);
+    expect(getAlignmentPatternPositions(2)).toEqual([6, 18]);
+    expect(getAlignmentPatternPositions(7)).toEqual([6, 22, 38]);
+    expect(getAlignmentPatternPositions(32)).toEqual([6, 34, 60, 86, 112, 138]);
+    expect(getAlignmentPatternPositions(40)).toEqual([6, 30, 58, 86, 114, 142, 170]);
+  });
+
+  it('reports the character capacities of Table 7', () => {
+    expect(getCharCapacity(1, 'M', QR_MODES.numeric)).toBe(34);
+    expect(getCharCapacity(1, 'M', QR_MODES.alphanumeric)).toBe(20);
+    expect(getCharCapacity(1, 'M', QR_MODES.byte)).toBe(14);
+    expect(getCharCapacity(40, 'L', QR_MODES.numeric)).toBe(7089);
+    expect(getCharCapacity(40, 'L', QR_MODES.alphanumeric)).toBe(4296);
+    expect(getCharCapacity(40, 'L', QR_MODES.byte)).toBe(2953);
+    expect(getCharCapacity(40, 'H', QR_MODES.byte)).toBe(1273);
+  });
+});
+
+describe('makeSegments', () => {
+  it('picks the densest mode the text allows', () => {
+    expect(makeSegments('0123456789')[0].mode.name).toBe('numeric');
+    expect(makeSegments('HELLO WORLD')[0].mode.name).toBe('alphanumeric');
+    expect(makeSegments('hello')[0].mode.name).toBe('byte');
+  });
+
+  it('counts UTF-8 bytes in byte mode', () => {
+    expect(makeSegments('ğü')[0].numChars).toBe(4);
+  });
+});
+
+describe('encodeText', () => {
+  it('uses the smallest version that fits', () => {
+    const symbol = encodeText('HELLO WORLD', 'M');
+    expect(symbol.version).toBe(1);
+    expect(symbol.size).toBe(21);
+    expect(symbol.modules).toHaveLength(21);
+  });
+
+  it('grows the symbol for longer content', () => {
+    expect(encodeText('a'.repeat(15), 'M').version).toBe(2);
+  });
+
+  it('honours a fixed mask and a minimum version', () => {
+    const symbol = encodeText('test', 'L', { mask: 3, minVersion: 5 });
+    expect(symbol.mask).toBe(3);
+    expect(symbol.version).toBe(5);
+  });
+
+  it('throws QrCapacityError when the content does not fit', () => {
+    expect(() => encodeText('a'.repeat(20), 'H', { maxVersion: 1 })).toThrow(QrCapacityError);
+  });
+});
@@ -0,0 +1,622 @@
+// QR Code Model 2 encoder (ISO/IEC 18004), following Project Nayuki's qrcodegen,
+// which is also what qrcode.react uses internally. Having the module matrix here
+// lets us report version/capacity and render or export the symbol ourselves.
+
+import { EcLevel, SymbolOptions } from '../types';
+
+export type { EcLevel };
+
+export const EC_LEVELS: EcLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Share of the symbol that can be damaged and still be read
+export const EC_RECOVERY: Record<EcLevel, number> = { L: 7, M: 15, Q: 25, H: 30 };
+
+const EC_ORDINAL: Record<EcLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const EC_FORMAT_BITS: Record<EcLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+export type QrModeName = 'numeric' | 'alphanumeric' | 'byte' | 'eci' | 'structured-append';
+
+export interface QrMode {
+  name: QrModeName;
+  modeBits: number;
+  // Character count field width for versions 1-9, 10-26 and 27-40
+  charCountBits: [number, number, number];
+}
+
+export const QR_MODES: Record<QrModeName, QrMode> = {
+  numeric: { name: 'numeric', modeBits: 0x1, charCountBits: [10, 12, 14] },
+  alphanumeric: { name: 'alphanumeric', modeBits: 0x2, charCountBits: [9, 11, 13] },
+  byte: { name: 'byte', modeBits: 0x4, charCountBits: [8, 16, 16] },
+  eci: { name: 'eci', modeBits: 0x7, charCountBits: [0, 0, 0] },
+  'structured-append': { name: 'structured-append', modeBits: 0x3, charCountBits: [0, 0, 0] }
+};
+
+export const MODE_LABELS: Record<QrModeName, string> = {
+  numeric: 'Sayısal',
+  alphanumeric: 'Alfasayısal',
+  byte: 'Bayt (UTF-8)',
+  eci: 'ECI',
+  'structured-append': 'Yapılandırılmış Ekleme'
+};
+
+export const MODE_UNITS: Record<QrModeName, string> = {
+  numeric: 'rakam',
+  alphanumeric: 'karakter',
+  byte: 'bayt',
+  eci: 'bit',
+  'structured-append': 'bit'
+};
+
+export interface QrSegment {
+  mode: QrMode;
+  // Characters for text modes, bytes for byte mode, 0 for header-only segments
+  numChars: number;
+  bits: number[];
+}
+
+export interface QrSymbol {
+  version: number;
+  size: number;
+  ecLevel: EcLevel;
+  mask: number;
+  // modules[y][x], true is dark
+  modules: boolean[][];
+  segments: QrSegment[];
+  dataBits: number;
+  capacityBits: number;
+}
+
+export interface EncodeOptions {
+  minVersion?: number;
+  maxVersion?: number;
+  // -1 picks the mask with the lowest penalty
+  mask?: number;
+  // Raise the EC level when that doesn't cost a larger version
+  boostEcl?: boolean;
+}
+
+export class QrCapacityError extends Error {
+  usedBits: number;
+  capacityBits: number;
+
+  constructor(message: string, usedBits: number, capacityBits: number) {
+    super(message);
+    this.name = 'QrCapacityError';
+    this.usedBits = usedBits;
+    this.capacityBits = capacityBits;
+  }
+}
+
+// Indexed by [EC ordinal][version]; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+];
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+const NUMERIC_RE = /^[0-9]*$/;
+const ALPHANUMERIC_RE = /^[A-Z0-9 $%*+./:-]*$/;
+
+const appendBits = (value: number, length: number, bits: number[]) => {
+  for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+};
+
+const getBit = (value: number, i: number) => ((value >>> i) & 1) !== 0;
+
+export const charCountBits = (mode: QrMode, version: number) => mode.charCountBits[Math.floor((version + 7) / 17)];
+
+// Segments
+
+export const makeBytesSegment = (data: Uint8Array): QrSegment => {
+  const bits: number[] = [];
+  for (const b of data) appendBits(b, 8, bits);
+  return { mode: QR_MODES.byte, numChars: data.length, bits };
+};
+
+export const makeNumericSegment = (digits: string): QrSegment => {
+  const bits: number[] = [];
+  for (let i = 0; i < digits.length; ) {
+    const n = Math.min(digits.length - i, 3);
+    appendBits(parseInt(digits.slice(i, i + n), 10), n * 3 + 1, bits);
+    i += n;
+  }
+  return { mode: QR_MODES.numeric, numChars: digits.length, bits };
+};
+
+export const makeAlphanumericSegment = (text: string): QrSegment => {
+  const bits: number[] = [];
+  let i = 0;
+  for (; i + 2 <= text.length; i += 2) {
+    appendBits(ALPHANUMERIC_CHARSET.indexOf(text[i]) * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11, bits);
+  }
+  if (i < text.length) appendBits(ALPHANUMERIC_CHARSET.indexOf(text[i]), 6, bits);
+  return { mode: QR_MODES.alphanumeric, numChars: text.length, bits };
+};
+
+export const makeEciSegment = (assignment: number): QrSegment => {
+  const bits: number[] = [];
+  if (assignment < 0 || assignment >= 1000000) throw new RangeError('ECI assignment out of range');
+  if (assignment < 1 << 7) appendBits(assignment, 8, bits);
+  else if (assignment < 1 << 14) {
+    appendBits(0b10, 2, bits);
+    appendBits(assignment, 14, bits);
+  } else {
+    appendBits(0b110, 3, bits);
+    appendBits(assignment, 21, bits);
+  }
+  return { mode: QR_MODES.eci, numChars: 0, bits };
+};
+
+// Header of one symbol in a set of up to 16; parity is the XOR of every data byte of the whole message
+export const makeStructuredAppendSegment = (index: number, total: number, parity: number): QrSegment => {
+  if (total < 2 || total > 16 || index < 0 || index >= total) throw new RangeError('Structured Append index out of range');
+  const bits: number[] = [];
+  appendBits(index, 4, bits);
+  appendBits(total - 1, 4, bits);
+  appendBits(parity & 0xff, 8, bits);
+  return { mode: QR_MODES['structured-append'], numChars: 0, bits };
+};
+
+// Same single-mode choice as qrcodegen's makeSegments, so the result matches qrcode.react
+export const makeSegments = (text: string): QrSegment[] => {
+  if (text === '') return [];
+  if (NUMERIC_RE.test(text)) return [makeNumericSegment(text)];
+  if (ALPHANUMERIC_RE.test(text)) return [makeAlphanumericSegment(text)];
+  return [makeBytesSegment(new TextEncoder().encode(text))];
+};
+
+export const segmentsBitLength = (segments: QrSegment[], version: number) => {
+  let total = 0;
+  for (const seg of segments) {
+    const ccBits = charCountBits(seg.mode, version);
+    if (seg.numChars >= 1 << ccBits) return Infinity;
+    total += 4 + ccBits + seg.bits.length;
+  }
+  return total;
+};
+
+// Capacity tables
+
+const getNumRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+export const getNumDataCodewords = (version: number, ecl: EcLevel) =>
+  Math.floor(getNumRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[EC_ORDINAL[ecl]][version] * NUM_ERROR_CORRECTION_BLOCKS[EC_ORDINAL[ecl]][version];
+
+export interface BlockLayout {
+  numBlocks: number;
+  blockEccLen: number;
+  rawCodewords: number;
+  numShortBlocks: number;
+  shortBlockLen: number;
+}
+
+// Short blocks come first and carry one data codeword less than the long ones
+export const getBlockLayout = (version: number, ecl: EcLevel): BlockLayout => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[EC_ORDINAL[ecl]][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  return {
+    numBlocks,
+    blockEccLen: ECC_CODEWORDS_PER_BLOCK[EC_ORDINAL[ecl]][version],
+    rawCodewords,
+    numShortBlocks: numBlocks - (rawCodewords % numBlocks),
+    shortBlockLen: Math.floor(rawCodewords / numBlocks)
+  };
+};
+
+// Most characters a single segment of this mode can hold in the given symbol
+export const getCharCapacity = (version: number, ecl: EcLevel, mode: QrMode) => {
+  const bits = getNumDataCodewords(version, ecl) * 8 - 4 - charCountBits(mode, version);
+  let chars: number;
+  if (mode.name === 'numeric') chars = Math.floor(bits / 10) * 3 + (bits % 10 >= 7 ? 2 : bits % 10 >= 4 ? 1 : 0);
+  else if (mode.name === 'alphanumeric') chars = Math.floor(bits / 11) * 2 + (bits % 11 >= 6 ? 1 : 0);
+  else chars = Math.floor(bits / 8);
+  return Math.min(chars, (1 << charCountBits(mode, version)) - 1);
+};
+
+// Reed-Solomon over GF(2^8) with the 0x11D reduction polynomial
+
+const rsMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsComputeDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = rsMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = rsMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsComputeRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => (result[i] ^= rsMultiply(coef, factor)));
+  }
+  return result;
+};
+
+const addEccAndInterleave = (data: number[], version: number, ecl: EcLevel) => {
+  const { numBlocks, blockEccLen, numShortBlocks, shortBlockLen } = getBlockLayout(version, ecl);
+
+  const blocks: number[][] = [];
+  const divisor = rsComputeDivisor(blockEccLen);
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsComputeRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// Module placement
+
+// 15-bit BCH-coded format word, already XORed with the 0x5412 mask
+export const formatInfoBits = (ecl: EcLevel, mask: number) => {
+  const data = (EC_FORMAT_BITS[ecl] << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+};
+
+export const maskInverts = (mask: number, x: number, y: number) => {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+};
+
+// 18-bit Golay-coded version word, only drawn for version 7 and up
+export const versionInfoBits = (version: number) => {
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (version << 12) | rem;
+};
+
+export const getAlignmentPatternPositions = (version: number) => {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+const createMatrix = (version: number, ecl: EcLevel, dataCodewords: number[], forcedMask: number) => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  const drawFormatBits = (mask: number) => {
+    const bits = formatInfoBits(ecl, mask);
+
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i));
+    setFunction(8, 7, getBit(bits, 6));
+    setFunction(8, 8, getBit(bits, 7));
+    setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+
+  const drawVersion = () => {
+    if (version < 7) return;
+    const bits = versionInfoBits(version);
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, bit);
+      setFunction(b, a, bit);
+    }
+  };
+
+  const drawFinderPattern = (x: number, y: number) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < size && yy >= 0 && yy < size) setFunction(xx, yy, dist !== 2 && dist !== 4);
+      }
+    }
+  };
+
+  const drawAlignmentPattern = (x: number, y: number) => {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  };
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && maskInverts(mask, x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  const finderPenaltyAddHistory = (runLength: number, history: number[]) => {
+    if (history[0] === 0) runLength += size; // Light border of the symbol
+    history.pop();
+    history.unshift(runLength);
+  };
+
+  const finderPenaltyCountPatterns = (history: number[]) => {
+    const n = history[1];
+    const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+    return (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) + (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+  };
+
+  const finderPenaltyTerminateAndCount = (runColor: boolean, runLength: number, history: number[]) => {
+    if (runColor) {
+      finderPenaltyAddHistory(runLength, history);
+      runLength = 0;
+    }
+    finderPenaltyAddHistory(runLength + size, history);
+    return finderPenaltyCountPatterns(history);
+  };
+
+  const getPenaltyScore = () => {
+    let result = 0;
+    for (const horizontal of [true, false]) {
+      for (let a = 0; a < size; a++) {
+        let runColor = false;
+        let run = 0;
+        const history = [0, 0, 0, 0, 0, 0, 0];
+        for (let b = 0; b < size; b++) {
+          const dark = horizontal ? modules[a][b] : modules[b][a];
+          if (dark === runColor) {
+            run++;
+            if (run === 5) result += PENALTY_N1;
+            else if (run > 5) result++;
+          } else {
+            finderPenaltyAddHistory(run, history);
+            if (!runColor) result += finderPenaltyCountPatterns(history) * PENALTY_N3;
+            runColor = dark;
+            run = 1;
+          }
+        }
+        result += finderPenaltyTerminateAndCount(runColor, run, history) * PENALTY_N3;
+      }
+    }
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) result += PENALTY_N2;
+      }
+    }
+
+    let dark = 0;
+    for (const row of modules) dark += row.filter(Boolean).length;
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    return result + k * PENALTY_N4;
+  };
+
+  // Function patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  drawFinderPattern(3, 3);
+  drawFinderPattern(size - 4, 3);
+  drawFinderPattern(3, size - 4);
+  const alignPositions = getAlignmentPatternPositions(version);
+  const numAlign = alignPositions.length;
+  for (let i = 0; i < numAlign; i++) {
+    for (let j = 0; j < numAlign; j++) {
+      // The three corners overlap the finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === numAlign - 1) || (i === numAlign - 1 && j === 0)) continue;
+      drawAlignmentPattern(alignPositions[i], alignPositions[j]);
+    }
+  }
+  drawFormatBits(0);
+  drawVersion();
+
+  // Codewords in the zigzag order
+  const codewords = addEccAndInterleave(dataCodewords, version, ecl);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  let mask = forcedMask;
+  if (mask === -1) {
+    let minPenalty = Infinity;
+    for (let i = 0; i < 8; i++) {
+      applyMask(i);
+      drawFormatBits(i);
+      const penalty = getPenaltyScore();
+      if (penalty < minPenalty) {
+        mask = i;
+        minPenalty = penalty;
+      }
+      applyMask(i); // XOR again to undo
+    }
+  }
+  applyMask(mask);
+  drawFormatBits(mask);
+
+  return { modules, mask };
+};
+
+export const encodeSegments = (segments: QrSegment[], ecl: EcLevel, options: EncodeOptions = {}): QrSymbol => {
+  const { minVersion = MIN_VERSION, maxVersion = MAX_VERSION, mask = -1, boostEcl = false } = options;
+  if (minVersion < MIN_VERSION || maxVersion > MAX_VERSION || minVersion > maxVersion || mask < -1 || mask > 7) {
+    throw new RangeError('Invalid version or mask');
+  }
+
+  let version = minVersion;
+  let dataBits: number;
+  for (;;) {
+    dataBits = segmentsBitLength(segments, version);
+    const capacityBits = getNumDataCodewords(version, ecl) * 8;
+    if (dataBits <= capacityBits) break;
+    if (version >= maxVersion) {
+      throw new QrCapacityError('Veri seçilen sürüm ve hata düzeltme seviyesine sığmıyor', dataBits, capacityBits);
+    }
+    version++;
+  }
+
+  if (boostEcl) {
+    for (const level of ['M', 'Q', 'H'] as EcLevel[]) {
+      if (EC_ORDINAL[level] > EC_ORDINAL[ecl] && dataBits <= getNumDataCodewords(version, level) * 8) ecl = level;
+    }
+  }
+
+  const capacityBits = getNumDataCodewords(version, ecl) * 8;
+  const bits: number[] = [];
+  for (const seg of segments) {
+    appendBits(seg.mode.modeBits, 4, bits);
+    appendBits(seg.numChars, charCountBits(seg.mode, version), bits);
+    for (const b of seg.bits) bits.push(b);
+  }
+  // Terminator, byte alignment, then alternating pad bytes
+  appendBits(0, Math.min(4, capacityBits - bits.length), bits);
+  appendBits(0, (8 - (bits.length % 8)) % 8, bits);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) appendBits(pad, 8, bits);
+
+  const dataCodewords = new Array<number>(bits.length / 8).fill(0);
+  bits.forEach((b, i) => (dataCodewords[i >>> 3] |= b << (7 - (i & 7))));
+
+  const matrix = createMatrix(version, ecl, dataCodewords, mask);
+  return {
+    version,
+    size: version * 4 + 17,
+    ecLevel: ecl,
+    mask: matrix.mask,
+    modules: matrix.modules,
+    segments,
+    dataBits,
+    capacityBits
+  };
+};
+
+export const encodeText = (text: string, ecl: EcLevel, options?: EncodeOptions) => encodeSegments(makeSegments(text), ecl, options);
+
+export interface CapacityReport {
+  symbol: QrSymbol | null;
+  mode: QrMode;
+  // Counted in the unit of the mode: digits, characters or UTF-8 bytes
+  usedChars: number;
+  // What the chosen version holds before the encoder has to grow the symbol
+  versionChars: number;
+  // What version 40 holds at this EC level
+  maxChars: number;
+  error?: string;
+}
+
+export const analyzeCapacity = (text: string, options: SymbolOptions): CapacityReport => {
+  const segments = makeSegments(text);
+  const mode = segments[0]?.mode ?? QR_MODES.byte;
+  const usedChars = segments.reduce((sum, seg) => sum + seg.numChars, 0);
+  const maxChars = getCharCapacity(MAX_VERSION, options.ecLevel, mode);
+
+  try {
+    const symbol = encodeSegments(segments, options.ecLevel, { minVersion: options.minVersion });
+    return { symbol, mode, usedChars, versionChars: getCharCapacity(symbol.version, options.ecLevel, mode), maxChars };
+  } catch (e) {
+    if (!(e instanceof QrCapacityError)) throw e;
+    return {
+      symbol: null,
+      mode,
+      usedChars,
+      versionChars: maxChars,
+      maxChars,
+      error: `İçerik sığmıyor: ${usedChars} / ${maxChars} ${MODE_UNITS[mode.name]} (${options.ecLevel} seviyesi, sürüm 40). Hata düzeltme seviyesini düşürün veya içeriği kısaltın.`
+    };
+  }
+};
+
+// H keeps the generator's previous output; the quiet zone of 4 matches includeMargin
+export const DEFAULT_SYMBOL_OPTIONS: SymbolOptions = { ecLevel: 'H', minVersion: 1, quietZone: 4 };
+
+const SYMBOL_OPTIONS_KEY = 'qr-symbol-options';
+
+export const loadSymbolOptions = (): SymbolOptions => {
+  try {
+    const saved = localStorage.getItem(SYMBOL_OPTIONS_KEY);
+    return saved ? { ...DEFAULT_SYMBOL_OPTIONS, ...JSON.parse(saved) } : DEFAULT_SYMBOL_OPTIONS;
+  } catch {
+    return DEFAULT_SYMBOL_OPTIONS;
+  }
+};
+
+export const saveSymbolOptions = (options: SymbolOptions) => {
+  localStorage.setItem(SYMBOL_OPTIONS_KEY, JSON.stringify(options));
+};
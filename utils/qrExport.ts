@@ -0,0 +1,254 @@
+import { QRType, QrStyle } from '../types';
+import { QrSymbol } from './qrEncoder';
+import { parseQRPayload } from './qrUtils';
+import { formatContactName } from './contact';
+import { Shape, layoutSymbol, shapesToSvgPath, traceShapes, gradientGeometry, fitLogo, loadImage, drawStyledSymbol } from './qrStyle';
+import { crc32 } from './zip';
+import { MM_PER_INCH, PAGE_SIZES, PdfResources, PdfWriter, addJpegImage, createPdfWriter, emptyResources, mmToPt, pdfColor, pdfNum } from './pdf';
+
+// Exports are drawn from the module matrix so every format stays sharp at any size
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+
+export interface ExportOptions {
+  quietZone: number;
+  transparent: boolean;
+  style: QrStyle;
+}
+
+export const mmToPixels = (mm: number, dpi: number) => Math.round((mm / MM_PER_INCH) * dpi);
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+export const symbolToSvg = async (symbol: QrSymbol, options: ExportOptions) => {
+  const { style, quietZone } = options;
+  const layout = layoutSymbol(symbol, quietZone, style);
+  const dim = layout.dim;
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" width="${dim * 10}" height="${dim * 10}">`
+  ];
+
+  let fill = style.foreground;
+  if (style.gradient !== 'none') {
+    const g = gradientGeometry(layout, quietZone, style);
+    const stops = `<stop offset="0" stop-color="${style.foreground}"/><stop offset="1" stop-color="${style.gradientColor}"/>`;
+    parts.push(
+      style.gradient === 'linear'
+        ? `<defs><linearGradient id="fg" gradientUnits="userSpaceOnUse" x1="${g.x1}" y1="${g.y1}" x2="${g.x2}" y2="${g.y2}">${stops}</linearGradient></defs>`
+        : `<defs><radialGradient id="fg" gradientUnits="userSpaceOnUse" cx="${g.cx}" cy="${g.cy}" r="${g.r}">${stops}</radialGradient></defs>`
+    );
+    fill = 'url(#fg)';
+  }
+
+  if (!options.transparent) parts.push(`<rect width="${dim}" height="${dim}" fill="${style.background}"/>`);
+  parts.push(`<path fill="${fill}" d="${shapesToSvgPath(layout.modules)}"/>`);
+  parts.push(`<path fill="${style.eyeColor || fill}" d="${shapesToSvgPath(layout.eyes)}"/>`);
+
+  if (layout.logoBox && style.logo) {
+    const box = fitLogo(await loadImage(style.logo), layout.logoBox);
+    parts.push(`<image href="${escapeXml(style.logo)}" x="${box.x}" y="${box.y}" width="${box.w}" height="${box.h}" preserveAspectRatio="xMidYMid meet"/>`);
+  }
+  parts.push('</svg>');
+  return parts.join('');
+};
+
+// Adds a pHYs chunk after IHDR so print software picks up the intended DPI
+export const setPngDpi = (png: Uint8Array, dpi: number) => {
+  const ppm = Math.round((dpi / MM_PER_INCH) * 1000);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, ppm);
+  view.setUint32(12, ppm);
+  chunk[16] = 1; // Unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // 8-byte signature + IHDR (4 length + 4 type + 13 data + 4 CRC)
+  const ihdrEnd = 33;
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, ihdrEnd));
+  result.set(chunk, ihdrEnd);
+  result.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return result;
+};
+
+const canvasToBlob = async (canvas: HTMLCanvasElement, type: string, quality?: number) => {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error('Görüntü oluşturulamadı');
+  return blob;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas desteklenmiyor');
+  return { canvas, ctx };
+};
+
+export const symbolToPng = async (symbol: QrSymbol, pixelSize: number, options: ExportOptions, dpi?: number): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(pixelSize, pixelSize);
+  const logo = options.style.logo ? await loadImage(options.style.logo) : null;
+  drawStyledSymbol(ctx, symbol, pixelSize, options.style, { quietZone: options.quietZone, transparent: options.transparent, logo });
+
+  const blob = await canvasToBlob(canvas, 'image/png');
+  if (!dpi) return blob;
+  const bytes = setPngDpi(new Uint8Array(await blob.arrayBuffer()), dpi);
+  return new Blob([bytes], { type: 'image/png' });
+};
+
+// PDF has no alpha-aware PNG decoder, so the logo goes in as a JPEG on the background colour
+const rasterizeLogo = async (src: string, background: string) => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, 600 / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  const bytes = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  return { width, height, data: Array.from(bytes, b => String.fromCharCode(b)).join('') };
+};
+
+export interface PdfLogo {
+  ref: number;
+  width: number;
+  height: number;
+}
+
+// Embedded once per document and shared by every symbol that uses the style
+export const embedPdfLogo = async (pdf: PdfWriter, style: QrStyle): Promise<PdfLogo | null> => {
+  if (!style.logo) return null;
+  const logo = await rasterizeLogo(style.logo, style.background);
+  return { ref: addJpegImage(pdf, logo), width: logo.width, height: logo.height };
+};
+
+export interface PdfBox {
+  left: number;
+  top: number;
+  size: number;
+}
+
+// Content-stream operators for one symbol in `box` (page points, top-left corner)
+export const symbolPdfOps = (
+  pdf: PdfWriter,
+  symbol: QrSymbol,
+  options: ExportOptions,
+  box: PdfBox,
+  resources: PdfResources,
+  logo: PdfLogo | null
+) => {
+  const { style, quietZone } = options;
+  const layout = layoutSymbol(symbol, quietZone, style);
+  const unit = box.size / layout.dim;
+  // Flip into module space (origin top-left, y down) so paths and shadings use module units
+  const ops: string[] = ['q', `${pdfNum(unit)} 0 0 ${pdfNum(-unit)} ${pdfNum(box.left)} ${pdfNum(box.top)} cm`];
+  if (!options.transparent) ops.push(`${pdfColor(style.background)} rg`, `0 0 ${layout.dim} ${layout.dim} re f`);
+
+  const pathOps = (shapes: Shape[]) => {
+    const out: string[] = [];
+    traceShapes(
+      {
+        moveTo: (x, y) => out.push(`${pdfNum(x)} ${pdfNum(y)} m`),
+        lineTo: (x, y) => out.push(`${pdfNum(x)} ${pdfNum(y)} l`),
+        curveTo: (a, b, c, d, x, y) => out.push(`${pdfNum(a)} ${pdfNum(b)} ${pdfNum(c)} ${pdfNum(d)} ${pdfNum(x)} ${pdfNum(y)} c`),
+        close: () => out.push('h')
+      },
+      shapes
+    );
+    return out.join('\n');
+  };
+
+  let shading: string | null = null;
+  if (style.gradient !== 'none') {
+    const g = gradientGeometry(layout, quietZone, style);
+    const coords = style.gradient === 'linear' ? `[${g.x1} ${g.y1} ${g.x2} ${g.y2}]` : `[${g.cx} ${g.cy} 0 ${g.cx} ${g.cy} ${g.r}]`;
+    const fn = `<< /FunctionType 2 /Domain [0 1] /C0 [${pdfColor(style.foreground)}] /C1 [${pdfColor(style.gradientColor)}] /N 1 >>`;
+    shading = `Sh${Object.keys(resources.shadings).length}`;
+    resources.shadings[shading] = pdf.addObject(
+      `<< /ShadingType ${style.gradient === 'linear' ? 2 : 3} /ColorSpace /DeviceRGB /Coords ${coords} /Function ${fn} /Extend [true true] >>`
+    );
+  }
+
+  const paint = (shapes: Shape[], color: string | null) => {
+    if (!shapes.length) return;
+    if (color) {
+      ops.push(`${pdfColor(color)} rg`, pathOps(shapes), 'f');
+      return;
+    }
+    // Gradient: clip to the shapes, then paint the shading through them
+    ops.push('q', pathOps(shapes), 'W n', `/${shading} sh`, 'Q');
+  };
+
+  const gradientFill = shading ? null : style.foreground;
+  paint(layout.modules, gradientFill);
+  paint(layout.eyes, style.eyeColor || gradientFill);
+
+  if (layout.logoBox && logo) {
+    resources.xobjects.Logo = logo.ref;
+    const fit = fitLogo(logo, layout.logoBox);
+    // Images fill the unit square bottom-up, so flip back within the module space
+    ops.push('q', `${pdfNum(fit.w)} 0 0 ${pdfNum(-fit.h)} ${pdfNum(fit.x)} ${pdfNum(fit.y + fit.h)} cm`, '/Logo Do', 'Q');
+  }
+  ops.push('Q');
+  return ops.join('\n');
+};
+
+// Single A4 page with the symbol centred as vector paths
+export const symbolToPdf = async (symbol: QrSymbol, widthMm: number, options: ExportOptions) => {
+  const pdf = createPdfWriter();
+  const page = PAGE_SIZES.a4;
+  const size = mmToPt(widthMm);
+  const resources = emptyResources();
+  const logo = await embedPdfLogo(pdf, options.style);
+  const box = { left: (page.width - size) / 2, top: (page.height + size) / 2, size };
+  pdf.addPage(page, symbolPdfOps(pdf, symbol, options, box, resources, logo), resources);
+  return pdf.finish();
+};
+
+const TYPE_FILE_PREFIX: Record<QRType, string> = {
+  [QRType.URL]: 'link',
+  [QRType.TEXT]: 'metin',
+  [QRType.EMAIL]: 'eposta',
+  [QRType.PHONE]: 'telefon',
+  [QRType.WIFI]: 'wifi',
+  [QRType.GEO]: 'konum',
+  [QRType.CONTACT]: 'kisi',
+  [QRType.EVENT]: 'etkinlik',
+  [QRType.SMS]: 'sms',
+  [QRType.PAYMENT]: 'odeme',
+  [QRType.GS1]: 'gs1',
+  [QRType.CUSTOM]: 'kural'
+};
+
+const payloadHint = (data: string, type: QRType) => {
+  const payload = parseQRPayload(data, type);
+  switch (payload.type) {
+    case QRType.URL:
+      try {
+        return new URL(payload.url).hostname.replace(/^www\./, '');
+      } catch {
+        return '';
+      }
+    case QRType.WIFI:
+      return payload.wifi.ssid;
+    case QRType.CONTACT:
+      return formatContactName(payload.contact) || payload.contact.org;
+    case QRType.EVENT:
+      return payload.event.title;
+    case QRType.PAYMENT:
+      return payload.payment.config.merchantName;
+    case QRType.GS1:
+      return payload.gs1.elements[0]?.value ?? '';
+    default:
+      return '';
+  }
+};
+
+export const exportFileName = (data: string, type: QRType, format: ExportFormat) => {
+  const hint = payloadHint(data, type).trim().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+  return `qr-${TYPE_FILE_PREFIX[type]}${hint ? `-${hint}` : ''}.${format}`;
+};
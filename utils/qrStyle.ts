@@ -0,0 +1,370 @@
+import jsQR from 'jsqr';
+import { EcLevel, QrStyle, SymbolOptions } from '../types';
+import { QrSymbol, EC_LEVELS, EC_RECOVERY } from './qrEncoder';
+
+export const DEFAULT_QR_STYLE: QrStyle = {
+  foreground: '#000000',
+  background: '#ffffff',
+  gradient: 'none',
+  gradientColor: '#4f46e5',
+  gradientAngle: 45,
+  moduleShape: 'square',
+  eyeStyle: 'square',
+  eyeColor: '',
+  logo: null,
+  logoSize: 0.2
+};
+
+export const MIN_LOGO_SIZE = 0.1;
+export const MAX_LOGO_SIZE = 0.3;
+
+// Below this foreground/background ratio phone cameras start to miss modules
+export const MIN_CONTRAST = 3;
+
+const STYLE_KEY = 'qr-style';
+
+export const loadQrStyle = (): QrStyle => {
+  try {
+    const saved = localStorage.getItem(STYLE_KEY);
+    return saved ? { ...DEFAULT_QR_STYLE, ...JSON.parse(saved) } : DEFAULT_QR_STYLE;
+  } catch {
+    return DEFAULT_QR_STYLE;
+  }
+};
+
+export const saveQrStyle = (style: QrStyle) => {
+  try {
+    localStorage.setItem(STYLE_KEY, JSON.stringify(style));
+  } catch {
+    // A large logo can exceed the storage quota; keep the rest of the style
+    localStorage.setItem(STYLE_KEY, JSON.stringify({ ...style, logo: null }));
+  }
+};
+
+// The logo (plus its padding) may hide at most half of what the EC level can restore
+export const requiredEcLevel = (style: QrStyle): EcLevel | null => {
+  if (!style.logo) return null;
+  const covered = Math.pow(style.logoSize * 1.15, 2) * 100;
+  return EC_LEVELS.find(level => EC_RECOVERY[level] / 2 >= covered) ?? 'H';
+};
+
+export const maxEcLevel = (a: EcLevel, b: EcLevel | null) => (b && EC_LEVELS.indexOf(b) > EC_LEVELS.indexOf(a) ? b : a);
+
+// Symbol options with the EC level raised to what the style's logo needs
+export const effectiveSymbolOptions = (options: SymbolOptions, style: QrStyle): SymbolOptions => {
+  const ecLevel = maxEcLevel(options.ecLevel, requiredEcLevel(style));
+  return ecLevel === options.ecLevel ? options : { ...options, ecLevel };
+};
+
+// WCAG relative luminance of a #rgb / #rrggbb colour
+const luminance = (hex: string) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value.padEnd(6, '0');
+  const [r, g, b] = [0, 2, 4].map(i => {
+    const c = parseInt(full.slice(i, i + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (a: string, b: string) => {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+export const darkColors = (style: QrStyle) => [
+  style.foreground,
+  ...(style.gradient !== 'none' ? [style.gradientColor] : []),
+  ...(style.eyeColor ? [style.eyeColor] : [])
+];
+
+export interface StyleWarning {
+  code: 'contrast' | 'inverted';
+  message: string;
+}
+
+export const checkStyleContrast = (style: QrStyle): StyleWarning[] => {
+  const warnings: StyleWarning[] = [];
+  const colors = darkColors(style);
+  const worst = Math.min(...colors.map(c => contrastRatio(c, style.background)));
+  if (worst < MIN_CONTRAST) {
+    warnings.push({ code: 'contrast', message: `Renk kontrastı düşük (${worst.toFixed(1)}:1, en az ${MIN_CONTRAST}:1 önerilir)` });
+  }
+  if (colors.some(c => luminance(c) > luminance(style.background))) {
+    warnings.push({ code: 'inverted', message: 'Kod rengi zeminden açık; birçok okuyucu ters renkli kodları okuyamaz' });
+  }
+  return warnings;
+};
+
+// Geometry, in module units with the quiet zone included
+
+// Corner radii: top-left, top-right, bottom-right, bottom-left
+type Radii = [number, number, number, number];
+
+export type Shape =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; r: Radii }
+  // Finder outline: a square ring one module thick
+  | { kind: 'ring'; x: number; y: number; size: number; r: number };
+
+export interface StyledLayout {
+  dim: number;
+  modules: Shape[];
+  eyes: Shape[];
+  logoBox: { x: number; y: number; size: number } | null;
+}
+
+const FINDER_SIZE = 7;
+
+const isFinderModule = (x: number, y: number, size: number) =>
+  (x < FINDER_SIZE && y < FINDER_SIZE) || (x >= size - FINDER_SIZE && y < FINDER_SIZE) || (x < FINDER_SIZE && y >= size - FINDER_SIZE);
+
+const EYE_RADII: Record<QrStyle['eyeStyle'], { ring: number; center: number }> = {
+  square: { ring: 0, center: 0 },
+  rounded: { ring: 2, center: 1 },
+  circle: { ring: 3.5, center: 1.5 }
+};
+
+export const layoutSymbol = (symbol: QrSymbol, quietZone: number, style: QrStyle): StyledLayout => {
+  const { size, modules: grid } = symbol;
+  const q = quietZone;
+  const dim = size + q * 2;
+
+  // Modules under the logo and half a module of padding around it are left light
+  let logoBox: StyledLayout['logoBox'] = null;
+  let hidden = (_x: number, _y: number) => false;
+  if (style.logo) {
+    const logoSize = size * Math.min(Math.max(style.logoSize, MIN_LOGO_SIZE), MAX_LOGO_SIZE);
+    const start = (size - logoSize) / 2;
+    logoBox = { x: start + q, y: start + q, size: logoSize };
+    hidden = (x, y) => x + 1 > start - 0.5 && x < start + logoSize + 0.5 && y + 1 > start - 0.5 && y < start + logoSize + 0.5;
+  }
+  const dark = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < size && y < size && grid[y][x] && !isFinderModule(x, y, size) && !hidden(x, y);
+
+  const modules: Shape[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!dark(x, y)) continue;
+      if (style.moduleShape === 'square') {
+        // Merge horizontal runs to keep SVG/PDF output small
+        const start = x;
+        while (dark(x + 1, y)) x++;
+        modules.push({ kind: 'rect', x: start + q, y: y + q, w: x - start + 1, h: 1, r: [0, 0, 0, 0] });
+      } else if (style.moduleShape === 'dots') {
+        modules.push({ kind: 'rect', x: x + q + 0.075, y: y + q + 0.075, w: 0.85, h: 0.85, r: [0.425, 0.425, 0.425, 0.425] });
+      } else {
+        // Only outer corners are rounded, so neighbouring modules join into smooth blobs
+        const up = dark(x, y - 1);
+        const down = dark(x, y + 1);
+        const left = dark(x - 1, y);
+        const right = dark(x + 1, y);
+        const r = 0.5;
+        modules.push({
+          kind: 'rect', x: x + q, y: y + q, w: 1, h: 1,
+          r: [!up && !left ? r : 0, !up && !right ? r : 0, !down && !right ? r : 0, !down && !left ? r : 0]
+        });
+      }
+    }
+  }
+
+  const { ring, center } = EYE_RADII[style.eyeStyle];
+  const eyes: Shape[] = [];
+  for (const [ex, ey] of [[0, 0], [size - FINDER_SIZE, 0], [0, size - FINDER_SIZE]]) {
+    eyes.push({ kind: 'ring', x: ex + q, y: ey + q, size: FINDER_SIZE, r: ring });
+    eyes.push({ kind: 'rect', x: ex + q + 2, y: ey + q + 2, w: 3, h: 3, r: [center, center, center, center] });
+  }
+
+  return { dim, modules, eyes, logoBox };
+};
+
+// Path tracing shared by the canvas, SVG and PDF renderers
+
+export interface PathSink {
+  moveTo: (x: number, y: number) => void;
+  lineTo: (x: number, y: number) => void;
+  curveTo: (c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number) => void;
+  close: () => void;
+}
+
+type Segment = { c?: [number, number, number, number]; to: [number, number] };
+
+// Cubic Bézier approximation of a quarter circle
+const KAPPA = 0.5523;
+
+const roundedRectSegments = (x: number, y: number, w: number, h: number, [tl, tr, br, bl]: Radii) => {
+  const seg = (toX: number, toY: number, c?: Segment['c']): Segment => ({ to: [toX, toY], c });
+  const k = KAPPA;
+  return {
+    start: [x + tl, y] as [number, number],
+    segments: [
+      seg(x + w - tr, y),
+      seg(x + w, y + tr, [x + w - tr + tr * k, y, x + w, y + tr - tr * k]),
+      seg(x + w, y + h - br),
+      seg(x + w - br, y + h, [x + w, y + h - br + br * k, x + w - br + br * k, y + h]),
+      seg(x + bl, y + h),
+      seg(x, y + h - bl, [x + bl - bl * k, y + h, x, y + h - bl + bl * k]),
+      seg(x, y + tl),
+      seg(x + tl, y, [x, y + tl - tl * k, x + tl - tl * k, y])
+    // Square corners collapse to a point, so their curve segments can be dropped
+    ].filter((s, i) => i % 2 === 0 || [tr, br, bl, tl][(i - 1) / 2] > 0)
+  };
+};
+
+const traceRoundedRect = (sink: PathSink, x: number, y: number, w: number, h: number, radii: Radii, reverse = false) => {
+  const { start, segments } = roundedRectSegments(x, y, w, h, radii);
+  sink.moveTo(...start);
+  if (!reverse) {
+    for (const s of segments) {
+      if (s.c) sink.curveTo(...s.c, ...s.to);
+      else sink.lineTo(...s.to);
+    }
+  } else {
+    // Walk the outline backwards (swapping control points) so a hole winds the other way
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const s = segments[i];
+      const from = i > 0 ? segments[i - 1].to : start;
+      if (s.c) sink.curveTo(s.c[2], s.c[3], s.c[0], s.c[1], ...from);
+      else sink.lineTo(...from);
+    }
+  }
+  sink.close();
+};
+
+// Everything is traced with non-zero winding, so ring holes run counter-clockwise
+export const traceShapes = (sink: PathSink, shapes: Shape[], scale = 1) => {
+  const s = (n: number) => n * scale;
+  for (const shape of shapes) {
+    if (shape.kind === 'rect') {
+      traceRoundedRect(sink, s(shape.x), s(shape.y), s(shape.w), s(shape.h), shape.r.map(s) as Radii);
+    } else {
+      const outer = s(shape.r);
+      const inner = s(Math.max(shape.r - 1, 0));
+      traceRoundedRect(sink, s(shape.x), s(shape.y), s(shape.size), s(shape.size), [outer, outer, outer, outer]);
+      traceRoundedRect(sink, s(shape.x + 1), s(shape.y + 1), s(shape.size - 2), s(shape.size - 2), [inner, inner, inner, inner], true);
+    }
+  }
+};
+
+const num = (n: number) => parseFloat(n.toFixed(3)).toString();
+
+export const shapesToSvgPath = (shapes: Shape[]) => {
+  let d = '';
+  traceShapes(
+    {
+      moveTo: (x, y) => (d += `M${num(x)} ${num(y)}`),
+      lineTo: (x, y) => (d += `L${num(x)} ${num(y)}`),
+      curveTo: (a, b, c, e, x, y) => (d += `C${num(a)} ${num(b)} ${num(c)} ${num(e)} ${num(x)} ${num(y)}`),
+      close: () => (d += 'Z')
+    },
+    shapes
+  );
+  return d;
+};
+
+// Gradient end points in module units, spanning the symbol without its quiet zone
+export const gradientGeometry = (layout: StyledLayout, quietZone: number, style: QrStyle) => {
+  const size = layout.dim - quietZone * 2;
+  const c = layout.dim / 2;
+  const rad = (style.gradientAngle * Math.PI) / 180;
+  const dx = (Math.cos(rad) * size) / 2;
+  const dy = (Math.sin(rad) * size) / 2;
+  return { x1: c - dx, y1: c - dy, x2: c + dx, y2: c + dy, cx: c, cy: c, r: (size / 2) * Math.SQRT2 };
+};
+
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Logo yüklenemedi'));
+    img.src = src;
+  });
+
+// Letterboxes the logo inside its square box
+export const fitLogo = (img: { width: number; height: number }, box: { x: number; y: number; size: number }) => {
+  const ratio = img.width / img.height || 1;
+  const w = ratio >= 1 ? box.size : box.size * ratio;
+  const h = ratio >= 1 ? box.size / ratio : box.size;
+  return { x: box.x + (box.size - w) / 2, y: box.y + (box.size - h) / 2, w, h };
+};
+
+export interface DrawOptions {
+  quietZone: number;
+  transparent?: boolean;
+  logo?: HTMLImageElement | null;
+}
+
+export const drawStyledSymbol = (
+  ctx: CanvasRenderingContext2D,
+  symbol: QrSymbol,
+  pixelSize: number,
+  style: QrStyle,
+  { quietZone, transparent = false, logo = null }: DrawOptions
+) => {
+  const layout = layoutSymbol(symbol, quietZone, style);
+  const scale = pixelSize / layout.dim;
+
+  ctx.clearRect(0, 0, pixelSize, pixelSize);
+  if (!transparent) {
+    ctx.fillStyle = style.background;
+    ctx.fillRect(0, 0, pixelSize, pixelSize);
+  }
+
+  let fill: string | CanvasGradient = style.foreground;
+  if (style.gradient !== 'none') {
+    const g = gradientGeometry(layout, quietZone, style);
+    const gradient =
+      style.gradient === 'linear'
+        ? ctx.createLinearGradient(g.x1 * scale, g.y1 * scale, g.x2 * scale, g.y2 * scale)
+        : ctx.createRadialGradient(g.cx * scale, g.cy * scale, 0, g.cx * scale, g.cy * scale, g.r * scale);
+    gradient.addColorStop(0, style.foreground);
+    gradient.addColorStop(1, style.gradientColor);
+    fill = gradient;
+  }
+
+  const fillShapes = (shapes: Shape[], color: string | CanvasGradient) => {
+    const path = new Path2D();
+    traceShapes(
+      {
+        moveTo: (x, y) => path.moveTo(x, y),
+        lineTo: (x, y) => path.lineTo(x, y),
+        curveTo: (a, b, c, d, x, y) => path.bezierCurveTo(a, b, c, d, x, y),
+        close: () => path.closePath()
+      },
+      shapes,
+      scale
+    );
+    ctx.fillStyle = color;
+    ctx.fill(path);
+  };
+
+  fillShapes(layout.modules, fill);
+  fillShapes(layout.eyes, style.eyeColor || fill);
+
+  if (layout.logoBox && logo) {
+    const box = fitLogo(logo, layout.logoBox);
+    ctx.drawImage(logo, box.x * scale, box.y * scale, box.w * scale, box.h * scale);
+  }
+};
+
+export interface ScanCheck {
+  decoded: boolean;
+  matches: boolean;
+}
+
+// Renders the styled symbol at a comfortable resolution and reads it back the way the scanner does
+export const verifyStyledSymbol = async (symbol: QrSymbol, style: QrStyle, quietZone: number, expected: string): Promise<ScanCheck> => {
+  const dim = symbol.size + quietZone * 2;
+  const pixelSize = Math.min(Math.max(dim * 4, 240), 1000);
+  const canvas = document.createElement('canvas');
+  canvas.width = pixelSize;
+  canvas.height = pixelSize;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { decoded: false, matches: false };
+
+  const logo = style.logo ? await loadImage(style.logo) : null;
+  drawStyledSymbol(ctx, symbol, pixelSize, style, { quietZone, logo });
+
+  const image = ctx.getImageData(0, 0, pixelSize, pixelSize);
+  const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+  return { decoded: !!code, matches: code?.data === expected };
+};
@@ -1,84 +1,284 @@
-import { QRType, ScannedResult } from '../types';
+import { QRType, ParsedPayload, PatternRule, WifiConfig, EmailConfig, SmsConfig, GeoConfig, GeneratorInputs } from '../types';
+import { escapeMecardValue, unescapeMecardValue, splitMecardFields, stripQuotes } from './mecard';
+import { parseContact } from './contact';
+import { parseEvent } from './calendar';
+import { parseGeo, generateGeoString, normalizeGeoInput } from './geo';
+import { safeDecode } from './encoding';
+import { parsePayment, validatePayment } from './emvco';
+import { parseGs1 } from './gs1';
+import { classifyContent } from './detection';
+import { matchRule } from './patternRules';
 
-export const detectQRType = (data: string): QRType => {
-  if (data.startsWith('http://') || data.startsWith('https://') || data.startsWith('www.')) return QRType.URL;
-  if (data.startsWith('mailto:')) return QRType.EMAIL;
-  if (data.startsWith('tel:')) return QRType.PHONE;
-  if (data.startsWith('WIFI:')) return QRType.WIFI;
-  if (data.startsWith('geo:')) return QRType.GEO;
-  return QRType.TEXT;
+export { escapeMecardValue, unescapeMecardValue, splitMecardFields, parseGeo, generateGeoString };
+
+export const QR_TYPE_LABELS: Record<QRType, string> = {
+  [QRType.URL]: 'Bağlantı',
+  [QRType.TEXT]: 'Metin',
+  [QRType.EMAIL]: 'E-posta',
+  [QRType.PHONE]: 'Telefon',
+  [QRType.WIFI]: 'WiFi',
+  [QRType.GEO]: 'Konum',
+  [QRType.CONTACT]: 'Kişi',
+  [QRType.EVENT]: 'Etkinlik',
+  [QRType.SMS]: 'SMS',
+  [QRType.PAYMENT]: 'Ödeme',
+  [QRType.GS1]: 'GS1 Ürün',
+  [QRType.CUSTOM]: 'Özel Kural'
 };
 
-// Helper to safely handle clipboard operations which might be blocked by browsers
-// if not triggered by explicit user interaction or if document lacks focus.
-const safeCopy = async (text: string) => {
-  if (!navigator.clipboard) return;
-  try {
-    // Attempt to focus window first if possible (helps in some iframe contexts)
-    if (window.focus) window.focus();
-    await navigator.clipboard.writeText(text);
-  } catch (err) {
-    console.warn("Clipboard write failed (likely due to lack of user gesture or focus):", err);
+export const detectQRType = (data: string): QRType => classifyContent(data).type;
+
+export const parseWifi = (data: string): WifiConfig => {
+  const fields = splitMecardFields(data.replace(/^WIFI:/i, ''));
+  const config: WifiConfig = { ssid: '', password: '', encryption: 'nopass', hidden: false };
+
+  for (const [key, rawValue] of fields) {
+    const value = unescapeMecardValue(stripQuotes(rawValue));
+    switch (key) {
+      case 'S':
+        config.ssid = value;
+        break;
+      case 'P':
+        config.password = value;
+        break;
+      case 'T': {
+        const t = value.toUpperCase();
+        if (t === 'WEP') config.encryption = 'WEP';
+        else if (t === '' || t === 'NOPASS') config.encryption = 'nopass';
+        else config.encryption = 'WPA'; // WPA, WPA2, WPA3/SAE all join the same way
+        break;
+      }
+      case 'H':
+        config.hidden = value.toLowerCase() === 'true';
+        break;
+    }
   }
+
+  if (config.encryption === 'nopass') config.password = '';
+  return config;
 };
 
-export const performAction = (data: string, type: QRType) => {
-  console.log(`Performing action for ${type}: ${data}`);
-  
+export const parseEmail = (data: string): EmailConfig => {
+  const rest = data.replace(/^mailto:/i, '');
+  const queryStart = rest.indexOf('?');
+  const to = safeDecode(queryStart === -1 ? rest : rest.slice(0, queryStart));
+  const config: EmailConfig = { to, subject: '', body: '' };
+
+  if (queryStart !== -1) {
+    for (const pair of rest.slice(queryStart + 1).split('&')) {
+      const eq = pair.indexOf('=');
+      const key = (eq === -1 ? pair : pair.slice(0, eq)).toLowerCase();
+      const value = eq === -1 ? '' : safeDecode(pair.slice(eq + 1));
+      if (key === 'subject') config.subject = value;
+      else if (key === 'body') config.body = value;
+    }
+  }
+  return config;
+};
+
+export const parsePhone = (data: string) => data.replace(/^tel:/i, '').trim();
+
+export const parseSms = (data: string): SmsConfig => {
+  // SMSTO:number:body - the body may itself contain colons
+  const legacy = data.match(/^(?:SMSTO|MMSTO):([^:]*)(?::([\s\S]*))?$/i);
+  if (legacy) return { number: legacy[1].trim(), body: legacy[2] ?? '' };
+
+  // sms:number?body=... (RFC 5724)
+  const rest = data.replace(/^(?:sms|mms):/i, '');
+  const queryStart = rest.indexOf('?');
+  const number = safeDecode(queryStart === -1 ? rest : rest.slice(0, queryStart)).trim();
+  let body = '';
+  if (queryStart !== -1) {
+    for (const pair of rest.slice(queryStart + 1).split('&')) {
+      const eq = pair.indexOf('=');
+      if (eq !== -1 && pair.slice(0, eq).toLowerCase() === 'body') body = safeDecode(pair.slice(eq + 1));
+    }
+  }
+  return { number, body };
+};
+
+export const parseQRPayload = (raw: string, type: QRType = detectQRType(raw), rules?: PatternRule[]): ParsedPayload => {
+  // Whitespace around a structured payload is scanner noise; plain text is kept as-is
+  const data = type === QRType.TEXT ? raw : raw.trim();
   switch (type) {
     case QRType.URL:
-      let url = data;
-      if (data.startsWith('www.')) url = `https://${data}`;
-      // Open immediately
-      // Note: Some browsers might block popups here since this isn't a direct click event.
-      const newWindow = window.open(url, '_blank');
-      // Fallback if popup blocked: Redirect current window
-      if (!newWindow || newWindow.closed || typeof newWindow.closed == 'undefined') {
-         window.location.href = url;
-      }
-      break;
+      // Bare domains and "www." links default to https
+      return { type, url: /^[a-z][a-z0-9+.-]*:\/\//i.test(data) ? data : `https://${data}` };
+    case QRType.EMAIL:
+      return { type, email: parseEmail(data) };
+    case QRType.PHONE:
+      return { type, phone: parsePhone(data) };
+    case QRType.SMS:
+      return { type, sms: parseSms(data) };
+    case QRType.WIFI:
+      return { type, wifi: parseWifi(data) };
+    case QRType.GEO:
+      return { type, geo: parseGeo(data) };
+    case QRType.CONTACT:
+      return { type, contact: parseContact(data) };
+    case QRType.EVENT:
+      return { type, event: parseEvent(data) };
+    case QRType.PAYMENT:
+      return { type, payment: parsePayment(data) };
+    case QRType.GS1:
+      return { type, gs1: parseGs1(data) };
+    case QRType.CUSTOM: {
+      // The rules may have changed since detection; without a match it is just text
+      const match = matchRule(data, rules);
+      return match ? { type, rule: match.rule, value: match.value } : { type: QRType.TEXT, text: raw };
+    }
+    default:
+      return { type: QRType.TEXT, text: data };
+  }
+};
+
+// Validation: each validator returns a message per invalid field, an empty object when all is well
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+const EMAIL_RE = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+// E.164: "+", country code, at most 15 digits in total
+const E164_RE = /^\+[1-9]\d{1,14}$/;
+
+export const validateUrl = (url: string): string | undefined => {
+  const value = url.trim();
+  if (!value || value === 'https://' || value === 'http://') return 'Adres zorunlu';
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:/i.test(value) ? value : `https://${value}`);
+  } catch {
+    return 'Geçersiz adres';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'Adres http:// veya https:// ile başlamalı';
+  if (parsed.hostname !== 'localhost' && !parsed.hostname.includes('.')) return 'Alan adı eksik (ör. ornek.com)';
+  return undefined;
+};
+
+// Spaces, dashes, dots and brackets are accepted as separators and dropped
+export const normalizePhone = (phone: string) => phone.replace(/[\s\-().]/g, '');
+
+export const validatePhone = (phone: string): string | undefined => {
+  const value = normalizePhone(phone);
+  if (!value) return 'Telefon numarası zorunlu';
+  if (/[^\d+]/.test(value)) return 'Numara yalnızca rakam içermeli';
+  if (!value.startsWith('+')) return 'Numara ülke koduyla başlamalı (ör. +905321234567)';
+  if (!E164_RE.test(value)) return 'Numara E.164 biçiminde olmalı: + ve en fazla 15 rakam';
+  return undefined;
+};
+
+export const validateEmail = (config: EmailConfig): FieldErrors<EmailConfig> => {
+  const errors: FieldErrors<EmailConfig> = {};
+  // mailto allows several recipients separated by commas
+  const recipients = config.to.split(',').map(r => r.trim()).filter(Boolean);
+  if (!recipients.length) errors.to = 'Alıcı adresi zorunlu';
+  else {
+    const invalid = recipients.find(r => !EMAIL_RE.test(r));
+    if (invalid) errors.to = `Geçersiz e-posta adresi: ${invalid}`;
+  }
+  return errors;
+};
+
+export const validateWifi = (config: WifiConfig): FieldErrors<WifiConfig> => {
+  const errors: FieldErrors<WifiConfig> = {};
+  if (!config.ssid) errors.ssid = 'Ağ adı zorunlu';
+  else if (new TextEncoder().encode(config.ssid).length > 32) errors.ssid = 'Ağ adı en fazla 32 bayt olabilir';
+  const pass = config.password;
+  if (config.encryption === 'WPA') {
+    if (!pass) errors.password = 'Şifre zorunlu';
+    else if (!(pass.length >= 8 && pass.length <= 63) && !/^[0-9a-f]{64}$/i.test(pass)) errors.password = 'WPA şifresi 8-63 karakter olmalı';
+  } else if (config.encryption === 'WEP') {
+    if (!pass) errors.password = 'Şifre zorunlu';
+    else if (![5, 13].includes(pass.length) && !/^(?:[0-9a-f]{10}|[0-9a-f]{26})$/i.test(pass)) {
+      errors.password = 'WEP anahtarı 5 veya 13 karakter (ya da 10 veya 26 onaltılık rakam) olmalı';
+    }
+  }
+  return errors;
+};
+
+export const validateGeo = (geo: GeoConfig): FieldErrors<GeoConfig> => {
+  const { errors } = normalizeGeoInput(geo);
+  const result: FieldErrors<GeoConfig> = { ...errors };
+  if (!geo.lat.trim()) result.lat = 'Enlem zorunlu';
+  if (!geo.lng.trim()) result.lng = 'Boylam zorunlu';
+  return result;
+};
 
+// Generator form state, keyed by field name
+export const validateInputs = (inputs: GeneratorInputs): Record<string, string | undefined> => {
+  switch (inputs.type) {
+    case QRType.URL:
+      return { url: validateUrl(inputs.url) };
+    case QRType.PHONE:
+      return { phone: validatePhone(inputs.phone) };
     case QRType.EMAIL:
-      window.location.href = data;
-      break;
+      return validateEmail(inputs.email);
+    case QRType.WIFI:
+      return validateWifi(inputs.wifi);
+    case QRType.GEO:
+      return validateGeo(inputs.geo);
+    case QRType.PAYMENT:
+      return validatePayment(inputs.payment);
+    default:
+      return {};
+  }
+};
 
+// Scanned or imported payloads, after parsing
+export const validatePayload = (raw: string, type: QRType = detectQRType(raw)): string[] => {
+  const parsed = parseQRPayload(raw, type);
+  let errors: Record<string, string | undefined> = {};
+  switch (parsed.type) {
+    case QRType.URL:
+      errors = { url: validateUrl(parsed.url) };
+      break;
     case QRType.PHONE:
-      window.location.href = data;
+      errors = { phone: validatePhone(parsed.phone) };
       break;
-
-    case QRType.GEO:
-      // geo:37.786971,-122.399677
-      const coords = data.replace('geo:', '');
-      window.open(`https://www.google.com/maps/search/?api=1&query=${coords}`, '_blank');
+    case QRType.EMAIL:
+      errors = validateEmail(parsed.email);
       break;
-
     case QRType.WIFI:
-      // Extract password assuming standard format: WIFI:T:WPA;S:MyNetwork;P:MyPass;;
-      const passMatch = data.match(/P:([^;]+)/);
-      if (passMatch && passMatch[1]) {
-        safeCopy(passMatch[1]);
-        // Stronger feedback for silent success
-        if (navigator.vibrate) navigator.vibrate([100, 50, 100]);
-      }
-      // No alert, just silent copy and vibrate
+      errors = validateWifi(parsed.wifi);
       break;
-
-    default:
-      // Text - Copy immediately and silently
-      safeCopy(data);
-      if (navigator.vibrate) navigator.vibrate(100);
+    case QRType.GEO:
+      errors = validateGeo(parsed.geo);
+      break;
+    case QRType.GS1:
+      errors = { gs1: parsed.gs1.error, ...Object.fromEntries(parsed.gs1.elements.map(e => [e.ai, e.error && `${e.label}: ${e.error}`])) };
       break;
   }
+  return Object.values(errors).filter((e): e is string => !!e);
+};
+
+export const hasErrors = (errors: Record<string, string | undefined>) => Object.values(errors).some(Boolean);
+
+export const downloadFile = (fileName: string, content: string | Blob, mimeType = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const generateWifiString = (ssid: string, pass: string, encryption: string, hidden = false) => {
+  let result = `WIFI:T:${encryption};S:${escapeMecardValue(ssid)};`;
+  if (encryption !== 'nopass') result += `P:${escapeMecardValue(pass)};`;
+  if (hidden) result += 'H:true;';
+  return `${result};`;
 };
 
-export const generateWifiString = (ssid: string, pass: string, encryption: string) => {
-  return `WIFI:T:${encryption};S:${ssid};P:${pass};;`;
+export const generateSmsString = (number: string, body: string) => {
+  return body ? `SMSTO:${number}:${body}` : `SMSTO:${number}`;
 };
 
-export const generateGeoString = (lat: string, lng: string) => {
-  return `geo:${lat},${lng}`;
+export const generateSmsUri = (number: string, body: string) => {
+  const recipient = number.replace(/[^\d+,]/g, '');
+  return body ? `sms:${recipient}?body=${encodeURIComponent(body)}` : `sms:${recipient}`;
 };
 
 export const generateEmailString = (to: string, subject: string, body: string) => {
-  return `mailto:${to}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+  return `mailto:${encodeURI(to).replace(/\?/g, '%3F')}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
 };
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createReedSolomon } from './reedSolomon';
+
+// "HELLO WORLD" as version 1-M: 16 data and 10 EC codewords
+const QR_BLOCK = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17, 196, 35, 39, 119, 235, 215, 231, 226, 93, 23];
+// "123456" as the 10x10 Data Matrix of ISO/IEC 16022 Annex O: 3 data and 5 EC codewords
+const DATA_MATRIX_BLOCK = [142, 164, 186, 114, 25, 5, 88, 102];
+
+const corrupt = (block: number[], positions: number[]) => {
+  const copy = block.slice();
+  for (const p of positions) copy[p] ^= 0x5a;
+  return copy;
+};
+
+describe('QR Reed-Solomon', () => {
+  const rs = createReedSolomon(0x11d, 0);
+
+  it('accepts a clean block', () => {
+    const block = QR_BLOCK.slice();
+    expect(rs.correct(block, 10)).toBe(true);
+    expect(block).toEqual(QR_BLOCK);
+  });
+
+  it.each([[[0]], [[3, 17]], [[1, 8, 12, 20, 25]]])('repairs errors at %j', positions => {
+    const block = corrupt(QR_BLOCK, positions);
+    expect(rs.correct(block, 10)).toBe(true);
+    expect(block).toEqual(QR_BLOCK);
+  });
+
+  it('gives up instead of returning the original with too many errors', () => {
+    const block = corrupt(QR_BLOCK, [0, 2, 4, 6, 8, 10, 12]);
+    const repaired = rs.correct(block, 10);
+    expect(repaired && block.every((b, i) => b === QR_BLOCK[i])).toBe(false);
+  });
+});
+
+describe('Data Matrix Reed-Solomon', () => {
+  const rs = createReedSolomon(0x12d, 1);
+
+  it('accepts a clean block', () => {
+    expect(rs.correct(DATA_MATRIX_BLOCK.slice(), 5)).toBe(true);
+  });
+
+  it.each([[[0]], [[1, 6]]])('repairs errors at %j', positions => {
+    const block = corrupt(DATA_MATRIX_BLOCK, positions);
+    expect(rs.correct(block, 5)).toBe(true);
+    expect(block).toEqual(DATA_MATRIX_BLOCK);
+  });
+});
@@ -0,0 +1,98 @@
+// Reed-Solomon decoding over GF(2^8). QR Code uses the 0x11D polynomial with generator roots
+// from alpha^0, Data Matrix uses 0x12D with roots from alpha^1.
+
+export const createReedSolomon = (primitive: number, firstRoot: number) => {
+  const exp = new Uint8Array(512);
+  const log = new Uint8Array(256);
+  for (let i = 0, x = 1; i < 255; i++) {
+    exp[i] = x;
+    log[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= primitive;
+  }
+  for (let i = 255; i < 512; i++) exp[i] = exp[i - 255];
+
+  const mul = (a: number, b: number) => (a && b ? exp[log[a] + log[b]] : 0);
+  const div = (a: number, b: number) => (a ? exp[log[a] + 255 - log[b]] : 0);
+  const inverseAlpha = (power: number) => exp[(255 - (power % 255)) % 255];
+
+  // Coefficients in ascending order of degree
+  const evalPoly = (poly: number[], x: number) => {
+    let result = 0;
+    for (let i = poly.length - 1; i >= 0; i--) result = mul(result, x) ^ poly[i];
+    return result;
+  };
+
+  const syndromes = (block: number[], eccLen: number) => {
+    const result: number[] = [];
+    for (let j = 0; j < eccLen; j++) {
+      let s = 0;
+      for (const b of block) s = mul(s, exp[j + firstRoot]) ^ b;
+      result.push(s);
+    }
+    return result;
+  };
+
+  // Corrects the block in place (first codeword is the highest degree); false when beyond repair
+  const correct = (block: number[], eccLen: number) => {
+    const synd = syndromes(block, eccLen);
+    if (synd.every(s => s === 0)) return true;
+
+    // Berlekamp-Massey for the error locator
+    let locator = [1];
+    let previous = [1];
+    let errors = 0;
+    let shift = 1;
+    let lastDiscrepancy = 1;
+    for (let k = 0; k < eccLen; k++) {
+      let d = synd[k];
+      for (let i = 1; i <= errors; i++) d ^= mul(locator[i] || 0, synd[k - i]);
+      if (d === 0) {
+        shift++;
+        continue;
+      }
+      const coef = div(d, lastDiscrepancy);
+      const next = locator.slice();
+      while (next.length < previous.length + shift) next.push(0);
+      previous.forEach((p, i) => (next[i + shift] ^= mul(coef, p)));
+      if (2 * errors <= k) {
+        previous = locator;
+        errors = k + 1 - errors;
+        lastDiscrepancy = d;
+        shift = 1;
+      } else {
+        shift++;
+      }
+      locator = next;
+    }
+    if (2 * errors > eccLen) return false;
+
+    // Chien search: an error at degree p makes alpha^-p a root of the locator
+    const positions: number[] = [];
+    for (let p = 0; p < block.length; p++) {
+      if (evalPoly(locator, inverseAlpha(p)) === 0) positions.push(p);
+    }
+    if (positions.length !== errors) return false;
+
+    // Forney: magnitude = X^(1 - firstRoot) * omega(X^-1) / locator'(X^-1)
+    const omega = synd.map((_, i) => {
+      let sum = 0;
+      for (let j = 0; j <= i && j < locator.length; j++) sum ^= mul(synd[i - j], locator[j]);
+      return sum;
+    });
+    for (const p of positions) {
+      const xInverse = inverseAlpha(p);
+      let denominator = 0;
+      // The formal derivative keeps only the odd terms in characteristic 2
+      for (let i = 1; i < locator.length; i += 2) denominator ^= mul(locator[i], exp[(log[xInverse] * (i - 1)) % 255]);
+      if (denominator === 0) return false;
+      const scale = exp[(((p * (1 - firstRoot)) % 255) + 255) % 255];
+      block[block.length - 1 - p] ^= mul(scale, div(evalPoly(omega, xInverse), denominator));
+    }
+    return syndromes(block, eccLen).every(s => s === 0);
+  };
+
+  return { correct };
+};
+
+export type ReedSolomon = ReturnType<typeof createReedSolomon>;
@@ -0,0 +1,104 @@
+import { SignatureCheck, SigningKey, TrustedKey } from '../types';
+import { STORES, deleteOne, getAll, getOne, putMany } from './db';
+
+// Signed payloads: ECDSA P-256 over SHA-256, carried in front of the payload as
+//
+//   QRS1:<key id>:<signature>:<payload>
+//
+// The key id is the first 4 bytes of SHA-256(public key) in hex, the signature is the 64-byte
+// r||s pair in base64url and covers "<key id>:<payload>" in UTF-8. The payload is left as is,
+// so a protected code can wrap a signed one and the other way round; the scanner unlocks a
+// protected payload found inside a signature and keeps the verdict for the opened content.
+
+export const SIGNED_PREFIX = 'QRS1:';
+
+const ECDSA = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+const SIGNED_RE = /^QRS1:([0-9a-f]{8}):([A-Za-z0-9_-]{86}):/;
+
+export class SigningError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SigningError';
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const keyIdFor = async (publicKey: Uint8Array) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey)).slice(0, 4), b => b.toString(16).padStart(2, '0')).join('');
+
+const importPublicKey = (publicKey: Uint8Array) => crypto.subtle.importKey('raw', publicKey, ECDSA, false, ['verify']);
+
+export const isSignedPayload = (text: string) => text.startsWith(SIGNED_PREFIX);
+
+// Own key pair
+
+export const loadSigningKey = async () => (await getAll<SigningKey>(STORES.signingKeys))[0];
+
+// Replaces any existing pair; the new public key is trusted on this device straight away
+export const createSigningKey = async (name: string) => {
+  const pair = await crypto.subtle.generateKey(ECDSA, false, ['sign', 'verify']);
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const key: SigningKey = { id: await keyIdFor(raw), name, privateKey: pair.privateKey, publicKey: toBase64Url(raw), createdAt: Date.now() };
+  const previous = await loadSigningKey();
+  if (previous) await deleteOne(STORES.signingKeys, previous.id);
+  await putMany(STORES.signingKeys, [key]);
+  await putMany<TrustedKey>(STORES.trustedKeys, [{ id: key.id, name, publicKey: key.publicKey, addedAt: key.createdAt }]);
+  return key;
+};
+
+export const deleteSigningKey = (key: SigningKey) => deleteOne(STORES.signingKeys, key.id);
+
+export const signPayload = async (text: string, key: SigningKey) => {
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, new TextEncoder().encode(`${key.id}:${text}`))
+  );
+  return `${SIGNED_PREFIX}${key.id}:${toBase64Url(signature)}:${text}`;
+};
+
+// Trusted keys
+
+export const loadTrustedKeys = async () =>
+  (await getAll<TrustedKey>(STORES.trustedKeys)).sort((a, b) => a.name.localeCompare(b.name, 'tr'));
+
+// Takes the public key as shared by the signer (base64url, as shown in the Generator)
+export const addTrustedKey = async (name: string, publicKeyText: string) => {
+  if (!name.trim()) throw new SigningError('Anahtar adı zorunlu');
+  let raw: Uint8Array;
+  try {
+    raw = fromBase64Url(publicKeyText.trim());
+    await importPublicKey(raw);
+  } catch {
+    throw new SigningError('Geçersiz genel anahtar');
+  }
+  const key: TrustedKey = { id: await keyIdFor(raw), name: name.trim(), publicKey: toBase64Url(raw), addedAt: Date.now() };
+  await putMany(STORES.trustedKeys, [key]);
+  return key;
+};
+
+export const removeTrustedKey = (key: TrustedKey) => deleteOne(STORES.trustedKeys, key.id);
+
+// Splits a signed code into its payload and the verdict on its signature. A code that carries the
+// prefix but cannot be parsed counts as tampered, since the prefix was clearly meant to be there.
+export const verifySignedPayload = async (text: string): Promise<{ payload: string; check: SignatureCheck }> => {
+  const match = SIGNED_RE.exec(text);
+  if (!match) return { payload: text, check: { status: 'tampered', keyId: '' } };
+  const [header, keyId, signature] = match;
+  const payload = text.slice(header.length);
+  const trusted = await getOne<TrustedKey>(STORES.trustedKeys, keyId);
+  if (!trusted) return { payload, check: { status: 'unverified', keyId } };
+  const valid = await crypto.subtle.verify(
+    SIGN_PARAMS,
+    await importPublicKey(fromBase64Url(trusted.publicKey)),
+    fromBase64Url(signature),
+    new TextEncoder().encode(`${keyId}:${payload}`)
+  );
+  return { payload, check: { status: valid ? 'verified' : 'tampered', keyId, keyName: trusted.name } };
+};
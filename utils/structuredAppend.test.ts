@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { SymbolOptions } from '../types';
+import { QrSymbol } from './qrEncoder';
+import { RgbaImage, decodeQr } from './qrDecoder';
+import {
+  AppendSet,
+  StructuredAppendError,
+  appendParity,
+  assembleAppendSet,
+  collectAppendPart,
+  missingAppendParts,
+  splitStructuredAppend
+} from './structuredAppend';
+
+const OPTIONS: SymbolOptions = { ecLevel: 'M', minVersion: 1, quietZone: 4 };
+
+const renderSymbol = (symbol: QrSymbol, scale = 3, quietZone = 4): RgbaImage => {
+  const width = (symbol.size + quietZone * 2) * scale;
+  const data = new Uint8ClampedArray(width * width * 4).fill(255);
+  symbol.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (!dark) return;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const i = (((y + quietZone) * scale + dy) * width + (x + quietZone) * scale + dx) * 4;
+          data.fill(0, i, i + 3);
+        }
+      }
+    })
+  );
+  return { data, width, height: width };
+};
+
+const scanAll = (symbols: QrSymbol[]) =>
+  symbols.map(symbol => {
+    const decoded = decodeQr(renderSymbol(symbol));
+    if (!decoded) throw new Error('Part not readable');
+    return decoded;
+  });
+
+describe('Structured Append', () => {
+  const text = 'Uzun bir metin: ' + 'çağrı merkezi 0850 '.repeat(20);
+
+  it('splits into parts of one version that each fit the limit', () => {
+    const symbols = splitStructuredAppend(text, OPTIONS, 5);
+    expect(symbols.length).toBeGreaterThan(1);
+    expect(new Set(symbols.map(s => s.version)).size).toBe(1);
+    expect(symbols[0].version).toBeLessThanOrEqual(5);
+  });
+
+  it('reads the parts back in any order', () => {
+    const parts = scanAll(splitStructuredAppend(text, OPTIONS, 5));
+    let set: AppendSet | null = null;
+    for (const part of parts.slice().reverse()) {
+      expect(part.structuredAppend?.total).toBe(parts.length);
+      expect(part.structuredAppend?.parity).toBe(appendParity(new TextEncoder().encode(text)));
+      set = collectAppendPart(set, part);
+    }
+    expect(missingAppendParts(set!)).toEqual([]);
+    expect(assembleAppendSet(set!)).toBe(text);
+  });
+
+  it('lists the parts still missing', () => {
+    const [first, , third] = scanAll(splitStructuredAppend(text, OPTIONS, 5));
+    const set = collectAppendPart(collectAppendPart(null, first), third);
+    expect(missingAppendParts(set)).toContain(1);
+    expect(() => assembleAppendSet(set)).toThrow(StructuredAppendError);
+  });
+
+  it('starts over when a part of another set turns up', () => {
+    const [a] = scanAll(splitStructuredAppend(text, OPTIONS, 5));
+    const [b] = scanAll(splitStructuredAppend(text + '!', OPTIONS, 5));
+    const set = collectAppendPart(collectAppendPart(null, a), b);
+    expect(set.parity).toBe(b.structuredAppend?.parity);
+    expect(set.parts.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('rejects parts whose bytes do not match the parity', () => {
+    const parts = scanAll(splitStructuredAppend(text, OPTIONS, 5));
+    const set = parts.reduce<AppendSet | null>((current, part) => collectAppendPart(current, part), null)!;
+    set.parts[0] = new TextEncoder().encode('değişmiş');
+    expect(() => assembleAppendSet(set)).toThrow('eşlik');
+  });
+
+  it('refuses content that needs more than 16 parts', () => {
+    expect(() => splitStructuredAppend('x'.repeat(2000), OPTIONS, 1)).toThrow(StructuredAppendError);
+  });
+});
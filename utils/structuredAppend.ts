@@ -0,0 +1,130 @@
+import { SymbolOptions } from '../types';
+import { QrCapacityError, QrSymbol, encodeSegments, makeSegments, makeStructuredAppendSegment } from './qrEncoder';
+import { DecodedQr, decodeQrBytes } from './qrDecoder';
+import { ExportOptions, symbolToPng, symbolToSvg } from './qrExport';
+import { LabelLayout, labelSheetToPdf } from './batch';
+import { createZip } from './zip';
+
+// Structured Append (ISO/IEC 18004 section 8): one message spread over up to 16 symbols, each
+// carrying its position, the set size and a parity byte shared by the whole set
+
+export const MAX_APPEND_SYMBOLS = 16;
+
+export class StructuredAppendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructuredAppendError';
+  }
+}
+
+export const appendParity = (bytes: Uint8Array) => bytes.reduce((parity, b) => parity ^ b, 0);
+
+// Cuts at character boundaries into parts of similar UTF-8 size, so each part is readable text too
+const splitText = (text: string, parts: number) => {
+  const encoder = new TextEncoder();
+  const chars = Array.from(text);
+  if (chars.length < parts) return null;
+  const sizes = chars.map(c => encoder.encode(c).length);
+  const total = sizes.reduce((a, b) => a + b, 0);
+  const chunks: string[] = [];
+  let current = '';
+  let used = 0;
+  chars.forEach((c, i) => {
+    current += c;
+    used += sizes[i];
+    // Leave at least one character for every remaining part
+    const remainingParts = parts - chunks.length - 1;
+    if (remainingParts > 0 && (used >= (total * (chunks.length + 1)) / parts || chars.length - i - 1 === remainingParts)) {
+      chunks.push(current);
+      current = '';
+    }
+  });
+  chunks.push(current);
+  return chunks;
+};
+
+// Uses the fewest symbols that each fit in maxVersion
+export const splitStructuredAppend = (text: string, options: SymbolOptions, maxVersion: number): QrSymbol[] => {
+  const parity = appendParity(new TextEncoder().encode(text));
+  for (let total = 2; total <= MAX_APPEND_SYMBOLS; total++) {
+    const chunks = splitText(text, total);
+    if (!chunks) break;
+    const encode = (minVersion: number) =>
+      chunks.map((chunk, i) =>
+        encodeSegments([makeStructuredAppendSegment(i, total, parity), ...makeSegments(chunk)], options.ecLevel, { minVersion, maxVersion })
+      );
+    try {
+      const symbols = encode(Math.min(options.minVersion, maxVersion));
+      // One size for the whole set, so the parts print evenly
+      return encode(Math.max(...symbols.map(s => s.version)));
+    } catch (e) {
+      if (!(e instanceof QrCapacityError)) throw e;
+    }
+  }
+  throw new StructuredAppendError(
+    `İçerik ${MAX_APPEND_SYMBOLS} parçaya da sığmıyor. Parça başına en büyük sürümü artırın veya hata düzeltme seviyesini düşürün.`
+  );
+};
+
+export const appendFileName = (base: string, index: number, total: number, format: 'png' | 'svg') =>
+  `${base}-${String(index + 1).padStart(2, '0')}-${total}.${format}`;
+
+export const exportAppendZip = async (symbols: QrSymbol[], format: 'png' | 'svg', options: ExportOptions, pixelSize: number, base: string) => {
+  const encoder = new TextEncoder();
+  const entries = [];
+  for (const [i, symbol] of symbols.entries()) {
+    const data =
+      format === 'svg'
+        ? encoder.encode(await symbolToSvg(symbol, options))
+        : new Uint8Array(await (await symbolToPng(symbol, pixelSize, options)).arrayBuffer());
+    entries.push({ name: appendFileName(base, i, symbols.length, format), data });
+  }
+  return createZip(entries);
+};
+
+// Prints the set on a label sheet with "1 / n" under each part
+export const appendSetToPdf = (symbols: QrSymbol[], layout: LabelLayout, options: ExportOptions) =>
+  labelSheetToPdf(
+    symbols.map((symbol, i) => ({ line: i + 1, caption: `${i + 1} / ${symbols.length}`, data: '', symbol })),
+    layout,
+    options
+  );
+
+// Scanner side: parts arrive in any order and are kept until the set is complete
+
+export interface AppendSet {
+  total: number;
+  parity: number;
+  eci?: number;
+  parts: Array<Uint8Array | undefined>;
+}
+
+// Returns the set the part belongs to; a part of another set starts over
+export const collectAppendPart = (current: AppendSet | null, symbol: DecodedQr): AppendSet => {
+  const header = symbol.structuredAppend;
+  if (!header) throw new StructuredAppendError('Sembol bir setin parçası değil');
+  const set =
+    current && current.total === header.total && current.parity === header.parity
+      ? { ...current, parts: current.parts.slice() }
+      : { total: header.total, parity: header.parity, parts: new Array<Uint8Array | undefined>(header.total).fill(undefined) };
+  set.parts[header.index] = symbol.bytes;
+  if (header.index === 0) set.eci = symbol.eci;
+  return set;
+};
+
+export const missingAppendParts = (set: AppendSet) =>
+  set.parts.flatMap((part, i) => (part ? [] : [i]));
+
+export const assembleAppendSet = (set: AppendSet) => {
+  if (missingAppendParts(set).length) throw new StructuredAppendError('Setin tüm parçaları okunmadı');
+  const bytes = new Uint8Array(set.parts.reduce((n, part) => n + (part as Uint8Array).length, 0));
+  let offset = 0;
+  for (const part of set.parts as Uint8Array[]) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  if (appendParity(bytes) !== set.parity) {
+    throw new StructuredAppendError('Parçalar aynı sete ait değil (eşlik baytı tutmuyor)');
+  }
+  return decodeQrBytes(bytes, set.eci);
+};
@@ -0,0 +1,62 @@
+import { Symbology } from '../types';
+import { LinearFormat, decodeLinear } from './barcode1d';
+import { decodeDataMatrix } from './dataMatrixDecoder';
+import { Point, RgbaImage } from './qrDecoder';
+
+export const SYMBOLOGY_LABELS: Record<Symbology, string> = {
+  qr_code: 'QR Code',
+  data_matrix: 'Data Matrix',
+  aztec: 'Aztec',
+  pdf417: 'PDF417',
+  ean_13: 'EAN-13',
+  ean_8: 'EAN-8',
+  upc_a: 'UPC-A',
+  upc_e: 'UPC-E',
+  code_128: 'Code 128',
+  code_39: 'Code 39',
+  code_93: 'Code 93',
+  codabar: 'Codabar',
+  itf: 'ITF'
+};
+
+export const ALL_SYMBOLOGIES = Object.keys(SYMBOLOGY_LABELS) as Symbology[];
+
+const LINEAR_FORMATS: LinearFormat[] = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'code_93', 'codabar', 'itf'];
+
+// Formats read without the native detector; Aztec and PDF417 need browser support
+export const FALLBACK_SYMBOLOGIES: Symbology[] = ['qr_code', 'data_matrix', ...LINEAR_FORMATS];
+
+const ENABLED_SYMBOLOGIES_KEY = 'qr-symbologies';
+
+// Every format is on until the user narrows the list down
+export const loadEnabledSymbologies = (): Symbology[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ENABLED_SYMBOLOGIES_KEY) || 'null');
+    return Array.isArray(saved) ? ALL_SYMBOLOGIES.filter(s => saved.includes(s)) : ALL_SYMBOLOGIES;
+  } catch {
+    return ALL_SYMBOLOGIES;
+  }
+};
+
+export const saveEnabledSymbologies = (symbologies: Symbology[]) => {
+  localStorage.setItem(ENABLED_SYMBOLOGIES_KEY, JSON.stringify(symbologies));
+};
+
+export interface DecodedBarcode {
+  text: string;
+  symbology: Symbology;
+  // Image coordinates: top-left, top-right, bottom-right, bottom-left
+  corners: Point[];
+}
+
+// Our readers for everything but QR Code, which has its own path for Structured Append
+export const decodeBarcode = (image: RgbaImage, symbologies: Symbology[]): DecodedBarcode | null => {
+  const linear = LINEAR_FORMATS.filter(f => symbologies.includes(f));
+  const found = linear.length ? decodeLinear(image, linear) : null;
+  if (found) return { text: found.text, symbology: found.format, corners: found.corners };
+  if (symbologies.includes('data_matrix')) {
+    const matrix = decodeDataMatrix(image);
+    if (matrix) return { text: matrix.text, symbology: 'data_matrix', corners: matrix.corners };
+  }
+  return null;
+};
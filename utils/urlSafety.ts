@@ -0,0 +1,167 @@
+import { QRType, UrlFinding, UrlInspection, UrlLists } from '../types';
+
+// Scheme and host checks run locally before a scanned link is opened (QR phishing / "quishing")
+
+const DANGEROUS_SCHEMES = ['javascript:', 'data:', 'vbscript:', 'file:', 'blob:'];
+
+export const SHORTENER_DOMAINS = [
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'rebrand.ly', 'cutt.ly',
+  'shorturl.at', 'rb.gy', 'tiny.cc', 'bl.ink', 's.id', 't.ly', 'v.gd', 'qrco.de', 'lnkd.in',
+  'shorte.st', 'adf.ly', 'bitly.com', 'tr.im', 'x.co', 'soo.gd', 'u.to', 'clck.ru'
+];
+
+const URL_LISTS_KEY = 'qr-url-lists';
+
+export const loadUrlLists = (): UrlLists => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(URL_LISTS_KEY) || '{}');
+    return { allow: saved.allow ?? [], block: saved.block ?? [] };
+  } catch {
+    return { allow: [], block: [] };
+  }
+};
+
+export const saveUrlLists = (lists: UrlLists) => {
+  localStorage.setItem(URL_LISTS_KEY, JSON.stringify(lists));
+};
+
+// "example.com" matches the domain itself and every subdomain
+const matchesDomain = (host: string, entry: string) => {
+  const domain = entry.trim().toLowerCase().replace(/^\*?\./, '');
+  return !!domain && (host === domain || host.endsWith(`.${domain}`));
+};
+
+// RFC 3492 bootstring parameters
+const PUNY_BASE = 36;
+const PUNY_TMIN = 1;
+const PUNY_TMAX = 26;
+
+const adaptBias = (delta: number, numPoints: number, firstTime: boolean) => {
+  delta = firstTime ? Math.floor(delta / 700) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((PUNY_BASE - PUNY_TMIN) * PUNY_TMAX) >> 1) {
+    delta = Math.floor(delta / (PUNY_BASE - PUNY_TMIN));
+    k += PUNY_BASE;
+  }
+  return k + Math.floor(((PUNY_BASE - PUNY_TMIN + 1) * delta) / (delta + 38));
+};
+
+export const decodePunycodeLabel = (input: string): string => {
+  const output: number[] = [];
+  const basicEnd = Math.max(input.lastIndexOf('-'), 0);
+  for (let j = 0; j < basicEnd; j++) output.push(input.charCodeAt(j));
+
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+  for (let idx = basicEnd > 0 ? basicEnd + 1 : 0; idx < input.length; ) {
+    const oldI = i;
+    let w = 1;
+    for (let k = PUNY_BASE; ; k += PUNY_BASE) {
+      if (idx >= input.length) throw new Error('Invalid punycode');
+      const c = input.charCodeAt(idx++);
+      const digit = c >= 48 && c <= 57 ? c - 22 : c >= 65 && c <= 90 ? c - 65 : c >= 97 && c <= 122 ? c - 97 : PUNY_BASE;
+      if (digit >= PUNY_BASE) throw new Error('Invalid punycode');
+      i += digit * w;
+      const t = k <= bias ? PUNY_TMIN : k >= bias + PUNY_TMAX ? PUNY_TMAX : k - bias;
+      if (digit < t) break;
+      w *= PUNY_BASE - t;
+    }
+    const length = output.length + 1;
+    bias = adaptBias(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i, 0, n);
+    i++;
+  }
+  return String.fromCodePoint(...output);
+};
+
+export const toUnicodeHost = (host: string) =>
+  host
+    .split('.')
+    .map(label => {
+      if (!label.toLowerCase().startsWith('xn--')) return label;
+      try {
+        return decodePunycodeLabel(label.slice(4));
+      } catch {
+        return label;
+      }
+    })
+    .join('.');
+
+// Scripts with letters that are easily mistaken for Latin ones
+const CONFUSABLE_SCRIPTS = /[\p{Script=Cyrillic}\p{Script=Greek}\p{Script=Armenian}\p{Script=Cherokee}]/u;
+const LATIN = /\p{Script=Latin}/u;
+
+const IPV4_HOST = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+export const inspectUrl = (raw: string, lists: UrlLists = loadUrlLists()): UrlInspection => {
+  const data = raw.trim();
+  const findings: UrlFinding[] = [];
+  const lower = data.toLowerCase();
+
+  const scheme = DANGEROUS_SCHEMES.find(s => lower.startsWith(s));
+  if (scheme) {
+    findings.push({ code: 'scheme', severity: 'danger', message: `"${scheme}" bağlantıları kod çalıştırabilir veya içerik gizleyebilir` });
+    return { url: data, host: '', displayHost: '', findings, verdict: 'block', allowListed: false };
+  }
+
+  let url: URL;
+  try {
+    // Bare domains and "www." links are opened as https
+    url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(data) && !/^www\./i.test(data) ? data : `https://${data}`);
+  } catch {
+    findings.push({ code: 'malformed', severity: 'warning', message: 'Bağlantı çözümlenemedi' });
+    return { url: data, host: '', displayHost: '', findings, verdict: 'warn', allowListed: false };
+  }
+
+  // URL() already lower-cases the host and converts Unicode to punycode
+  const host = url.hostname.replace(/\.$/, '');
+  const displayHost = toUnicodeHost(host);
+
+  if (lists.block.some(entry => matchesDomain(host, entry) || matchesDomain(displayHost, entry))) {
+    findings.push({ code: 'blocklist', severity: 'danger', message: 'Alan adı engel listenizde' });
+    return { url: url.href, host, displayHost, findings, verdict: 'block', allowListed: false };
+  }
+  if (lists.allow.some(entry => matchesDomain(host, entry) || matchesDomain(displayHost, entry))) {
+    return { url: url.href, host, displayHost, findings, verdict: 'safe', allowListed: true };
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    findings.push({ code: 'scheme', severity: 'warning', message: `Web dışı bağlantı türü (${url.protocol})` });
+  }
+  if (url.username || url.password) {
+    // "https://bank.com@evil.example" really goes to evil.example
+    findings.push({ code: 'userinfo', severity: 'warning', message: `"@" öncesi kısım yanıltıcı; gerçek hedef ${displayHost}` });
+  }
+  if (host.split('.').some(label => label.startsWith('xn--'))) {
+    findings.push({ code: 'punycode', severity: 'warning', message: `Uluslararası alan adı: ${displayHost}` });
+  }
+  if (CONFUSABLE_SCRIPTS.test(displayHost)) {
+    findings.push({
+      code: 'homoglyph',
+      severity: 'danger',
+      message: LATIN.test(displayHost)
+        ? 'Alan adı Latin harflerle karıştırılabilecek farklı alfabe harfleri içeriyor'
+        : 'Alan adı Latin harflere benzeyen Kiril/Yunan harflerinden oluşuyor'
+    });
+  }
+  if (IPV4_HOST.test(host) || host.startsWith('[')) {
+    findings.push({ code: 'ip', severity: 'warning', message: `Alan adı yerine doğrudan IP adresi (${host})` });
+  }
+  if (url.port) {
+    findings.push({ code: 'port', severity: 'warning', message: `Standart dışı port (${url.port})` });
+  }
+  if (SHORTENER_DOMAINS.some(d => matchesDomain(host, d))) {
+    findings.push({ code: 'shortener', severity: 'warning', message: 'Kısaltılmış bağlantı; gerçek hedef gizli' });
+  }
+
+  // Only script schemes and the block list refuse to open; everything else asks first
+  return { url: url.href, host, displayHost, findings, verdict: findings.length ? 'warn' : 'safe', allowListed: false };
+};
+
+// URL results are always inspected; text is only inspected when it carries a script-capable scheme
+export const shouldInspect = (data: string, type: QRType) =>
+  type === QRType.URL || (type === QRType.GS1 && /^https?:\/\//i.test(data.trim())) || DANGEROUS_SCHEMES.some(s => data.trim().toLowerCase().startsWith(s));
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32 } from './zip';
+
+// Reads the stored entries back through the central directory, as an unzip tool would
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let central = view.getUint32(end + 16, true);
+  const entries: Array<{ name: string; data: Uint8Array; crc: number }> = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    const crc = view.getUint32(central + 16, true);
+    const size = view.getUint32(central + 24, true);
+    const nameLength = view.getUint16(central + 28, true);
+    const offset = view.getUint32(central + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(central + 46, central + 46 + nameLength));
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    entries.push({ name, data: zip.slice(dataStart, dataStart + size), crc });
+    central += 46 + nameLength + view.getUint16(central + 30, true) + view.getUint16(central + 32, true);
+  }
+  return entries;
+};
+
+describe('crc32', () => {
+  it('matches the CRC-32 check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores entries that read back with their names, data and CRC', () => {
+    const files = [
+      { name: 'kod-01-2.png', data: Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2, 3]) },
+      { name: 'şube/çıktı.svg', data: new TextEncoder().encode('<svg/>') }
+    ];
+    const entries = readZip(createZip(files));
+    expect(entries.map(e => e.name)).toEqual(files.map(f => f.name));
+    entries.forEach((entry, i) => {
+      expect(entry.data).toEqual(files[i].data);
+      expect(entry.crc).toBe(crc32(files[i].data));
+    });
+  });
+
+  it('writes an empty archive', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});